@@ -137,6 +137,15 @@ await prisma.user.create({ data });
 await axios.post('/api/users', userData);
 \`\`\`
 
+For generated code or legacy modules, suppress a whole file, the next block, or a region in one place:
+
+\`\`\`typescript
+// @behavioral-contract-ignore-file axios/*: Generated OpenAPI client, callers handle errors
+// @behavioral-contract-ignore-next-block prisma/*: Seed script, failures abort the run
+// @behavioral-contract-ignore-start stripe/*: Legacy billing module, replaced in v3
+// @behavioral-contract-ignore-end
+\`\`\`
+
 ### Method B: Config File (Recommended for Global Rules)
 
 Create \`.behavioralcontractsrc.json\` in project root:
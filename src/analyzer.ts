@@ -11,19 +11,43 @@ import type {
   CallSiteAnalysis,
   AnalyzerConfig,
   Postcondition,
+  PostconditionCheckKind,
+  Precondition,
+  FunctionContract,
+  LineRange,
+  Severity,
+  AnalyzerPass,
 } from './types.js';
+import { isLineInRanges } from './git-diff.js';
+import { createPathFilter, meetsSeverityThreshold } from './filters.js';
 import { ReactQueryAnalyzer } from './analyzers/react-query-analyzer.js';
 import { AsyncErrorAnalyzer } from './analyzers/async-error-analyzer.js';
 import { ReturnValueAnalyzer, type ReturnValueCheck } from './analyzers/return-value-analyzer.js';
 import { EventListenerAnalyzer, type EventListenerCheck } from './analyzers/event-listener-analyzer.js';
+import { runDetectorPlugin, type DetectorPlugin } from './plugins/index.js';
+import { CallGraphAnalyzer, type PropagationResult, type UnhandledCaller } from './analyzers/call-graph-analyzer.js';
+import { InstanceRegistry } from './analyzers/instance-registry.js';
+import { createCodeFix } from './fixes/codemods.js';
+import { isHttpClient, resolvePostconditionCheck, runPostconditionCheck, type CheckFinding } from './checks/index.js';
+import { checkPrecondition } from './preconditions/index.js';
+import { findEnclosingSymbol } from './fingerprint.js';
+import { TOOL_VERSION } from './reporter.js';
 import {
-  checkSuppression,
+  SuppressionSession,
   getSuppressionStats,
   loadManifestSync,
   detectDeadSuppressions,
   formatDeadSuppression
 } from './suppressions/index.js';
-import type { Suppression, DeadSuppression } from './suppressions/types.js';
+import type {
+  MatchedSuppression,
+  DeadSuppression,
+  MovedSuppression,
+  InlineSuppressionComment
+} from './suppressions/types.js';
+
+/** All detection passes, in the order they run */
+export const ANALYZER_PASSES: AnalyzerPass[] = ['async-errors', 'return-values', 'event-listeners', 'preconditions', 'postconditions'];
 
 /**
  * Main analyzer that coordinates the verification process
@@ -33,10 +57,30 @@ export class Analyzer {
   private typeChecker: ts.TypeChecker;
   private contracts: Map<string, PackageContract>;
   private violations: Violation[] = [];
-  private suppressedViolations: Array<{ violation: Violation; suppression: Suppression | any }> = [];
+  private suppressedViolations: Array<{ violation: Violation; suppression: MatchedSuppression }> = [];
+  private movedSuppressions: MovedSuppression[] = [];
+  private warnings: string[] = [];
   private projectRoot: string;
   private includeTests: boolean;
-  private analyzerVersion: string = '1.1.0'; // From package.json
+  private changedRanges: Map<string, LineRange[]> | null;
+  private changedLinesOnly: boolean;
+  private isInScope: (fileName: string) => boolean;
+  private severityThreshold?: Severity;
+  private updateSuppressionManifest: boolean;
+  private passes: Set<AnalyzerPass>;
+  private plugins: DetectorPlugin[];
+  private edgeCases: boolean;
+  private analyzerVersion: string = TOOL_VERSION;
+
+  // Built on first use and refreshed by updateProgram(); see getCallGraph()
+  private callGraph: CallGraphAnalyzer | null = null;
+  // Built on first use and refreshed by updateProgram(); see getInstanceRegistry()
+  private instanceRegistry: InstanceRegistry | null = null;
+  // Violations already reported at a caller during this run (several contract calls can propagate to one caller)
+  private reportedAtCallers: Set<string> = new Set();
+  // Edge cases of the contract functions called in the analyzed files, once per function per file
+  private edgeCaseFindings: Violation[] = [];
+  private reportedEdgeCases: Set<string> = new Set();
 
   // Detection maps built dynamically from contract definitions
   private typeToPackage: Map<string, string>;
@@ -44,9 +88,22 @@ export class Analyzer {
   private factoryToPackage: Map<string, string>;
   private awaitPatternToPackage: Map<string, string>;
 
-  constructor(config: AnalyzerConfig, contracts: Map<string, PackageContract>) {
+  /**
+   * @param config - Analyzer configuration
+   * @param contracts - Loaded package contracts
+   * @param program - Existing program to analyze (e.g., from a watch builder); created from the tsconfig if omitted
+   */
+  constructor(config: AnalyzerConfig, contracts: Map<string, PackageContract>, program?: ts.Program) {
     this.contracts = contracts;
     this.includeTests = config.includeTests ?? false;
+    this.changedLinesOnly = config.changedLinesOnly ?? false;
+    this.updateSuppressionManifest = config.updateSuppressionManifest ?? true;
+    this.passes = new Set(config.passes ?? ANALYZER_PASSES);
+    this.plugins = config.plugins ?? [];
+    this.edgeCases = config.edgeCases ?? false;
+    this.changedRanges = config.changedFiles
+      ? new Map(config.changedFiles.map(c => [path.resolve(c.file), c.ranges]))
+      : null;
 
     // Build detection maps from contract definitions
     this.typeToPackage = new Map();
@@ -55,26 +112,60 @@ export class Analyzer {
     this.awaitPatternToPackage = new Map();
     this.buildDetectionMaps();
 
-    // Create TypeScript program
-    const configFile = ts.readConfigFile(config.tsconfigPath, ts.sys.readFile);
-    const parsedConfig = ts.parseJsonConfigFileContent(
-      configFile.config,
-      ts.sys,
-      path.dirname(config.tsconfigPath)
-    );
-
     // Store project root for file system operations
     this.projectRoot = path.dirname(config.tsconfigPath);
 
-    this.program = ts.createProgram({
-      rootNames: parsedConfig.fileNames,
-      options: parsedConfig.options,
-    });
+    // Scope analysis by include/exclude globs (relative to the tsconfig directory) and severity
+    this.isInScope = createPathFilter(this.projectRoot, config.includePaths, config.excludePaths);
+    this.severityThreshold = config.severityThreshold;
+
+    // Create TypeScript program
+    if (program) {
+      this.program = program;
+    } else {
+      const configFile = ts.readConfigFile(config.tsconfigPath, ts.sys.readFile);
+      const parsedConfig = ts.parseJsonConfigFileContent(
+        configFile.config,
+        ts.sys,
+        path.dirname(config.tsconfigPath)
+      );
+
+      this.program = ts.createProgram({
+        rootNames: parsedConfig.fileNames,
+        options: parsedConfig.options,
+      });
+    }
 
     // Initialize type checker for type-aware detection
     this.typeChecker = this.program.getTypeChecker();
   }
 
+  /**
+   * Replaces the analyzed program (used by watch mode after each rebuild)
+   *
+   * The call graph and instance registry are kept and only refreshed for the
+   * files whose source file changed, so that the language server does not
+   * re-index the whole project on every edit.
+   */
+  updateProgram(program: ts.Program): void {
+    const changedFiles = new Set<string>();
+    for (const sourceFile of program.getSourceFiles()) {
+      if (this.program.getSourceFile(sourceFile.fileName) !== sourceFile) {
+        changedFiles.add(sourceFile.fileName);
+      }
+    }
+    for (const sourceFile of this.program.getSourceFiles()) {
+      if (!program.getSourceFile(sourceFile.fileName)) {
+        changedFiles.add(sourceFile.fileName);
+      }
+    }
+
+    this.program = program;
+    this.typeChecker = program.getTypeChecker();
+    this.callGraph?.updateProgram(program, changedFiles);
+    this.instanceRegistry?.updateProgram(program, changedFiles);
+  }
+
   /**
    * Builds detection maps from contract definitions
    * This replaces hardcoded mappings with data-driven approach
@@ -111,73 +202,186 @@ export class Analyzer {
    * Analyzes all files in the program and returns violations
    */
   analyze(): Violation[] {
+    return this.analyzeSourceFiles(this.program.getSourceFiles(), false);
+  }
+
+  /**
+   * Analyzes only the given files of the program and returns their violations
+   * Files that are not part of the program are ignored
+   */
+  analyzeFiles(fileNames: string[]): Violation[] {
+    const sourceFiles = fileNames
+      .map(fileName => this.program.getSourceFile(fileName))
+      .filter((sourceFile): sourceFile is ts.SourceFile => sourceFile !== undefined);
+
+    return this.analyzeSourceFiles(sourceFiles, true);
+  }
+
+  /**
+   * Analyzes a set of source files and returns unsuppressed violations
+   *
+   * @param sourceFiles - Files to report violations for
+   * @param isSubset - Whether other project files are left out; their wrapper
+   *   functions are analyzed too when they let errors propagate into these files
+   */
+  private analyzeSourceFiles(sourceFiles: readonly ts.SourceFile[], isSubset: boolean): Violation[] {
     this.violations = [];
     this.suppressedViolations = [];
+    this.movedSuppressions = [];
+    this.warnings = [];
+    this.reportedAtCallers = new Set();
+    this.edgeCaseFindings = [];
+    this.reportedEdgeCases = new Set();
 
     // Collect all violations first
     const allViolations: Array<{ violation: Violation; sourceFile: ts.SourceFile }> = [];
 
-    for (const sourceFile of this.program.getSourceFiles()) {
-      // Skip declaration files and node_modules
-      if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('node_modules')) {
-        continue;
-      }
+    // Select the files first: violations can be reported at callers in other analyzed files
+    const analyzedFiles = sourceFiles.filter(sourceFile =>
+      this.isAnalyzableFile(sourceFile) &&
+      // Skip unchanged files in diff-aware mode (the full program is still built for type information)
+      (!this.changedRanges || this.changedRanges.has(path.resolve(sourceFile.fileName)))
+    );
+    const analyzedFileNames = new Set(analyzedFiles.map(sourceFile => sourceFile.fileName));
 
-      // Skip test files unless explicitly included
-      if (!this.includeTests && this.isTestFile(sourceFile.fileName)) {
-        continue;
-      }
+    // Errors of wrapper functions in files outside the subset are reported at
+    // their callers inside it, so those files are analyzed without reporting their own violations
+    const wrapperFiles = isSubset || this.changedRanges
+      ? this.getCallGraph().findCalleeFiles(analyzedFiles).filter(sourceFile => this.isAnalyzableFile(sourceFile))
+      : [];
 
+    for (const sourceFile of [...analyzedFiles, ...wrapperFiles]) {
       const beforeCount = this.violations.length;
       this.analyzeFile(sourceFile);
       const afterCount = this.violations.length;
 
       // Track which violations came from this source file
       for (let i = beforeCount; i < afterCount; i++) {
+        const violation = this.violations[i];
+
+        // Violations moved to a caller belong to the caller's file
+        const violationFile = violation.file === sourceFile.fileName
+          ? sourceFile
+          : this.program.getSourceFile(violation.file);
+        if (!violationFile || !analyzedFileNames.has(violationFile.fileName)) {
+          continue;
+        }
+
+        // Drop findings below the severity threshold
+        if (!meetsSeverityThreshold(violation.severity, this.severityThreshold)) {
+          continue;
+        }
+
+        // Only report violations on changed lines if requested
+        const changedRanges = this.changedRanges?.get(path.resolve(violationFile.fileName));
+        if (this.changedLinesOnly && changedRanges && !isLineInRanges(violation.line, changedRanges)) {
+          continue;
+        }
+
+        violation.enclosing_symbol = findEnclosingSymbol(violationFile, violation.line, violation.column);
+
+        // The codemods add error handling; plugins bring their own fixes and
+        // broken preconditions need a different argument
+        const fix = violation.plugin || this.isPreconditionViolation(violation)
+          ? undefined
+          : createCodeFix(violation, violationFile, this.getCheckKind(violation));
+        if (fix) {
+          violation.fix = fix;
+        }
+
         allViolations.push({
-          violation: this.violations[i],
-          sourceFile
+          violation,
+          sourceFile: violationFile
         });
       }
     }
 
+    // Edge cases are reported for the calls in the analyzed files only
+    this.edgeCaseFindings = this.edgeCaseFindings.filter(finding => analyzedFileNames.has(finding.file));
+
     // Filter out suppressed violations
-    return this.filterSuppressedViolations(allViolations);
+    return this.filterSuppressedViolations(allViolations, analyzedFiles);
+  }
+
+  /**
+   * Checks if a file is analyzed at all: not a declaration, dependency or
+   * (unless included) test file, and within includePaths / excludePaths
+   */
+  private isAnalyzableFile(sourceFile: ts.SourceFile): boolean {
+    return !sourceFile.isDeclarationFile &&
+      !sourceFile.fileName.includes('node_modules') &&
+      (this.includeTests || !this.isTestFile(sourceFile.fileName)) &&
+      this.isInScope(sourceFile.fileName);
   }
 
   /**
    * Filters out suppressed violations and updates manifest
    */
   private filterSuppressedViolations(
-    violationsWithSource: Array<{ violation: Violation; sourceFile: ts.SourceFile }>
+    violationsWithSource: Array<{ violation: Violation; sourceFile: ts.SourceFile }>,
+    analyzedFiles: ts.SourceFile[]
   ): Violation[] {
     const unsuppressedViolations: Violation[] = [];
+    const usedDirectives = new Map<ts.SourceFile, InlineSuppressionComment[]>();
+
+    // One session per run: config and comments are parsed once, the manifest written once
+    const session = new SuppressionSession({
+      projectRoot: this.projectRoot,
+      analyzerVersion: this.analyzerVersion,
+      updateManifest: this.updateSuppressionManifest
+    });
 
     for (const { violation, sourceFile } of violationsWithSource) {
       // Check if this violation is suppressed
-      const suppressionResult = checkSuppression({
-        projectRoot: this.projectRoot,
+      const suppressionResult = session.check({
         sourceFile,
         line: violation.line,
         column: violation.column,
         packageName: violation.package,
-        postconditionId: violation.contract_clause,
-        analyzerVersion: this.analyzerVersion,
-        updateManifest: true
+        postconditionId: violation.contract_clause
       });
 
       if (suppressionResult.suppressed) {
         // Store suppressed violation for reporting
         this.suppressedViolations.push({
           violation,
-          suppression: suppressionResult.matchedSuppression || suppressionResult.originalSource
+          suppression: suppressionResult.originalSource!
         });
+
+        if (suppressionResult.moved) {
+          this.movedSuppressions.push(suppressionResult.moved);
+        }
+
+        if (suppressionResult.source === 'inline-comment') {
+          const directive = suppressionResult.originalSource as InlineSuppressionComment;
+          usedDirectives.set(sourceFile, [...(usedDirectives.get(sourceFile) || []), directive]);
+        }
       } else {
+        // Expired suppressions turn back into violations that say so
+        if (suppressionResult.expired) {
+          const { expires, ticket } = suppressionResult.expired;
+          violation.expired_suppression = suppressionResult.expired;
+          violation.description =
+            `Suppression expired on ${expires}${ticket ? ` (${ticket})` : ''}. ${violation.description}`;
+        }
+
         // Keep unsuppressed violation
         unsuppressedViolations.push(violation);
       }
     }
 
+    // Scoped directives that suppressed nothing are dead. Findings dropped by
+    // the severity threshold or changed-lines filter were never checked, so
+    // this only holds when the analysis saw all of them.
+    if (this.updateSuppressionManifest && meetsSeverityThreshold('info', this.severityThreshold) && !this.changedLinesOnly) {
+      for (const sourceFile of analyzedFiles) {
+        session.recordUnusedDirectives(sourceFile, usedDirectives.get(sourceFile) || []);
+      }
+    }
+
+    session.commit();
+    this.warnings = session.getWarnings();
+
     // Update this.violations with filtered list
     this.violations = unsuppressedViolations;
 
@@ -264,6 +468,15 @@ export class Analyzer {
     const reactQueryAnalyzer = new ReactQueryAnalyzer(sourceFile, this.program.getTypeChecker());
     const globalHandlers = reactQueryAnalyzer.detectGlobalHandlers(sourceFile);
 
+    // Instances from the project-wide registry are used without importing their package,
+    // so the package counts as imported by this file
+    function trackRegisteredInstance(varName: string, packageName: string | null): void {
+      if (packageName && !axiosInstances.has(varName)) {
+        axiosInstances.set(varName, packageName);
+        fileImports.add(packageName);
+      }
+    }
+
     // First pass: find all package instance declarations and interceptors
     function findAxiosInstances(node: ts.Node): void {
       // Look for: const instance = axios.create(...)
@@ -340,6 +553,11 @@ export class Analyzer {
             axiosInstances.set(varName, packageName);
           }
         }
+
+        // Types from other modules: private db: Database (a class extending PrismaClient)
+        if (!axiosInstances.has(varName)) {
+          trackRegisteredInstance(varName, self.getInstanceRegistry().getPackageForType(node.type));
+        }
       }
 
       // Look for: constructor(private readonly prisma: PrismaService)
@@ -359,6 +577,18 @@ export class Analyzer {
             axiosInstances.set(varName, packageName);
           }
         }
+
+        // Injected services from other modules: constructor(private readonly prisma: PrismaService)
+        // where PrismaService extends PrismaClient
+        if (!axiosInstances.has(varName)) {
+          trackRegisteredInstance(varName, self.getInstanceRegistry().getPackageForType(node.type));
+        }
+      }
+
+      // Look for: import { prisma } from './lib/db'
+      // Instances created in other modules, resolved through re-exports and renamed imports
+      if ((ts.isImportSpecifier(node) || ts.isImportClause(node)) && node.name && !node.isTypeOnly) {
+        trackRegisteredInstance(node.name.text, self.getInstanceRegistry().getPackageForIdentifier(node.name));
       }
 
       // Look for: instance.interceptors.response.use(...)
@@ -383,16 +613,40 @@ export class Analyzer {
     findAxiosInstances(sourceFile);
 
     // Async error detection pass
-    const asyncErrorAnalyzer = new AsyncErrorAnalyzer(sourceFile);
-    this.detectAsyncErrors(sourceFile, asyncErrorAnalyzer, axiosInstances, fileImports);
+    if (this.passes.has('async-errors')) {
+      const asyncErrorAnalyzer = new AsyncErrorAnalyzer(sourceFile);
+      this.detectAsyncErrors(sourceFile, asyncErrorAnalyzer, axiosInstances, fileImports);
+    }
 
     // Return value error detection pass
-    const returnValueAnalyzer = new ReturnValueAnalyzer(sourceFile, this.contracts, this.typeChecker);
-    this.detectReturnValueErrors(sourceFile, returnValueAnalyzer, fileImports);
+    if (this.passes.has('return-values')) {
+      const returnValueAnalyzer = new ReturnValueAnalyzer(sourceFile, this.contracts, this.typeChecker);
+      this.detectReturnValueErrors(sourceFile, returnValueAnalyzer, fileImports);
+    }
 
     // Event listener detection pass
-    const eventListenerAnalyzer = new EventListenerAnalyzer(sourceFile, this.contracts, this.typeChecker);
-    this.detectEventListenerErrors(sourceFile, eventListenerAnalyzer, fileImports);
+    if (this.passes.has('event-listeners')) {
+      const eventListenerAnalyzer = new EventListenerAnalyzer(sourceFile, this.contracts, this.typeChecker);
+      this.detectEventListenerErrors(sourceFile, eventListenerAnalyzer, fileImports);
+    }
+
+    // Detector plugins
+    for (const plugin of this.plugins) {
+      this.violations.push(...runDetectorPlugin(plugin, {
+        sourceFile,
+        program: this.program,
+        typeChecker: this.typeChecker,
+        contracts: this.contracts,
+        instances: axiosInstances,
+        imports: fileImports,
+        projectRoot: this.projectRoot,
+      }));
+    }
+
+    // Precondition and postcondition checks (and edge cases) on call expressions
+    if (!this.passes.has('postconditions') && !this.passes.has('preconditions') && !this.edgeCases) {
+      return;
+    }
 
     function visit(node: ts.Node, parent?: ts.Node): void {
       // Set parent pointer if not already set
@@ -450,7 +704,9 @@ export class Analyzer {
           );
 
           if (violation) {
-            self.violations.push(violation);
+            // Errors handled by every caller are not a violation; otherwise report them where they escape
+            const propagation = detection.node ? self.getCallGraph().traceErrorPropagation(detection.node) : null;
+            self.violations.push(...(propagation ? self.reportAtUnhandledCallers(violation, propagation) : [violation]));
           }
         }
       }
@@ -1061,18 +1317,11 @@ export class Analyzer {
     const hookName = reactQueryAnalyzer.isReactQueryHook(node);
 
     if (hookName) {
+      if (!this.passes.has('postconditions')) return;
       this.analyzeReactQueryHook(node, sourceFile, hookName, reactQueryAnalyzer, globalHandlers);
       return;
     }
 
-    // Special handling for AWS SDK S3 send() method
-    // Pattern: s3Client.send(new GetObjectCommand(...))
-    const s3Analysis = this.analyzeS3SendCall(node, sourceFile, axiosInstances);
-    if (s3Analysis) {
-      this.analyzeS3Command(s3Analysis, node, sourceFile);
-      return;
-    }
-
     const callSite = this.extractCallSite(node, sourceFile, axiosInstances, schemaInstances);
     if (!callSite) return;
 
@@ -1100,6 +1349,26 @@ export class Analyzer {
 
     if (!functionContract) return;
 
+    if (this.edgeCases) {
+      this.recordEdgeCases(callSite, contract.package, functionContract);
+    }
+
+    // Check the arguments against the preconditions
+    if (this.passes.has('preconditions')) {
+      for (const precondition of functionContract.preconditions || []) {
+        if (!precondition.check) continue;
+
+        const finding = checkPrecondition(precondition.check, node, this.typeChecker);
+        if (finding) {
+          this.violations.push(
+            this.createPreconditionViolation(callSite, precondition, contract.package, functionContract.name, finding)
+          );
+        }
+      }
+    }
+
+    if (!this.passes.has('postconditions')) return;
+
     // Check if this call is on an instance with error interceptors
     const instanceVar = this.extractInstanceVariable(node, sourceFile);
     const hasGlobalInterceptor = instanceVar ? instancesWithInterceptors.has(instanceVar) : false;
@@ -1107,6 +1376,12 @@ export class Analyzer {
     // Analyze what error handling exists at this call site
     const analysis = this.analyzeErrorHandling(node, sourceFile, hasGlobalInterceptor);
 
+    // Without local handling, the errors may propagate to project callers that handle them
+    const propagation = analysis.hasTryCatch || analysis.hasPromiseCatch
+      ? null
+      : this.getCallGraph().traceErrorPropagation(node);
+    const callerAnalysis = propagation ? this.analyzeCallerErrorHandling(analysis, propagation) : null;
+
     // Check each postcondition
     for (const postcondition of functionContract.postconditions || []) {
       if (postcondition.severity !== 'error') continue;
@@ -1122,10 +1397,146 @@ export class Analyzer {
         sourceFile
       );
 
-      if (violation) {
-        this.violations.push(violation);
+      if (!propagation || !callerAnalysis) {
+        if (violation) {
+          this.violations.push(violation);
+        }
+        continue;
       }
+
+      // Check again as if the callers' handling were here; a different result
+      // means the violation is about missing error handling
+      const handledViolation = this.checkPostcondition(
+        callSite,
+        postcondition,
+        callerAnalysis,
+        contract.package,
+        functionContract.name,
+        node,
+        sourceFile
+      );
+
+      if (violation && handledViolation?.description !== violation.description) {
+        this.violations.push(...this.reportAtUnhandledCallers(violation, propagation));
+        if (propagation.unhandled.length > 0) continue;
+      }
+
+      if (handledViolation) {
+        this.violations.push(handledViolation);
+      }
+    }
+  }
+
+  /**
+   * Gets the call graph of the current program, building it on first use
+   */
+  private getCallGraph(): CallGraphAnalyzer {
+    if (!this.callGraph) {
+      this.callGraph = new CallGraphAnalyzer(
+        this.program,
+        call => {
+          const analysis = this.analyzeErrorHandling(call, call.getSourceFile());
+          return analysis.hasTryCatch || analysis.hasPromiseCatch;
+        },
+        sourceFile => !sourceFile.isDeclarationFile &&
+          !sourceFile.fileName.includes('node_modules') &&
+          (this.includeTests || !this.isTestFile(sourceFile.fileName))
+      );
+    }
+
+    return this.callGraph;
+  }
+
+  /**
+   * Gets the instance registry of the current program, creating it on first use
+   */
+  private getInstanceRegistry(): InstanceRegistry {
+    if (!this.instanceRegistry) {
+      this.instanceRegistry = new InstanceRegistry(
+        this.program,
+        {
+          packageFromInitializer: (expression, sourceFile) =>
+            this.extractPackageFromAxiosCreate(expression, sourceFile) ||
+            this.extractPackageFromGenericFactory(expression, sourceFile) ||
+            this.extractPackageFromNewExpression(expression, sourceFile),
+          packageFromTypeName: typeName =>
+            this.typeToPackage.get(typeName) || this.classToPackage.get(typeName) || null,
+        },
+        sourceFile => !sourceFile.fileName.includes('node_modules')
+      );
+    }
+
+    return this.instanceRegistry;
+  }
+
+  /**
+   * Combines the error handling of the callers that handle propagated errors
+   *
+   * Handling details (status code checks, retries, ...) only count if every
+   * one of those callers has them.
+   */
+  private analyzeCallerErrorHandling(analysis: CallSiteAnalysis, propagation: PropagationResult): CallSiteAnalysis {
+    const callers = propagation.handledBy.map(call => this.analyzeErrorHandling(call, call.getSourceFile()));
+
+    return {
+      ...analysis,
+      hasTryCatch: true,
+      checksResponseExists: callers.every(caller => caller.checksResponseExists),
+      checksStatusCode: callers.every(caller => caller.checksStatusCode),
+      handledStatusCodes: callers.reduce<number[] | null>(
+        (codes, caller) => codes ? codes.filter(code => caller.handledStatusCodes.includes(code)) : caller.handledStatusCodes,
+        null
+      ) ?? [],
+      hasRetryLogic: callers.every(caller => caller.hasRetryLogic),
+    };
+  }
+
+  /**
+   * Moves a missing-error-handling violation to the callers that let the errors escape
+   *
+   * Each copy lists the calls the errors propagated through as related locations.
+   * A caller reached from several contract calls is reported once per clause.
+   */
+  private reportAtUnhandledCallers(violation: Violation, propagation: PropagationResult): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const caller of propagation.unhandled) {
+      const location = this.getNodeLocation(caller.call);
+      const key = `${location.file}:${location.line}:${location.column}:${violation.package}:${violation.contract_clause}`;
+      if (this.reportedAtCallers.has(key)) continue;
+      this.reportedAtCallers.add(key);
+
+      violations.push({
+        ...violation,
+        ...location,
+        description: `${violation.description} Errors from ${violation.function}() propagate here through ${this.describePropagationPath(caller)}.`,
+        related_locations: caller.path.map((step, index) => ({
+          ...this.getNodeLocation(step.call),
+          message: index === 0
+            ? `Calls ${violation.package}'s ${violation.function}(); ${step.functionName}() lets its errors propagate`
+            : `${step.functionName}() lets the errors propagate`,
+        })),
+      });
     }
+
+    return violations;
+  }
+
+  /**
+   * Describes the functions a caller's errors propagated through (e.g., "apiGet() → loadUser()")
+   */
+  private describePropagationPath(caller: UnhandledCaller): string {
+    return caller.path.map(step => `${step.functionName}()`).join(' → ');
+  }
+
+  /**
+   * Gets the 1-based location of a node
+   */
+  private getNodeLocation(node: ts.Node): { file: string; line: number; column: number } {
+    const sourceFile = node.getSourceFile();
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+
+    return { file: sourceFile.fileName, line: line + 1, column: character + 1 };
   }
 
   /**
@@ -1354,6 +1765,11 @@ export class Analyzer {
     }
 
     // At this point, current should be the root identifier
+    // or `this` (this.prisma.user.create(), resolved by the caller)
+    if (current.kind === ts.SyntaxKind.ThisKeyword) {
+      return { root: 'this', chain, method: expr.name.text };
+    }
+
     if (!ts.isIdentifier(current)) {
       return null; // Unsupported pattern (e.g., complex expression)
     }
@@ -2453,7 +2869,7 @@ export class Analyzer {
   }
 
   /**
-   * Checks if a postcondition is violated at a call site
+   * Verifies a postcondition at a call site with the checker of its check kind
    */
   private checkPostcondition(
     callSite: CallSite,
@@ -2464,302 +2880,21 @@ export class Analyzer {
     node: ts.CallExpression,
     sourceFile: ts.SourceFile
   ): Violation | null {
-    const hasAnyErrorHandling = analysis.hasTryCatch || analysis.hasPromiseCatch;
-
-    // Clerk-specific: Null check detection for auth(), currentUser(), getToken()
-    // Check this BEFORE generic try-catch check because these functions use null checks, not try-catch
-    if (postcondition.id === 'auth-null-not-checked' ||
-        postcondition.id === 'current-user-null-not-handled' ||
-        postcondition.id === 'get-token-null-not-handled') {
-
-      const hasNullCheck = this.checkNullHandling(node, sourceFile);
-
-      if (!hasNullCheck) {
-        const description = postcondition.throws ||
-          `${functionName}() result used without null check - will crash if user not authenticated.`;
-        return this.createViolation(callSite, postcondition, packageName, functionName, description, 'error');
-      } else {
-        // Has null check, so this is handled correctly - don't flag as violation
-        return null;
-      }
-    }
-
-    // Clerk-specific: Middleware file system check
-    // Check this BEFORE generic try-catch because it requires file inspection, not try-catch
-    if (postcondition.id === 'middleware-not-exported') {
-      const middlewareExists = this.checkClerkMiddlewareExists();
-
-      if (!middlewareExists) {
-        const description = postcondition.throws ||
-          'Middleware file not found or clerkMiddleware not properly exported. auth() calls will fail at runtime.';
-        return this.createViolation(callSite, postcondition, packageName, functionName, description, 'error');
-      } else {
-        // Middleware is properly configured - no violation
-        return null;
-      }
-    }
-
-    // Clerk-specific: Check for middleware matcher configuration
-    if (postcondition.id === 'middleware-matcher-missing') {
-      const middlewarePath = this.checkFileExists('middleware.ts', ['middleware.ts', 'middleware.js']);
-
-      if (middlewarePath) {
-        // Check if the middleware file exports a config with matcher
-        const sourceFile = this.program.getSourceFile(middlewarePath);
-        let hasMatcherConfig = false;
-
-        if (sourceFile) {
-          ts.forEachChild(sourceFile, (node) => {
-            // Look for: export const config = { matcher: ... }
-            if (ts.isVariableStatement(node)) {
-              const modifiers = ts.getCombinedModifierFlags(node.declarationList.declarations[0]);
-              if (modifiers & ts.ModifierFlags.Export) {
-                for (const declaration of node.declarationList.declarations) {
-                  if (ts.isVariableDeclaration(declaration) &&
-                      ts.isIdentifier(declaration.name) &&
-                      declaration.name.text === 'config') {
-                    hasMatcherConfig = true;
-                    break;
-                  }
-                }
-              }
-            }
-          });
-
-          if (!hasMatcherConfig) {
-            const description = postcondition.throws ||
-              'Middleware missing matcher configuration. Will run on all routes including static assets.';
-            return this.createViolation(callSite, postcondition, packageName, functionName, description, 'warning');
-          }
-        }
-      }
-
-      return null;
-    }
-
-    // Twilio-specific: Hardcoded credentials check
-    if (postcondition.id === 'hardcoded-credentials') {
-      const hasHardcodedCredentials = this.checkHardcodedCredentials(node);
-
-      if (hasHardcodedCredentials) {
-        const description = postcondition.throws ||
-          'Hardcoded credentials detected. Use environment variables (process.env) to avoid security risks.';
-        return this.createViolation(callSite, postcondition, packageName, functionName, description, 'error');
-      } else {
-        // Credentials are from environment variables - no violation
-        return null;
-      }
-    }
-
-    // NEW: Generic check for any postcondition requiring error handling
-    // If the postcondition specifies required_handling and has severity='error',
-    // it means the call MUST have error handling
-    if (postcondition.required_handling && postcondition.severity === 'error') {
-      if (!hasAnyErrorHandling) {
-        // Generate a violation with a generic message based on the postcondition.condition
-        const description = postcondition.throws
-          ? `No try-catch block found. ${postcondition.throws} - this will crash the application.`
-          : 'No error handling found. This operation can throw errors that will crash the application.';
-
-        return this.createViolation(callSite, postcondition, packageName, functionName, description, 'error');
-      }
-    }
-
-    // Specific violation checks based on postcondition ID (for more detailed analysis)
-    if (postcondition.id.includes('429') || postcondition.id.includes('rate-limit')) {
-      // Rate limiting check
-      if (!hasAnyErrorHandling) {
-        return this.createViolation(callSite, postcondition, packageName, functionName,
-          'No try-catch block found. Rate limit errors (429) will crash the application.', 'error');
-      }
-
-      // WARNING: Has error handling but doesn't handle 429 specifically
-      if (!analysis.handledStatusCodes.includes(429) && !analysis.hasRetryLogic) {
-        return this.createViolation(callSite, postcondition, packageName, functionName,
-          'Rate limit response (429) is not explicitly handled. Consider implementing retry logic with exponential backoff.', 'warning');
-      }
-    }
-
-    // HTTP client packages (axios, node-fetch, etc.) - check for HTTP-specific error handling
-    const isHttpClient = ['axios', 'node-fetch', 'got', 'superagent', 'request'].includes(packageName);
-
-    if (postcondition.id.includes('network')) {
-      // Network failure check
-      if (!hasAnyErrorHandling) {
-        return this.createViolation(callSite, postcondition, packageName, functionName,
-          'No try-catch block found. Network failures will crash the application.', 'error');
-      }
-
-      // WARNING: Only for HTTP clients - check if response.exists is checked
-      if (isHttpClient && hasAnyErrorHandling && !analysis.checksResponseExists) {
-        return this.createViolation(callSite, postcondition, packageName, functionName,
-          'Generic error handling found. Consider checking if error.response exists to distinguish network failures from HTTP errors.', 'warning');
-      }
-    }
-
-    if (postcondition.id.includes('error') && postcondition.severity === 'error') {
-      // Generic error handling check
-      if (!hasAnyErrorHandling) {
-        return this.createViolation(callSite, postcondition, packageName, functionName,
-          'No error handling found. Errors will crash the application.', 'error');
-      }
-
-      // WARNING: Only for HTTP clients - check if status codes are inspected
-      if (isHttpClient && hasAnyErrorHandling && !analysis.checksStatusCode) {
-        return this.createViolation(callSite, postcondition, packageName, functionName,
-          'Generic error handling found. Consider inspecting error.response.status to distinguish between 4xx client errors and 5xx server errors for better UX.', 'warning');
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Checks if a function call result has proper null handling
-   * Used for Clerk functions that return null when not authenticated
-   */
-  private checkNullHandling(callNode: ts.CallExpression, sourceFile: ts.SourceFile): boolean {
-
-    // Find the parent statement containing this call
-    let currentNode: ts.Node = callNode;
-    while (currentNode && !ts.isStatement(currentNode)) {
-      currentNode = currentNode.parent;
-    }
-
-    if (!currentNode) return false;
-
-    // Find the containing function/method
-    const containingFunction = this.findContainingFunction(callNode);
-    if (!containingFunction) return false;
-
-    // Look for variable declaration or destructuring
-    let variableNames: string[] = [];
-
-    // Check if the call is assigned to a variable
-    const parent = callNode.parent;
-
-    // Case 1: await auth() directly in variable declaration
-    if (ts.isAwaitExpression(parent)) {
-      const awaitParent = parent.parent;
-      if (ts.isVariableDeclaration(awaitParent) && awaitParent.name) {
-        if (ts.isIdentifier(awaitParent.name)) {
-          variableNames.push(awaitParent.name.text);
-        } else if (ts.isObjectBindingPattern(awaitParent.name)) {
-          // Destructured: const { userId } = await auth()
-          awaitParent.name.elements.forEach(element => {
-            if (ts.isBindingElement(element) && ts.isIdentifier(element.name)) {
-              variableNames.push(element.name.text);
-            }
-          });
-        }
-      }
-    }
-
-    // Case 2: Direct variable declaration
-    if (ts.isVariableDeclaration(parent) && parent.name) {
-      if (ts.isIdentifier(parent.name)) {
-        variableNames.push(parent.name.text);
-      } else if (ts.isObjectBindingPattern(parent.name)) {
-        parent.name.elements.forEach(element => {
-          if (ts.isBindingElement(element) && ts.isIdentifier(element.name)) {
-            variableNames.push(element.name.text);
-          }
-        });
-      }
-    }
-
-    if (variableNames.length === 0) {
-      // No variable captured, assume used directly (would be flagged)
-      return false;
-    }
-
-    // Now check if any of these variables are null-checked before use
-    let hasNullCheck = false;
-
-    const checkForNullHandling = (node: ts.Node): void => {
-      // Check for if statements with null checks
-      if (ts.isIfStatement(node)) {
-        const condition = node.expression;
-        if (this.isNullCheckCondition(condition, variableNames, sourceFile)) {
-          hasNullCheck = true;
-        }
-      }
-
-      // Check for optional chaining on the variable
-      if (ts.isPropertyAccessExpression(node) && node.questionDotToken) {
-        const exprText = node.expression.getText(sourceFile);
-        if (variableNames.includes(exprText)) {
-          hasNullCheck = true;
-        }
-      }
-
-      // Check for early return with null check
-      if (ts.isReturnStatement(node) || ts.isExpressionStatement(node)) {
-        const parent = node.parent;
-        if (parent && ts.isIfStatement(parent)) {
-          if (this.isNullCheckCondition(parent.expression, variableNames, sourceFile)) {
-            hasNullCheck = true;
-          }
-        }
-      }
-
-      ts.forEachChild(node, checkForNullHandling);
-    };
-
-    ts.forEachChild(containingFunction, checkForNullHandling);
-
-    return hasNullCheck;
-  }
-
-  /**
-   * Checks if a condition is a null check for the given variables
-   */
-  private isNullCheckCondition(condition: ts.Expression, variableNames: string[], sourceFile: ts.SourceFile): boolean {
-    const conditionText = condition.getText(sourceFile);
-
-    // Check if any of our variables are mentioned in the condition
-    const mentionsVariable = variableNames.some(varName => conditionText.includes(varName));
-    if (!mentionsVariable) return false;
-
-    // Pattern: !variable or !userId
-    if (ts.isPrefixUnaryExpression(condition) && condition.operator === ts.SyntaxKind.ExclamationToken) {
-      const operandText = condition.operand.getText(sourceFile);
-      return variableNames.includes(operandText);
-    }
-
-    // Pattern: variable === null, variable !== null, etc.
-    if (ts.isBinaryExpression(condition)) {
-      const operator = condition.operatorToken.kind;
-
-      // Handle || and && by recursively checking both sides
-      if (operator === ts.SyntaxKind.BarBarToken || operator === ts.SyntaxKind.AmpersandAmpersandToken) {
-        return this.isNullCheckCondition(condition.left, variableNames, sourceFile) ||
-               this.isNullCheckCondition(condition.right, variableNames, sourceFile);
-      }
-
-      const leftText = condition.left.getText(sourceFile);
-      const rightText = condition.right.getText(sourceFile);
-
-      const hasVariable = variableNames.some(v => leftText.includes(v) || rightText.includes(v));
-      const hasNullCheck = conditionText.includes('null') || conditionText.includes('undefined');
-
-      const isComparisonOperator =
-        operator === ts.SyntaxKind.EqualsEqualsToken ||
-        operator === ts.SyntaxKind.EqualsEqualsEqualsToken ||
-        operator === ts.SyntaxKind.ExclamationEqualsToken ||
-        operator === ts.SyntaxKind.ExclamationEqualsEqualsToken;
-
-      if (hasVariable && hasNullCheck && isComparisonOperator) {
-        return true;
-      }
-    }
-
-    // Pattern: isAuthenticated or similar boolean check
-    if (ts.isIdentifier(condition)) {
-      return variableNames.includes(condition.text);
-    }
+    const contract = this.contracts.get(packageName);
+    const finding = runPostconditionCheck(resolvePostconditionCheck(postcondition), {
+      node,
+      sourceFile,
+      functionName,
+      postcondition,
+      analysis,
+      program: this.program,
+      projectRoot: this.projectRoot,
+      httpClient: contract ? isHttpClient(contract) : false,
+    });
 
-    return false;
+    return finding
+      ? this.createViolation(callSite, postcondition, packageName, functionName, finding.description, finding.severity)
+      : null;
   }
 
   /**
@@ -2780,274 +2915,14 @@ export class Analyzer {
   }
 
   /**
-   * Checks if a function call has hardcoded credentials (string literals)
-   * vs environment variables (process.env.*)
-   *
-   * Returns true if hardcoded credentials are detected (violation)
-   * Returns false if credentials come from environment variables (valid)
-   */
-  private checkHardcodedCredentials(callNode: ts.CallExpression): boolean {
-    // Check each argument to the function call
-    for (const arg of callNode.arguments) {
-      // Check if argument is a string literal (hardcoded)
-      if (ts.isStringLiteral(arg)) {
-        // String literal = hardcoded credential = violation
-        return true;
-      }
-
-      // Check if argument is a template expression (could be hardcoded)
-      if (ts.isTemplateExpression(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) {
-        // Template literal without substitutions = hardcoded = violation
-        if (ts.isNoSubstitutionTemplateLiteral(arg)) {
-          return true;
-        }
-        // Template with substitutions = could be dynamic, check the spans
-        // For safety, we'll flag any template literal as hardcoded
-        return true;
-      }
-
-      // Check if argument is an identifier (variable)
-      if (ts.isIdentifier(arg)) {
-        // Need to trace back to see where this variable is defined
-        // If it's from process.env, it's safe
-        // For now, we'll trace variable declarations in the current scope
-        const varDeclaration = this.findVariableDeclaration(arg.text, callNode);
-        if (varDeclaration && varDeclaration.initializer) {
-          // Check if initializer is process.env.*
-          if (ts.isPropertyAccessExpression(varDeclaration.initializer)) {
-            const expr = varDeclaration.initializer.expression;
-            if (ts.isPropertyAccessExpression(expr) &&
-                ts.isIdentifier(expr.expression) &&
-                expr.expression.text === 'process' &&
-                ts.isIdentifier(expr.name) &&
-                expr.name.text === 'env') {
-              // This is process.env.SOMETHING - safe!
-              continue;
-            }
-          }
-          // Check if initializer is a string literal
-          if (ts.isStringLiteral(varDeclaration.initializer)) {
-            // Variable assigned from string literal = hardcoded
-            return true;
-          }
-        }
-      }
-
-      // Check if argument is process.env.* directly
-      if (ts.isPropertyAccessExpression(arg)) {
-        const expr = arg.expression;
-        if (ts.isPropertyAccessExpression(expr) &&
-            ts.isIdentifier(expr.expression) &&
-            expr.expression.text === 'process' &&
-            ts.isIdentifier(expr.name) &&
-            expr.name.text === 'env') {
-          // Direct process.env.* usage - safe!
-          continue;
-        }
-        // Some other property access - could be config.apiKey, etc.
-        // For safety, we'll flag it as potentially hardcoded
-        // TODO: Could enhance to trace config objects
-        return true;
-      }
-
-      // Check for element access: process.env['VARIABLE']
-      if (ts.isElementAccessExpression(arg)) {
-        const expr = arg.expression;
-        if (ts.isPropertyAccessExpression(expr) &&
-            ts.isIdentifier(expr.expression) &&
-            expr.expression.text === 'process' &&
-            ts.isIdentifier(expr.name) &&
-            expr.name.text === 'env') {
-          // process.env['VARIABLE'] - safe!
-          continue;
-        }
-        // Some other element access - potentially hardcoded
-        return true;
-      }
-    }
-
-    // All arguments checked, no hardcoded credentials found
-    return false;
-  }
-
-  /**
-   * Finds a variable declaration in the scope of the given node
-   */
-  private findVariableDeclaration(variableName: string, node: ts.Node): ts.VariableDeclaration | null {
-    let current: ts.Node | undefined = node;
-
-    while (current) {
-      // Check variable statements in this scope
-      if (ts.isSourceFile(current) || ts.isBlock(current) || ts.isFunctionLike(current)) {
-        let foundDeclaration: ts.VariableDeclaration | null = null;
-
-        const visitNode = (node: ts.Node): void => {
-          if (foundDeclaration) return;
-
-          if (ts.isVariableDeclaration(node) &&
-              ts.isIdentifier(node.name) &&
-              node.name.text === variableName) {
-            foundDeclaration = node;
-            return;
-          }
-
-          // Don't recurse into nested functions/blocks
-          if (node === current || ts.isVariableStatement(node) || ts.isVariableDeclarationList(node)) {
-            ts.forEachChild(node, visitNode);
-          }
-        };
-
-        visitNode(current);
-        if (foundDeclaration) {
-          return foundDeclaration;
-        }
-      }
-
-      current = current.parent;
-    }
-
-    return null;
-  }
-
-  /**
-   * Checks if a specific file exists in the project
-   * Tries multiple possible locations (root, src/, etc.)
-   *
-   * @param fileName - The file name to search for (e.g., 'middleware.ts')
-   * @param variations - Optional variations of the file name (e.g., ['middleware.ts', 'middleware.js'])
-   * @returns The full path if found, null otherwise
-   */
-  private checkFileExists(fileName: string, variations?: string[]): string | null {
-    const filesToCheck = variations || [fileName];
-    const locationsToCheck = [
-      '', // Root directory
-      'src', // src/ directory
-      'app', // app/ directory (Next.js App Router)
-    ];
-
-    for (const location of locationsToCheck) {
-      for (const file of filesToCheck) {
-        const fullPath = path.join(this.projectRoot, location, file);
-        if (ts.sys.fileExists(fullPath)) {
-          return fullPath;
-        }
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Checks if a file imports and exports specific patterns
-   *
-   * @param filePath - Absolute path to the file to check
-   * @param importPattern - Object specifying what to look for in imports
-   * @param exportPattern - Object specifying what to look for in exports
-   * @returns Object with hasImport and hasExport booleans
-   */
-  private checkFileImportsAndExports(
-    filePath: string,
-    importPattern: { packageName: string; importName?: string },
-    exportPattern: { type: 'default' | 'named'; exportName?: string }
-  ): { hasImport: boolean; hasExport: boolean } {
-    const sourceFile = this.program.getSourceFile(filePath);
-    if (!sourceFile) {
-      return { hasImport: false, hasExport: false };
-    }
-
-    let hasImport = false;
-    let hasExport = false;
-    let importedName: string | null = null;
-
-    // Check imports
-    ts.forEachChild(sourceFile, (node) => {
-      if (ts.isImportDeclaration(node)) {
-        const moduleSpecifier = node.moduleSpecifier;
-        if (ts.isStringLiteral(moduleSpecifier)) {
-          const importPath = moduleSpecifier.text;
-
-          // Check if this import matches the package pattern
-          if (importPath.includes(importPattern.packageName)) {
-            // If specific import name is required, check for it
-            if (importPattern.importName) {
-              if (node.importClause?.namedBindings &&
-                  ts.isNamedImports(node.importClause.namedBindings)) {
-                for (const element of node.importClause.namedBindings.elements) {
-                  if (element.name.text === importPattern.importName) {
-                    hasImport = true;
-                    importedName = importPattern.importName;
-                    break;
-                  }
-                }
-              }
-            } else {
-              // No specific import name required, just check package
-              hasImport = true;
-            }
-          }
-        }
-      }
-
-      // Check exports
-      if (exportPattern.type === 'default' && ts.isExportAssignment(node)) {
-        // export default ...
-        if (node.expression) {
-          // Check if it's a call expression: export default clerkMiddleware()
-          if (ts.isCallExpression(node.expression)) {
-            const expr = node.expression.expression;
-            if (ts.isIdentifier(expr)) {
-              if (importedName && expr.text === importedName) {
-                hasExport = true;
-              } else if (!importPattern.importName) {
-                // If no specific import name, just check if it's exported
-                hasExport = true;
-              }
-            }
-          }
-        }
-      }
-
-      if (exportPattern.type === 'named' && ts.isExportDeclaration(node)) {
-        // export { ... }
-        if (node.exportClause && ts.isNamedExports(node.exportClause)) {
-          for (const element of node.exportClause.elements) {
-            if (exportPattern.exportName && element.name.text === exportPattern.exportName) {
-              hasExport = true;
-              break;
-            }
-          }
-        }
-      }
-    });
-
-    return { hasImport, hasExport };
-  }
-
-  /**
-   * Checks if middleware.ts exists and properly exports clerkMiddleware
-   * This is specific to @clerk/nextjs middleware setup
-   *
-   * @returns true if middleware is properly configured, false otherwise
+   * Gets the check kind of the postcondition a violation is about
    */
-  private checkClerkMiddlewareExists(): boolean {
-    // Check if middleware.ts or middleware.js exists
-    const middlewarePath = this.checkFileExists('middleware.ts', [
-      'middleware.ts',
-      'middleware.js'
-    ]);
-
-    if (!middlewarePath) {
-      return false;
-    }
+  private getCheckKind(violation: Violation): PostconditionCheckKind | undefined {
+    const postcondition = this.contracts.get(violation.package)?.functions
+      .find(f => f.name === violation.function)?.postconditions
+      ?.find(p => p.id === violation.contract_clause);
 
-    // Check if the middleware file imports and exports clerkMiddleware
-    const { hasImport, hasExport } = this.checkFileImportsAndExports(
-      middlewarePath,
-      { packageName: '@clerk/nextjs', importName: 'clerkMiddleware' },
-      { type: 'default' }
-    );
-
-    return hasImport && hasExport;
+    return postcondition ? resolvePostconditionCheck(postcondition).kind : undefined;
   }
 
   /**
@@ -3077,192 +2952,127 @@ export class Analyzer {
   }
 
   /**
-   * Gets statistics about the analysis run
-   */
-  getStats() {
-    return {
-      filesAnalyzed: this.program.getSourceFiles().filter(
-        sf => !sf.isDeclarationFile && !sf.fileName.includes('node_modules')
-      ).length,
-      contractsApplied: Array.from(this.contracts.values()).reduce(
-        (sum, contract) => sum + (contract.functions?.length || 0),
-        0
-      ),
-    };
-  }
-  /**
-   * Analyzes S3 send() calls to detect command type
-   * Pattern: s3Client.send(new GetObjectCommand(...))
+   * Creates a violation for a precondition the call's arguments break
    */
-  private analyzeS3SendCall(
-    node: ts.CallExpression,
-    sourceFile: ts.SourceFile,
-    s3ClientInstances: Map<string, string>
-  ): { client: string; command: string; packageName: string } | null {
-    // Check if this is a .send() call
-    if (!ts.isPropertyAccessExpression(node.expression)) return null;
-    if (node.expression.name.text !== 'send') return null;
-
-    // Get the object being called (should be s3Client)
-    let clientIdentifier: string | null = null;
-    
-    if (ts.isIdentifier(node.expression.expression)) {
-      clientIdentifier = node.expression.expression.text;
-    } else if (ts.isPropertyAccessExpression(node.expression.expression)) {
-      // Handle this.s3Client.send() pattern
-      clientIdentifier = node.expression.expression.name.text;
-    }
-
-    if (!clientIdentifier) return null;
-
-    // Check if this identifier is a tracked S3Client instance
-    const packageName = s3ClientInstances.get(clientIdentifier) || 
-                       this.resolvePackageFromImports(clientIdentifier, sourceFile);
-    
-    if (packageName !== '@aws-sdk/client-s3') return null;
-
-    // Extract the command type from the argument
-    // Pattern: send(new GetObjectCommand(...))
-    if (node.arguments.length === 0) return null;
-    
-    const firstArg = node.arguments[0];
-    if (!ts.isNewExpression(firstArg)) return null;
-    
-    const commandName = firstArg.expression.getText(sourceFile);
-    
+  private createPreconditionViolation(
+    callSite: CallSite,
+    precondition: Precondition,
+    packageName: string,
+    functionName: string,
+    finding: CheckFinding
+  ): Violation {
     return {
-      client: clientIdentifier,
-      command: commandName,
-      packageName: '@aws-sdk/client-s3'
+      id: `${packageName}-${precondition.id}`,
+      severity: finding.severity || precondition.severity,
+      file: callSite.file,
+      line: callSite.line,
+      column: callSite.column,
+      package: packageName,
+      function: functionName,
+      contract_clause: precondition.id,
+      description: `${finding.description}. ${precondition.description}`,
+      source_doc: precondition.source,
+      suggested_fix: precondition.description,
     };
   }
 
   /**
-   * Analyzes an S3 command call and creates violations if needed
+   * Records the edge cases of a contract function at its first call in a file
+   *
+   * Later calls of the function in the same file add nothing; the edge cases
+   * are about the function, not the call.
    */
-  private analyzeS3Command(
-    s3Analysis: { client: string; command: string; packageName: string },
-    node: ts.CallExpression,
-    sourceFile: ts.SourceFile
-  ): void {
-    const contract = this.contracts.get(s3Analysis.packageName);
-    if (!contract) return;
-
-    // Find the send() function contract
-    const sendContract = contract.functions.find(f => f.name === 'send');
-    if (!sendContract) return;
-
-    // Map command type to postcondition ID
-    const commandToPostcondition = this.mapS3CommandToPostcondition(s3Analysis.command);
-    if (!commandToPostcondition) return;
-
-    // Find the matching postcondition
-    const postcondition = sendContract.postconditions?.find(p => p.id === commandToPostcondition);
-    if (!postcondition) return;
-
-    // Check if this is wrapped in try-catch
-    const asyncErrorAnalyzer = new AsyncErrorAnalyzer(sourceFile);
-    
-    // Find the await expression that wraps this call
-    let awaitNode: ts.AwaitExpression | null = null;
-    let current: ts.Node | undefined = node;
-    
-    while (current) {
-      if (ts.isAwaitExpression(current) && current.expression === node) {
-        awaitNode = current;
-        break;
-      }
-      current = current.parent;
+  private recordEdgeCases(callSite: CallSite, packageName: string, functionContract: FunctionContract): void {
+    if (!functionContract.edge_cases?.length || !meetsSeverityThreshold('info', this.severityThreshold)) {
+      return;
     }
 
-    // Check if await is protected by try-catch
-    let isProtected = false;
-    if (awaitNode) {
-      const functionNode = this.findContainingFunction(awaitNode);
-      if (functionNode) {
-        isProtected = asyncErrorAnalyzer.isAwaitProtected(awaitNode, functionNode);
-      }
+    // Calls outside the changed lines do not count as the first call
+    const changedRanges = this.changedRanges?.get(path.resolve(callSite.file));
+    if (this.changedLinesOnly && changedRanges && !isLineInRanges(callSite.line, changedRanges)) {
+      return;
     }
 
-    // Create violation if not protected (for error severity postconditions)
-    if (!isProtected && postcondition.severity === 'error') {
-      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
-      
-      const violation: Violation = {
-        id: `${s3Analysis.packageName}-${postcondition.id}`,
-        severity: postcondition.severity,
-        file: sourceFile.fileName,
-        line: line + 1,
-        column: character + 1,
-        package: s3Analysis.packageName,
-        function: 'send',
-        contract_clause: postcondition.id,
-        description: `${s3Analysis.command} called without try-catch. ${postcondition.condition}`,
-        source_doc: postcondition.source || '',
-        suggested_fix: postcondition.required_handling || '',
-      };
+    const key = `${callSite.file}:${packageName}:${functionContract.namespace ?? ''}.${functionContract.name}`;
+    if (this.reportedEdgeCases.has(key)) {
+      return;
+    }
+    this.reportedEdgeCases.add(key);
 
-      this.violations.push(violation);
+    for (const edgeCase of functionContract.edge_cases) {
+      this.edgeCaseFindings.push({
+        id: `${packageName}-${edgeCase.id}`,
+        severity: 'info',
+        file: callSite.file,
+        line: callSite.line,
+        column: callSite.column,
+        package: packageName,
+        function: functionContract.name,
+        contract_clause: edgeCase.id,
+        description: edgeCase.description,
+        source_doc: edgeCase.source,
+      });
     }
   }
 
   /**
-   * Maps S3 command types to their corresponding postcondition IDs
+   * Checks if a violation is about a precondition of its function
    */
-  private mapS3CommandToPostcondition(commandName: string): string | null {
-    // Object operations
-    const objectOps = [
-      'GetObjectCommand',
-      'PutObjectCommand', 
-      'DeleteObjectCommand',
-      'HeadObjectCommand',
-      'CopyObjectCommand'
-    ];
-    if (objectOps.includes(commandName)) {
-      return 's3-object-operation-no-try-catch';
-    }
-
-    // Multipart operations
-    const multipartOps = [
-      'CreateMultipartUploadCommand',
-      'UploadPartCommand',
-      'CompleteMultipartUploadCommand',
-      'AbortMultipartUploadCommand'
-    ];
-    if (multipartOps.includes(commandName)) {
-      return 's3-multipart-no-try-catch';
-    }
-
-    // Bucket operations
-    const bucketOps = [
-      'CreateBucketCommand',
-      'DeleteBucketCommand',
-      'HeadBucketCommand'
-    ];
-    if (bucketOps.includes(commandName)) {
-      return 's3-bucket-operation-no-try-catch';
-    }
+  private isPreconditionViolation(violation: Violation): boolean {
+    return !!this.contracts.get(violation.package)?.functions
+      .find(f => f.name === violation.function)?.preconditions
+      ?.some(p => p.id === violation.contract_clause);
+  }
 
-    // List operations
-    const listOps = [
-      'ListObjectsV2Command',
-      'ListObjectsCommand',
-      'ListBucketsCommand'
-    ];
-    if (listOps.includes(commandName)) {
-      return 's3-list-operation-no-try-catch';
-    }
+  /**
+   * Gets the edge cases found by the last analysis (only with `edgeCases: true`)
+   *
+   * Each edge case of a called contract function is reported once per file,
+   * at the first call. They are informational and not part of the violations.
+   */
+  getEdgeCaseFindings(): Violation[] {
+    return this.edgeCaseFindings;
+  }
 
-    return null;
+  /**
+   * Gets statistics about the analysis run
+   */
+  getStats() {
+    return {
+      filesAnalyzed: this.program.getSourceFiles().filter(
+        sf => !sf.isDeclarationFile && !sf.fileName.includes('node_modules') &&
+          this.isInScope(sf.fileName) &&
+          (!this.changedRanges || this.changedRanges.has(path.resolve(sf.fileName)))
+      ).length,
+      contractsApplied: Array.from(this.contracts.values()).reduce(
+        (sum, contract) => sum + (contract.functions?.length || 0),
+        0
+      ),
+    };
   }
 
   /**
    * Get all suppressed violations
    */
-  getSuppressedViolations(): Array<{ violation: Violation; suppression: any }> {
+  getSuppressedViolations(): Array<{ violation: Violation; suppression: MatchedSuppression }> {
     return this.suppressedViolations;
   }
 
+  /**
+   * Get suppressions that were re-located to a new line during the last analysis
+   */
+  getMovedSuppressions(): MovedSuppression[] {
+    return this.movedSuppressions;
+  }
+
+  /**
+   * Get the problems of the last analysis that did not stop it (e.g., a
+   * suppression manifest that could not be written)
+   */
+  getWarnings(): string[] {
+    return this.warnings;
+  }
+
   /**
    * Get suppression statistics
    */
@@ -0,0 +1,428 @@
+/**
+ * Call Graph Analyzer
+ * Follows errors that project functions let propagate up to their callers
+ *
+ * Contract calls often live in a helper (e.g. `apiGet()`) that deliberately
+ * lets errors propagate, while every caller of the helper handles them. This
+ * analyzer resolves the callers of the enclosing function with the type
+ * checker and walks up the call chain until each path either handles the
+ * errors or ends at a caller that does not.
+ *
+ * It is conservative: if a function is used as a value (passed as a callback,
+ * assigned, ...) or has no callers in the project, its callers are unknown and
+ * the errors are considered unhandled where they leave the known chain.
+ */
+
+import * as ts from 'typescript';
+
+/** Call chains deeper than this are not followed any further */
+const MAX_CALL_DEPTH = 8;
+
+/**
+ * A call whose errors propagate out of the function containing it
+ */
+export interface PropagationStep {
+  /** The call inside the function */
+  call: ts.CallExpression;
+  /** Name of the function that lets the errors propagate */
+  functionName: string;
+}
+
+/**
+ * A caller that does not handle propagated errors
+ */
+export interface UnhandledCaller {
+  /** The call that neither handles nor propagates the errors further */
+  call: ts.CallExpression;
+  /** The calls the errors propagated through, starting at the contract call */
+  path: PropagationStep[];
+}
+
+export interface PropagationResult {
+  /** Caller calls that handle the errors */
+  handledBy: ts.CallExpression[];
+  /** Caller calls that do not; empty if every caller up the chain handles the errors */
+  unhandled: UnhandledCaller[];
+}
+
+/**
+ * A named function in the project
+ */
+interface ProjectFunction {
+  declaration: ts.SignatureDeclaration;
+  nameNode: ts.Identifier;
+  name: string;
+}
+
+export class CallGraphAnalyzer {
+  private program: ts.Program;
+  private typeChecker: ts.TypeChecker;
+  private isHandled: (call: ts.CallExpression) => boolean;
+  private isProjectFile: (sourceFile: ts.SourceFile) => boolean;
+
+  // Built on first use: identifiers of the project's files by name
+  private identifiersByName: Map<string, ts.Identifier[]> | null = null;
+  private defaultImports: ts.Identifier[] = [];
+  // Identifiers indexed per file, to re-index only the files that changed
+  private indexedFiles: Map<string, ts.Identifier[]> = new Map();
+
+  // Callers per function; null if the function's callers are unknown
+  private callers: Map<ts.SignatureDeclaration, ts.CallExpression[] | null> = new Map();
+
+  /**
+   * @param program - Program to build the call graph from
+   * @param isHandled - Whether a call has error handling of its own (try-catch, .catch(), ...)
+   * @param isProjectFile - Whether callers in a file count (e.g. excludes tests and node_modules)
+   */
+  constructor(
+    program: ts.Program,
+    isHandled: (call: ts.CallExpression) => boolean,
+    isProjectFile: (sourceFile: ts.SourceFile) => boolean
+  ) {
+    this.program = program;
+    this.typeChecker = program.getTypeChecker();
+    this.isHandled = isHandled;
+    this.isProjectFile = isProjectFile;
+  }
+
+  /**
+   * Replaces the program, keeping the identifier index of unchanged files
+   *
+   * Callers are resolved with the new program's type checker, since an edit
+   * in any file can add or remove calls.
+   *
+   * @param program - New program (e.g. rebuilt after an edit)
+   * @param changedFiles - Files that were changed, added or removed since the previous program
+   */
+  updateProgram(program: ts.Program, changedFiles: ReadonlySet<string>): void {
+    this.program = program;
+    this.typeChecker = program.getTypeChecker();
+    this.callers.clear();
+
+    if (!this.identifiersByName) return;
+
+    for (const fileName of changedFiles) {
+      this.unindexFile(fileName);
+
+      const sourceFile = program.getSourceFile(fileName);
+      if (sourceFile && this.isProjectFile(sourceFile)) {
+        this.indexFile(sourceFile);
+      }
+    }
+  }
+
+  /**
+   * Follows the errors of an unhandled call up through the callers of its function
+   *
+   * @param call - Call without error handling of its own
+   * @returns Where the errors end up, or null if they do not propagate to known callers
+   */
+  traceErrorPropagation(call: ts.CallExpression): PropagationResult | null {
+    const fn = this.getPropagatingFunction(call);
+    if (!fn) return null;
+
+    const callers = this.findCallers(fn);
+    if (!callers) return null;
+
+    const result: PropagationResult = { handledBy: [], unhandled: [] };
+    this.traceCallers(callers, [{ call, functionName: fn.name }], new Set([fn.declaration]), result);
+
+    return result;
+  }
+
+  /**
+   * Finds the project files whose functions are called from the given files
+   *
+   * Errors of contract calls in those functions can propagate into the given
+   * files, so analyzing a subset of the project has to analyze them too. The
+   * callees' own calls are followed up to the same depth as callers are.
+   *
+   * @param sourceFiles - Files the violations are reported for
+   * @returns The other files, in the order they were found
+   */
+  findCalleeFiles(sourceFiles: readonly ts.SourceFile[]): ts.SourceFile[] {
+    const seen = new Set<ts.SourceFile>(sourceFiles);
+    const found: ts.SourceFile[] = [];
+    let current = Array.from(sourceFiles);
+
+    for (let depth = 0; depth < MAX_CALL_DEPTH && current.length > 0; depth++) {
+      const next: ts.SourceFile[] = [];
+
+      const visit = (node: ts.Node): void => {
+        if (ts.isCallExpression(node)) {
+          const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+          const symbol = ts.isIdentifier(callee) ? this.getSymbol(callee) : undefined;
+
+          for (const declaration of symbol?.declarations || []) {
+            const sourceFile = declaration.getSourceFile();
+            if (!seen.has(sourceFile) && this.isProjectFile(sourceFile)) {
+              seen.add(sourceFile);
+              next.push(sourceFile);
+            }
+          }
+        }
+        ts.forEachChild(node, visit);
+      };
+
+      current.forEach(visit);
+      found.push(...next);
+      current = next;
+    }
+
+    return found;
+  }
+
+  /**
+   * Checks each caller, following the ones that propagate the errors further
+   */
+  private traceCallers(
+    callers: ts.CallExpression[],
+    path: PropagationStep[],
+    visited: Set<ts.SignatureDeclaration>,
+    result: PropagationResult
+  ): void {
+    for (const caller of callers) {
+      if (this.isHandled(caller)) {
+        result.handledBy.push(caller);
+        continue;
+      }
+
+      const fn = path.length < MAX_CALL_DEPTH ? this.getPropagatingFunction(caller) : null;
+
+      // Recursive calls: the errors reach the outer callers, which are traced already
+      if (fn && visited.has(fn.declaration)) continue;
+
+      const next = fn ? this.findCallers(fn) : null;
+      if (!fn || !next) {
+        result.unhandled.push({ call: caller, path });
+        continue;
+      }
+
+      this.traceCallers(
+        next,
+        [...path, { call: caller, functionName: fn.name }],
+        new Set([...visited, fn.declaration]),
+        result
+      );
+    }
+  }
+
+  /**
+   * Gets the named function that the errors of a call propagate out of
+   *
+   * Errors leave the function if the call is awaited or returned, or if it
+   * throws synchronously. A promise that is neither awaited nor returned
+   * rejects without reaching the caller.
+   */
+  private getPropagatingFunction(call: ts.CallExpression): ProjectFunction | null {
+    let node: ts.Node = call;
+    let propagates = false;
+
+    while (node.parent && !ts.isFunctionLike(node.parent)) {
+      if (ts.isAwaitExpression(node.parent) || ts.isReturnStatement(node.parent)) {
+        propagates = true;
+      }
+      node = node.parent;
+    }
+
+    const declaration = node.parent;
+    if (!declaration || !ts.isFunctionLike(declaration)) return null;
+
+    // Concise arrow body: const apiGet = (url: string) => axios.get(url);
+    if (ts.isArrowFunction(declaration) && declaration.body === node) {
+      propagates = true;
+    }
+
+    if (!propagates && this.isThenable(call)) return null;
+
+    const nameNode = this.getFunctionNameNode(declaration);
+    return nameNode ? { declaration, nameNode, name: nameNode.text } : null;
+  }
+
+  /**
+   * Gets the identifier a function is referenced by
+   */
+  private getFunctionNameNode(declaration: ts.SignatureDeclaration): ts.Identifier | null {
+    // const apiGet = async () => {}, { apiGet: async () => {} }, class { apiGet = async () => {} }
+    if (ts.isArrowFunction(declaration) || ts.isFunctionExpression(declaration)) {
+      const parent = declaration.parent;
+      if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) &&
+          ts.isIdentifier(parent.name)) {
+        return parent.name;
+      }
+    }
+
+    if ((ts.isFunctionDeclaration(declaration) || ts.isMethodDeclaration(declaration)) &&
+        declaration.name && ts.isIdentifier(declaration.name)) {
+      return declaration.name;
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the calls of a function in the project
+   *
+   * @returns The calls, or null if the function is used in other ways or never called
+   */
+  private findCallers(fn: ProjectFunction): ts.CallExpression[] | null {
+    const cached = this.callers.get(fn.declaration);
+    if (cached !== undefined) return cached;
+
+    const symbol = this.getSymbol(fn.nameNode);
+    let calls: ts.CallExpression[] | null = symbol ? [] : null;
+
+    // Imports under another name (import { apiGet as get }, import get from) add names to search
+    const names = [fn.name];
+    for (const identifier of this.getDefaultImports()) {
+      if (symbol && this.getSymbol(identifier) === symbol && !names.includes(identifier.text)) {
+        names.push(identifier.text);
+      }
+    }
+
+    for (let i = 0; calls && i < names.length; i++) {
+      for (const identifier of this.getIdentifiers(names[i])) {
+        if (identifier === fn.nameNode || this.getSymbol(identifier) !== symbol) continue;
+
+        const parent = identifier.parent;
+        if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) {
+          if (!names.includes(parent.name.text)) names.push(parent.name.text);
+          continue;
+        }
+
+        if (ts.isImportClause(parent) || ts.isExportAssignment(parent) || ts.isTypeQueryNode(parent)) {
+          continue;
+        }
+
+        const call = this.getCallOf(identifier);
+        if (!call) {
+          // Passed as a value: the callers cannot be followed
+          calls = null;
+          break;
+        }
+
+        calls.push(call);
+      }
+    }
+
+    if (calls && calls.length === 0) {
+      calls = null;
+    }
+
+    this.callers.set(fn.declaration, calls);
+    return calls;
+  }
+
+  /**
+   * Gets the call an identifier is the callee of (apiGet(), this.api.get())
+   */
+  private getCallOf(identifier: ts.Identifier): ts.CallExpression | null {
+    let callee: ts.Node = identifier;
+    if (ts.isPropertyAccessExpression(identifier.parent) && identifier.parent.name === identifier) {
+      callee = identifier.parent;
+    }
+
+    const call = callee.parent;
+    return ts.isCallExpression(call) && call.expression === callee ? call : null;
+  }
+
+  /**
+   * Resolves the symbol an identifier refers to, through imports
+   */
+  private getSymbol(identifier: ts.Identifier): ts.Symbol | undefined {
+    const symbol = this.typeChecker.getSymbolAtLocation(identifier);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      return this.typeChecker.getAliasedSymbol(symbol);
+    }
+    return symbol;
+  }
+
+  /**
+   * Checks if a call returns a promise
+   */
+  private isThenable(call: ts.CallExpression): boolean {
+    return this.typeChecker.getTypeAtLocation(call).getProperty('then') !== undefined;
+  }
+
+  /**
+   * Gets the identifiers with a name in the project's files
+   */
+  private getIdentifiers(name: string): ts.Identifier[] {
+    this.buildIdentifierIndex();
+    return this.identifiersByName!.get(name) || [];
+  }
+
+  /**
+   * Gets the names of default imports in the project's files
+   */
+  private getDefaultImports(): ts.Identifier[] {
+    this.buildIdentifierIndex();
+    return this.defaultImports;
+  }
+
+  /**
+   * Indexes the identifiers of the project's files by name
+   */
+  private buildIdentifierIndex(): void {
+    if (this.identifiersByName) return;
+
+    this.identifiersByName = new Map();
+    this.defaultImports = [];
+    this.indexedFiles.clear();
+
+    for (const sourceFile of this.program.getSourceFiles()) {
+      if (this.isProjectFile(sourceFile)) {
+        this.indexFile(sourceFile);
+      }
+    }
+  }
+
+  /**
+   * Adds the identifiers of a file to the index
+   */
+  private indexFile(sourceFile: ts.SourceFile): void {
+    const index = this.identifiersByName!;
+    const fileIdentifiers: ts.Identifier[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node)) {
+        const identifiers = index.get(node.text);
+        if (identifiers) {
+          identifiers.push(node);
+        } else {
+          index.set(node.text, [node]);
+        }
+        fileIdentifiers.push(node);
+
+        if (ts.isImportClause(node.parent) && node.parent.name === node) {
+          this.defaultImports.push(node);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    this.indexedFiles.set(sourceFile.fileName, fileIdentifiers);
+  }
+
+  /**
+   * Removes the identifiers of a file from the index
+   */
+  private unindexFile(fileName: string): void {
+    const fileIdentifiers = this.indexedFiles.get(fileName);
+    if (!fileIdentifiers) return;
+
+    const removed = new Set(fileIdentifiers);
+    for (const name of new Set(fileIdentifiers.map(identifier => identifier.text))) {
+      const remaining = this.identifiersByName!.get(name)!.filter(identifier => !removed.has(identifier));
+      if (remaining.length > 0) {
+        this.identifiersByName!.set(name, remaining);
+      } else {
+        this.identifiersByName!.delete(name);
+      }
+    }
+
+    this.defaultImports = this.defaultImports.filter(identifier => !removed.has(identifier));
+    this.indexedFiles.delete(fileName);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Instance Registry
+ * Resolves package instances that are created in one module and used in another
+ *
+ * Client instances are usually created once and shared:
+ *
+ *   // lib/db.ts
+ *   export const prisma = new PrismaClient();
+ *
+ *   // users.ts
+ *   import { prisma } from './lib/db';
+ *   await prisma.user.create({ data });
+ *
+ * Per-file instance tracking does not see that `prisma` in users.ts is a
+ * PrismaClient. This registry follows the imported identifier through the type
+ * checker's alias links (re-exports, renamed and default imports) to the
+ * declaration that created the instance, and records which package it belongs
+ * to. It also resolves injected instances by the class of their declared type,
+ * including project classes that extend a package class
+ * (`class PrismaService extends PrismaClient`).
+ *
+ * Results are cached per declaration symbol, so each instance is resolved once.
+ * When the program is rebuilt, only results resolved from changed files are
+ * dropped.
+ */
+
+import * as ts from 'typescript';
+
+/** Aliases of aliases (const db = prisma) and base class chains are not followed any further */
+const MAX_RESOLVE_DEPTH = 8;
+
+/**
+ * Package detection for the expressions and type names that create or declare instances
+ */
+export interface InstanceDetectors {
+  /** Package of an instance created by an expression (new PrismaClient(), axios.create(), ...) */
+  packageFromInitializer: (expression: ts.Expression, sourceFile: ts.SourceFile) => string | null;
+  /** Package of a class or type name from the contracts' detection rules */
+  packageFromTypeName: (typeName: string) => string | null;
+}
+
+/**
+ * A resolved package, with the files it was resolved from
+ */
+interface CachedPackage {
+  /** Package name, or null if the symbol is not a package instance or class */
+  packageName: string | null;
+  /** Files of the declarations that were followed */
+  files: Set<string>;
+}
+
+export class InstanceRegistry {
+  private typeChecker: ts.TypeChecker;
+  private detectors: InstanceDetectors;
+  private isProjectFile: (sourceFile: ts.SourceFile) => boolean;
+
+  // Package per declaration symbol
+  private instances: Map<ts.Symbol, CachedPackage> = new Map();
+  // Package per class symbol (a package class or derived from one)
+  private classes: Map<ts.Symbol, CachedPackage> = new Map();
+  // Files followed by the resolutions in progress, innermost last
+  private resolving: Set<string>[] = [];
+
+  /**
+   * @param program - Program the instances are declared in
+   * @param detectors - Package detection from the contracts' detection rules
+   * @param isProjectFile - Whether declarations in a file count (e.g. excludes node_modules)
+   */
+  constructor(
+    program: ts.Program,
+    detectors: InstanceDetectors,
+    isProjectFile: (sourceFile: ts.SourceFile) => boolean
+  ) {
+    this.typeChecker = program.getTypeChecker();
+    this.detectors = detectors;
+    this.isProjectFile = isProjectFile;
+  }
+
+  /**
+   * Replaces the program, keeping the results that do not depend on changed files
+   *
+   * @param program - New program (e.g. rebuilt after an edit)
+   * @param changedFiles - Files that were changed, added or removed since the previous program
+   */
+  updateProgram(program: ts.Program, changedFiles: ReadonlySet<string>): void {
+    this.typeChecker = program.getTypeChecker();
+
+    for (const cache of [this.instances, this.classes]) {
+      for (const [symbol, cached] of cache) {
+        if (Array.from(cached.files).some(fileName => changedFiles.has(fileName))) {
+          cache.delete(symbol);
+        }
+      }
+    }
+  }
+
+  /**
+   * Gets the package of the instance an identifier refers to
+   *
+   * @param identifier - Identifier in any file, e.g. the name of an import specifier
+   * @returns Package name, or null if the identifier is not a known package instance
+   */
+  getPackageForIdentifier(identifier: ts.Identifier): string | null {
+    const symbol = this.getSymbol(identifier);
+    return symbol ? this.getPackageForSymbol(symbol, 0) : null;
+  }
+
+  /**
+   * Gets the package of instances declared with a type
+   *
+   * Resolves the type's class, so that renamed imports of package classes and
+   * project classes that extend them (e.g. a NestJS PrismaService) are found.
+   *
+   * @param typeNode - Declared type, e.g. of an injected constructor parameter
+   * @returns Package name, or null if the type is not a package class
+   */
+  getPackageForType(typeNode: ts.TypeNode): string | null {
+    if (!ts.isTypeReferenceNode(typeNode)) return null;
+
+    const symbol = this.getSymbol(typeNode.typeName);
+    if (symbol) {
+      const packageName = this.getPackageForClass(symbol, 0);
+      if (packageName) return packageName;
+    }
+
+    // Unresolved type (e.g. the package's types are not installed): fall back to the written name
+    const typeName = ts.isIdentifier(typeNode.typeName) ? typeNode.typeName : typeNode.typeName.right;
+    return this.detectors.packageFromTypeName(typeName.text);
+  }
+
+  /**
+   * Gets the package of the instance a declaration symbol stands for
+   */
+  private getPackageForSymbol(symbol: ts.Symbol, depth: number): string | null {
+    return this.resolveCached(this.instances, symbol, () => {
+      for (const declaration of symbol.declarations || []) {
+        const packageName = this.getPackageForDeclaration(declaration, depth);
+        if (packageName) return packageName;
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Gets the package of the instance a declaration creates or receives
+   */
+  private getPackageForDeclaration(declaration: ts.Declaration, depth: number): string | null {
+    if (!this.isProjectFile(declaration.getSourceFile())) return null;
+
+    // export const prisma = new PrismaClient(); export const prisma: PrismaClient = ...;
+    // class Repo { private db = new PrismaClient() }; constructor(private prisma: PrismaService)
+    if (ts.isVariableDeclaration(declaration) ||
+        ts.isPropertyDeclaration(declaration) ||
+        ts.isParameter(declaration)) {
+      if (declaration.type) {
+        const packageName = this.getPackageForType(declaration.type);
+        if (packageName) return packageName;
+      }
+
+      if (declaration.initializer) {
+        return this.getPackageForExpression(declaration.initializer, depth);
+      }
+    }
+
+    // export default new PrismaClient()
+    if (ts.isExportAssignment(declaration)) {
+      return this.getPackageForExpression(declaration.expression, depth);
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the package of the instance an expression evaluates to
+   */
+  private getPackageForExpression(expression: ts.Expression, depth: number): string | null {
+    // (new PrismaClient()) as PrismaClient, new PrismaClient()!
+    if (ts.isParenthesizedExpression(expression) ||
+        ts.isAsExpression(expression) ||
+        ts.isNonNullExpression(expression) ||
+        ts.isSatisfiesExpression(expression)) {
+      return this.getPackageForExpression(expression.expression, depth);
+    }
+
+    // Reused instance in development: globalForPrisma.prisma ?? new PrismaClient()
+    if (ts.isBinaryExpression(expression) &&
+        (expression.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken ||
+         expression.operatorToken.kind === ts.SyntaxKind.BarBarToken)) {
+      return this.getPackageForExpression(expression.right, depth) ||
+        this.getPackageForExpression(expression.left, depth);
+    }
+
+    // Aliases of another instance: export const db = prisma
+    if (ts.isIdentifier(expression)) {
+      const symbol = depth < MAX_RESOLVE_DEPTH ? this.getSymbol(expression) : undefined;
+      return symbol ? this.getPackageForSymbol(symbol, depth + 1) : null;
+    }
+
+    return this.detectors.packageFromInitializer(expression, expression.getSourceFile());
+  }
+
+  /**
+   * Gets the package of a class, following the classes it extends
+   */
+  private getPackageForClass(symbol: ts.Symbol, depth: number): string | null {
+    return this.resolveCached(this.classes, symbol, () => {
+      let packageName = this.detectors.packageFromTypeName(symbol.getName());
+
+      for (const declaration of symbol.declarations || []) {
+        if (packageName || depth >= MAX_RESOLVE_DEPTH) break;
+        if (!ts.isClassLike(declaration)) continue;
+
+        const baseClass = declaration.heritageClauses
+          ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+          ?.types[0];
+        const baseSymbol = baseClass && this.getSymbol(baseClass.expression);
+        if (baseSymbol) {
+          packageName = this.getPackageForClass(baseSymbol, depth + 1);
+        }
+      }
+
+      return packageName;
+    });
+  }
+
+  /**
+   * Resolves the package of a symbol once, recording the files it was resolved from
+   *
+   * The files of nested resolutions (aliases, base classes) count for the
+   * outer ones too, so that an edit anywhere along the chain drops them.
+   */
+  private resolveCached(
+    cache: Map<ts.Symbol, CachedPackage>,
+    symbol: ts.Symbol,
+    resolve: () => string | null
+  ): string | null {
+    const cached = cache.get(symbol);
+    if (cached) {
+      this.addResolvedFiles(cached.files);
+      return cached.packageName;
+    }
+
+    // Set before resolving, so that circular aliases end
+    const entry: CachedPackage = {
+      packageName: null,
+      files: new Set((symbol.declarations || []).map(declaration => declaration.getSourceFile().fileName)),
+    };
+    cache.set(symbol, entry);
+
+    this.resolving.push(entry.files);
+    try {
+      entry.packageName = resolve();
+    } finally {
+      this.resolving.pop();
+    }
+
+    this.addResolvedFiles(entry.files);
+    return entry.packageName;
+  }
+
+  /**
+   * Adds files to the innermost resolution in progress
+   */
+  private addResolvedFiles(files: Set<string>): void {
+    const current = this.resolving[this.resolving.length - 1];
+    files.forEach(fileName => current?.add(fileName));
+  }
+
+  /**
+   * Resolves the symbol a name refers to, through imports and re-exports
+   *
+   * Imports that cannot be resolved (e.g. the package's types are not
+   * installed) keep the import's own symbol, so their written name can still
+   * be matched against the detection rules.
+   */
+  private getSymbol(node: ts.Node): ts.Symbol | undefined {
+    const symbol = this.typeChecker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      const aliased = this.typeChecker.getAliasedSymbol(symbol);
+      return aliased.declarations?.length ? aliased : symbol;
+    }
+    return symbol;
+  }
+}
@@ -0,0 +1,588 @@
+/**
+ * Programmatic API
+ *
+ * Library entry point for embedding behavioral contract verification in other
+ * tools. `verify()` runs the same pipeline as the CLI but only returns data:
+ * it does not parse arguments, print, write report files or exit the process.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { loadCorpus } from './corpus-loader.js';
+import { Analyzer } from './analyzer.js';
+import { PackageDiscovery } from './package-discovery.js';
+import { readInstalledVersions } from './installed-versions.js';
+import { selectContracts } from './contract-selection.js';
+import { generateAuditRecord, generateEnhancedAuditRecord, generateSummary } from './reporter.js';
+import { calculateHealthScore, type HealthMetrics } from './reporters/health-score.js';
+import { loadBaseline, compareWithBaseline, summarizeBaseline, applyBaseline } from './baseline.js';
+import { findGitRepoRoot } from './git-diff.js';
+import { isSeverity, meetsSeverityThreshold } from './filters.js';
+import { fixFiles, type FileFixResult, type FixProposal } from './fixes/index.js';
+import {
+  discoverWorkspaces,
+  mergePackageDiscovery,
+  type Workspace,
+  type WorkspaceDiscoveryResult,
+} from './workspaces.js';
+import type {
+  AnalyzerConfig,
+  ChangedFile,
+  ContractVersionMatch,
+  CorpusLoadResult,
+  EnhancedAuditRecord,
+  PackageContract,
+  PackageDiscoveryResult,
+  Severity,
+  Violation,
+} from './types.js';
+import type { DeadSuppression, MatchedSuppression, MovedSuppression } from './suppressions/types.js';
+import type { DetectorPlugin } from './plugins/types.js';
+
+/**
+ * Options for a verification run
+ */
+export interface VerifyOptions {
+  /** Path to tsconfig.json or a directory containing one */
+  tsconfig: string;
+  /** Path to the corpus directory (not needed when `contracts` is given) */
+  corpus?: string;
+  /** Already loaded contracts (skips loading the corpus) */
+  contracts?: Map<string, PackageContract>;
+  /** Every contract of each package with several, to choose from by installed version (with `contracts`) */
+  contractVersions?: Map<string, PackageContract[]>;
+  /** Version of the corpus `contracts` were loaded from (see CorpusLoadResult.version) */
+  corpusVersion?: string;
+  /** Project root for package.json discovery (default: the tsconfig directory) */
+  project?: string;
+  /** Include test files in analysis (default: false) */
+  includeTests?: boolean;
+  /** Include draft and in-development contracts (default: false) */
+  includeDrafts?: boolean;
+  /** Include deprecated contracts (default: false) */
+  includeDeprecated?: boolean;
+  /** Discover packages from package.json and imports (default: true) */
+  discoverPackages?: boolean;
+  /** Only analyze files matching these globs (relative to the tsconfig directory) */
+  include?: string[];
+  /** Skip files matching these globs (relative to the tsconfig directory) */
+  exclude?: string[];
+  /** Only report violations at or above this severity */
+  minSeverity?: Severity;
+  /** Only analyze these files (see getChangedFiles) */
+  changedFiles?: ChangedFile[];
+  /** Only report violations on changed lines of changedFiles */
+  changedLinesOnly?: boolean;
+  /** Path to a baseline audit.json; only new violations end up in `reportRecord` */
+  baseline?: string;
+  /** Detect suppressions that no longer match a violation (default: false) */
+  checkDeadSuppressions?: boolean;
+  /** Record suppressions in .verify-cli/suppressions.json (default: false) */
+  updateSuppressionManifest?: boolean;
+  /** Detector plugins to run on each file (see loadDetectorPlugins) */
+  plugins?: DetectorPlugin[];
+  /** Report contract edge cases at the call sites that use them in `record.edge_cases` (default: false) */
+  edgeCases?: boolean;
+  /** Called as the run progresses (e.g., to print status) */
+  onProgress?: (event: VerifyProgressEvent) => void;
+}
+
+/**
+ * Options for a monorepo run (see verifyWorkspaces)
+ */
+export interface VerifyWorkspacesOptions extends Omit<VerifyOptions, 'tsconfig' | 'project'> {
+  /** Monorepo root with the workspace definitions */
+  root: string;
+  /** Count warnings as failures in the per-workspace status (default: false) */
+  failOnWarnings?: boolean;
+}
+
+/**
+ * Options for an automated fix run (see fix)
+ */
+export interface FixOptions extends Pick<
+  VerifyOptions,
+  'tsconfig' | 'corpus' | 'contracts' | 'contractVersions' | 'includeTests' | 'includeDrafts' | 'includeDeprecated' | 'include' | 'exclude' | 'minSeverity'
+> {
+  /** Called for each verified fix; return false to skip it (e.g., interactive prompts) */
+  confirm?: (proposal: FixProposal) => boolean | Promise<boolean>;
+}
+
+/**
+ * Progress notifications emitted by verify() and verifyWorkspaces()
+ */
+export type VerifyProgressEvent =
+  | { stage: 'workspace-start'; workspace: Workspace; index: number; total: number }
+  | { stage: 'discovery-start' }
+  | { stage: 'discovery-complete'; result: PackageDiscoveryResult }
+  | { stage: 'contracts-skipped'; skipped: ContractVersionMatch[] }
+  | { stage: 'analysis-start' }
+  | { stage: 'analysis-complete'; filesAnalyzed: number };
+
+/**
+ * Result of a verification run
+ */
+export interface VerifyResult {
+  /** Audit record with every (unsuppressed) violation */
+  record: EnhancedAuditRecord;
+  /** Record to report and gate on: only new violations when a baseline was given, otherwise `record` */
+  reportRecord: EnhancedAuditRecord;
+  /** Package discovery result (undefined when discovery was disabled) */
+  packageDiscovery?: PackageDiscoveryResult;
+  /** Violations hidden by inline comments or config rules */
+  suppressedViolations: Array<{ violation: Violation; suppression: MatchedSuppression }>;
+  /** Suppressions that no longer match a violation (only with checkDeadSuppressions) */
+  deadSuppressions: DeadSuppression[];
+  /** Suppressions whose code moved since the last run (re-located in the manifest by their AST anchor) */
+  movedSuppressions: MovedSuppression[];
+  /** Health metrics for `record` */
+  health: HealthMetrics;
+  /** Project root used for fingerprints (git root or tsconfig directory) */
+  projectRoot: string;
+  /** Problems that did not stop the run (e.g., an unreadable lockfile) */
+  warnings: string[];
+}
+
+/**
+ * Result of a monorepo run
+ */
+export interface VerifyWorkspacesResult extends VerifyResult {
+  /** Result of each workspace */
+  workspaces: Array<{ workspace: Workspace; result: VerifyResult }>;
+  /** Workspace directories that were not analyzed */
+  skippedWorkspaces: WorkspaceDiscoveryResult['skipped'];
+}
+
+/**
+ * Result of an automated fix run
+ */
+export interface FixResult {
+  /** Files that had violations, with their fixed text and diffs */
+  files: FileFixResult[];
+  /** Project root that diff paths are relative to */
+  projectRoot: string;
+  /** Problems that did not stop the run (e.g., an unreadable lockfile) */
+  warnings: string[];
+}
+
+/**
+ * Verifies a TypeScript project against behavioral contracts
+ *
+ * @param options - What to analyze and how
+ * @returns Audit records, suppressions and health metrics
+ * @throws Error if the tsconfig, corpus or baseline cannot be loaded
+ */
+export async function verify(options: VerifyOptions): Promise<VerifyResult> {
+  const tsconfigPath = resolveTsconfigPath(options.tsconfig);
+  if (!fs.existsSync(tsconfigPath)) {
+    throw new Error(`tsconfig not found at ${tsconfigPath}`);
+  }
+
+  if (options.minSeverity && !isSeverity(options.minSeverity)) {
+    throw new Error(`Unknown severity "${options.minSeverity}"`);
+  }
+
+  const { contracts, versions, version: corpusVersion } = await loadContracts(options);
+  const projectRoot = findGitRepoRoot(tsconfigPath) || path.dirname(tsconfigPath);
+
+  // Discover packages (if enabled)
+  let packageDiscovery: PackageDiscoveryResult | undefined;
+  if (options.discoverPackages !== false) {
+    options.onProgress?.({ stage: 'discovery-start' });
+    const discoveryTool = new PackageDiscovery(contracts, {
+      includePaths: options.include,
+      excludePaths: options.exclude,
+      contractVersions: versions,
+    });
+    packageDiscovery = await discoveryTool.discoverPackages(
+      options.project || path.dirname(tsconfigPath),
+      tsconfigPath
+    );
+    options.onProgress?.({ stage: 'discovery-complete', result: packageDiscovery });
+  }
+
+  // Apply only the contracts whose semver range covers the installed version
+  const installed = await readInstalledVersions(options.project || path.dirname(tsconfigPath), contracts.keys());
+  const selection = selectContracts(contracts, installed.versions, versions);
+  const skipped = selection.matches.filter(match => match.match === 'mismatch');
+  if (skipped.length > 0) {
+    options.onProgress?.({ stage: 'contracts-skipped', skipped });
+  }
+
+  // Run analysis
+  options.onProgress?.({ stage: 'analysis-start' });
+  const config: AnalyzerConfig = {
+    tsconfigPath,
+    corpusPath: options.corpus ? path.resolve(options.corpus) : '',
+    includeTests: options.includeTests,
+    includePaths: options.include,
+    excludePaths: options.exclude,
+    severityThreshold: options.minSeverity,
+    changedFiles: options.changedFiles,
+    changedLinesOnly: options.changedLinesOnly,
+    updateSuppressionManifest: options.updateSuppressionManifest ?? false,
+    plugins: options.plugins,
+    edgeCases: options.edgeCases,
+  };
+  const analyzer = new Analyzer(config, selection.contracts);
+  const violations = analyzer.analyze();
+  const stats = analyzer.getStats();
+  options.onProgress?.({ stage: 'analysis-complete', filesAnalyzed: stats.filesAnalyzed });
+
+  const auditRecord = await generateAuditRecord(violations, {
+    tsconfigPath: options.tsconfig,
+    packagesAnalyzed: Array.from(selection.contracts.keys()),
+    contractsApplied: stats.contractsApplied,
+    filesAnalyzed: stats.filesAnalyzed,
+    corpusVersion: corpusVersion ?? 'unknown',
+    projectRoot,
+    minSeverity: options.minSeverity,
+    plugins: options.plugins,
+  });
+  if (options.edgeCases) {
+    auditRecord.edge_cases = analyzer.getEdgeCaseFindings();
+  }
+  if (selection.matches.length > 0) {
+    auditRecord.contract_versions = selection.matches;
+  }
+
+  const discovery = packageDiscovery || { total: 0, withContracts: 0, withoutContracts: 0, packages: [] };
+  const record = generateEnhancedAuditRecord(auditRecord, discovery);
+  const reportRecord = options.baseline
+    ? compareRecordWithBaseline(record, options.baseline, options.minSeverity, projectRoot)
+    : record;
+
+  return {
+    record,
+    reportRecord,
+    packageDiscovery,
+    suppressedViolations: analyzer.getSuppressedViolations(),
+    deadSuppressions: options.checkDeadSuppressions ? analyzer.detectDeadSuppressions() : [],
+    movedSuppressions: analyzer.getMovedSuppressions(),
+    health: calculateHealthScore(record),
+    projectRoot,
+    warnings: [...installed.warnings, ...analyzer.getWarnings()],
+  };
+}
+
+/**
+ * Verifies every workspace package of a monorepo
+ *
+ * Each workspace is analyzed with its own tsconfig.json and package.json. The
+ * results are merged into one audit record whose `workspaces` field holds the
+ * per-workspace breakdown. A baseline is compared against the merged record.
+ *
+ * @param options - Same as verify(); `tsconfig` and `project` are replaced by `root`
+ * @returns Merged results plus the result of each workspace
+ * @throws Error if no workspaces are found or a workspace cannot be verified
+ */
+export async function verifyWorkspaces(options: VerifyWorkspacesOptions): Promise<VerifyWorkspacesResult> {
+  const root = path.resolve(options.root);
+  const { workspaces, skipped } = await discoverWorkspaces(root);
+  if (workspaces.length === 0) {
+    throw new Error(`No workspaces with a tsconfig.json found in ${root}`);
+  }
+
+  // Loaded once; each workspace chooses the contract versions it has installed
+  const { contracts, versions, version: corpusVersion } = await loadContracts(options);
+  const projectRoot = findGitRepoRoot(path.join(root, 'package.json')) || root;
+
+  const results: Array<{ workspace: Workspace; result: VerifyResult }> = [];
+  for (const [index, workspace] of workspaces.entries()) {
+    options.onProgress?.({ stage: 'workspace-start', workspace, index, total: workspaces.length });
+    try {
+      const result = await verify({
+        ...options,
+        tsconfig: workspace.tsconfigPath,
+        project: workspace.dir,
+        contracts,
+        contractVersions: versions,
+        corpusVersion,
+        baseline: undefined,
+      });
+      results.push({ workspace, result });
+    } catch (error) {
+      throw new Error(`Failed to verify workspace ${workspace.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // A file included by several tsconfigs is reported once, for the first workspace
+  const seen = new Set<string>();
+  const violations: Violation[] = [];
+  for (const { result } of results) {
+    for (const violation of result.record.violations) {
+      const key = `${violation.file}:${violation.line}:${violation.column}:${violation.id}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        violations.push(violation);
+      }
+    }
+  }
+
+  const discovery = mergePackageDiscovery(
+    results.map(({ result }) => result.packageDiscovery).filter((d): d is PackageDiscoveryResult => !!d)
+  );
+  const first = results[0].result.record;
+  const record = generateEnhancedAuditRecord({
+    ...first,
+    tsconfig: root,
+    contracts_applied: results.reduce((sum, { result }) => sum + result.record.contracts_applied, 0),
+    files_analyzed: results.reduce((sum, { result }) => sum + result.record.files_analyzed, 0),
+    violations,
+    summary: generateSummary(violations),
+    packages_analyzed: Array.from(new Set(results.flatMap(({ result }) => result.record.packages_analyzed))),
+    edge_cases: options.edgeCases
+      ? results.flatMap(({ result }) => result.record.edge_cases || [])
+      : undefined,
+    contract_versions: mergeContractVersions(results.map(({ result }) => result.record.contract_versions || [])),
+  }, discovery);
+
+  const reportRecord = options.baseline
+    ? compareRecordWithBaseline(record, options.baseline, options.minSeverity, projectRoot)
+    : record;
+
+  // Per-workspace pass/fail is based on the violations that gate the run
+  const gated = new Set(reportRecord.violations);
+  record.workspaces = results.map(({ workspace, result }) => {
+    const own = result.record.violations.filter(v => gated.has(v));
+    const gatedSummary = generateSummary(own);
+    return {
+      name: workspace.name,
+      path: path.relative(root, workspace.dir) || '.',
+      tsconfig: path.relative(root, workspace.tsconfigPath),
+      files_analyzed: result.record.files_analyzed,
+      contracts_applied: result.record.contracts_applied,
+      summary: result.record.summary,
+      health_score: result.health.overallScore,
+      passed: gatedSummary.passed && !(options.failOnWarnings && gatedSummary.warning_count > 0),
+    };
+  });
+  reportRecord.workspaces = record.workspaces;
+
+  return {
+    record,
+    reportRecord,
+    packageDiscovery: options.discoverPackages !== false ? discovery : undefined,
+    suppressedViolations: results.flatMap(({ result }) => result.suppressedViolations),
+    deadSuppressions: results.flatMap(({ result }) => result.deadSuppressions),
+    movedSuppressions: results.flatMap(({ result }) => result.movedSuppressions),
+    health: calculateHealthScore(record),
+    projectRoot,
+    // Workspaces of a monorepo share its lockfile
+    warnings: Array.from(new Set(results.flatMap(({ result }) => result.warnings))),
+    workspaces: results,
+    skippedWorkspaces: skipped,
+  };
+}
+
+/**
+ * Merges the contract version matches of several workspaces
+ *
+ * Workspaces that install the same version of a package share one entry.
+ */
+function mergeContractVersions(matches: ContractVersionMatch[][]): ContractVersionMatch[] | undefined {
+  const byVersion = new Map<string, ContractVersionMatch>();
+  for (const match of matches.flat()) {
+    const key = `${match.package}@${match.installed_version}:${match.semver}`;
+    if (!byVersion.has(key)) {
+      byVersion.set(key, match);
+    }
+  }
+  return byVersion.size > 0 ? Array.from(byVersion.values()) : undefined;
+}
+
+/**
+ * Compares a record against a baseline file
+ *
+ * Stores the baseline summary on `record` and returns a copy restricted to
+ * the new violations.
+ */
+function compareRecordWithBaseline(
+  record: EnhancedAuditRecord,
+  baseline: string,
+  minSeverity: Severity | undefined,
+  projectRoot: string
+): EnhancedAuditRecord {
+  const baselinePath = path.resolve(baseline);
+  const baselineRecord = loadBaseline(baselinePath);
+  if (!baselineRecord) {
+    throw new Error(`Baseline not found at ${baselinePath}`);
+  }
+
+  // Baseline findings below minSeverity are out of scope, not fixed
+  const baselineViolations = baselineRecord.violations
+    .filter(v => meetsSeverityThreshold(v.severity, minSeverity));
+
+  const comparison = compareWithBaseline(record.violations, baselineViolations, projectRoot);
+  record.baseline = summarizeBaseline(comparison, baselinePath, projectRoot);
+  return generateEnhancedAuditRecord(
+    applyBaseline(record, comparison, record.baseline),
+    record.package_discovery
+  );
+}
+
+/**
+ * Applies codemods for the violations of a TypeScript project
+ *
+ * Each fix is verified by re-running the analyzer on the edited file. Like
+ * verify(), this only returns data: the fixed text has to be written by the
+ * caller.
+ *
+ * @param options - What to analyze and which fixes to keep
+ * @returns Fixed text, diffs and the fixes that were applied or rejected per file
+ * @throws Error if the tsconfig or corpus cannot be loaded
+ */
+export async function fix(options: FixOptions): Promise<FixResult> {
+  const tsconfigPath = resolveTsconfigPath(options.tsconfig);
+  if (!fs.existsSync(tsconfigPath)) {
+    throw new Error(`tsconfig not found at ${tsconfigPath}`);
+  }
+
+  if (options.minSeverity && !isSeverity(options.minSeverity)) {
+    throw new Error(`Unknown severity "${options.minSeverity}"`);
+  }
+
+  const loaded = await loadContracts(options);
+  const projectRoot = findGitRepoRoot(tsconfigPath) || path.dirname(tsconfigPath);
+  const installed = await readInstalledVersions(path.dirname(tsconfigPath), loaded.contracts.keys());
+  const { contracts } = selectContracts(loaded.contracts, installed.versions, loaded.versions);
+
+  const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  const parsedConfig = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(tsconfigPath));
+  const program = ts.createProgram({ rootNames: parsedConfig.fileNames, options: parsedConfig.options });
+
+  const analyzer = new Analyzer(
+    {
+      tsconfigPath,
+      corpusPath: options.corpus ? path.resolve(options.corpus) : '',
+      includeTests: options.includeTests,
+      includePaths: options.include,
+      excludePaths: options.exclude,
+      severityThreshold: options.minSeverity,
+      updateSuppressionManifest: false,
+    },
+    contracts,
+    program
+  );
+
+  const files = Array.from(new Set(analyzer.analyze().map(violation => violation.file)));
+  return {
+    files: await fixFiles(analyzer, program, files, { projectRoot, confirm: options.confirm }),
+    projectRoot,
+    warnings: installed.warnings,
+  };
+}
+
+/**
+ * Resolves a tsconfig option that may point to a directory
+ */
+export function resolveTsconfigPath(tsconfigPath: string): string {
+  const resolved = path.resolve(tsconfigPath);
+
+  // If it's a directory, append tsconfig.json
+  if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+    return path.join(resolved, 'tsconfig.json');
+  }
+
+  // Otherwise assume it's already pointing to tsconfig.json
+  return resolved;
+}
+
+/**
+ * Gets the contracts given in the options, or loads them from the corpus directory
+ */
+async function loadContracts(
+  options: Pick<VerifyOptions, 'corpus' | 'contracts' | 'contractVersions' | 'corpusVersion' | 'includeDrafts' | 'includeDeprecated'>
+): Promise<Pick<CorpusLoadResult, 'contracts' | 'versions' | 'version'>> {
+  if (options.contracts) {
+    return { contracts: options.contracts, versions: options.contractVersions || new Map(), version: options.corpusVersion };
+  }
+
+  if (!options.corpus) {
+    throw new Error('Either "corpus" or "contracts" must be provided');
+  }
+
+  if (!fs.existsSync(options.corpus)) {
+    throw new Error(`Corpus directory not found at ${options.corpus}`);
+  }
+
+  const corpusResult = await loadCorpus(options.corpus, {
+    includeDrafts: options.includeDrafts,
+    includeDeprecated: options.includeDeprecated,
+    includeInDevelopment: options.includeDrafts, // in-development included with drafts
+  });
+
+  if (corpusResult.errors.length > 0) {
+    throw new Error(`Failed to load corpus:\n${corpusResult.errors.map(e => `  ${e}`).join('\n')}`);
+  }
+
+  if (corpusResult.contracts.size === 0) {
+    throw new Error('No contracts loaded from corpus');
+  }
+
+  return corpusResult;
+}
+
+// Building blocks for custom pipelines
+export { Analyzer, ANALYZER_PASSES } from './analyzer.js';
+export { PackageDiscovery, type PackageDiscoveryOptions } from './package-discovery.js';
+export {
+  readInstalledVersions,
+  readInstalledVersionsSync,
+  parseLockfile,
+  type InstalledVersion,
+  type InstalledVersionSource,
+  type InstalledVersionsResult,
+} from './installed-versions.js';
+export { selectContracts, chooseContract, matchContractVersion } from './contract-selection.js';
+export { loadCorpus, loadCorpusSync, type LoadCorpusOptions } from './corpus-loader.js';
+export {
+  generateAuditRecord,
+  generateEnhancedAuditRecord,
+  generateSummary,
+  writeAuditRecord,
+  printTerminalReport,
+  printEnhancedTerminalReport,
+} from './reporter.js';
+export { getChangedFiles, findGitRepoRoot, type ChangeSource } from './git-diff.js';
+export { discoverWorkspaces, type Workspace, type WorkspaceDiscoveryResult } from './workspaces.js';
+export { computeViolationFingerprint } from './fingerprint.js';
+export {
+  fixFiles,
+  createCodeFix,
+  applyTextEdits,
+  createUnifiedDiff,
+  type FileFixResult,
+  type FixProposal,
+  type RejectedFix,
+} from './fixes/index.js';
+export {
+  registerChecker,
+  getChecker,
+  type CheckContext,
+  type CheckFinding,
+  type PostconditionChecker,
+} from './checks/index.js';
+export {
+  loadDetectorPlugins,
+  type DetectorContext,
+  type DetectorPlugin,
+  type PluginViolation,
+} from './plugins/index.js';
+export {
+  loadBaseline,
+  writeBaseline,
+  compareWithBaseline,
+  applyBaseline,
+  type BaselineComparison,
+} from './baseline.js';
+export {
+  findProjectConfig,
+  loadProjectConfigFile,
+  type ProjectConfig,
+  type VerifyOptionsConfig,
+} from './config.js';
+export * from './reporters/index.js';
+export type * from './types.js';
+export type { DeadSuppression, MovedSuppression, Suppression } from './suppressions/types.js';
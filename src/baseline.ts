@@ -0,0 +1,146 @@
+/**
+ * Baseline Comparison
+ *
+ * Compares a verification run against a previously recorded audit record so
+ * that CI can fail only on newly introduced violations. Violations are matched
+ * by their line-independent fingerprint, not by line number.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AuditRecord, BaselineSummary, Violation } from './types.js';
+import { computeViolationFingerprint, FINGERPRINT_VERSION } from './fingerprint.js';
+import { generateSummary, writeAuditRecord } from './reporter.js';
+
+/**
+ * Result of matching current violations against baseline violations
+ */
+export interface BaselineComparison {
+  /** Violations not present in the baseline */
+  newViolations: Violation[];
+  /** Violations that were already present in the baseline */
+  existingViolations: Violation[];
+  /** Baseline violations that no longer occur */
+  fixedViolations: Violation[];
+}
+
+/**
+ * Loads a baseline audit record
+ *
+ * @param baselinePath - Path to a previously written audit.json
+ * @returns The audit record, or null if the file does not exist
+ */
+export function loadBaseline(baselinePath: string): AuditRecord | null {
+  if (!fs.existsSync(baselinePath)) {
+    return null;
+  }
+
+  try {
+    const record = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as AuditRecord;
+    if (!Array.isArray(record.violations)) {
+      throw new Error('"violations" must be an array');
+    }
+    return record;
+  } catch (error) {
+    throw new Error(
+      `Failed to load baseline ${baselinePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Writes the current audit record as the new baseline
+ */
+export function writeBaseline(record: AuditRecord, baselinePath: string): void {
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+
+  // The baseline is about accepted violations, not about a previous comparison
+  const { baseline: _baseline, ...baselineRecord } = record;
+  writeAuditRecord(baselineRecord, baselinePath);
+}
+
+/**
+ * Matches current violations against baseline violations by fingerprint
+ *
+ * Matching is count-aware: if the baseline has two identical findings and the
+ * current run has three, exactly one of them is reported as new.
+ *
+ * @param current - Violations from the current run
+ * @param baseline - Violations from the baseline audit record
+ * @param projectRoot - Project root (used for violations without a current stored fingerprint)
+ */
+export function compareWithBaseline(
+  current: Violation[],
+  baseline: Violation[],
+  projectRoot: string
+): BaselineComparison {
+  const remaining = new Map<string, Violation[]>();
+  for (const violation of baseline) {
+    const fingerprint = getFingerprint(violation, projectRoot);
+    const bucket = remaining.get(fingerprint) || [];
+    bucket.push(violation);
+    remaining.set(fingerprint, bucket);
+  }
+
+  const newViolations: Violation[] = [];
+  const existingViolations: Violation[] = [];
+
+  for (const violation of current) {
+    const bucket = remaining.get(getFingerprint(violation, projectRoot));
+    if (bucket && bucket.length > 0) {
+      bucket.shift();
+      existingViolations.push(violation);
+    } else {
+      newViolations.push(violation);
+    }
+  }
+
+  const fixedViolations = Array.from(remaining.values()).flat();
+
+  return { newViolations, existingViolations, fixedViolations };
+}
+
+/**
+ * Builds the baseline summary stored in the audit record
+ */
+export function summarizeBaseline(
+  comparison: BaselineComparison,
+  baselinePath: string,
+  projectRoot: string
+): BaselineSummary {
+  return {
+    path: baselinePath,
+    new_count: comparison.newViolations.length,
+    existing_count: comparison.existingViolations.length,
+    fixed_count: comparison.fixedViolations.length,
+    new_fingerprints: comparison.newViolations.map(v => getFingerprint(v, projectRoot)),
+    fixed: comparison.fixedViolations,
+  };
+}
+
+/**
+ * Restricts an audit record to the violations that are new since the baseline
+ *
+ * The returned record drives the terminal report and exit code.
+ */
+export function applyBaseline(
+  record: AuditRecord,
+  comparison: BaselineComparison,
+  baselineSummary: BaselineSummary
+): AuditRecord {
+  return {
+    ...record,
+    violations: comparison.newViolations,
+    summary: generateSummary(comparison.newViolations),
+    baseline: baselineSummary,
+  };
+}
+
+/**
+ * Gets the stored fingerprint of a violation, computing it if missing or of an older version
+ */
+function getFingerprint(violation: Violation, projectRoot: string): string {
+  return violation.fingerprint?.startsWith(`${FINGERPRINT_VERSION}:`)
+    ? violation.fingerprint
+    : computeViolationFingerprint(violation, projectRoot);
+}
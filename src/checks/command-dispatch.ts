@@ -0,0 +1,52 @@
+/**
+ * command-dispatch Check
+ *
+ * For clients that take command objects (client.send(new GetObjectCommand())),
+ * a postcondition applies to the calls that dispatch one of its commands.
+ * Those calls must have error handling.
+ */
+
+import * as ts from 'typescript';
+import type { CommandDispatchCheck } from '../types.js';
+import type { PostconditionChecker } from './types.js';
+
+export const commandDispatchChecker: PostconditionChecker<CommandDispatchCheck> = {
+  validate(check) {
+    return Array.isArray(check.commands) && check.commands.length > 0
+      ? null
+      : 'commands must list at least one command class';
+  },
+
+  check(check, context) {
+    const command = getDispatchedCommand(context.node);
+    if (!command || !check.commands.includes(command)) return null;
+
+    const { analysis, postcondition } = context;
+    if (analysis.hasTryCatch || analysis.hasPromiseCatch) return null;
+
+    return {
+      description: `${command} called without try-catch. ${postcondition.condition}`,
+      severity: 'error',
+    };
+  },
+};
+
+/**
+ * Gets the class name of the command a call dispatches
+ * e.g., "GetObjectCommand" for s3.send(new GetObjectCommand(params))
+ */
+function getDispatchedCommand(node: ts.CallExpression): string | null {
+  const command = node.arguments[0];
+  if (!command || !ts.isNewExpression(command)) return null;
+
+  if (ts.isIdentifier(command.expression)) {
+    return command.expression.text;
+  }
+
+  // new s3.GetObjectCommand(params)
+  if (ts.isPropertyAccessExpression(command.expression)) {
+    return command.expression.name.text;
+  }
+
+  return null;
+}
@@ -0,0 +1,156 @@
+/**
+ * file-exports Check
+ *
+ * Some packages only work if a project file is set up, e.g. @clerk/nextjs
+ * needs a middleware.ts that default-exports clerkMiddleware(). The check
+ * looks for the file in the project root and the usual source directories and
+ * verifies its imports and exports.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import type { FileExportsCheck } from '../types.js';
+import type { PostconditionChecker } from './types.js';
+
+/** Directories searched when the check does not list any: root, src/ and app/ (Next.js App Router) */
+const DEFAULT_DIRECTORIES = ['', 'src', 'app'];
+
+export const fileExportsChecker: PostconditionChecker<FileExportsCheck> = {
+  validate(check) {
+    if (!Array.isArray(check.files) || check.files.length === 0) {
+      return 'files must list at least one file name';
+    }
+
+    return check.import && !check.import.package ? 'import requires a package' : null;
+  },
+
+  check(check, context) {
+    const { program, projectRoot, postcondition } = context;
+    const describe = (problem: string) => ({
+      description: postcondition.throws || problem,
+      severity: check.severity,
+    });
+
+    const filePath = findProjectFile(projectRoot, check.files, check.directories ?? DEFAULT_DIRECTORIES);
+    if (!filePath) {
+      return check.required === false ? null : describe(`${check.files.join(' or ')} not found.`);
+    }
+
+    const sourceFile = program.getSourceFile(filePath) ?? parseFile(filePath);
+    const fileName = path.relative(projectRoot, filePath);
+
+    const importedName = check.import ? findImport(sourceFile, check.import.package, check.import.name) : null;
+    if (check.import && !importedName) {
+      const name = check.import.name ? `${check.import.name} ` : '';
+      return describe(`${fileName} does not import ${name}from ${check.import.package}.`);
+    }
+
+    if (check.export && !hasExport(sourceFile, check.export, check.import?.name ? importedName : null)) {
+      const exported = check.export === 'default'
+        ? `${check.import?.name ? `${check.import.name}() ` : ''}as default`
+        : check.export;
+      return describe(`${fileName} does not export ${exported}.`);
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Finds the first of the files that exists in one of the directories
+ *
+ * @returns The absolute path, or null if none exists
+ */
+function findProjectFile(projectRoot: string, files: string[], directories: string[]): string | null {
+  for (const directory of directories) {
+    for (const file of files) {
+      const fullPath = path.join(projectRoot, directory, file);
+      if (ts.sys.fileExists(fullPath)) {
+        return fullPath;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses a file that is not part of the program (e.g., middleware.js)
+ */
+function parseFile(filePath: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, ts.sys.readFile(filePath) ?? '', ts.ScriptTarget.Latest, true);
+}
+
+/**
+ * Finds an import from a package or one of its subpaths (@clerk/nextjs/server)
+ *
+ * @returns The local name of the import (the package name if no name is required), or null
+ */
+function findImport(sourceFile: ts.SourceFile, packageName: string, importName?: string): string | null {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+    const importPath = statement.moduleSpecifier.text;
+    if (importPath !== packageName && !importPath.startsWith(`${packageName}/`)) continue;
+
+    if (!importName) return packageName;
+
+    const bindings = statement.importClause?.namedBindings;
+    if (bindings && ts.isNamedImports(bindings)) {
+      const element = bindings.elements.find(e => (e.propertyName ?? e.name).text === importName);
+      if (element) return element.name.text;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks if a file has an export
+ *
+ * @param exportName - "default" or the name of a named export
+ * @param defaultCallee - Local name a default export must call or be (export default clerkMiddleware())
+ */
+function hasExport(sourceFile: ts.SourceFile, exportName: string, defaultCallee: string | null): boolean {
+  for (const statement of sourceFile.statements) {
+    if (exportName === 'default') {
+      if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        if (!defaultCallee) return true;
+
+        const expression = ts.isCallExpression(statement.expression)
+          ? statement.expression.expression
+          : statement.expression;
+        if (ts.isIdentifier(expression) && expression.text === defaultCallee) return true;
+      }
+
+      // export default function middleware() {}
+      if (!defaultCallee && hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) return true;
+      continue;
+    }
+
+    // export { config }
+    if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      if (statement.exportClause.elements.some(element => element.name.text === exportName)) return true;
+    }
+
+    if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) continue;
+
+    // export const config = { matcher: [...] }
+    if (ts.isVariableStatement(statement) &&
+        statement.declarationList.declarations.some(d => ts.isIdentifier(d.name) && d.name.text === exportName)) {
+      return true;
+    }
+
+    // export function config() {}, export class Config {}
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+        statement.name?.text === exportName) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(statement) && (ts.getModifiers(statement)?.some(m => m.kind === kind) ?? false);
+}
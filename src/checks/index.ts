@@ -0,0 +1,28 @@
+/**
+ * Postcondition Checks
+ *
+ * Contracts choose how each postcondition is verified with a `check` kind and
+ * its parameters, so supporting a new package takes only a contract:
+ *
+ *   postconditions:
+ *     - id: hardcoded-credentials
+ *       check:
+ *         kind: literal-argument
+ *         arguments: [0, 1]
+ *
+ * Each kind is implemented by a reusable checker from the registry.
+ */
+
+export {
+  registerChecker,
+  getChecker,
+  resolvePostconditionCheck,
+  runPostconditionCheck,
+  validateContractChecks,
+  isHttpClient,
+} from './registry.js';
+
+export { getLegacyCheck } from './legacy.js';
+export { findMissingErrorHandling } from './try-catch.js';
+
+export type { CheckContext, CheckFinding, PostconditionChecker } from './types.js';
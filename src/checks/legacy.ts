@@ -0,0 +1,73 @@
+/**
+ * Checks for contracts without `check` declarations
+ *
+ * Before postconditions could declare a check, the analyzer recognized these
+ * postcondition IDs and packages in code. Contracts that still rely on them
+ * keep working; contracts that declare `check` or `detection.http_client`
+ * are not affected.
+ */
+
+import type { PostconditionCheck } from '../types.js';
+
+const MIDDLEWARE_FILES = ['middleware.ts', 'middleware.js'];
+
+const LEGACY_CHECKS: Record<string, PostconditionCheck> = {
+  // @clerk/nextjs
+  'auth-null-not-checked': { kind: 'null-check' },
+  'current-user-null-not-handled': { kind: 'null-check' },
+  'get-token-null-not-handled': { kind: 'null-check' },
+  'middleware-not-exported': {
+    kind: 'file-exports',
+    files: MIDDLEWARE_FILES,
+    import: { package: '@clerk/nextjs', name: 'clerkMiddleware' },
+    export: 'default',
+  },
+  'middleware-matcher-missing': {
+    kind: 'file-exports',
+    files: MIDDLEWARE_FILES,
+    export: 'config',
+    required: false,
+    severity: 'warning',
+  },
+
+  // twilio
+  'hardcoded-credentials': { kind: 'literal-argument' },
+
+  // @aws-sdk/client-s3
+  's3-object-operation-no-try-catch': {
+    kind: 'command-dispatch',
+    commands: ['GetObjectCommand', 'PutObjectCommand', 'DeleteObjectCommand', 'HeadObjectCommand', 'CopyObjectCommand'],
+  },
+  's3-multipart-no-try-catch': {
+    kind: 'command-dispatch',
+    commands: ['CreateMultipartUploadCommand', 'UploadPartCommand', 'CompleteMultipartUploadCommand', 'AbortMultipartUploadCommand'],
+  },
+  's3-bucket-operation-no-try-catch': {
+    kind: 'command-dispatch',
+    commands: ['CreateBucketCommand', 'DeleteBucketCommand', 'HeadBucketCommand'],
+  },
+  's3-list-operation-no-try-catch': {
+    kind: 'command-dispatch',
+    commands: ['ListObjectsV2Command', 'ListObjectsCommand', 'ListBucketsCommand'],
+  },
+};
+
+/** Packages treated as HTTP clients if their contract does not say */
+export const LEGACY_HTTP_CLIENTS = ['axios', 'node-fetch', 'got', 'superagent', 'request'];
+
+/**
+ * Gets the check the analyzer used to apply to a postcondition ID
+ *
+ * @returns The check, or undefined for the default (try-catch)
+ */
+export function getLegacyCheck(postconditionId: string): PostconditionCheck | undefined {
+  if (LEGACY_CHECKS[postconditionId]) {
+    return LEGACY_CHECKS[postconditionId];
+  }
+
+  if (postconditionId.includes('429') || postconditionId.includes('rate-limit')) {
+    return { kind: 'status-code-handling', status_codes: [429] };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,112 @@
+/**
+ * literal-argument Check
+ *
+ * Arguments that must not be hardcoded, such as API keys and auth tokens
+ * (twilio(accountSid, authToken)). Values read from process.env pass;
+ * string and template literals, variables initialized with one, and other
+ * property accesses (config.apiKey) are reported.
+ */
+
+import * as ts from 'typescript';
+import type { LiteralArgumentCheck } from '../types.js';
+import type { PostconditionChecker } from './types.js';
+
+export const literalArgumentChecker: PostconditionChecker<LiteralArgumentCheck> = {
+  validate(check) {
+    const invalid = check.arguments?.find(position => !Number.isInteger(position) || position < 0);
+    return invalid === undefined ? null : `arguments contains invalid position ${invalid}`;
+  },
+
+  check(check, context) {
+    const { node, functionName, postcondition } = context;
+    const args = check.arguments
+      ? check.arguments.map(position => node.arguments[position]).filter(arg => arg !== undefined)
+      : [...node.arguments];
+
+    if (!args.some(arg => isHardcoded(arg, node))) return null;
+
+    return {
+      description: postcondition.throws ||
+        `Hardcoded argument passed to ${functionName}(). Use environment variables (process.env) to avoid security risks.`,
+      severity: 'error',
+    };
+  },
+};
+
+/**
+ * Checks if an argument is a hardcoded value rather than read from the environment
+ */
+function isHardcoded(arg: ts.Expression, callNode: ts.CallExpression): boolean {
+  // String and template literals (templates with substitutions can still embed secrets)
+  if (ts.isStringLiteral(arg) || ts.isTemplateExpression(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) {
+    return true;
+  }
+
+  // Variables: trace them back to their declaration in scope
+  if (ts.isIdentifier(arg)) {
+    const initializer = findVariableDeclaration(arg.text, callNode)?.initializer;
+    if (!initializer || isProcessEnvAccess(initializer)) return false;
+    return ts.isStringLiteral(initializer);
+  }
+
+  // process.env.API_KEY and process.env['API_KEY'] are safe; other property
+  // accesses (config.apiKey) may hold anything
+  if (ts.isPropertyAccessExpression(arg) || ts.isElementAccessExpression(arg)) {
+    return !isProcessEnvAccess(arg);
+  }
+
+  return false;
+}
+
+/**
+ * Checks for process.env.NAME or process.env['NAME']
+ */
+function isProcessEnvAccess(node: ts.Expression): boolean {
+  if (!ts.isPropertyAccessExpression(node) && !ts.isElementAccessExpression(node)) return false;
+
+  const expr = node.expression;
+  return ts.isPropertyAccessExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    expr.expression.text === 'process' &&
+    expr.name.text === 'env';
+}
+
+/**
+ * Finds a variable declaration in the scope of the given node
+ */
+function findVariableDeclaration(variableName: string, node: ts.Node): ts.VariableDeclaration | null {
+  let current: ts.Node | undefined = node;
+
+  while (current) {
+    // Check variable statements in this scope
+    if (ts.isSourceFile(current) || ts.isBlock(current) || ts.isFunctionLike(current)) {
+      const scope: ts.Node = current;
+      let foundDeclaration: ts.VariableDeclaration | null = null;
+
+      const visitNode = (child: ts.Node): void => {
+        if (foundDeclaration) return;
+
+        if (ts.isVariableDeclaration(child) &&
+            ts.isIdentifier(child.name) &&
+            child.name.text === variableName) {
+          foundDeclaration = child;
+          return;
+        }
+
+        // Don't recurse into nested functions/blocks
+        if (child === scope || ts.isVariableStatement(child) || ts.isVariableDeclarationList(child)) {
+          ts.forEachChild(child, visitNode);
+        }
+      };
+
+      visitNode(scope);
+      if (foundDeclaration) {
+        return foundDeclaration;
+      }
+    }
+
+    current = current.parent;
+  }
+
+  return null;
+}
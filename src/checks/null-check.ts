@@ -0,0 +1,127 @@
+/**
+ * null-check Check
+ *
+ * For functions that return null instead of throwing (e.g., Clerk's auth()
+ * when the user is not signed in), the result must be checked before use:
+ * an if statement, an early return or optional chaining on the variable the
+ * result is assigned to.
+ */
+
+import * as ts from 'typescript';
+import type { NullCheck } from '../types.js';
+import type { PostconditionChecker } from './types.js';
+
+export const nullCheckChecker: PostconditionChecker<NullCheck> = {
+  check(_check, context) {
+    const { node, sourceFile, functionName, postcondition } = context;
+    if (hasNullCheck(node, sourceFile)) return null;
+
+    return {
+      description: postcondition.throws ||
+        `${functionName}() result used without null check - will crash if it returns null.`,
+      severity: 'error',
+    };
+  },
+};
+
+/**
+ * Checks if the result of a call is null-checked in the containing function
+ */
+function hasNullCheck(callNode: ts.CallExpression, sourceFile: ts.SourceFile): boolean {
+  const containingFunction = ts.findAncestor(callNode.parent, node =>
+    ts.isFunctionDeclaration(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isMethodDeclaration(node)
+  );
+  if (!containingFunction) return false;
+
+  // const result = await auth(), const { userId } = auth()
+  const declaration = ts.isAwaitExpression(callNode.parent) ? callNode.parent.parent : callNode.parent;
+  if (!ts.isVariableDeclaration(declaration)) {
+    // Used directly, without a variable to check
+    return false;
+  }
+
+  const variableNames = getBoundNames(declaration.name);
+  if (variableNames.length === 0) return false;
+
+  let found = false;
+
+  const visit = (node: ts.Node): void => {
+    // if (!userId) ...
+    if (ts.isIfStatement(node) && isNullCheckCondition(node.expression, variableNames, sourceFile)) {
+      found = true;
+    }
+
+    // user?.id
+    if (ts.isPropertyAccessExpression(node) && node.questionDotToken &&
+        variableNames.includes(node.expression.getText(sourceFile))) {
+      found = true;
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(containingFunction, visit);
+
+  return found;
+}
+
+/**
+ * Gets the variable names a declaration binds (destructured properties included)
+ */
+function getBoundNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) {
+    return [name.text];
+  }
+
+  if (ts.isObjectBindingPattern(name)) {
+    return name.elements
+      .filter(element => ts.isIdentifier(element.name))
+      .map(element => (element.name as ts.Identifier).text);
+  }
+
+  return [];
+}
+
+/**
+ * Checks if a condition is a null check for the given variables
+ */
+function isNullCheckCondition(condition: ts.Expression, variableNames: string[], sourceFile: ts.SourceFile): boolean {
+  const conditionText = condition.getText(sourceFile);
+
+  // Check if any of our variables are mentioned in the condition
+  if (!variableNames.some(varName => conditionText.includes(varName))) return false;
+
+  // Pattern: !variable or !userId
+  if (ts.isPrefixUnaryExpression(condition) && condition.operator === ts.SyntaxKind.ExclamationToken) {
+    return variableNames.includes(condition.operand.getText(sourceFile));
+  }
+
+  // Pattern: variable === null, variable !== null, etc.
+  if (ts.isBinaryExpression(condition)) {
+    const operator = condition.operatorToken.kind;
+
+    // Handle || and && by recursively checking both sides
+    if (operator === ts.SyntaxKind.BarBarToken || operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+      return isNullCheckCondition(condition.left, variableNames, sourceFile) ||
+             isNullCheckCondition(condition.right, variableNames, sourceFile);
+    }
+
+    const isComparisonOperator =
+      operator === ts.SyntaxKind.EqualsEqualsToken ||
+      operator === ts.SyntaxKind.EqualsEqualsEqualsToken ||
+      operator === ts.SyntaxKind.ExclamationEqualsToken ||
+      operator === ts.SyntaxKind.ExclamationEqualsEqualsToken;
+
+    return isComparisonOperator && (conditionText.includes('null') || conditionText.includes('undefined'));
+  }
+
+  // Pattern: isAuthenticated or similar boolean check
+  if (ts.isIdentifier(condition)) {
+    return variableNames.includes(condition.text);
+  }
+
+  return false;
+}
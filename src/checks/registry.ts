@@ -0,0 +1,119 @@
+/**
+ * Checker Registry
+ *
+ * Maps each check kind a contract can declare to the checker implementing it.
+ * The built-in kinds are registered here; registerChecker() adds or replaces
+ * one.
+ */
+
+import type {
+  PackageContract,
+  Postcondition,
+  PostconditionCheck,
+  PostconditionCheckKind
+} from '../types.js';
+import type { CheckContext, CheckFinding, PostconditionChecker } from './types.js';
+import { tryCatchChecker } from './try-catch.js';
+import { nullCheckChecker } from './null-check.js';
+import { fileExportsChecker } from './file-exports.js';
+import { literalArgumentChecker } from './literal-argument.js';
+import { commandDispatchChecker } from './command-dispatch.js';
+import { statusCodeHandlingChecker } from './status-code-handling.js';
+import { getLegacyCheck, LEGACY_HTTP_CLIENTS } from './legacy.js';
+import { validatePreconditionCheck } from '../preconditions/checker.js';
+
+// Looked up by the kind of a check, so each checker only receives checks of its own kind
+const checkers = new Map<string, PostconditionChecker<PostconditionCheck>>();
+
+/**
+ * Registers the checker of a check kind
+ *
+ * @param kind - Check kind, as written in contracts
+ * @param checker - Checker; replaces a registered one of the same kind
+ */
+export function registerChecker<K extends PostconditionCheckKind>(
+  kind: K,
+  checker: PostconditionChecker<Extract<PostconditionCheck, { kind: K }>>
+): void {
+  checkers.set(kind, checker);
+}
+
+/**
+ * Gets the checker of a check kind
+ *
+ * @returns The checker, or undefined if the kind is unknown
+ */
+export function getChecker(kind: string): PostconditionChecker | undefined {
+  return checkers.get(kind);
+}
+
+registerChecker('try-catch', tryCatchChecker);
+registerChecker('null-check', nullCheckChecker);
+registerChecker('file-exports', fileExportsChecker);
+registerChecker('literal-argument', literalArgumentChecker);
+registerChecker('command-dispatch', commandDispatchChecker);
+registerChecker('status-code-handling', statusCodeHandlingChecker);
+
+/**
+ * Gets the check that verifies a postcondition
+ *
+ * @returns The declared check; for contracts without one, the check the
+ *   analyzer used to apply to the postcondition's ID, or try-catch
+ */
+export function resolvePostconditionCheck(postcondition: Postcondition): PostconditionCheck {
+  return postcondition.check ?? getLegacyCheck(postcondition.id) ?? { kind: 'try-catch' };
+}
+
+/**
+ * Checks if a package is an HTTP client
+ */
+export function isHttpClient(contract: PackageContract): boolean {
+  return contract.detection?.http_client ?? LEGACY_HTTP_CLIENTS.includes(contract.package);
+}
+
+/**
+ * Verifies a postcondition at a call site with the checker of its check kind
+ *
+ * @returns The finding, or null if the postcondition holds or its kind is unknown
+ */
+export function runPostconditionCheck(check: PostconditionCheck, context: CheckContext): CheckFinding | null {
+  const checker = getChecker(check.kind);
+  return checker ? checker.check(check, context) : null;
+}
+
+/**
+ * Validates the checks a contract declares, for preconditions and postconditions
+ *
+ * @returns Error messages, prefixed with the path of the invalid check (empty if all are valid)
+ */
+export function validateContractChecks(contract: PackageContract): string[] {
+  const errors: string[] = [];
+
+  (contract.functions || []).forEach((fn, i) => {
+    (fn.preconditions || []).forEach((precondition, j) => {
+      const error = precondition.check ? validatePreconditionCheck(precondition.check) : null;
+      if (error) {
+        errors.push(`/functions/${i}/preconditions/${j}/check ${error}`);
+      }
+    });
+
+    (fn.postconditions || []).forEach((postcondition, j) => {
+      const check = postcondition.check;
+      if (!check) return;
+
+      const location = `/functions/${i}/postconditions/${j}/check`;
+      const checker = getChecker(check.kind);
+      if (!checker) {
+        errors.push(`${location} has unknown kind "${check.kind}"`);
+        return;
+      }
+
+      const error = checker.validate?.(check);
+      if (error) {
+        errors.push(`${location} ${error}`);
+      }
+    });
+  });
+
+  return errors;
+}
@@ -0,0 +1,35 @@
+/**
+ * status-code-handling Check
+ *
+ * The call must have error handling, and the handling must check the given
+ * HTTP status codes (e.g., 429 rate limits) or retry the request.
+ */
+
+import type { StatusCodeHandlingCheck } from '../types.js';
+import type { PostconditionChecker } from './types.js';
+import { findMissingErrorHandling } from './try-catch.js';
+
+export const statusCodeHandlingChecker: PostconditionChecker<StatusCodeHandlingCheck> = {
+  validate(check) {
+    if (!Array.isArray(check.status_codes) || check.status_codes.length === 0) {
+      return 'status_codes must list at least one status code';
+    }
+
+    const invalid = check.status_codes.find(code => !Number.isInteger(code) || code < 100 || code > 599);
+    return invalid === undefined ? null : `status_codes contains invalid HTTP status ${invalid}`;
+  },
+
+  check(check, context) {
+    const missing = findMissingErrorHandling(context);
+    if (missing) return missing;
+
+    const { analysis } = context;
+    const unhandled = check.status_codes.filter(code => !analysis.handledStatusCodes.includes(code));
+    if (unhandled.length === 0 || analysis.hasRetryLogic) return null;
+
+    return {
+      description: `Response status ${unhandled.join(', ')} is not explicitly handled. Consider implementing retry logic with exponential backoff.`,
+      severity: 'warning',
+    };
+  },
+};
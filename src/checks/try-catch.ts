@@ -0,0 +1,56 @@
+/**
+ * try-catch Check
+ *
+ * The default check: the call must be inside a try-catch or have a .catch()
+ * handler. For HTTP clients, handled errors should also tell network failures
+ * from HTTP error responses.
+ */
+
+import type { TryCatchCheck } from '../types.js';
+import type { CheckContext, CheckFinding, PostconditionChecker } from './types.js';
+
+export const tryCatchChecker: PostconditionChecker<TryCatchCheck> = {
+  check(_check, context) {
+    const missing = findMissingErrorHandling(context);
+    if (missing) return missing;
+
+    const { analysis, postcondition, httpClient } = context;
+    if (!httpClient) return null;
+
+    // Network failures have no error.response
+    if (postcondition.id.includes('network')) {
+      return analysis.checksResponseExists ? null : {
+        description: 'Generic error handling found. Consider checking if error.response exists to distinguish network failures from HTTP errors.',
+        severity: 'warning',
+      };
+    }
+
+    if (postcondition.id.includes('error') && !analysis.checksStatusCode) {
+      return {
+        description: 'Generic error handling found. Consider inspecting error.response.status to distinguish between 4xx client errors and 5xx server errors for better UX.',
+        severity: 'warning',
+      };
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Reports a call without any error handling
+ *
+ * Checks that require more than try-catch call this first.
+ *
+ * @returns The finding, or null if the call has error handling
+ */
+export function findMissingErrorHandling(context: CheckContext): CheckFinding | null {
+  const { analysis, postcondition } = context;
+  if (analysis.hasTryCatch || analysis.hasPromiseCatch) return null;
+
+  return {
+    description: postcondition.throws
+      ? `No try-catch block found. ${postcondition.throws} - this will crash the application.`
+      : 'No error handling found. This operation can throw errors that will crash the application.',
+    severity: 'error',
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Types shared by the postcondition checkers
+ */
+
+import * as ts from 'typescript';
+import type { CallSiteAnalysis, Postcondition, PostconditionCheck, Severity } from '../types.js';
+
+/**
+ * A contract call to verify a postcondition at
+ */
+export interface CheckContext {
+  /** The contract call */
+  node: ts.CallExpression;
+
+  /** File containing the call */
+  sourceFile: ts.SourceFile;
+
+  /** Name of the contract function (e.g., "get") */
+  functionName: string;
+
+  /** Postcondition being verified */
+  postcondition: Postcondition;
+
+  /** Error handling found at the call site, or at the callers its errors propagate to */
+  analysis: CallSiteAnalysis;
+
+  /** Program the call belongs to */
+  program: ts.Program;
+
+  /** Project root directory (the tsconfig directory) */
+  projectRoot: string;
+
+  /** Whether the package is an HTTP client (see DetectionRules.http_client) */
+  httpClient: boolean;
+}
+
+/**
+ * A postcondition that does not hold at a call site
+ */
+export interface CheckFinding {
+  description: string;
+
+  /** Severity of the violation (default: the postcondition's) */
+  severity?: Severity;
+}
+
+/**
+ * Verifies postconditions of one check kind
+ */
+export interface PostconditionChecker<T extends PostconditionCheck = PostconditionCheck> {
+  /**
+   * Validates the parameters a contract gives the check
+   *
+   * @returns An error message, or null if the parameters are valid
+   */
+  validate?(check: T): string | null;
+
+  /**
+   * Verifies the postcondition at a call site
+   *
+   * @returns The finding, or null if the postcondition holds (or does not apply)
+   */
+  check(check: T, context: CheckContext): CheckFinding | null;
+}
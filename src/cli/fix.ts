@@ -0,0 +1,160 @@
+/**
+ * CLI Command for Automated Fixes
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+import { fix } from '../api.js';
+import { isSeverity, SEVERITY_LEVELS } from '../filters.js';
+import type { FixProposal } from '../fixes/index.js';
+
+/**
+ * Create fix subcommand
+ *
+ * @param defaultCorpusPath - Corpus used when --corpus is not given
+ */
+export function createFixCommand(defaultCorpusPath: string): Command {
+  const fixCommand = new Command('fix');
+
+  fixCommand
+    .description('Apply codemods for violations, verifying each fix by re-running the analyzer')
+    .option('--tsconfig <path>', 'Path to tsconfig.json', './tsconfig.json')
+    .option('--corpus <path>', 'Path to corpus directory', defaultCorpusPath)
+    .option('--dry-run', 'Print the diff without writing any files', false)
+    .option('-i, --interactive', 'Ask before applying each fix', false)
+    .option('--include-tests', 'Fix violations in test files', false)
+    .option('--include-drafts', 'Include draft and in-development contracts', false)
+    .option('--include-deprecated', 'Include deprecated contracts', false)
+    .option('--min-severity <level>', 'Only fix violations at or above this severity: info, warning or error')
+    .action(async (options) => {
+      if (options.minSeverity && !isSeverity(options.minSeverity)) {
+        console.error(chalk.red(`Error: Unknown severity "${options.minSeverity}"`));
+        console.error(chalk.yellow(`Tip: Use --min-severity ${SEVERITY_LEVELS.join(', ')}`));
+        process.exit(1);
+      }
+
+      if (!fs.existsSync(options.corpus)) {
+        console.error(chalk.red(`Error: Corpus directory not found at ${options.corpus}`));
+        console.error(chalk.yellow('Tip: Use --corpus <path> to specify corpus location'));
+        process.exit(1);
+      }
+
+      const prompt = options.interactive ? createPrompt() : undefined;
+
+      try {
+        console.log(chalk.dim('Analyzing and fixing violations...'));
+        console.log();
+
+        const result = await fix({
+          tsconfig: options.tsconfig,
+          corpus: options.corpus,
+          includeTests: options.includeTests,
+          includeDrafts: options.includeDrafts,
+          includeDeprecated: options.includeDeprecated,
+          minSeverity: options.minSeverity,
+          confirm: prompt?.confirm,
+        });
+
+        for (const warning of result.warnings) {
+          console.warn(chalk.yellow(`Warning: ${warning}`));
+        }
+
+        let appliedCount = 0;
+        let filesChanged = 0;
+        let unsupportedCount = 0;
+
+        for (const file of result.files) {
+          const relativeFile = path.relative(result.projectRoot, file.file);
+          unsupportedCount += file.unsupported.length;
+
+          for (const rejected of file.rejected.filter(r => r.reason !== 'declined')) {
+            console.log(chalk.yellow(
+              `⚠ ${relativeFile}:${rejected.violation.line} ` +
+              `${rejected.violation.package}/${rejected.violation.contract_clause}: ` +
+              `${rejected.fix.description} not applied (${rejected.reason})`
+            ));
+          }
+
+          if (file.applied.length === 0) continue;
+
+          appliedCount += file.applied.length;
+          filesChanged++;
+
+          // Interactive mode already showed each diff before asking
+          if (!options.interactive) {
+            console.log(colorizeDiff(file.diff));
+          }
+
+          if (!options.dryRun) {
+            fs.writeFileSync(file.file, file.fixedText);
+          }
+        }
+
+        console.log();
+        console.log(chalk.bold(
+          `${appliedCount} fix${appliedCount === 1 ? '' : 'es'} ` +
+          `${options.dryRun ? 'verified' : 'applied'} in ${filesChanged} file${filesChanged === 1 ? '' : 's'}`
+        ));
+        if (unsupportedCount > 0) {
+          console.log(chalk.dim(`${unsupportedCount} violation(s) have no automatic fix`));
+        }
+        if (options.dryRun && appliedCount > 0) {
+          console.log(chalk.dim('Dry run: no files were written'));
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      } finally {
+        prompt?.close();
+      }
+    });
+
+  return fixCommand;
+}
+
+/**
+ * Creates the interactive prompt for --interactive
+ *
+ * Answering "all" applies the remaining fixes without asking, "quit" skips them.
+ */
+function createPrompt(): { confirm: (proposal: FixProposal) => Promise<boolean>; close: () => void } {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  let remaining: boolean | undefined;
+
+  return {
+    async confirm(proposal: FixProposal): Promise<boolean> {
+      if (remaining !== undefined) return remaining;
+
+      console.log(chalk.bold(
+        `${proposal.violation.package}/${proposal.violation.contract_clause}: ${proposal.fix.description}`
+      ));
+      console.log(colorizeDiff(proposal.diff));
+
+      const answer = (await rl.question('Apply this fix? [y]es, [n]o, [a]ll, [q]uit: ')).trim().toLowerCase();
+      if (answer === 'a' || answer === 'all') remaining = true;
+      if (answer === 'q' || answer === 'quit') remaining = false;
+
+      return remaining ?? (answer === 'y' || answer === 'yes');
+    },
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * Colors a unified diff for the terminal
+ */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,66 @@
+/**
+ * CLI Command for the Language Server
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadCorpus } from '../corpus-loader.js';
+import { isSeverity, SEVERITY_LEVELS } from '../filters.js';
+import { startLanguageServer } from '../language-server.js';
+
+/**
+ * Create lsp subcommand
+ *
+ * @param defaultCorpusPath - Corpus used when --corpus is not given
+ */
+export function createLspCommand(defaultCorpusPath: string): Command {
+  const lsp = new Command('lsp');
+
+  lsp
+    .description('Start a Language Server Protocol server on stdio for editor diagnostics')
+    .option('--corpus <path>', 'Path to corpus directory', defaultCorpusPath)
+    .option('--include-tests', 'Report violations in test files', false)
+    .option('--include-drafts', 'Include draft and in-development contracts', false)
+    .option('--include-deprecated', 'Include deprecated contracts', false)
+    .option('--min-severity <level>', 'Only report violations at or above this severity: info, warning or error')
+    .option('--stdio', 'Communicate over stdin/stdout (the default; accepted for editor clients)')
+    .action(async (options) => {
+      // stdout carries the protocol, so all messages go to stderr
+      if (options.minSeverity && !isSeverity(options.minSeverity)) {
+        console.error(chalk.red(`Error: Unknown severity "${options.minSeverity}"`));
+        console.error(chalk.yellow(`Tip: Use --min-severity ${SEVERITY_LEVELS.join(', ')}`));
+        process.exit(1);
+      }
+
+      if (!fs.existsSync(options.corpus)) {
+        console.error(chalk.red(`Error: Corpus directory not found at ${options.corpus}`));
+        console.error(chalk.yellow('Tip: Use --corpus <path> to specify corpus location'));
+        process.exit(1);
+      }
+
+      const corpusResult = await loadCorpus(options.corpus, {
+        includeDrafts: options.includeDrafts,
+        includeDeprecated: options.includeDeprecated,
+        includeInDevelopment: options.includeDrafts,
+      });
+
+      if (corpusResult.errors.length > 0 || corpusResult.contracts.size === 0) {
+        console.error(chalk.red('Error: Failed to load contracts from corpus'));
+        corpusResult.errors.forEach(err => console.error(chalk.red(`  ✗ ${err}`)));
+        process.exit(1);
+      }
+
+      console.error(chalk.dim(`verify-cli language server: ${corpusResult.contracts.size} package contracts loaded`));
+
+      startLanguageServer(corpusResult.contracts, {
+        corpusPath: path.resolve(options.corpus),
+        contractVersions: corpusResult.versions,
+        includeTests: options.includeTests,
+        minSeverity: options.minSeverity,
+      });
+    });
+
+  return lsp;
+}
@@ -4,16 +4,25 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
+import * as fs from 'fs';
 import * as path from 'path';
 import {
+  addSuppression,
   loadManifestSync,
   getActiveSuppressions,
   getDeadSuppressions,
+  getExpiringSuppressions,
+  daysUntilExpiry,
   detectDeadSuppressions,
   removeDeadSuppressionsFromManifest,
   getSuppressionStats
 } from '../suppressions/index.js';
 import type { Suppression } from '../suppressions/types.js';
+import type { Violation } from '../types.js';
+import { loadBaseline } from '../baseline.js';
+import { TOOL_VERSION } from '../reporter.js';
+import { findProjectConfig, getRunsDir } from '../config.js';
+import { findGitRepoRoot } from '../git-diff.js';
 
 /**
  * Create suppressions subcommand
@@ -23,6 +32,7 @@ export function createSuppressionsCommand(): Command {
 
   suppressions
     .description('Manage behavioral contract suppressions')
+    .addCommand(createAddCommand())
     .addCommand(createListCommand())
     .addCommand(createShowCommand())
     .addCommand(createCleanCommand())
@@ -31,6 +41,61 @@ export function createSuppressionsCommand(): Command {
   return suppressions;
 }
 
+/**
+ * Suppress a violation
+ */
+function createAddCommand(): Command {
+  const add = new Command('add');
+
+  add
+    .description('Suppress a violation with an inline comment or a config file rule')
+    .argument('<violation>', 'Violation to suppress (format: fingerprint or file:line)')
+    .requiredOption('--reason <text>', 'Why the violation is a false positive (at least 10 characters)')
+    .option('--rule <package/clause>', 'Contract clause to suppress (required if the line has several violations)')
+    .option('--expires <date>', 'Last day the suppression applies (YYYY-MM-DD)')
+    .option('--ticket <id>', 'Issue tracking the accepted risk (e.g. ABC-123)')
+    .option('--config', 'Add an ignore rule to .behavioralcontractsrc.json instead of an inline comment')
+    .option('--audit <path>', 'Audit record to look the violation up in (default: latest run)')
+    .option('--output-dir <dir>', 'Output directory the latest run is looked up in (default: outputDir from the config file or .behavioral-contracts)')
+    .option('--project <path>', 'Project root directory', process.cwd())
+    .action((target, options) => {
+      const projectRoot = path.resolve(options.project);
+
+      try {
+        const auditPath = options.audit
+          ? path.resolve(options.audit)
+          : findLatestAuditRecord(projectRoot, options.outputDir);
+        const violations = auditPath ? loadBaseline(auditPath)?.violations ?? [] : [];
+
+        const violation = resolveViolation(target, options.rule, violations, projectRoot);
+
+        const { suppression, writtenTo } = addSuppression({
+          projectRoot,
+          file: violation.file,
+          line: violation.line,
+          column: violation.column,
+          packageName: violation.package,
+          postconditionId: violation.contract_clause,
+          reason: options.reason,
+          expires: options.expires,
+          ticket: options.ticket,
+          target: options.config ? 'config-file' : 'inline-comment',
+          analyzerVersion: TOOL_VERSION
+        });
+
+        console.log(chalk.green(
+          `✅ Suppressed ${suppression.package}/${suppression.postconditionId} at ${suppression.file}:${violation.line}`
+        ));
+        console.log(chalk.dim(`   Written to: ${path.relative(projectRoot, writtenTo) || writtenTo}`));
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+
+  return add;
+}
+
 /**
  * List all suppressions
  */
@@ -41,6 +106,7 @@ function createListCommand(): Command {
     .description('List all suppressions')
     .option('--dead', 'Show only dead suppressions')
     .option('--active', 'Show only active suppressions')
+    .option('--expiring-within <days>', 'Show only suppressions that expire within this many days (including expired ones)')
     .option('--json', 'Output as JSON')
     .option('--project <path>', 'Project root directory', process.cwd())
     .action((options) => {
@@ -58,6 +124,14 @@ function createListCommand(): Command {
           suppressions = manifest.suppressions;
         }
 
+        if (options.expiringWithin !== undefined) {
+          const days = Number(options.expiringWithin);
+          if (!Number.isInteger(days) || days < 0) {
+            throw new Error(`Invalid --expiring-within value: ${options.expiringWithin} (expected a number of days)`);
+          }
+          suppressions = getExpiringSuppressions(suppressions, days);
+        }
+
         if (options.json) {
           console.log(JSON.stringify(suppressions, null, 2));
         } else {
@@ -132,7 +206,7 @@ function createCleanCommand(): Command {
       const projectRoot = path.resolve(options.project);
 
       try {
-        const deadSuppressions = detectDeadSuppressions(projectRoot, '1.1.0');
+        const deadSuppressions = detectDeadSuppressions(projectRoot, TOOL_VERSION);
 
         if (deadSuppressions.length === 0) {
           console.log(chalk.green('✨ No dead suppressions found!'));
@@ -162,7 +236,9 @@ function createCleanCommand(): Command {
           console.log(chalk.dim('The following lines should be removed:\n'));
 
           deadSuppressions.forEach(dead => {
-            console.log(chalk.dim(`  ${dead.suppression.file}:${dead.suppression.line - 1}`));
+            // Scoped directives are recorded at the line of the comment itself
+            const { file, line, scope } = dead.suppression;
+            console.log(chalk.dim(`  ${file}:${scope && scope !== 'line' ? line : line - 1}`));
           });
         }
       } catch (error) {
@@ -207,12 +283,98 @@ function createStatsCommand(): Command {
   return stats;
 }
 
+/**
+ * Finds the audit record of the most recent run
+ *
+ * The runs directory is resolved like the main command does: --output-dir,
+ * then outputDir from the config file, then .behavioral-contracts in the git
+ * root. Run directories start with a timestamp, so the last one in sort order
+ * is the newest.
+ */
+function findLatestAuditRecord(projectRoot: string, outputDir?: string): string | null {
+  const baseOutputDir = outputDir
+    ? path.resolve(outputDir)
+    : findProjectConfig(projectRoot)?.config.outputDir;
+  const repoRoot = findGitRepoRoot(path.join(projectRoot, 'tsconfig.json')) || projectRoot;
+  const runsDir = getRunsDir(repoRoot, baseOutputDir);
+  if (!fs.existsSync(runsDir)) {
+    return null;
+  }
+
+  const latest = fs.readdirSync(runsDir)
+    .filter(run => fs.existsSync(path.join(runsDir, run, 'audit.json')))
+    .sort()
+    .pop();
+
+  return latest ? path.join(runsDir, latest, 'audit.json') : null;
+}
+
+/**
+ * Resolves the violation to suppress
+ *
+ * Fingerprints are looked up in the audit record. For file:line, the audit
+ * record's violations on that line are used, narrowed down by --rule; a
+ * --rule alone is enough when the audit record has no violation there.
+ */
+function resolveViolation(
+  target: string,
+  rule: string | undefined,
+  violations: Violation[],
+  projectRoot: string
+): Violation {
+  const ruleMatch = rule?.match(/^(.+)\/([^/]+)$/);
+  if (rule && !ruleMatch) {
+    throw new Error(`Invalid rule: ${rule} (format: package/clause)`);
+  }
+  const matchesRule = (v: Violation): boolean =>
+    !ruleMatch || (v.package === ruleMatch[1] && v.contract_clause === ruleMatch[2]);
+
+  const location = target.match(/^(.+):(\d+)$/);
+  if (!location) {
+    const violation = violations.find(v => v.fingerprint === target && matchesRule(v));
+    if (!violation) {
+      throw new Error(`No violation with fingerprint ${target} in the latest audit record (run verify-cli first or pass --audit)`);
+    }
+    return violation;
+  }
+
+  const file = path.resolve(projectRoot, location[1]);
+  const line = parseInt(location[2], 10);
+  const candidates = violations.filter(
+    v => path.resolve(projectRoot, v.file) === file && v.line === line && matchesRule(v)
+  );
+
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+  if (candidates.length > 1) {
+    const rules = candidates.map(v => `${v.package}/${v.contract_clause}`).join(', ');
+    throw new Error(`${target} has several violations (${rules}); choose one with --rule`);
+  }
+  if (!ruleMatch) {
+    throw new Error(`No violation at ${target} in the latest audit record; pass --rule <package/clause>`);
+  }
+
+  return {
+    id: 'cli',
+    severity: 'error',
+    file,
+    line,
+    column: 1,
+    package: ruleMatch[1],
+    function: '',
+    contract_clause: ruleMatch[2],
+    description: '',
+    source_doc: ''
+  };
+}
+
 /**
  * Print suppressions list
  */
 function printSuppressionsList(
   suppressions: Suppression[],
-  options: { dead?: boolean; active?: boolean }
+  options: { dead?: boolean; active?: boolean; expiringWithin?: string }
 ): void {
   if (suppressions.length === 0) {
     console.log(chalk.dim('No suppressions found.'));
@@ -224,8 +386,11 @@ function printSuppressionsList(
     : options.active
     ? '✅ Active Suppressions'
     : '📋 All Suppressions';
+  const heading = options.expiringWithin !== undefined
+    ? `${title} expiring within ${options.expiringWithin} days`
+    : title;
 
-  console.log(chalk.bold(`\n${title} (${suppressions.length} total)\n`));
+  console.log(chalk.bold(`\n${heading} (${suppressions.length} total)\n`));
 
   suppressions.forEach((s, index) => {
     const status = s.stillViolates
@@ -235,10 +400,33 @@ function printSuppressionsList(
     console.log(`${index + 1}. ${chalk.cyan(s.file)}:${chalk.yellow(s.line)}`);
     console.log(`   ${status} | ${s.package}/${s.postconditionId}`);
     console.log(chalk.dim(`   Reason: ${s.reason}`));
+    if (s.expires) {
+      console.log(`   Expires: ${formatExpiry(s.expires)}`);
+    }
+    if (s.ticket) {
+      console.log(chalk.dim(`   Ticket: ${s.ticket}`));
+    }
     console.log(chalk.dim(`   Suppressed: ${new Date(s.suppressedAt).toLocaleDateString()}\n`));
   });
 }
 
+/**
+ * Format an expiry date with the days left until it
+ */
+function formatExpiry(expires: string): string {
+  const days = daysUntilExpiry(expires);
+
+  if (days < 0) {
+    return chalk.red(`${expires} (expired)`);
+  }
+  if (days === 0) {
+    return chalk.yellow(`${expires} (expires today)`);
+  }
+  return days <= 30
+    ? chalk.yellow(`${expires} (in ${days} days)`)
+    : `${expires} (in ${days} days)`;
+}
+
 /**
  * Print suppression details
  */
@@ -251,6 +439,12 @@ function printSuppressionDetails(suppression: Suppression): void {
   console.log(`${chalk.bold('Postcondition:')} ${suppression.postconditionId}`);
   console.log(`${chalk.bold('Status:')} ${suppression.stillViolates ? chalk.green('Active') : chalk.red('Dead')}`);
   console.log(`${chalk.bold('Reason:')} ${suppression.reason}`);
+  if (suppression.expires) {
+    console.log(`${chalk.bold('Expires:')} ${formatExpiry(suppression.expires)}`);
+  }
+  if (suppression.ticket) {
+    console.log(`${chalk.bold('Ticket:')} ${suppression.ticket}`);
+  }
   console.log(`${chalk.bold('Suppressed At:')} ${new Date(suppression.suppressedAt).toLocaleString()}`);
   console.log(`${chalk.bold('Suppressed By:')} ${suppression.suppressedBy}`);
   console.log(`${chalk.bold('Last Checked:')} ${new Date(suppression.lastChecked).toLocaleString()}`);
@@ -0,0 +1,327 @@
+/**
+ * Project Configuration
+ *
+ * Loads `.behavioralcontractsrc.json` (or the "behavioral-contracts" key in
+ * package.json), validates it against a JSON Schema and merges it with the
+ * command-line options. Command-line flags always win over config values.
+ *
+ * Unknown keys are reported as warnings rather than errors, so that config
+ * files with keys of their own (or of newer versions) keep working.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import AjvModule from 'ajv';
+import type { BehavioralContractsConfig } from './suppressions/types.js';
+import type { Severity } from './types.js';
+import { isPluginPath } from './plugins/loader.js';
+
+// Handle ESM/CJS interop for Ajv
+const Ajv = (AjvModule as any).default || AjvModule;
+
+export const CONFIG_FILENAME = '.behavioralcontractsrc.json';
+export const PACKAGE_JSON_CONFIG_KEY = 'behavioral-contracts';
+
+/**
+ * Main-command options that can be set in the config file
+ *
+ * Keys match the CLI option names (e.g., `failOnWarnings` for `--fail-on-warnings`).
+ */
+export interface VerifyOptionsConfig {
+  tsconfig?: string;
+  corpus?: string;
+  output?: string;
+  outputDir?: string;
+  format?: 'json' | 'sarif';
+  project?: string;
+  terminal?: boolean;
+  failOnWarnings?: boolean;
+  discoverPackages?: boolean;
+  includeTests?: boolean;
+  includeDrafts?: boolean;
+  includeDeprecated?: boolean;
+  positiveReport?: boolean;
+  showSuppressions?: boolean;
+  checkDeadSuppressions?: boolean;
+  failOnDeadSuppressions?: boolean;
+  baseline?: string;
+  include?: string[];
+  exclude?: string[];
+  minSeverity?: Severity;
+  workspaces?: boolean;
+  plugins?: string[];
+  edgeCases?: boolean;
+}
+
+/**
+ * Full project configuration (CLI options plus suppression rules)
+ */
+export type ProjectConfig = BehavioralContractsConfig & VerifyOptionsConfig;
+
+/**
+ * A configuration loaded from disk
+ */
+export interface LoadedProjectConfig {
+  /** Validated configuration with paths resolved against the config file's directory */
+  config: ProjectConfig;
+  /** File the configuration was read from */
+  path: string;
+  /** Whether it came from the rc file or the package.json key */
+  source: 'rc' | 'package.json';
+  /** Unknown keys, which are ignored */
+  warnings: string[];
+}
+
+/** Options whose values are paths, resolved relative to the config file */
+const PATH_OPTIONS: Array<keyof VerifyOptionsConfig> = [
+  'tsconfig',
+  'corpus',
+  'output',
+  'outputDir',
+  'project',
+  'baseline',
+];
+
+const ignoreRuleSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string' },
+    package: { type: 'string' },
+    postconditionId: { type: 'string' },
+    reason: { type: 'string' },
+    expires: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Last day the rule applies (YYYY-MM-DD)' },
+    ticket: { type: 'string', description: 'Issue tracking the accepted risk' },
+  },
+  required: ['reason'],
+};
+
+/**
+ * JSON Schema for the configuration file
+ */
+export const CONFIG_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Behavioral Contracts configuration',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    tsconfig: { type: 'string', description: 'Path to tsconfig.json or project directory' },
+    corpus: { type: 'string', description: 'Path to corpus directory' },
+    output: { type: 'string', description: 'Output path for the audit record JSON' },
+    outputDir: { type: 'string', description: 'Directory for timestamped run output (default: .behavioral-contracts)' },
+    format: { enum: ['json', 'sarif'], description: 'Audit record format' },
+    project: { type: 'string', description: 'Path to project root (for package.json discovery)' },
+    terminal: { type: 'boolean', description: 'Print the terminal report' },
+    failOnWarnings: { type: 'boolean', description: 'Exit with error code if warnings are found' },
+    discoverPackages: { type: 'boolean', description: 'Enable package discovery and coverage reporting' },
+    includeTests: { type: 'boolean', description: 'Include test files in analysis' },
+    includeDrafts: { type: 'boolean', description: 'Include draft and in-development contracts' },
+    includeDeprecated: { type: 'boolean', description: 'Include deprecated contracts' },
+    positiveReport: { type: 'boolean', description: 'Generate positive evidence report' },
+    showSuppressions: { type: 'boolean', description: 'Show suppressed violations in output' },
+    checkDeadSuppressions: { type: 'boolean', description: 'Check for and report dead suppressions' },
+    failOnDeadSuppressions: { type: 'boolean', description: 'Exit with error if dead suppressions are found' },
+    baseline: { type: 'string', description: 'Baseline audit.json - only new violations fail the run' },
+    include: { type: 'array', items: { type: 'string' }, description: 'Only analyze files matching these globs' },
+    exclude: { type: 'array', items: { type: 'string' }, description: 'Skip files matching these globs' },
+    minSeverity: { enum: ['info', 'warning', 'error'], description: 'Only report violations at or above this severity' },
+    workspaces: { type: 'boolean', description: 'Analyze each workspace package of a monorepo' },
+    plugins: { type: 'array', items: { type: 'string' }, description: 'Detector plugins to run (npm packages or paths to modules)' },
+    edgeCases: { type: 'boolean', description: 'Report contract edge cases at the call sites that use them' },
+    ignore: { type: 'array', items: ignoreRuleSchema, description: 'Suppression rules' },
+  },
+} as const;
+
+/** Keys of the main-command options that can come from the config file */
+export const CONFIG_OPTION_KEYS = Object.keys(CONFIG_SCHEMA.properties)
+  .filter(key => key !== '$schema' && key !== 'ignore') as Array<keyof VerifyOptionsConfig>;
+
+let compiledValidator: ((data: unknown) => boolean) & { errors?: any[] | null } | null = null;
+
+/**
+ * Validates a configuration object against the schema
+ *
+ * @returns Human-readable validation errors (empty if valid)
+ */
+export function validateProjectConfig(config: unknown): string[] {
+  if (!compiledValidator) {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    compiledValidator = ajv.compile(CONFIG_SCHEMA);
+  }
+
+  const validate = compiledValidator!;
+  if (validate(config)) {
+    return [];
+  }
+
+  return (validate.errors || []).map((err: any) => {
+    const location = err.instancePath || '(root)';
+    if (err.keyword === 'enum') {
+      return `${location} must be one of: ${err.params.allowedValues.join(', ')}`;
+    }
+    return `${location} ${err.message}`;
+  });
+}
+
+/**
+ * Finds keys the configuration schema does not define
+ *
+ * @returns One warning per unknown key, at the root or in an ignore rule
+ */
+export function findUnknownConfigKeys(config: unknown): string[] {
+  if (!isObject(config)) {
+    return [];
+  }
+
+  const warnings = Object.keys(config)
+    .filter(key => !(key in CONFIG_SCHEMA.properties))
+    .map(key => `(root): unknown option "${key}"`);
+
+  if (Array.isArray(config.ignore)) {
+    config.ignore.forEach((rule: unknown, index: number) => {
+      if (!isObject(rule)) return;
+      for (const key of Object.keys(rule)) {
+        if (!(key in ignoreRuleSchema.properties)) {
+          warnings.push(`/ignore/${index}: unknown option "${key}"`);
+        }
+      }
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Finds and loads the project configuration
+ *
+ * Looks for `.behavioralcontractsrc.json` first, then for the
+ * "behavioral-contracts" key in package.json.
+ *
+ * @param projectRoot - Directory to look in
+ * @returns The loaded configuration, or null if none exists
+ * @throws Error if the config file cannot be parsed or is invalid
+ */
+export function findProjectConfig(projectRoot: string): LoadedProjectConfig | null {
+  const rcPath = path.join(projectRoot, CONFIG_FILENAME);
+  if (fs.existsSync(rcPath)) {
+    return loadProjectConfigFile(rcPath);
+  }
+
+  const packageJsonPath = path.join(projectRoot, 'package.json');
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      if (packageJson && packageJson[PACKAGE_JSON_CONFIG_KEY] !== undefined) {
+        return loadProjectConfigFile(packageJsonPath);
+      }
+    } catch {
+      // An unreadable package.json is reported by package discovery, not here
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Loads a specific configuration file
+ *
+ * Files named package.json are read from their "behavioral-contracts" key.
+ *
+ * @param configPath - Path to an rc file or package.json
+ * @throws Error if the file cannot be read, parsed or validated
+ */
+export function loadProjectConfigFile(configPath: string): LoadedProjectConfig {
+  const resolvedPath = path.resolve(configPath);
+  const source = path.basename(resolvedPath) === 'package.json' ? 'package.json' : 'rc';
+  const label = source === 'package.json'
+    ? `"${PACKAGE_JSON_CONFIG_KEY}" in ${resolvedPath}`
+    : resolvedPath;
+
+  let config: unknown;
+  try {
+    const content = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+    config = source === 'package.json' ? content[PACKAGE_JSON_CONFIG_KEY] : content;
+  } catch (error) {
+    throw new Error(`Failed to load ${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = validateProjectConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration in ${label}:\n${errors.map(e => `  ${e}`).join('\n')}`);
+  }
+
+  return {
+    config: resolveConfigPaths(config as ProjectConfig, path.dirname(resolvedPath)),
+    path: resolvedPath,
+    source,
+    warnings: findUnknownConfigKeys(config),
+  };
+}
+
+/**
+ * Merges config file values into parsed CLI options
+ *
+ * A config value is used unless the option was given on the command line.
+ *
+ * @param cliOptions - Options parsed from the command line (including defaults)
+ * @param config - Loaded project configuration
+ * @param isFromCommandLine - Whether an option was explicitly passed on the command line
+ */
+export function mergeConfigWithCliOptions<T extends Record<string, any>>(
+  cliOptions: T,
+  config: ProjectConfig,
+  isFromCommandLine: (key: string) => boolean
+): T {
+  const merged: Record<string, any> = { ...cliOptions };
+
+  for (const key of CONFIG_OPTION_KEYS) {
+    if (config[key] !== undefined && !isFromCommandLine(key)) {
+      merged[key] = config[key];
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Gets the directory the timestamped run directories are written to
+ *
+ * @param projectRoot - Root of the analyzed project (git root or tsconfig directory)
+ * @param outputDir - Output directory from --output-dir or the config file, if set
+ */
+export function getRunsDir(projectRoot: string, outputDir?: string): string {
+  return path.join(outputDir || path.join(projectRoot, '.behavioral-contracts'), 'runs');
+}
+
+/**
+ * Resolves path options relative to the directory of the config file
+ */
+function resolveConfigPaths(config: ProjectConfig, baseDir: string): ProjectConfig {
+  const resolved: ProjectConfig = { ...config };
+
+  for (const key of PATH_OPTIONS) {
+    const value = resolved[key];
+    if (typeof value === 'string') {
+      (resolved as Record<string, unknown>)[key] = path.resolve(baseDir, value);
+    }
+  }
+
+  // Plugin paths are relative to the config file too; package names stay as they are
+  if (resolved.plugins) {
+    resolved.plugins = resolved.plugins.map(plugin => isPluginPath(plugin) ? path.resolve(baseDir, plugin) : plugin);
+  }
+
+  // Include/exclude globs are too, rather than to the tsconfig directory like on the CLI
+  const rebasePattern = (pattern: string) => path.resolve(baseDir, pattern).split(path.sep).join('/');
+  if (resolved.include) {
+    resolved.include = resolved.include.map(rebasePattern);
+  }
+  if (resolved.exclude) {
+    resolved.exclude = resolved.exclude.map(rebasePattern);
+  }
+
+  return resolved;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+/**
+ * Contract Selection
+ *
+ * Matches the `semver` range of each contract against the version of its
+ * package the project has installed. A contract written for axios 0.x says
+ * little about code running axios 1.x, so contracts whose range the installed
+ * version does not satisfy are not applied. When the installed version is not
+ * known (no lockfile or node_modules, git or file dependencies), the contract
+ * is applied as before.
+ *
+ * When the corpus has several contracts for a package, the one whose range
+ * covers the installed version is chosen; the newest one is used when the
+ * installed version is not known.
+ */
+
+import semver from 'semver';
+import type { ContractVersionMatch, PackageContract } from './types.js';
+import type { InstalledVersion } from './installed-versions.js';
+
+/**
+ * Compares a contract's semver range with the installed version of its package
+ *
+ * @returns 'match', 'mismatch', or 'unknown' if either side cannot be compared
+ */
+export function matchContractVersion(
+  contract: PackageContract,
+  installed: InstalledVersion | undefined
+): ContractVersionMatch['match'] {
+  const version = installed && semver.valid(installed.version);
+  const range = contract.semver && semver.validRange(contract.semver);
+  if (!version || !range) {
+    return 'unknown';
+  }
+
+  return semver.satisfies(version, range, { includePrerelease: true }) ? 'match' : 'mismatch';
+}
+
+/**
+ * Chooses the contract of a package for its installed version
+ *
+ * @param contract - Newest contract of the package
+ * @param versions - Every contract of the package (default: just `contract`)
+ * @param installed - Installed version of the package
+ * @returns The contract whose range covers the installed version, or the newest
+ *   one with 'mismatch' (none covers it) or 'unknown' (cannot be compared)
+ */
+export function chooseContract(
+  contract: PackageContract,
+  versions: PackageContract[] | undefined,
+  installed: InstalledVersion | undefined
+): { contract: PackageContract; match: ContractVersionMatch['match'] } {
+  const candidates = versions && versions.length > 0 ? versions : [contract];
+  const covering = candidates.find(candidate => matchContractVersion(candidate, installed) === 'match');
+  if (covering) {
+    return { contract: covering, match: 'match' };
+  }
+
+  return { contract, match: matchContractVersion(contract, installed) };
+}
+
+/**
+ * Selects the contracts that apply to the installed package versions
+ *
+ * @param contracts - Newest contract of each package
+ * @param installedVersions - Installed versions by package name
+ * @param versions - Every contract of each package, for packages with several (see CorpusLoadResult)
+ * @returns The contracts to apply, plus the match of every installed package that has a contract
+ */
+export function selectContracts(
+  contracts: Map<string, PackageContract>,
+  installedVersions: Map<string, InstalledVersion>,
+  versions: Map<string, PackageContract[]> = new Map()
+): { contracts: Map<string, PackageContract>; matches: ContractVersionMatch[] } {
+  const selected = new Map<string, PackageContract>();
+  const matches: ContractVersionMatch[] = [];
+
+  for (const [name, newest] of contracts) {
+    const installed = installedVersions.get(name);
+    const { contract, match } = chooseContract(newest, versions.get(name), installed);
+
+    if (match !== 'mismatch') {
+      selected.set(name, contract);
+    }
+
+    if (installed) {
+      matches.push({
+        package: name,
+        contract_version: contract.contract_version,
+        // A mismatch is outside the ranges of all contracts of the package
+        semver: match === 'mismatch'
+          ? (versions.get(name) || [contract]).map(candidate => candidate.semver).join(' || ')
+          : contract.semver,
+        installed_version: installed.version,
+        installed_version_source: installed.source,
+        match,
+      });
+    }
+  }
+
+  return { contracts: selected, matches };
+}
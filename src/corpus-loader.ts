@@ -1,13 +1,19 @@
 /**
  * Corpus Loader - loads and validates behavioral contract files
+ *
+ * A package can have several contracts (e.g., stripe v11 and v14) as long as
+ * their semver ranges do not overlap. All of them are kept in `versions`;
+ * `contracts` holds the newest one of each package.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { glob } from 'glob';
+import { glob, globSync } from 'glob';
 import * as YAML from 'yaml';
 import AjvModule from 'ajv';
+import semver from 'semver';
 import type { PackageContract, CorpusLoadResult } from './types.js';
+import { validateContractChecks } from './checks/index.js';
 
 // Handle ESM/CJS interop for Ajv
 const Ajv = (AjvModule as any).default || AjvModule;
@@ -25,19 +31,47 @@ export async function loadCorpus(
   corpusPath: string,
   options: LoadCorpusOptions = {}
 ): Promise<CorpusLoadResult> {
-  const contracts = new Map<string, PackageContract>();
-  const errors: string[] = [];
-  const skipped: { package: string; status: string; reason: string }[] = [];
-
   // Find all contract.yaml files
   const contractFiles = await glob('**/contract.yaml', {
     cwd: path.join(corpusPath, 'packages'),
     absolute: true,
   });
 
+  return loadContractFiles(contractFiles, corpusPath, options);
+}
+
+/**
+ * Synchronous variant of loadCorpus for callers that cannot await (e.g., ESLint rules)
+ */
+export function loadCorpusSync(
+  corpusPath: string,
+  options: LoadCorpusOptions = {}
+): CorpusLoadResult {
+  const contractFiles = globSync('**/contract.yaml', {
+    cwd: path.join(corpusPath, 'packages'),
+    absolute: true,
+  });
+
+  return loadContractFiles(contractFiles, corpusPath, options);
+}
+
+/**
+ * Loads and validates the given contract files against the corpus schema
+ */
+function loadContractFiles(
+  contractFiles: string[],
+  corpusPath: string,
+  options: LoadCorpusOptions
+): CorpusLoadResult {
+  const contracts = new Map<string, PackageContract>();
+  const versions = new Map<string, PackageContract[]>();
+  const contractPaths = new Map<PackageContract, string>();
+  const errors: string[] = [];
+  const skipped: { package: string; status: string; reason: string }[] = [];
+
   if (contractFiles.length === 0) {
     errors.push(`No contract files found in ${corpusPath}/packages`);
-    return { contracts, errors };
+    return { contracts, versions, errors };
   }
 
   // Load JSON Schema for validation
@@ -49,7 +83,7 @@ export async function loadCorpus(
     schema = JSON.parse(schemaContent);
   } catch (err) {
     errors.push(`Failed to load schema from ${schemaPath}: ${err}`);
-    return { contracts, errors };
+    return { contracts, versions, errors };
   }
 
   const ajv = new Ajv({ allErrors: true, strict: false });
@@ -95,6 +129,13 @@ export async function loadCorpus(
         continue;
       }
 
+      // Check kinds and their parameters are defined by the analyzer, not the schema
+      const checkErrors = validateContractChecks(contract);
+      if (checkErrors.length > 0) {
+        errors.push(`Invalid contract ${filePath}:\n${checkErrors.map(error => `  ${error}`).join('\n')}`);
+        continue;
+      }
+
       // Filter by status
       if (status === 'draft' && !options.includeDrafts) {
         skipped.push({
@@ -114,21 +155,72 @@ export async function loadCorpus(
         continue;
       }
 
-      // Check for duplicate package names
-      if (contracts.has(contract.package)) {
+      // Contracts of the same package must cover different versions
+      const existing = versions.get(contract.package) || [];
+      const overlapping = existing.find(other => rangesOverlap(other.semver, contract.semver));
+      if (overlapping) {
         errors.push(
-          `Duplicate contract for package "${contract.package}" found at ${filePath}`
+          `Duplicate contract for package "${contract.package}" found at ${filePath}: ` +
+          `semver range "${contract.semver}" overlaps "${overlapping.semver}" of ${contractPaths.get(overlapping)}`
         );
         continue;
       }
 
-      contracts.set(contract.package, contract);
+      contractPaths.set(contract, filePath);
+      versions.set(contract.package, sortByRange([...existing, contract]));
     } catch (err) {
       errors.push(`Failed to load contract ${filePath}: ${err}`);
     }
   }
 
-  return { contracts, errors, skipped };
+  for (const [name, packageVersions] of versions) {
+    contracts.set(name, packageVersions[packageVersions.length - 1]);
+  }
+
+  return { contracts, versions, errors, skipped, version: readCorpusVersion(corpusPath) };
+}
+
+/**
+ * Reads the version of the corpus from its package.json
+ *
+ * The published @behavioral-contracts/corpus package has one; a corpus
+ * checkout without it has no version.
+ */
+function readCorpusVersion(corpusPath: string): string | undefined {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(corpusPath, 'package.json'), 'utf-8'));
+    return typeof packageJson.version === 'string' ? packageJson.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks if two semver ranges have a version in common
+ *
+ * Ranges that cannot be parsed are treated as overlapping, since the version
+ * they apply to cannot be told apart.
+ */
+function rangesOverlap(a: string, b: string): boolean {
+  try {
+    return semver.intersects(a, b, { includePrerelease: true });
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Sorts the contracts of a package by the lowest version of their range, oldest first
+ */
+function sortByRange(contracts: PackageContract[]): PackageContract[] {
+  const lowest = (contract: PackageContract) => {
+    try {
+      return semver.minVersion(contract.semver)?.version ?? '0.0.0';
+    } catch {
+      return '0.0.0';
+    }
+  };
+  return contracts.sort((a, b) => semver.compare(lowest(a), lowest(b)));
 }
 
 /**
@@ -0,0 +1,249 @@
+/**
+ * ESLint Plugin
+ *
+ * Exposes the contract checks as ESLint rules, one rule per analyzer pass, so
+ * findings show up wherever ESLint output is read. Rules reuse the TypeScript
+ * program that typescript-eslint builds (`parserOptions.project`), so they need
+ * type information just like the CLI, and apply the contracts that cover the
+ * package versions installed for the tsconfig's directory.
+ *
+ * Every message ends with the `package/clause` id, and findings can be silenced
+ * with `eslint-disable` comments as well as `@behavioral-contract-ignore`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import type * as ts from 'typescript';
+import type { TSESLint } from '@typescript-eslint/utils';
+import { Analyzer } from './analyzer.js';
+import { loadCorpusSync } from './corpus-loader.js';
+import { readInstalledVersionsSync } from './installed-versions.js';
+import { selectContracts } from './contract-selection.js';
+import type { AnalyzerPass, CorpusLoadResult, PackageContract } from './types.js';
+
+/** Plugin namespace used in rule ids (e.g., "behavioral-contracts/postconditions") */
+export const PLUGIN_NAME = 'behavioral-contracts';
+
+/**
+ * Shared settings read from `settings["behavioral-contracts"]`
+ */
+export interface ESLintPluginSettings {
+  /** Path to the corpus directory (default: the @behavioral-contracts/corpus package) */
+  corpus?: string;
+  /** Include draft and in-development contracts (default: false) */
+  includeDrafts?: boolean;
+  /** Include deprecated contracts (default: false) */
+  includeDeprecated?: boolean;
+}
+
+type MessageIds = 'violation';
+type ContractRule = TSESLint.RuleModule<MessageIds, []>;
+
+const RULE_DESCRIPTIONS: Record<AnalyzerPass, string> = {
+  'postconditions': 'Require the error handling that package contracts specify for each call',
+  'async-errors': 'Disallow unprotected awaits of contract functions and empty catch blocks',
+  'return-values': 'Require checking error return values of contract functions',
+  'event-listeners': 'Require the event listeners that package contracts mark as required',
+  'preconditions': 'Require call arguments that meet the preconditions of package contracts',
+};
+
+const corpusByPath = new Map<string, CorpusLoadResult>();
+const contractsByProject = new Map<string, Map<string, PackageContract>>();
+const analyzersByProgram = new WeakMap<ts.Program, Map<string, Analyzer>>();
+
+/**
+ * Loads (and caches) the contracts for the configured corpus
+ *
+ * @throws Error if no corpus is configured or it cannot be loaded
+ */
+function getCorpus(settings: ESLintPluginSettings, cwd: string): { cacheKey: string; corpus: CorpusLoadResult } {
+  const corpusPath = settings.corpus ? path.resolve(cwd, settings.corpus) : findInstalledCorpus();
+  if (!corpusPath) {
+    throw new Error(
+      `Failed to load behavioral contracts: set settings["${PLUGIN_NAME}"].corpus or install @behavioral-contracts/corpus`
+    );
+  }
+
+  const cacheKey = `${corpusPath}|${settings.includeDrafts ?? false}|${settings.includeDeprecated ?? false}`;
+  let corpus = corpusByPath.get(cacheKey);
+  if (!corpus) {
+    corpus = loadCorpusSync(corpusPath, {
+      includeDrafts: settings.includeDrafts,
+      includeDeprecated: settings.includeDeprecated,
+      includeInDevelopment: settings.includeDrafts,
+    });
+    if (corpus.errors.length > 0) {
+      throw new Error(`Failed to load behavioral contracts from ${corpusPath}:\n${corpus.errors.join('\n')}`);
+    }
+    corpusByPath.set(cacheKey, corpus);
+  }
+
+  return { cacheKey, corpus };
+}
+
+/**
+ * Selects (and caches) the contracts that cover the versions installed for a project
+ *
+ * @param projectRoot - Directory with the project's package.json
+ */
+function getContracts(settings: ESLintPluginSettings, cwd: string, projectRoot: string): Map<string, PackageContract> {
+  const { cacheKey, corpus } = getCorpus(settings, cwd);
+  const projectKey = `${cacheKey}|${projectRoot}`;
+
+  let contracts = contractsByProject.get(projectKey);
+  if (!contracts) {
+    // An unreadable lockfile falls back to node_modules; rules have no channel for warnings
+    const installed = readInstalledVersionsSync(projectRoot, corpus.contracts.keys());
+    contracts = selectContracts(corpus.contracts, installed.versions, corpus.versions).contracts;
+    contractsByProject.set(projectKey, contracts);
+  }
+
+  return contracts;
+}
+
+/**
+ * Gets the path of the tsconfig typescript-eslint built a program from
+ */
+function getTsconfigPath(program: ts.Program, cwd: string): string {
+  const configFilePath = program.getCompilerOptions().configFilePath;
+  return typeof configFilePath === 'string' ? configFilePath : path.join(cwd, 'tsconfig.json');
+}
+
+/**
+ * Finds the corpus shipped as the @behavioral-contracts/corpus package
+ */
+function findInstalledCorpus(): string | undefined {
+  try {
+    const corpusModule = createRequire(import.meta.url)('@behavioral-contracts/corpus');
+    const corpusPath = corpusModule.getCorpusPath();
+    return fs.existsSync(corpusPath) ? corpusPath : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gets an analyzer running a single pass over typescript-eslint's program
+ *
+ * Analyzers are cached per program, so rules linting the same program share
+ * the detection maps instead of rebuilding them for every file.
+ */
+function getAnalyzer(
+  program: ts.Program,
+  pass: AnalyzerPass,
+  contracts: Map<string, PackageContract>,
+  cwd: string
+): Analyzer {
+  let analyzers = analyzersByProgram.get(program);
+  if (!analyzers) {
+    analyzers = new Map();
+    analyzersByProgram.set(program, analyzers);
+  }
+
+  let analyzer = analyzers.get(pass);
+  if (!analyzer) {
+    analyzer = new Analyzer(
+      {
+        tsconfigPath: getTsconfigPath(program, cwd),
+        corpusPath: '',
+        // ESLint's own file patterns decide what is linted
+        includeTests: true,
+        updateSuppressionManifest: false,
+        passes: [pass],
+      },
+      contracts,
+      program
+    );
+    analyzers.set(pass, analyzer);
+  }
+
+  return analyzer;
+}
+
+/**
+ * Creates the rule for one analyzer pass
+ */
+function createContractRule(pass: AnalyzerPass): ContractRule {
+  return {
+    defaultOptions: [],
+    meta: {
+      type: 'problem',
+      docs: {
+        description: RULE_DESCRIPTIONS[pass],
+        recommended: 'recommended',
+        requiresTypeChecking: true,
+      },
+      messages: {
+        violation: '{{description}} ({{package}}/{{clause}})',
+      },
+      schema: [],
+    },
+    create(context) {
+      const sourceCode = context.sourceCode ?? context.getSourceCode();
+      const program = sourceCode.parserServices?.program;
+      if (!program) {
+        throw new Error(
+          `${PLUGIN_NAME}/${pass} requires type information. ` +
+          'Use @typescript-eslint/parser with parserOptions.project (or projectService) set.'
+        );
+      }
+
+      return {
+        Program() {
+          const cwd = context.cwd ?? context.getCwd();
+          const settings = (context.settings[PLUGIN_NAME] || {}) as ESLintPluginSettings;
+          const contracts = getContracts(settings, cwd, path.dirname(getTsconfigPath(program, cwd)));
+
+          const fileName = context.physicalFilename ?? context.filename;
+          const sourceFile = program.getSourceFile(fileName);
+          if (!sourceFile) return;
+
+          const violations = getAnalyzer(program, pass, contracts, cwd).analyzeFiles([sourceFile.fileName]);
+
+          for (const violation of violations) {
+            context.report({
+              messageId: 'violation',
+              loc: { line: violation.line, column: Math.max(violation.column - 1, 0) },
+              data: {
+                description: violation.description,
+                package: violation.package,
+                clause: violation.contract_clause,
+              },
+            });
+          }
+        },
+      };
+    },
+  };
+}
+
+const rules: Record<AnalyzerPass, ContractRule> = {
+  'postconditions': createContractRule('postconditions'),
+  'async-errors': createContractRule('async-errors'),
+  'return-values': createContractRule('return-values'),
+  'event-listeners': createContractRule('event-listeners'),
+  'preconditions': createContractRule('preconditions'),
+};
+
+const recommendedRules: Record<string, 'error'> = Object.fromEntries(
+  Object.keys(rules).map(name => [`${PLUGIN_NAME}/${name}`, 'error'])
+);
+
+/**
+ * The plugin object (for flat config: `plugins: { 'behavioral-contracts': plugin }`)
+ */
+const plugin = {
+  meta: { name: '@behavioral-contracts/verify-cli/eslint-plugin' },
+  rules,
+  configs: {} as Record<string, { plugins: Record<string, unknown>; rules: Record<string, 'error'> }>,
+};
+
+// Flat config that enables every rule
+plugin.configs.recommended = {
+  plugins: { [PLUGIN_NAME]: plugin },
+  rules: recommendedRules,
+};
+
+export { rules };
+export default plugin;
@@ -0,0 +1,95 @@
+/**
+ * Analysis Filters
+ *
+ * Path (include/exclude glob) and severity filters shared by the analyzer,
+ * package discovery and the CLI so that a run is scoped the same way everywhere.
+ */
+
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { Severity } from './types.js';
+
+/** Valid severities, from least to most severe */
+export const SEVERITY_LEVELS: Severity[] = ['info', 'warning', 'error'];
+
+/**
+ * Checks whether a severity is at or above a threshold
+ *
+ * @param severity - Severity of a finding
+ * @param threshold - Minimum severity to keep (no threshold keeps everything)
+ */
+export function meetsSeverityThreshold(severity: Severity, threshold?: Severity): boolean {
+  if (!threshold) {
+    return true;
+  }
+  return SEVERITY_LEVELS.indexOf(severity) >= SEVERITY_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Checks whether a string is a valid severity
+ */
+export function isSeverity(value: unknown): value is Severity {
+  return typeof value === 'string' && (SEVERITY_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Creates a predicate deciding whether a file is in scope
+ *
+ * Patterns are matched against the file path relative to `rootDir`, absolute
+ * patterns (config file patterns are rebased onto the config file's directory)
+ * against the absolute path. A pattern without glob characters also matches
+ * everything below it, so `src/payments` behaves like `src/payments/**`. A
+ * file is in scope when it matches at least one include pattern (or no
+ * include patterns are given) and no exclude pattern.
+ *
+ * @param rootDir - Directory patterns are relative to (the tsconfig directory)
+ * @param includePaths - Glob patterns of files to analyze
+ * @param excludePaths - Glob patterns of files to skip
+ */
+export function createPathFilter(
+  rootDir: string,
+  includePaths: string[] = [],
+  excludePaths: string[] = []
+): (fileName: string) => boolean {
+  const includes = includePaths.flatMap(expandPattern);
+  const excludes = excludePaths.flatMap(expandPattern);
+
+  if (includes.length === 0 && excludes.length === 0) {
+    return () => true;
+  }
+
+  const root = path.resolve(rootDir);
+
+  return (fileName: string) => {
+    const absolutePath = path.resolve(fileName);
+    const relativePath = toPosix(path.relative(root, absolutePath));
+    const matches = (pattern: string) =>
+      minimatch(path.isAbsolute(pattern) ? toPosix(absolutePath) : relativePath, pattern, { dot: true });
+
+    if (includes.length > 0 && !includes.some(matches)) {
+      return false;
+    }
+
+    return !excludes.some(matches);
+  };
+}
+
+/**
+ * Normalizes a pattern and adds a `/**` variant for plain directory paths
+ */
+function expandPattern(pattern: string): string[] {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!normalized) {
+    return [];
+  }
+
+  if (/[*?[\]{}!]/.test(normalized)) {
+    return [normalized];
+  }
+
+  return [normalized, `${normalized}/**`];
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,185 @@
+/**
+ * Violation Fingerprinting
+ *
+ * Computes line-independent identifiers for violations so that the same
+ * finding can be recognised across runs even after unrelated edits move it.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { Violation } from './types.js';
+
+/**
+ * Version prefix for fingerprints. Bump when the fingerprint inputs change
+ * so that consumers can tell old and new fingerprints apart.
+ *
+ * v2: snippet lines are tokenized, so `//` inside strings is no longer stripped
+ */
+export const FINGERPRINT_VERSION = 'v2';
+
+/**
+ * Normalizes a line of source code for fingerprinting
+ *
+ * Collapses whitespace and strips line comments so that reformatting or
+ * re-indenting a line does not change its fingerprint. The line is tokenized
+ * so that `//` inside strings, templates and regular expressions (URLs) is
+ * kept.
+ */
+export function normalizeSnippetLine(content: string): string {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, content);
+  let text = '';
+  let previous: ts.SyntaxKind | undefined;
+  // Open braces inside each template substitution, innermost last
+  const templates: number[] = [];
+
+  let token = scanner.scan();
+  while (token !== ts.SyntaxKind.EndOfFileToken) {
+    // The scanner cannot tell a regular expression from a division without context
+    if ((token === ts.SyntaxKind.SlashToken || token === ts.SyntaxKind.SlashEqualsToken) && !endsOperand(previous)) {
+      token = scanner.reScanSlashToken();
+    }
+
+    // A `}` that closes a template substitution continues the template text
+    if (token === ts.SyntaxKind.OpenBraceToken && templates.length > 0) {
+      templates[templates.length - 1]++;
+    } else if (token === ts.SyntaxKind.CloseBraceToken && templates.length > 0) {
+      if (templates[templates.length - 1] === 0) {
+        token = scanner.reScanTemplateToken(false);
+        if (token === ts.SyntaxKind.TemplateTail) {
+          templates.pop();
+        }
+      } else {
+        templates[templates.length - 1]--;
+      }
+    } else if (token === ts.SyntaxKind.TemplateHead) {
+      templates.push(0);
+    }
+
+    if (token !== ts.SyntaxKind.SingleLineCommentTrivia) {
+      text += scanner.getTokenText();
+    }
+    if (token < ts.SyntaxKind.FirstTriviaToken || token > ts.SyntaxKind.LastTriviaToken) {
+      previous = token;
+    }
+    token = scanner.scan();
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Checks if a token can end an operand, so that a following `/` is a division
+ */
+function endsOperand(kind: ts.SyntaxKind | undefined): boolean {
+  if (kind === undefined) return false;
+  return kind === ts.SyntaxKind.Identifier ||
+    kind === ts.SyntaxKind.ThisKeyword ||
+    kind === ts.SyntaxKind.CloseParenToken ||
+    kind === ts.SyntaxKind.CloseBracketToken ||
+    kind === ts.SyntaxKind.CloseBraceToken ||
+    kind === ts.SyntaxKind.PlusPlusToken ||
+    kind === ts.SyntaxKind.MinusMinusToken ||
+    kind === ts.SyntaxKind.TemplateTail ||
+    (kind >= ts.SyntaxKind.FirstLiteralToken && kind <= ts.SyntaxKind.LastLiteralToken);
+}
+
+/**
+ * Gets the normalized source line a violation points at
+ *
+ * Uses the highlighted line of the enriched code snippet when available.
+ */
+export function getViolationSnippetText(violation: Violation): string {
+  const highlighted = violation.code_snippet?.lines.find(l => l.highlighted);
+  return highlighted ? normalizeSnippetLine(highlighted.content) : '';
+}
+
+/**
+ * Computes a stable fingerprint for a violation
+ *
+ * The fingerprint is derived from the file (relative to the project root),
+ * package, contract clause, function, enclosing symbol and normalized
+ * snippet - never from the line or column number.
+ *
+ * @param violation - Violation to fingerprint
+ * @param projectRoot - Project root used to relativize the file path
+ * @returns Hex fingerprint prefixed with the fingerprint version
+ */
+export function computeViolationFingerprint(violation: Violation, projectRoot: string): string {
+  const relativeFile = path.relative(projectRoot, violation.file).split(path.sep).join('/');
+
+  const data = [
+    relativeFile,
+    violation.package,
+    violation.contract_clause,
+    violation.function,
+    violation.enclosing_symbol || '',
+    getViolationSnippetText(violation),
+  ].join('\0');
+
+  const hash = crypto.createHash('sha256').update(data).digest('hex').substring(0, 32);
+  return `${FINGERPRINT_VERSION}:${hash}`;
+}
+
+/**
+ * Finds the enclosing symbol path for a location (e.g., "UserService.getUser")
+ * Used to fingerprint violations and anchor suppressions independently of their line number
+ */
+export function findEnclosingSymbol(sourceFile: ts.SourceFile, line: number, column: number): string | undefined {
+  let position: number;
+  try {
+    position = sourceFile.getPositionOfLineAndCharacter(line - 1, column - 1);
+  } catch {
+    return undefined;
+  }
+
+  // Find the innermost node containing the position
+  let innermost: ts.Node | undefined;
+  const findInnermost = (node: ts.Node): void => {
+    if (position >= node.getStart(sourceFile) && position < node.getEnd()) {
+      innermost = node;
+      ts.forEachChild(node, findInnermost);
+    }
+  };
+  ts.forEachChild(sourceFile, findInnermost);
+
+  // Walk up collecting names of named declarations
+  const names: string[] = [];
+  let current: ts.Node | undefined = innermost;
+  while (current && !ts.isSourceFile(current)) {
+    const name = getDeclarationName(current);
+    if (name) {
+      names.unshift(name);
+    }
+    current = current.parent;
+  }
+
+  return names.length > 0 ? names.join('.') : undefined;
+}
+
+/**
+ * Gets the name of a function, method or class declaration
+ * Anonymous functions take the name of the variable or property they are assigned to
+ */
+function getDeclarationName(node: ts.Node): string | undefined {
+  if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+    return node.name.text;
+  }
+
+  if (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+    return node.name.getText();
+  }
+
+  if (ts.isConstructorDeclaration(node)) {
+    return 'constructor';
+  }
+
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isClassExpression(node)) {
+    const parent = node.parent;
+    if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))) {
+      return parent.name.getText();
+    }
+  }
+
+  return undefined;
+}
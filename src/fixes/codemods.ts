@@ -0,0 +1,369 @@
+/**
+ * Codemods
+ *
+ * Turns a violation into text edits that add the handling its contract asks
+ * for: a try/catch around an unprotected await, the missing event listener,
+ * or a null check on results that can be null (e.g., Clerk's auth()).
+ *
+ * The analyzer attaches the result to each violation as `Violation.fix`, so
+ * the JSON record, SARIF log, language server and fix command share the same
+ * edits. Codemods only look at the syntax around the violation; whether an
+ * edit really removes the violation is checked by the fix engine, which
+ * re-runs the analyzer on the edited text.
+ */
+
+import * as ts from 'typescript';
+import type { CodeFix, PostconditionCheckKind, TextEdit, Violation } from '../types.js';
+import { getLegacyCheck } from '../checks/legacy.js';
+
+/** Clause of EventListenerAnalyzer violations (e.g., "missing-error-listener") */
+const LISTENER_CLAUSE = /^missing-(.+)-listener$/;
+
+/** Binding names checked first by the null-check codemod */
+const PREFERRED_NULL_CHECK_NAMES = ['userId', 'user', 'token'];
+
+/**
+ * Builds the codemod for a violation
+ *
+ * @param violation - Violation with 1-based line and column
+ * @param sourceFile - Parsed file the violation was reported in
+ * @param checkKind - Check kind of the violated postcondition (default: derived from the clause ID)
+ * @returns The fix, or null if no codemod applies at this location
+ */
+export function createCodeFix(
+  violation: Violation,
+  sourceFile: ts.SourceFile,
+  checkKind: PostconditionCheckKind | undefined = getLegacyCheck(violation.contract_clause)?.kind
+): CodeFix | null {
+  const position = getViolationPosition(violation, sourceFile);
+  if (position === undefined) return null;
+
+  const node = findNodeAt(sourceFile, position);
+  if (!node) return null;
+
+  const listenerMatch = violation.contract_clause.match(LISTENER_CLAUSE);
+  if (listenerMatch) {
+    return createEventListenerFix(sourceFile, node, listenerMatch[1]);
+  }
+
+  // Results that can be null are fixed with a null check instead of try/catch
+  if (checkKind === 'null-check') {
+    return createNullCheckFix(sourceFile, node, violation);
+  }
+
+  return createTryCatchFix(sourceFile, node, violation);
+}
+
+/**
+ * Applies edits to a text
+ *
+ * Edits must not overlap; they are applied from the end of the text so that
+ * earlier offsets stay valid.
+ */
+export function applyTextEdits(text: string, edits: Array<Omit<TextEdit, 'file'>>): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.replacement + result.slice(edit.end), text);
+}
+
+/**
+ * Wraps the statement with an unprotected await in try/catch
+ *
+ * When the statement declares variables, the rest of the block is wrapped too
+ * so that later statements still see them. The catch block logs the error with
+ * the call and clause it came from and rethrows it, so the function's result
+ * and control flow stay the same for its callers.
+ */
+function createTryCatchFix(sourceFile: ts.SourceFile, node: ts.Node, violation: Violation): CodeFix | null {
+  const statement = findEnclosingStatement(node);
+  if (!statement || !isAwaited(node, statement) || isInTryBlock(statement)) {
+    return null;
+  }
+
+  const container = statement.parent as ts.Block | ts.SourceFile | ts.CaseOrDefaultClause;
+  const declares = declaresBindings(statement);
+  if (declares && ts.isSourceFile(container)) {
+    // Module-scope declarations cannot move into a block without breaking exports
+    return null;
+  }
+
+  const statements = container.statements;
+  const last = declares ? statements[statements.length - 1] : statement;
+  const start = statement.getStart(sourceFile);
+  const end = last.getEnd();
+
+  const { indent, unit, newline } = getFormatting(sourceFile, start);
+  const body = reindent(sourceFile, start, end, unit);
+
+  const replacement = [
+    'try {',
+    `${indent}${unit}${body}`,
+    `${indent}} catch (error) {`,
+    `${indent}${unit}console.error('${escapeQuotes(`${violation.package} ${violation.function}() failed (${violation.contract_clause}):`)}', error);`,
+    `${indent}${unit}throw error;`,
+    `${indent}}`,
+  ].join(newline);
+
+  return {
+    kind: 'try-catch',
+    description: 'Wrap in try/catch',
+    edits: [{ file: sourceFile.fileName, start, end, replacement }],
+  };
+}
+
+/**
+ * Adds the missing listener right after the statement that creates the instance
+ *
+ * The listener logs the event. For 'error' that is the handling the contracts
+ * ask for: an emitter without an error listener crashes the process.
+ */
+function createEventListenerFix(sourceFile: ts.SourceFile, node: ts.Node, event: string): CodeFix | null {
+  let declaration: ts.Node | undefined = node;
+  while (
+    declaration &&
+    !ts.isVariableDeclaration(declaration) &&
+    !(ts.isBinaryExpression(declaration) && declaration.operatorToken.kind === ts.SyntaxKind.EqualsToken)
+  ) {
+    declaration = declaration.parent;
+  }
+  if (!declaration) return null;
+
+  let target: string;
+  if (ts.isVariableDeclaration(declaration)) {
+    if (!ts.isIdentifier(declaration.name)) return null;
+    target = declaration.name.text;
+  } else {
+    target = (declaration as ts.BinaryExpression).left.getText(sourceFile);
+  }
+
+  const statement = findEnclosingStatement(declaration);
+  if (!statement) return null;
+
+  const { indent, unit, newline } = getFormatting(sourceFile, statement.getStart(sourceFile));
+  const lines = event === 'error'
+    ? [
+      `${target}.on('error', (error) => {`,
+      `${indent}${unit}console.error('${escapeQuotes(target)} error:', error);`,
+      `${indent}});`,
+    ]
+    : [
+      `${target}.on('${event}', () => {`,
+      `${indent}${unit}console.warn('${escapeQuotes(target)} emitted ${event}');`,
+      `${indent}});`,
+    ];
+
+  return {
+    kind: 'event-listener',
+    description: `Add '${event}' listener to ${target}`,
+    edits: [{
+      file: sourceFile.fileName,
+      start: statement.getEnd(),
+      end: statement.getEnd(),
+      replacement: `${newline}${indent}${lines.join(newline)}`,
+    }],
+  };
+}
+
+/**
+ * Adds a null check after the declaration that receives the auth result
+ */
+function createNullCheckFix(sourceFile: ts.SourceFile, node: ts.Node, violation: Violation): CodeFix | null {
+  let call: ts.Node | undefined = node;
+  while (call && !ts.isCallExpression(call)) {
+    call = call.parent;
+  }
+  if (!call) return null;
+
+  const declaration = ts.isAwaitExpression(call.parent) ? call.parent.parent : call.parent;
+  if (!declaration || !ts.isVariableDeclaration(declaration)) return null;
+
+  const names = ts.isIdentifier(declaration.name)
+    ? [declaration.name.text]
+    : ts.isObjectBindingPattern(declaration.name)
+      ? declaration.name.elements
+        .map(element => element.name)
+        .filter(ts.isIdentifier)
+        .map(name => name.text)
+      : [];
+  if (names.length === 0) return null;
+
+  const checked = PREFERRED_NULL_CHECK_NAMES.find(name => names.includes(name)) ?? names[0];
+
+  const statement = findEnclosingStatement(declaration);
+  if (!statement) return null;
+
+  const { indent, unit, newline } = getFormatting(sourceFile, statement.getStart(sourceFile));
+  const check = [
+    `if (!${checked}) {`,
+    `${indent}${unit}throw new Error('Not authenticated: ${violation.function}() returned no ${checked}');`,
+    `${indent}}`,
+  ].join(newline);
+
+  return {
+    kind: 'null-check',
+    description: `Check ${checked} for null`,
+    edits: [{
+      file: sourceFile.fileName,
+      start: statement.getEnd(),
+      end: statement.getEnd(),
+      replacement: `${newline}${indent}${check}`,
+    }],
+  };
+}
+
+/**
+ * Escapes a text for a single-quoted string literal
+ */
+function escapeQuotes(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Converts the violation's 1-based line and column to an offset
+ */
+function getViolationPosition(violation: Violation, sourceFile: ts.SourceFile): number | undefined {
+  const lineStarts = sourceFile.getLineStarts();
+  if (violation.line < 1 || violation.line > lineStarts.length) {
+    return undefined;
+  }
+
+  const position = lineStarts[violation.line - 1] + Math.max(violation.column - 1, 0);
+  return position <= sourceFile.getEnd() ? position : undefined;
+}
+
+/**
+ * Finds the innermost node that starts at a position
+ *
+ * Falls back to the innermost node containing the position.
+ */
+function findNodeAt(sourceFile: ts.SourceFile, position: number): ts.Node | undefined {
+  let containing: ts.Node | undefined;
+  let starting: ts.Node | undefined;
+
+  const visit = (node: ts.Node): void => {
+    if (node.getStart(sourceFile) <= position && position < node.getEnd()) {
+      containing = node;
+      if (node.getStart(sourceFile) === position) {
+        starting = node;
+      }
+      ts.forEachChild(node, visit);
+    }
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return starting ?? containing;
+}
+
+/**
+ * Finds the statement that contains a node and sits directly in a statement list
+ *
+ * Returns undefined if a function boundary comes first: wrapping the outer
+ * statement would not catch errors thrown inside a callback.
+ */
+function findEnclosingStatement(node: ts.Node): ts.Statement | undefined {
+  let current = node;
+
+  while (current.parent) {
+    const parent = current.parent;
+    if (ts.isBlock(parent) || ts.isSourceFile(parent) || ts.isCaseClause(parent) || ts.isDefaultClause(parent)) {
+      return current as ts.Statement;
+    }
+    if (ts.isFunctionLike(parent)) {
+      return undefined;
+    }
+    current = parent;
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks whether the node is (inside) an await of the statement
+ */
+function isAwaited(node: ts.Node, statement: ts.Statement): boolean {
+  let current: ts.Node | undefined = node;
+
+  while (current && current !== statement) {
+    if (ts.isAwaitExpression(current)) return true;
+    current = current.parent;
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether the statement is already inside a try block
+ */
+function isInTryBlock(statement: ts.Statement): boolean {
+  let current: ts.Node = statement;
+
+  while (current.parent && !ts.isFunctionLike(current.parent)) {
+    if (ts.isTryStatement(current.parent) && current.parent.tryBlock === current) {
+      return true;
+    }
+    current = current.parent;
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether the statement declares names that later statements may use
+ */
+function declaresBindings(statement: ts.Statement): boolean {
+  return ts.isVariableStatement(statement) ||
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement);
+}
+
+/**
+ * Gets the indentation of a line, the file's indent unit and its line ending
+ */
+function getFormatting(sourceFile: ts.SourceFile, position: number): { indent: string; unit: string; newline: string } {
+  const text = sourceFile.text;
+  const lineStart = sourceFile.getLineStarts()[sourceFile.getLineAndCharacterOfPosition(position).line];
+  const indent = text.slice(lineStart, position).match(/^[ \t]*/)?.[0] ?? '';
+
+  const firstIndented = text.match(/^([ \t]+)\S/m);
+  const unit = firstIndented?.[1].startsWith('\t') ? '\t' : firstIndented?.[1] ?? '  ';
+
+  return { indent, unit, newline: text.includes('\r\n') ? '\r\n' : '\n' };
+}
+
+/**
+ * Returns the text between two offsets with every line after the first
+ * indented by one more unit
+ *
+ * Lines inside multi-line template literals are left alone, since their
+ * whitespace is part of the string.
+ */
+function reindent(sourceFile: ts.SourceFile, start: number, end: number, unit: string): string {
+  const firstLine = sourceFile.getLineAndCharacterOfPosition(start).line;
+  const literalLines = new Set<number>();
+
+  const visit = (node: ts.Node): void => {
+    if (node.getEnd() <= start || node.getStart(sourceFile) >= end) return;
+
+    if (ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      const from = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+      const to = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+      for (let line = from + 1; line <= to; line++) {
+        literalLines.add(line);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return sourceFile.text
+    .slice(start, end)
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0 || literalLines.has(firstLine + index) || line.trim() === '') {
+        return line;
+      }
+      return `${unit}${line}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,155 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line diff for showing codemod changes in the familiar
+ * `diff -u` / `git diff` format.
+ */
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/** Above this many LCS cells the changed region is shown as a full replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Creates a unified diff between two versions of a file
+ *
+ * @param fileName - Path shown in the `---`/`+++` headers
+ * @param oldText - Original contents
+ * @param newText - Changed contents
+ * @param context - Unchanged lines shown around each change (default: 3)
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function createUnifiedDiff(fileName: string, oldText: string, newText: string, context = 3): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(oldText.split('\n'), newText.split('\n'));
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is close enough to share context
+    let lastChange = index;
+    let cursor = index;
+    while (cursor < lines.length) {
+      if (lines[cursor].type !== ' ') {
+        lastChange = cursor;
+      } else if (cursor - lastChange > 2 * context) {
+        break;
+      }
+      cursor++;
+    }
+
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, lastChange + 1 + context);
+    output.push(formatHunk(lines, start, end));
+    index = end;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Formats the lines [start, end) as a hunk with its `@@` header
+ */
+function formatHunk(lines: DiffLine[], start: number, end: number): string {
+  const before = lines.slice(0, start);
+  const hunk = lines.slice(start, end);
+
+  const oldBefore = before.filter(line => line.type !== '+').length;
+  const newBefore = before.filter(line => line.type !== '-').length;
+  const oldCount = hunk.filter(line => line.type !== '+').length;
+  const newCount = hunk.filter(line => line.type !== '-').length;
+
+  const oldStart = oldCount === 0 ? oldBefore : oldBefore + 1;
+  const newStart = newCount === 0 ? newBefore : newBefore + 1;
+
+  return [
+    `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+    ...hunk.map(line => `${line.type}${line.text}`),
+  ].join('\n');
+}
+
+/**
+ * Computes the line-by-line edit script between two texts
+ *
+ * Common leading and trailing lines are matched directly, so the LCS only
+ * runs over the changed region.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ type: ' ' as const, text })),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: ' ' as const, text })),
+  ];
+}
+
+/**
+ * Diffs the changed region with a longest-common-subsequence table
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: '-' as const, text })),
+      ...newLines.map(text => ({ type: '+' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: ' ', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: '-', text: oldLines[i++] });
+    } else {
+      result.push({ type: '+', text: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: '-', text: oldLines[i++] });
+  while (j < m) result.push({ type: '+', text: newLines[j++] });
+
+  return result;
+}
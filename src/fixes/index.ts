@@ -0,0 +1,256 @@
+/**
+ * Fix Engine
+ *
+ * Applies codemods to a program one violation at a time. After each edit the
+ * analyzer runs again on the edited text, and the edit is kept only if its
+ * violation is gone and nothing at the same severity or above appeared.
+ * Nothing is written to disk: callers get the fixed text and a unified diff
+ * for every file.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import type { Analyzer } from '../analyzer.js';
+import type { CodeFix, Violation } from '../types.js';
+import { meetsSeverityThreshold } from '../filters.js';
+import { applyTextEdits } from './codemods.js';
+import { createUnifiedDiff } from './diff.js';
+
+export { createCodeFix, applyTextEdits } from './codemods.js';
+export { createUnifiedDiff } from './diff.js';
+
+/**
+ * A verified fix, offered for confirmation before it is kept
+ */
+export interface FixProposal {
+  file: string;
+  violation: Violation;
+  fix: CodeFix;
+  /** Unified diff of this fix alone */
+  diff: string;
+}
+
+/**
+ * A codemod that was not kept, and why
+ */
+export interface RejectedFix {
+  violation: Violation;
+  fix: CodeFix;
+  reason: string;
+}
+
+/**
+ * Outcome of fixing one file
+ */
+export interface FileFixResult {
+  file: string;
+  originalText: string;
+  fixedText: string;
+  /** Unified diff of all applied fixes */
+  diff: string;
+  applied: FixProposal[];
+  /** Fixes that did not remove their violation (or that were declined) */
+  rejected: RejectedFix[];
+  /** Violations without a codemod */
+  unsupported: Violation[];
+}
+
+/**
+ * Options for fixFiles()
+ */
+export interface FixEngineOptions {
+  /** Paths in diff headers are made relative to this directory (default: cwd) */
+  projectRoot?: string;
+  /** Called for each verified fix; return false to skip it (e.g., interactive prompts) */
+  confirm?: (proposal: FixProposal) => boolean | Promise<boolean>;
+}
+
+/**
+ * Fixes the violations of the given files
+ *
+ * The analyzer is pointed at a new program after every kept fix and is left
+ * on the program with all fixes applied.
+ *
+ * @param analyzer - Analyzer that reported the violations
+ * @param program - Program the analyzer currently analyzes
+ * @param fileNames - Files to fix (as reported in Violation.file)
+ * @returns One result per file, in the given order
+ */
+export async function fixFiles(
+  analyzer: Analyzer,
+  program: ts.Program,
+  fileNames: string[],
+  options: FixEngineOptions = {}
+): Promise<FileFixResult[]> {
+  const projectRoot = options.projectRoot ?? process.cwd();
+  const results: FileFixResult[] = [];
+  let currentProgram = program;
+
+  for (const file of fileNames) {
+    const sourceFile = currentProgram.getSourceFile(file);
+    if (!sourceFile) continue;
+
+    const displayName = path.relative(projectRoot, file).split(path.sep).join('/');
+    const result: FileFixResult = {
+      file,
+      originalText: sourceFile.text,
+      fixedText: sourceFile.text,
+      diff: '',
+      applied: [],
+      rejected: [],
+      unsupported: [],
+    };
+
+    analyzer.updateProgram(currentProgram);
+    let violations = analyzer.analyzeFiles([file]);
+    const attempted = new Set<string>();
+
+    for (;;) {
+      const current = currentProgram.getSourceFile(file)!;
+      const keys = getViolationKeys(violations, current);
+      const index = keys.findIndex(key => !attempted.has(key));
+      if (index === -1) break;
+
+      const violation = violations[index];
+      attempted.add(keys[index]);
+
+      // Codemods only edit the violation's own file
+      const fix = violation.fix;
+      if (!fix || fix.edits.some(edit => path.resolve(edit.file) !== path.resolve(file))) {
+        result.unsupported.push(violation);
+        continue;
+      }
+
+      const candidateText = applyTextEdits(current.text, fix.edits);
+      const candidateProgram = createProgramWithText(currentProgram, file, candidateText);
+      const candidateFile = candidateProgram.getSourceFile(file)!;
+
+      analyzer.updateProgram(candidateProgram);
+      const remaining = analyzer.analyzeFiles([file]);
+      analyzer.updateProgram(currentProgram);
+
+      const reason = candidateProgram.getSyntacticDiagnostics(candidateFile).length >
+        currentProgram.getSyntacticDiagnostics(current).length
+        ? 'fix produced invalid syntax'
+        : checkFixVerified(violation, violations, remaining);
+      if (reason) {
+        result.rejected.push({ violation, fix, reason });
+        continue;
+      }
+
+      const proposal: FixProposal = {
+        file,
+        violation,
+        fix,
+        diff: createUnifiedDiff(displayName, current.text, candidateText),
+      };
+      if (options.confirm && !(await options.confirm(proposal))) {
+        result.rejected.push({ violation, fix, reason: 'declined' });
+        continue;
+      }
+
+      result.applied.push(proposal);
+      currentProgram = candidateProgram;
+      violations = remaining;
+      // The fixed violation's key may now belong to an identical one further down
+      attempted.delete(keys[index]);
+    }
+
+    result.fixedText = currentProgram.getSourceFile(file)!.text;
+    result.diff = createUnifiedDiff(displayName, result.originalText, result.fixedText);
+    results.push(result);
+  }
+
+  analyzer.updateProgram(currentProgram);
+  return results;
+}
+
+/**
+ * Explains why a fix does not count as verified
+ *
+ * A fix may leave a lower-severity finding for the same clause behind (e.g.,
+ * a try/catch that does not inspect `error.response` still gets a warning),
+ * but must not add anything at the fixed violation's severity or above.
+ *
+ * @returns The reason, or null if the fix removed its violation without adding any
+ */
+function checkFixVerified(violation: Violation, before: Violation[], after: Violation[]): string | null {
+  const countBefore = countByKey(before);
+  const countAfter = countByKey(after);
+  const fixedKey = findingKey(violation);
+
+  if ((countAfter.get(fixedKey) ?? 0) >= (countBefore.get(fixedKey) ?? 0)) {
+    return 'violation is still reported after the fix';
+  }
+
+  for (const added of after) {
+    const key = findingKey(added);
+    if ((countAfter.get(key) ?? 0) > (countBefore.get(key) ?? 0) &&
+        meetsSeverityThreshold(added.severity, violation.severity)) {
+      return `fix introduces ${clauseKey(added)}`;
+    }
+  }
+
+  return null;
+}
+
+function clauseKey(violation: Violation): string {
+  return `${violation.package}/${violation.contract_clause}`;
+}
+
+function findingKey(violation: Violation): string {
+  return `${clauseKey(violation)}|${violation.severity}`;
+}
+
+function countByKey(violations: Violation[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const violation of violations) {
+    counts.set(findingKey(violation), (counts.get(findingKey(violation)) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Computes a line-independent key for each violation
+ *
+ * Violations move when an earlier fix inserts lines, so they are identified by
+ * clause and source line text, plus an occurrence index for identical lines.
+ */
+function getViolationKeys(violations: Violation[], sourceFile: ts.SourceFile): string[] {
+  const lines = sourceFile.text.split('\n');
+  const seen = new Map<string, number>();
+
+  return violations.map(violation => {
+    const base = `${findingKey(violation)}|${lines[violation.line - 1]?.trim() ?? ''}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return `${base}|${occurrence}`;
+  });
+}
+
+/**
+ * Creates a program in which one file has new contents
+ *
+ * All other source files are reused from the old program.
+ */
+function createProgramWithText(oldProgram: ts.Program, fileName: string, text: string): ts.Program {
+  const options = oldProgram.getCompilerOptions();
+  const host = ts.createCompilerHost(options, true);
+  const readSourceFile = host.getSourceFile;
+  const target = path.resolve(fileName);
+
+  host.getSourceFile = (name, languageVersion, onError, shouldCreateNewSourceFile) => {
+    if (path.resolve(name) === target) {
+      return ts.createSourceFile(name, text, languageVersion, true);
+    }
+    return oldProgram.getSourceFile(name) ??
+      readSourceFile.call(host, name, languageVersion, onError, shouldCreateNewSourceFile);
+  };
+
+  return ts.createProgram({
+    rootNames: oldProgram.getRootFileNames(),
+    options,
+    host,
+    oldProgram,
+  });
+}
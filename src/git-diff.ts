@@ -0,0 +1,141 @@
+/**
+ * Git Diff
+ *
+ * Determines which files and line ranges changed relative to a git ref or the
+ * index, so that pull request runs can focus on the code under review.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChangedFile, LineRange } from './types.js';
+
+/**
+ * Which changes to collect
+ */
+export type ChangeSource =
+  | { kind: 'since'; ref: string }
+  | { kind: 'staged' };
+
+/**
+ * Find git repository root by walking up from a given path
+ */
+export function findGitRepoRoot(startPath: string): string | null {
+  let currentDir = path.dirname(path.resolve(startPath));
+  const root = path.parse(currentDir).root;
+
+  while (currentDir !== root) {
+    const gitPath = path.join(currentDir, '.git');
+    if (fs.existsSync(gitPath)) {
+      return currentDir;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+
+  return null;
+}
+
+/**
+ * Parses `git diff -U0` output into changed files with added/modified line ranges
+ *
+ * Pure deletions are recorded as the line following the deleted block so that
+ * a call site whose error handling was removed is still considered changed.
+ *
+ * @param diffOutput - Output of `git diff --no-prefix -U0`
+ * @param repoRoot - Repository root used to resolve file paths
+ */
+export function parseUnifiedDiff(diffOutput: string, repoRoot: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  let current: ChangedFile | null = null;
+
+  for (const line of diffOutput.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.substring(4).trim();
+      if (target === '/dev/null') {
+        // Deleted file - nothing left to analyze
+        current = null;
+        continue;
+      }
+      current = { file: path.resolve(repoRoot, target), ranges: [] };
+      files.push(current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+
+      if (count === 0) {
+        current.ranges.push({ start: start + 1, end: start + 1 });
+      } else {
+        current.ranges.push({ start, end: start + count - 1 });
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Checks whether a line falls within any of the given ranges
+ */
+export function isLineInRanges(line: number, ranges: LineRange[]): boolean {
+  return ranges.some(range => line >= range.start && line <= range.end);
+}
+
+/**
+ * Collects changed files from git
+ *
+ * - `since`: changes between the merge base of `ref` and HEAD and the working
+ *   tree, plus untracked files (what a pull request from this checkout would contain)
+ * - `staged`: changes in the index only
+ *
+ * @param repoRoot - Root of the git repository
+ * @param source - Which changes to collect
+ */
+export function getChangedFiles(repoRoot: string, source: ChangeSource): ChangedFile[] {
+  try {
+    const diffArgs = ['-c', 'core.quotePath=false', 'diff', '--no-color', '--no-ext-diff', '--no-prefix', '-U0'];
+
+    if (source.kind === 'staged') {
+      diffArgs.push('--cached');
+    } else {
+      const mergeBase = runGit(repoRoot, ['merge-base', source.ref, 'HEAD']).trim();
+      diffArgs.push(mergeBase);
+    }
+
+    const changedFiles = parseUnifiedDiff(runGit(repoRoot, diffArgs), repoRoot);
+
+    // New files that were never added are part of the change as a whole
+    if (source.kind === 'since') {
+      const untracked = runGit(repoRoot, ['-c', 'core.quotePath=false', 'ls-files', '--others', '--exclude-standard'])
+        .split('\n')
+        .filter(Boolean);
+
+      for (const file of untracked) {
+        changedFiles.push({
+          file: path.resolve(repoRoot, file),
+          ranges: [{ start: 1, end: Number.MAX_SAFE_INTEGER }],
+        });
+      }
+    }
+
+    return changedFiles;
+  } catch (error) {
+    const target = source.kind === 'staged' ? 'staged changes' : `changes since ${source.ref}`;
+    throw new Error(`Failed to read ${target}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Runs a git command in the repository and returns its stdout
+ */
+function runGit(repoRoot: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd: repoRoot,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
@@ -10,48 +10,80 @@ import * as fs from 'fs';
 import { fileURLToPath } from 'url';
 import chalk from 'chalk';
 import { loadCorpus } from './corpus-loader.js';
-import { Analyzer } from './analyzer.js';
-import { PackageDiscovery } from './package-discovery.js';
+import { verify, verifyWorkspaces, type VerifyProgressEvent, type VerifyResult } from './api.js';
+import { readInstalledVersions } from './installed-versions.js';
+import { selectContracts } from './contract-selection.js';
 import {
-  generateAuditRecord,
-  generateEnhancedAuditRecord,
   writeAuditRecord,
   printTerminalReport,
   printEnhancedTerminalReport,
   printCorpusErrors,
+  printBaselineReport,
+  printWorkspaceReport,
+  printEdgeCaseReport,
 } from './reporter.js';
 import {
   printPositiveEvidenceReport,
   writePositiveEvidenceReport,
   writePositiveEvidenceReportMarkdown,
   writeD3Visualization,
-  calculateHealthScore,
   buildPackageBreakdown,
   compareAgainstBenchmark,
   loadBenchmark,
+  writeSarifLog,
 } from './reporters/index.js';
 import { ensureTsconfig } from './tsconfig-generator.js';
-import type { AnalyzerConfig } from './types.js';
+import type { AnalyzerConfig, ChangedFile } from './types.js';
 import { createSuppressionsCommand } from './cli/suppressions.js';
+import { createLspCommand } from './cli/lsp.js';
+import { createFixCommand } from './cli/fix.js';
 import { generateAIPrompt } from './ai-prompt-generator.js';
+import { getChangedFiles, findGitRepoRoot } from './git-diff.js';
+import { startWatchMode } from './watch.js';
+import { isSeverity, SEVERITY_LEVELS } from './filters.js';
+import {
+  CONFIG_FILENAME,
+  CONFIG_OPTION_KEYS,
+  PACKAGE_JSON_CONFIG_KEY,
+  findProjectConfig,
+  getRunsDir,
+  loadProjectConfigFile,
+  mergeConfigWithCliOptions,
+  type LoadedProjectConfig,
+} from './config.js';
+import { writeBaseline } from './baseline.js';
+import { formatDeadSuppression } from './suppressions/index.js';
+import { loadDetectorPlugins, isPluginPath, type DetectorPlugin } from './plugins/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const program = new Command();
 
+/** Supported audit record output formats */
+const OUTPUT_FORMATS = ['json', 'sarif'];
+
 program
   .name('verify-cli')
   .description('Verify TypeScript code against behavioral contracts')
-  .version('0.1.0');
+  .version('0.1.0')
+  // Subcommands define options with the same names (e.g., --corpus, --project)
+  .enablePositionalOptions();
 
 // Add suppressions subcommand
 program.addCommand(createSuppressionsCommand());
 
+// Add language server subcommand
+program.addCommand(createLspCommand(findDefaultCorpusPath()));
+
+// Add automated fix subcommand
+program.addCommand(createFixCommand(findDefaultCorpusPath()));
+
 program
   .option('--tsconfig <path>', 'Path to tsconfig.json or project directory (default: ./tsconfig.json)', './tsconfig.json')
   .option('--corpus <path>', 'Path to corpus directory', findDefaultCorpusPath())
   .option('--output <path>', 'Output path for audit record JSON (default: auto-generated in output/runs/)')
+  .option('--format <format>', 'Audit record format: json or sarif (sarif also writes a .sarif log next to the JSON)', 'json')
   .option('--project <path>', 'Path to project root (for package.json discovery)', process.cwd())
   .option('--no-terminal', 'Disable terminal output (JSON only)')
   .option('--fail-on-warnings', 'Exit with error code if warnings are found')
@@ -64,30 +96,83 @@ program
   .option('--show-suppressions', 'Show suppressed violations in output', false)
   .option('--check-dead-suppressions', 'Check for and report dead suppressions', false)
   .option('--fail-on-dead-suppressions', 'Exit with error if dead suppressions are found', false)
-  .action(async (options) => {
+  .option('--baseline <path>', 'Baseline audit.json - only violations not in the baseline fail the run')
+  .option('--update-baseline', 'Write the current violations to the --baseline file', false)
+  .option('--changed-since <ref>', 'Only analyze files changed since the merge base with a git ref (e.g., origin/main)')
+  .option('--staged', 'Only analyze files with staged changes', false)
+  .option('--changed-lines-only', 'With --changed-since/--staged, only report violations on changed lines', false)
+  .option('--watch', 'Re-analyze changed files on save and print new/fixed violations', false)
+  .option('--workspaces', 'Analyze each workspace package under --project (npm/yarn/pnpm workspaces, tsconfig references)', false)
+  .option('--include <patterns...>', 'Only analyze files matching these globs (relative to the tsconfig directory)')
+  .option('--exclude <patterns...>', 'Skip files matching these globs (relative to the tsconfig directory)')
+  .option('--min-severity <level>', 'Only report violations at or above this severity: info, warning or error')
+  .option('--plugins <specifiers...>', 'Detector plugins to run (npm packages or paths to modules)')
+  .option('--edge-cases', 'Report contract edge cases at the call sites that use them (informational)', false)
+  .option('--output-dir <dir>', 'Directory for timestamped run output (default: .behavioral-contracts in the project)')
+  .option('--config <path>', `Path to a config file (default: ${CONFIG_FILENAME} or "${PACKAGE_JSON_CONFIG_KEY}" in package.json)`)
+  .option('--print-config', 'Print the resolved configuration and exit', false)
+  .action(async (options, command: Command) => {
     // This action handler is called when the main command is invoked
     // (i.e., not a subcommand like 'suppressions')
-    await main(options);
+    const resolved = resolveOptions(options, command);
+
+    if (options.printConfig) {
+      printResolvedConfig(resolved.options, resolved.configPath);
+      return;
+    }
+
+    await main(resolved.options);
   });
 
 program.parse(process.argv);
 
 /**
- * Find git repository root by walking up from a given path
+ * Applies the project config file to the parsed CLI options
+ *
+ * Options given on the command line override config values.
  */
-function findGitRepoRoot(startPath: string): string | null {
-  let currentDir = path.dirname(path.resolve(startPath));
-  const root = path.parse(currentDir).root;
-
-  while (currentDir !== root) {
-    const gitPath = path.join(currentDir, '.git');
-    if (fs.existsSync(gitPath)) {
-      return currentDir;
+function resolveOptions(options: any, command: Command): { options: any; configPath?: string } {
+  const isFromCommandLine = (key: string) => command.getOptionValueSource(key) === 'cli';
+
+  let loaded: LoadedProjectConfig | null;
+  try {
+    loaded = options.config
+      ? loadProjectConfigFile(options.config)
+      : findProjectConfig(isFromCommandLine('project') ? path.resolve(options.project) : process.cwd());
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    console.error(chalk.yellow('Tip: Run with --print-config after fixing the file to check the resolved options'));
+    process.exit(1);
+  }
+
+  if (!loaded) {
+    return { options };
+  }
+
+  for (const warning of loaded.warnings) {
+    console.warn(chalk.yellow(`Warning: ${warning} in ${loaded.path} is ignored`));
+  }
+
+  return {
+    options: mergeConfigWithCliOptions(options, loaded.config, isFromCommandLine),
+    configPath: loaded.path,
+  };
+}
+
+/**
+ * Prints the resolved main-command options (config file merged with CLI flags)
+ */
+function printResolvedConfig(options: any, configPath?: string): void {
+  const resolved: Record<string, unknown> = {};
+  for (const key of CONFIG_OPTION_KEYS) {
+    if (options[key] !== undefined) {
+      resolved[key] = options[key];
     }
-    currentDir = path.dirname(currentDir);
   }
 
-  return null;
+  console.log(chalk.bold('Resolved configuration'));
+  console.log(chalk.dim(`  Config file: ${configPath || '(none)'}\n`));
+  console.log(JSON.stringify(resolved, null, 2));
 }
 
 /**
@@ -145,8 +230,9 @@ function ensureGitignore(projectRoot: string): void {
 
 /**
  * Generate organized output path in the analyzed project's .behavioral-contracts directory
+ * (or in a configured output directory)
  */
-function generateOutputPath(tsconfigPath: string): string {
+function generateOutputPath(tsconfigPath: string, baseOutputDir?: string): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
 
   // Get git commit hash from the analyzed repo
@@ -159,13 +245,15 @@ function generateOutputPath(tsconfigPath: string): string {
   const runDir = `${timestamp.replace(/T/, '-').replace(/-/g, '').substring(0, 13)}-${gitHash}`;
 
   // Output goes to .behavioral-contracts/runs/{runDir}/ in the analyzed project
-  const outputDir = path.join(projectRoot, '.behavioral-contracts', 'runs', runDir);
+  const outputDir = path.join(getRunsDir(projectRoot, baseOutputDir), runDir);
 
   // Create directory if it doesn't exist
   fs.mkdirSync(outputDir, { recursive: true });
 
-  // Ensure .behavioral-contracts is in .gitignore
-  ensureGitignore(projectRoot);
+  // Ensure .behavioral-contracts is in .gitignore (custom output directories are the user's choice)
+  if (!baseOutputDir) {
+    ensureGitignore(projectRoot);
+  }
 
   return path.join(outputDir, 'audit.json');
 }
@@ -222,17 +310,98 @@ function normalizeTsconfigPath(tsconfigPath: string): string {
   return resolved;
 }
 
+/**
+ * Prints verification progress
+ */
+function printProgress(event: VerifyProgressEvent): void {
+  switch (event.stage) {
+    case 'workspace-start':
+      console.log(chalk.bold(`[${event.index + 1}/${event.total}] ${event.workspace.name}`));
+      break;
+    case 'discovery-start':
+      console.log(chalk.dim('Discovering packages...'));
+      break;
+    case 'discovery-complete':
+      console.log(chalk.green(`✓ Discovered ${event.result.total} packages\n`));
+      break;
+    case 'contracts-skipped':
+      for (const match of event.skipped) {
+        console.log(chalk.yellow(
+          `⚠ Skipping ${match.package} contract v${match.contract_version}: ` +
+          `installed ${match.installed_version} is outside its range ${match.semver}`
+        ));
+      }
+      console.log('');
+      break;
+    case 'analysis-start':
+      console.log(chalk.dim('Analyzing TypeScript code...'));
+      break;
+    case 'analysis-complete':
+      console.log(chalk.green(`✓ Analyzed ${event.filesAnalyzed} files\n`));
+      break;
+  }
+}
+
 /**
  * Main execution
  */
 async function main(options: any) {
   console.log(chalk.bold('\nBehavioral Contract Verification\n'));
 
+  // In workspace mode each package brings its own tsconfig; the root one only locates the repo
+  const workspaceRoot = options.workspaces ? path.resolve(options.project) : undefined;
+
   // Normalize tsconfig path (allow directory or file)
-  const tsconfigPath = normalizeTsconfigPath(options.tsconfig);
+  const tsconfigPath = workspaceRoot
+    ? path.join(workspaceRoot, 'tsconfig.json')
+    : normalizeTsconfigPath(options.tsconfig);
 
   // Ensure tsconfig exists (generate if missing)
-  ensureTsconfig(tsconfigPath);
+  if (!workspaceRoot) {
+    ensureTsconfig(tsconfigPath);
+  }
+
+  // Validate output format
+  if (!OUTPUT_FORMATS.includes(options.format)) {
+    console.error(chalk.red(`Error: Unknown format "${options.format}"`));
+    console.error(chalk.yellow(`Tip: Use --format ${OUTPUT_FORMATS.join(' or --format ')}`));
+    process.exit(1);
+  }
+
+  // Validate baseline options
+  if (options.updateBaseline && !options.baseline) {
+    console.error(chalk.red('Error: --update-baseline requires --baseline <path>'));
+    process.exit(1);
+  }
+
+  // Validate diff-aware options
+  if (options.changedSince && options.staged) {
+    console.error(chalk.red('Error: --changed-since and --staged cannot be used together'));
+    process.exit(1);
+  }
+
+  if (options.changedLinesOnly && !options.changedSince && !options.staged) {
+    console.error(chalk.red('Error: --changed-lines-only requires --changed-since <ref> or --staged'));
+    process.exit(1);
+  }
+
+  // Validate severity threshold
+  if (options.minSeverity && !isSeverity(options.minSeverity)) {
+    console.error(chalk.red(`Error: Unknown severity "${options.minSeverity}"`));
+    console.error(chalk.yellow(`Tip: Use --min-severity ${SEVERITY_LEVELS.join(', ')}`));
+    process.exit(1);
+  }
+
+  if (options.watch && options.updateBaseline) {
+    console.error(chalk.red('Error: --watch cannot be combined with --update-baseline'));
+    process.exit(1);
+  }
+
+  if (options.watch && options.workspaces) {
+    console.error(chalk.red('Error: --watch cannot be combined with --workspaces'));
+    console.error(chalk.yellow('Tip: Run --watch with --tsconfig pointing at a single workspace'));
+    process.exit(1);
+  }
 
   // Validate corpus exists
   if (!fs.existsSync(options.corpus)) {
@@ -241,14 +410,18 @@ async function main(options: any) {
     process.exit(1);
   }
 
-  // Generate organized output path if not specified
-  const outputPath = options.output || generateOutputPath(tsconfigPath);
+  // Generate organized output path if not specified (watch mode writes no run artifacts)
+  const outputPath = options.output || (options.watch ? '' : generateOutputPath(tsconfigPath, options.outputDir));
   const outputDir = path.dirname(outputPath);
 
   // Setup output logging (capture all terminal output to output.txt)
-  const cleanupLogging = setupOutputLogging(outputDir);
+  const cleanupLogging = options.watch ? () => {} : setupOutputLogging(outputDir);
 
-  console.log(chalk.gray(`  tsconfig: ${tsconfigPath}`));
+  if (workspaceRoot) {
+    console.log(chalk.gray(`  workspaces: ${workspaceRoot}`));
+  } else {
+    console.log(chalk.gray(`  tsconfig: ${tsconfigPath}`));
+  }
   console.log(chalk.gray(`  corpus: ${options.corpus}`));
 
   // Show corpus source (npm package vs local)
@@ -283,7 +456,11 @@ async function main(options: any) {
     process.exit(1);
   }
 
-  console.log(chalk.green(`✓ Loaded ${corpusResult.contracts.size} package contracts`));
+  const versionCount = Array.from(corpusResult.versions.values()).reduce((sum, versions) => sum + versions.length, 0);
+  console.log(chalk.green(
+    `✓ Loaded ${corpusResult.contracts.size} package contracts` +
+    (versionCount > corpusResult.contracts.size ? ` (${versionCount} versions)` : '')
+  ));
 
   // Show skipped contracts (if any)
   if (corpusResult.skipped && corpusResult.skipped.length > 0) {
@@ -298,51 +475,156 @@ async function main(options: any) {
 
     console.log(chalk.dim(`  (Skipped ${skippedParts.join(', ')} - use --include-drafts to include)`));
   }
+
+  // Load detector plugins (paths from the command line are relative to the working directory)
+  let plugins: DetectorPlugin[] = [];
+  if (options.plugins && options.plugins.length > 0) {
+    try {
+      plugins = await loadDetectorPlugins(
+        options.plugins.map((plugin: string) => isPluginPath(plugin) ? path.resolve(plugin) : plugin),
+        path.resolve(options.project)
+      );
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      console.error(chalk.yellow('Tip: npm plugins are resolved from --project; install them there'));
+      process.exit(1);
+    }
+
+    console.log(chalk.green(`✓ Loaded ${plugins.length} detector plugins (${plugins.map(p => p.name).join(', ')})`));
+  }
   console.log();
 
-  // Discover packages (if enabled)
-  let packageDiscovery;
-  if (options.discoverPackages !== false) {
-    console.log(chalk.dim('Discovering packages...'));
-    const discoveryTool = new PackageDiscovery(corpusResult.contracts);
-    packageDiscovery = await discoveryTool.discoverPackages(
-      options.project,
-      path.resolve(tsconfigPath)
-    );
-    console.log(chalk.green(`✓ Discovered ${packageDiscovery.total} packages\n`));
+  // Collect changed files for diff-aware analysis
+  let changedFiles: ChangedFile[] | undefined;
+  if (options.changedSince || options.staged) {
+    const repoRoot = findGitRepoRoot(tsconfigPath);
+    if (!repoRoot) {
+      console.error(chalk.red('Error: --changed-since and --staged require a git repository'));
+      process.exit(1);
+    }
+
+    try {
+      changedFiles = getChangedFiles(
+        repoRoot,
+        options.staged ? { kind: 'staged' } : { kind: 'since', ref: options.changedSince }
+      );
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      if (options.changedSince) {
+        console.error(chalk.yellow('Tip: Make sure the ref exists locally (e.g., git fetch origin main)'));
+      }
+      process.exit(1);
+    }
+
+    const description = options.staged ? 'staged' : `changed since ${options.changedSince}`;
+    console.log(chalk.dim(`Limiting analysis to ${changedFiles.length} files ${description}\n`));
   }
 
-  // Create analyzer
-  const config: AnalyzerConfig = {
-    tsconfigPath: path.resolve(tsconfigPath),
-    corpusPath: path.resolve(options.corpus),
-    includeTests: options.includeTests,
-  };
+  // Watch mode keeps running and prints live diffs instead of writing reports
+  if (options.watch) {
+    const config: AnalyzerConfig = {
+      tsconfigPath: path.resolve(tsconfigPath),
+      corpusPath: path.resolve(options.corpus),
+      includeTests: options.includeTests,
+      includePaths: options.include,
+      excludePaths: options.exclude,
+      severityThreshold: options.minSeverity,
+      changedFiles,
+      changedLinesOnly: options.changedLinesOnly,
+      plugins,
+    };
 
-  console.log(chalk.dim('Analyzing TypeScript code...'));
-  const analyzer = new Analyzer(config, corpusResult.contracts);
+    const installed = await readInstalledVersions(options.project, corpusResult.contracts.keys());
+    for (const warning of installed.warnings) {
+      console.warn(chalk.yellow(`Warning: ${warning}`));
+    }
+    const selection = selectContracts(corpusResult.contracts, installed.versions, corpusResult.versions);
+    const skipped = selection.matches.filter(match => match.match === 'mismatch');
+    if (skipped.length > 0) {
+      printProgress({ stage: 'contracts-skipped', skipped });
+    }
 
-  // Run analysis
-  const violations = analyzer.analyze();
-  const stats = analyzer.getStats();
+    console.log(chalk.dim('Starting watch mode...'));
+    startWatchMode(config, selection.contracts, {
+      projectRoot: findGitRepoRoot(tsconfigPath) || path.dirname(tsconfigPath),
+      packagesAnalyzed: Array.from(selection.contracts.keys()),
+      corpusVersion: corpusResult.version ?? 'unknown',
+    });
+    return;
+  }
 
-  console.log(chalk.green(`✓ Analyzed ${stats.filesAnalyzed} files\n`));
+  // A missing baseline is only acceptable when creating it
+  const baselinePath = options.baseline ? path.resolve(options.baseline) : undefined;
+  const baselineExists = baselinePath !== undefined && fs.existsSync(baselinePath);
+  if (baselinePath && !baselineExists && !options.updateBaseline) {
+    console.error(chalk.red(`Error: Baseline not found at ${baselinePath}`));
+    console.error(chalk.yellow('Tip: Create it with --baseline <path> --update-baseline'));
+    process.exit(1);
+  }
+
+  // Run verification
+  let result: VerifyResult;
+  try {
+    const verifyOptions = {
+      corpus: options.corpus,
+      contracts: corpusResult.contracts,
+      contractVersions: corpusResult.versions,
+      corpusVersion: corpusResult.version,
+      includeTests: options.includeTests,
+      discoverPackages: options.discoverPackages !== false,
+      include: options.include,
+      exclude: options.exclude,
+      minSeverity: options.minSeverity,
+      changedFiles,
+      changedLinesOnly: options.changedLinesOnly,
+      baseline: baselineExists ? baselinePath : undefined,
+      checkDeadSuppressions: options.checkDeadSuppressions || options.failOnDeadSuppressions,
+      updateSuppressionManifest: true,
+      plugins,
+      edgeCases: options.edgeCases,
+      onProgress: printProgress,
+    };
+
+    result = workspaceRoot
+      ? await verifyWorkspaces({ ...verifyOptions, root: workspaceRoot, failOnWarnings: options.failOnWarnings })
+      : await verify({ ...verifyOptions, tsconfig: options.tsconfig, project: options.project });
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+
+  const { record: finalRecord, packageDiscovery, projectRoot } = result;
+
+  for (const warning of result.warnings) {
+    console.warn(chalk.yellow(`Warning: ${warning}`));
+  }
 
   // Report suppressions if requested
   if (options.showSuppressions) {
-    const suppressedViolations = analyzer.getSuppressedViolations();
+    const suppressedViolations = result.suppressedViolations;
     if (suppressedViolations.length > 0) {
       console.log(chalk.yellow(`⚠️  ${suppressedViolations.length} suppressions active\n`));
     }
   }
 
+  // Report suppressions that were re-located because their code moved
+  if (result.movedSuppressions.length > 0) {
+    console.log(chalk.cyan(`↪️  ${result.movedSuppressions.length} suppressions moved since the last run:\n`));
+    result.movedSuppressions.forEach(({ suppression, previousLine }) => {
+      console.log(chalk.dim(
+        `  ${suppression.file}:${previousLine} → ${suppression.line} (${suppression.package}/${suppression.postconditionId})`
+      ));
+    });
+    console.log();
+  }
+
   // Check for dead suppressions if requested
   if (options.checkDeadSuppressions || options.failOnDeadSuppressions) {
-    const deadSuppressions = analyzer.detectDeadSuppressions();
+    const deadSuppressions = result.deadSuppressions;
     if (deadSuppressions.length > 0) {
       console.log(chalk.yellow(`\n🎉 Found ${deadSuppressions.length} dead suppressions (analyzer improved!):\n`));
       deadSuppressions.forEach((dead) => {
-        console.log(analyzer.formatDeadSuppression(dead));
+        console.log(formatDeadSuppression(dead));
       });
 
       if (options.failOnDeadSuppressions) {
@@ -354,34 +636,47 @@ async function main(options: any) {
     }
   }
 
-  // Generate audit record
-  const packagesAnalyzed = Array.from(corpusResult.contracts.keys());
-  const auditRecord = await generateAuditRecord(violations, {
-    tsconfigPath: options.tsconfig,
-    packagesAnalyzed,
-    contractsApplied: stats.contractsApplied,
-    filesAnalyzed: stats.filesAnalyzed,
-    corpusVersion: '1.0.0', // TODO: Read from corpus metadata
-  });
+  // With a baseline, the terminal report and exit code cover only new violations
+  const reportRecord = options.updateBaseline ? finalRecord : result.reportRecord;
+  const baselineFiltered = reportRecord !== finalRecord;
 
-  // Generate enhanced audit record if package discovery was run
-  const finalRecord = packageDiscovery
-    ? generateEnhancedAuditRecord(auditRecord, packageDiscovery)
-    : auditRecord;
+  if (options.updateBaseline && baselinePath) {
+    writeBaseline(finalRecord, baselinePath);
+    console.log(chalk.green(`✓ Baseline updated with ${finalRecord.violations.length} violations: ${baselinePath}\n`));
+  }
 
   // Write JSON output
   writeAuditRecord(finalRecord, outputPath);
   console.log(chalk.gray(`Audit record written to ${outputPath}`));
 
+  // Write SARIF output for code-scanning dashboards
+  if (options.format === 'sarif') {
+    const sarifPath = outputPath.replace(/\.json$/, '') + '.sarif';
+    await writeSarifLog(finalRecord, sarifPath, { projectRoot });
+    console.log(chalk.gray(`SARIF log written to ${sarifPath}`));
+  }
+
   // Generate AI agent prompt file
   const aiPromptPath = await generateAIPrompt(finalRecord, outputPath);
 
   // Print terminal report
   if (options.terminal !== false) {
     if (packageDiscovery) {
-      printEnhancedTerminalReport(finalRecord as any);
+      printEnhancedTerminalReport(reportRecord);
     } else {
-      printTerminalReport(auditRecord);
+      printTerminalReport(reportRecord);
+    }
+
+    if (reportRecord.edge_cases && reportRecord.edge_cases.length > 0) {
+      printEdgeCaseReport(reportRecord.edge_cases);
+    }
+
+    if (finalRecord.baseline) {
+      printBaselineReport(finalRecord.baseline);
+    }
+
+    if (reportRecord.workspaces) {
+      printWorkspaceReport(reportRecord.workspaces);
     }
   }
 
@@ -410,7 +705,7 @@ async function main(options: any) {
     const d3HtmlPath = path.join(outputDir, 'index.html');
 
     // Calculate metrics for D3 visualization
-    const healthMetrics = calculateHealthScore(finalRecord);
+    const healthMetrics = result.health;
     const packageBreakdown = buildPackageBreakdown(finalRecord);
 
     // Load benchmark if available
@@ -453,14 +748,17 @@ async function main(options: any) {
   }
 
   // Final summary at the very end (easy to spot after all output)
-  const totalViolations = auditRecord.summary.error_count + auditRecord.summary.warning_count;
+  const totalViolations = reportRecord.summary.error_count + reportRecord.summary.warning_count;
+  const violationLabel = baselineFiltered ? 'new violation' : 'violation';
   if (totalViolations > 0) {
     console.log(chalk.yellow('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
-    console.log(chalk.yellow.bold(`  ⚠️  ${totalViolations} violation${totalViolations === 1 ? '' : 's'} found - scroll up for full report`));
+    console.log(chalk.yellow.bold(`  ⚠️  ${totalViolations} ${violationLabel}${totalViolations === 1 ? '' : 's'} found - scroll up for full report`));
     console.log(chalk.yellow('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
   } else {
     console.log(chalk.green('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
-    console.log(chalk.green.bold('  ✓ No violations found - great work!'));
+    console.log(chalk.green.bold(baselineFiltered
+      ? '  ✓ No new violations since baseline - great work!'
+      : '  ✓ No violations found - great work!'));
     console.log(chalk.green('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
   }
 
@@ -468,13 +766,21 @@ async function main(options: any) {
   cleanupLogging();
 
   // Exit with appropriate code
-  const hasErrors = auditRecord.summary.error_count > 0;
-  const hasWarnings = auditRecord.summary.warning_count > 0;
+  const hasErrors = reportRecord.summary.error_count > 0;
+  const hasWarnings = reportRecord.summary.warning_count > 0;
+
+  if (options.updateBaseline) {
+    process.exit(0);
+  }
 
   if (hasErrors) {
     process.exit(1);
   }
 
+  if (reportRecord.workspaces?.some(workspace => !workspace.passed)) {
+    process.exit(1);
+  }
+
   if (options.failOnWarnings && hasWarnings) {
     process.exit(1);
   }
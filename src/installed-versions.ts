@@ -0,0 +1,298 @@
+/**
+ * Installed Package Versions
+ *
+ * Resolves the versions a project actually uses, as opposed to the ranges in
+ * its package.json. The nearest lockfile is read first (package-lock.json,
+ * pnpm-lock.yaml or yarn.lock, walking up from the project so workspace
+ * packages find the monorepo lockfile); packages it does not list fall back
+ * to node_modules/<name>/package.json, resolved the way Node resolves them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+
+/**
+ * Where an installed version was read from
+ */
+export type InstalledVersionSource = 'package-lock.json' | 'pnpm-lock.yaml' | 'yarn.lock' | 'node_modules';
+
+/**
+ * Resolved version of an installed package
+ */
+export interface InstalledVersion {
+  version: string;
+  source: InstalledVersionSource;
+}
+
+/**
+ * Result of reading installed versions
+ */
+export interface InstalledVersionsResult {
+  /** Versions of the packages that could be resolved */
+  versions: Map<string, InstalledVersion>;
+  /** Problems that did not stop resolution (e.g., an unreadable lockfile) */
+  warnings: string[];
+}
+
+const LOCKFILES: InstalledVersionSource[] = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
+/**
+ * Reads the installed versions of packages used by a project
+ *
+ * @param projectRoot - Directory with the project's package.json
+ * @param names - Packages to resolve
+ * @returns Resolved versions; a lockfile that cannot be parsed is reported in
+ *   `warnings` and node_modules is used instead
+ */
+export async function readInstalledVersions(
+  projectRoot: string,
+  names: Iterable<string>
+): Promise<InstalledVersionsResult> {
+  return readInstalledVersionsSync(projectRoot, names);
+}
+
+/**
+ * Synchronous variant of readInstalledVersions for callers that cannot await (e.g., ESLint rules)
+ */
+export function readInstalledVersionsSync(
+  projectRoot: string,
+  names: Iterable<string>
+): InstalledVersionsResult {
+  const root = path.resolve(projectRoot);
+  const ranges = readDeclaredRanges(root);
+  const lockfile = findLockfile(root);
+  const installed = new Map<string, InstalledVersion>();
+  const warnings: string[] = [];
+
+  let locked = new Map<string, string>();
+  if (lockfile) {
+    try {
+      const content = fs.readFileSync(lockfile.path, 'utf-8');
+      const importer = path.relative(path.dirname(lockfile.path), root).split(path.sep).join('/');
+      locked = parseLockfile(lockfile.source, content, importer, ranges);
+    } catch (error) {
+      warnings.push(`Could not read ${lockfile.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  for (const name of names) {
+    const version = locked.get(name);
+    if (version) {
+      installed.set(name, { version, source: lockfile!.source });
+      continue;
+    }
+
+    const fromNodeModules = readNodeModulesVersion(root, name);
+    if (fromNodeModules) {
+      installed.set(name, { version: fromNodeModules, source: 'node_modules' });
+    }
+  }
+
+  return { versions: installed, warnings };
+}
+
+/**
+ * Parses the versions a lockfile resolves for a project
+ *
+ * @param source - Lockfile format
+ * @param content - Lockfile text
+ * @param importer - Project directory relative to the lockfile ('' for the lockfile's own directory)
+ * @param ranges - Ranges from the project's package.json, to pick between several locked versions
+ * @returns Package name to version
+ */
+export function parseLockfile(
+  source: InstalledVersionSource,
+  content: string,
+  importer: string,
+  ranges: Map<string, string> = new Map()
+): Map<string, string> {
+  switch (source) {
+    case 'package-lock.json':
+      return parsePackageLock(content, importer);
+    case 'pnpm-lock.yaml':
+      return parsePnpmLock(content, importer);
+    case 'yarn.lock':
+      return parseYarnLock(content, ranges);
+    default:
+      return new Map();
+  }
+}
+
+/**
+ * npm lockfiles: `packages["node_modules/<name>"]` (v2/v3), `dependencies` (v1)
+ *
+ * A workspace package can have its own copy under `<importer>/node_modules`,
+ * which takes precedence over the hoisted one.
+ */
+function parsePackageLock(content: string, importer: string): Map<string, string> {
+  const lock = JSON.parse(content);
+  const versions = new Map<string, string>();
+
+  if (lock.packages) {
+    const prefixes = importer ? [`${importer}/node_modules/`, 'node_modules/'] : ['node_modules/'];
+    for (const prefix of [...prefixes].reverse()) {
+      for (const [key, entry] of Object.entries<any>(lock.packages)) {
+        if (!key.startsWith(prefix)) continue;
+        const name = key.slice(prefix.length);
+        // Nested node_modules belong to other packages
+        if (name.includes('/node_modules/')) continue;
+        if (typeof entry?.version === 'string') {
+          versions.set(name, entry.version);
+        }
+      }
+    }
+    return versions;
+  }
+
+  for (const [name, entry] of Object.entries<any>(lock.dependencies || {})) {
+    if (typeof entry?.version === 'string') {
+      versions.set(name, entry.version);
+    }
+  }
+  return versions;
+}
+
+/**
+ * pnpm lockfiles: `importers[<dir>].dependencies` (v6+), top-level `dependencies` (v5)
+ */
+function parsePnpmLock(content: string, importer: string): Map<string, string> {
+  const lock = YAML.parse(content) || {};
+  const versions = new Map<string, string>();
+  const project = lock.importers ? lock.importers[importer || '.'] : lock;
+  if (!project) {
+    return versions;
+  }
+
+  for (const field of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+    for (const [name, entry] of Object.entries<any>(project[field] || {})) {
+      // v6+: { specifier, version }; v5: version string
+      const raw = typeof entry === 'string' ? entry : entry?.version;
+      if (typeof raw !== 'string') continue;
+      // Strip peer suffixes: 1.6.0(debug@4.3.4) or 1.6.0_debug@4.3.4
+      const version = raw.replace(/[(_].*$/, '');
+      if (!version.startsWith('link:') && !version.startsWith('file:')) {
+        versions.set(name, version);
+      }
+    }
+  }
+  return versions;
+}
+
+/**
+ * yarn lockfiles, classic and berry:
+ *
+ *   axios@^1.6.0, axios@^1.5.0:        "axios@npm:^1.6.0":
+ *     version "1.6.2"                     version: 1.6.2
+ *
+ * When several versions of a package are locked, the one whose descriptor
+ * matches the package.json range is used.
+ */
+function parseYarnLock(content: string, ranges: Map<string, string>): Map<string, string> {
+  const locked = new Map<string, Array<{ descriptors: string[]; version: string }>>();
+  let current: { name: string; descriptors: string[] } | undefined;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    if (!line.startsWith(' ') && line.endsWith(':')) {
+      const descriptors = line.slice(0, -1).split(',').map(d => d.trim().replace(/^"|"$/g, ''));
+      const name = getDescriptorName(descriptors[0]);
+      current = name && name !== '__metadata' ? { name, descriptors } : undefined;
+      continue;
+    }
+
+    const match = current && line.match(/^\s+version:?\s+"?([^"\s]+)"?\s*$/);
+    if (current && match) {
+      const entries = locked.get(current.name) || [];
+      entries.push({ descriptors: current.descriptors, version: match[1] });
+      locked.set(current.name, entries);
+      current = undefined;
+    }
+  }
+
+  const versions = new Map<string, string>();
+  for (const [name, entries] of locked) {
+    const range = ranges.get(name);
+    const entry = entries.length === 1
+      ? entries[0]
+      : entries.find(e => range !== undefined &&
+          e.descriptors.some(d => d === `${name}@${range}` || d === `${name}@npm:${range}`));
+    if (entry) {
+      versions.set(name, entry.version);
+    }
+  }
+  return versions;
+}
+
+/**
+ * Gets the package name of a yarn descriptor (`@scope/pkg@^1.0.0` -> `@scope/pkg`)
+ */
+function getDescriptorName(descriptor: string): string | undefined {
+  const at = descriptor.indexOf('@', 1);
+  return at > 0 ? descriptor.slice(0, at) : undefined;
+}
+
+/**
+ * Finds the nearest lockfile in the project directory or its parents
+ */
+function findLockfile(projectRoot: string): { path: string; source: InstalledVersionSource } | undefined {
+  let dir = projectRoot;
+  while (true) {
+    for (const source of LOCKFILES) {
+      const candidate = path.join(dir, source);
+      if (fileExists(candidate)) {
+        return { path: candidate, source };
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Reads the version from the package.json Node would load for a package
+ */
+function readNodeModulesVersion(projectRoot: string, name: string): string | undefined {
+  let dir = projectRoot;
+  while (true) {
+    try {
+      const content = fs.readFileSync(path.join(dir, 'node_modules', name, 'package.json'), 'utf-8');
+      const version = JSON.parse(content).version;
+      return typeof version === 'string' ? version : undefined;
+    } catch {
+      // Not installed here, keep looking in the parent directories
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Reads the dependency ranges declared in the project's package.json
+ */
+function readDeclaredRanges(projectRoot: string): Map<string, string> {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(projectRoot, 'package.json'), 'utf-8'));
+    const deps = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    return new Map(Object.entries(deps).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  } catch {
+    return new Map();
+  }
+}
+
+function fileExists(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * Language Server
+ *
+ * Speaks the Language Server Protocol over stdio so editors can show contract
+ * violations while the user types. Open documents are analyzed from their
+ * unsaved contents through a TypeScript language service per tsconfig, with
+ * the contracts that cover the package versions installed for it. Each
+ * diagnostic offers the violation's codemod as the preferred quick fix (when
+ * it has one) and a quick fix that inserts a suppression comment.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  createConnection,
+  CodeActionKind,
+  DiagnosticSeverity,
+  DidChangeWatchedFilesNotification,
+  FileChangeType,
+  ProposedFeatures,
+  TextDocuments,
+  TextDocumentSyncKind,
+  type CodeAction,
+  type Diagnostic,
+  type Connection,
+  type TextEdit,
+} from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Analyzer } from './analyzer.js';
+import { readInstalledVersionsSync } from './installed-versions.js';
+import { selectContracts } from './contract-selection.js';
+import { generateSuppressionComment } from './suppressions/index.js';
+import type { AnalyzerConfig, CodeFix, PackageContract, Severity, Violation } from './types.js';
+
+/** Diagnostic source shown by editors */
+export const DIAGNOSTIC_SOURCE = 'behavioral-contracts';
+
+/** Delay before re-analyzing a document after an edit */
+const ANALYSIS_DELAY_MS = 300;
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+/**
+ * Options for the language server
+ */
+export interface LanguageServerOptions {
+  /** Path to the corpus the contracts were loaded from */
+  corpusPath: string;
+  /** Every contract of each package with several, to choose from by installed version (see CorpusLoadResult) */
+  contractVersions?: Map<string, PackageContract[]>;
+  /** Analyze test files (default: false) */
+  includeTests?: boolean;
+  /** Only report violations at or above this severity */
+  minSeverity?: Severity;
+}
+
+/**
+ * Data attached to each diagnostic so code actions can build a fix or suppression
+ */
+interface ViolationDiagnosticData {
+  package: string;
+  postconditionId: string;
+  fix?: CodeFix;
+  /** Version of the document the fix offsets refer to */
+  documentVersion?: number;
+}
+
+/**
+ * One tsconfig project with a language service over the open documents
+ */
+interface ProjectSession {
+  service: ts.LanguageService;
+  analyzer: Analyzer | null;
+  /** Root files from the tsconfig, re-read when files are created or deleted */
+  fileNames: string[];
+}
+
+/**
+ * Maps a violation severity to an LSP diagnostic severity
+ */
+export function toDiagnosticSeverity(severity: Severity): DiagnosticSeverity {
+  switch (severity) {
+    case 'error':
+      return DiagnosticSeverity.Error;
+    case 'warning':
+      return DiagnosticSeverity.Warning;
+    default:
+      return DiagnosticSeverity.Information;
+  }
+}
+
+/**
+ * Converts a violation into an LSP diagnostic
+ *
+ * The range covers the expression at the violation's position (e.g.,
+ * `axios.get`), or a single character if the line text is not available.
+ *
+ * @param violation - Violation with 1-based line and column
+ * @param lineText - Text of the violation's line
+ * @param documentVersion - Version of the analyzed document, to detect stale fixes
+ */
+export function violationToDiagnostic(violation: Violation, lineText = '', documentVersion?: number): Diagnostic {
+  const line = violation.line - 1;
+  const start = Math.max(violation.column - 1, 0);
+  const token = lineText.substring(start).match(/^[\w$.]+/);
+  const end = start + (token ? token[0].length : 1);
+
+  const diagnostic: Diagnostic = {
+    range: { start: { line, character: start }, end: { line, character: end } },
+    severity: toDiagnosticSeverity(violation.severity),
+    source: DIAGNOSTIC_SOURCE,
+    code: `${violation.package}/${violation.contract_clause}`,
+    message: violation.suggested_fix
+      ? `${violation.description}\nRequired handling: ${violation.suggested_fix}`
+      : violation.description,
+    data: {
+      package: violation.package,
+      postconditionId: violation.contract_clause,
+      fix: violation.fix,
+      documentVersion,
+    } satisfies ViolationDiagnosticData,
+  };
+
+  if (/^https?:\/\//.test(violation.source_doc)) {
+    diagnostic.codeDescription = { href: violation.source_doc };
+  }
+
+  // Error propagation path of violations reported at a caller
+  if (violation.related_locations) {
+    diagnostic.relatedInformation = violation.related_locations.map(location => {
+      const position = { line: location.line - 1, character: location.column - 1 };
+      return {
+        location: { uri: pathToFileURL(location.file).toString(), range: { start: position, end: position } },
+        message: location.message,
+      };
+    });
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Builds the quick fix that applies the violation's codemod
+ *
+ * The edit offsets refer to the analyzed text of the document, so edits for
+ * other files, and edits for a document that changed since it was analyzed,
+ * are not offered.
+ *
+ * @returns The code action, or null if the diagnostic has no fix for this document
+ */
+export function createFixCodeAction(document: TextDocument, diagnostic: Diagnostic): CodeAction | null {
+  const data = diagnostic.data as ViolationDiagnosticData | undefined;
+  if (diagnostic.source !== DIAGNOSTIC_SOURCE || !data?.fix) {
+    return null;
+  }
+
+  if (data.documentVersion !== undefined && data.documentVersion !== document.version) {
+    return null;
+  }
+
+  const documentPath = path.resolve(fileURLToPath(document.uri));
+  if (data.fix.edits.some(edit => path.resolve(edit.file) !== documentPath)) {
+    return null;
+  }
+
+  const edits: TextEdit[] = data.fix.edits.map(edit => ({
+    range: { start: document.positionAt(edit.start), end: document.positionAt(edit.end) },
+    newText: edit.replacement,
+  }));
+
+  return {
+    title: `${data.fix.description} (${data.package}/${data.postconditionId})`,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    isPreferred: true,
+    edit: { changes: { [document.uri]: edits } },
+  };
+}
+
+/**
+ * Builds the quick fix that suppresses a diagnostic with an inline comment
+ *
+ * The comment is inserted on its own line above the violation, with the same
+ * indentation, using generateSuppressionComment(). It ends at the colon: the
+ * user has to type the reason, and until then the comment is not a valid
+ * suppression.
+ *
+ * @returns The code action, or null if the diagnostic is not a contract violation
+ */
+export function createSuppressionCodeAction(document: TextDocument, diagnostic: Diagnostic): CodeAction | null {
+  const data = diagnostic.data as ViolationDiagnosticData | undefined;
+  if (diagnostic.source !== DIAGNOSTIC_SOURCE || !data?.package || !data.postconditionId) {
+    return null;
+  }
+
+  const line = diagnostic.range.start.line;
+  const lineText = document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } });
+  const indentation = lineText.match(/^\s*/)?.[0].replace(/[\r\n]/g, '') ?? '';
+  const comment = generateSuppressionComment(data.package, data.postconditionId, '').trimEnd();
+
+  return {
+    title: `Suppress ${data.package}/${data.postconditionId} on this line (add a reason)`,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: {
+      changes: {
+        [document.uri]: [{
+          range: { start: { line, character: 0 }, end: { line, character: 0 } },
+          newText: `${indentation}${comment}\n`,
+        }],
+      },
+    },
+  };
+}
+
+/**
+ * Starts the language server on stdin/stdout
+ *
+ * Runs until the client sends `exit`. Anything written to stdout would corrupt
+ * the protocol stream, so console.log is redirected to stderr.
+ */
+export function startLanguageServer(
+  contracts: Map<string, PackageContract>,
+  options: LanguageServerOptions
+): Connection {
+  console.log = console.error;
+
+  const connection = createConnection(ProposedFeatures.all, process.stdin, process.stdout);
+  const documents = new TextDocuments(TextDocument);
+  const projects = new Map<string, ProjectSession>();
+  const pendingAnalysis = new Map<string, NodeJS.Timeout>();
+  // Versions of files that are not open, bumped when they change on disk
+  const diskVersions = new Map<string, number>();
+
+  let canWatchFiles = false;
+
+  connection.onInitialize(params => {
+    canWatchFiles = params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration === true;
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+      },
+      serverInfo: { name: 'verify-cli' },
+    };
+  });
+
+  connection.onInitialized(() => {
+    if (canWatchFiles) {
+      void connection.client.register(DidChangeWatchedFilesNotification.type, {
+        watchers: [{ globPattern: `**/*{${TYPESCRIPT_EXTENSIONS.join(',')}}` }],
+      });
+    }
+  });
+
+  /**
+   * Reads a file from the open document if there is one, otherwise from disk
+   */
+  function readScript(fileName: string): string | undefined {
+    const document = documents.get(pathToFileURL(fileName).href);
+    return document ? document.getText() : ts.sys.readFile(fileName);
+  }
+
+  /**
+   * Gets or creates the project for a tsconfig
+   */
+  function getProject(tsconfigPath: string): ProjectSession {
+    let project = projects.get(tsconfigPath);
+    if (project) {
+      return project;
+    }
+
+    const parsedConfig = readProjectConfig(tsconfigPath);
+
+    const host: ts.LanguageServiceHost = {
+      getScriptFileNames: () => project!.fileNames,
+      getScriptVersion: fileName =>
+        String(documents.get(pathToFileURL(fileName).href)?.version ?? diskVersions.get(path.resolve(fileName)) ?? 0),
+      getScriptSnapshot: fileName => {
+        const text = readScript(fileName);
+        return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+      },
+      getCurrentDirectory: () => path.dirname(tsconfigPath),
+      getCompilationSettings: () => parsedConfig.options,
+      getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+      fileExists: ts.sys.fileExists,
+      readFile: fileName => readScript(fileName),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+    };
+
+    project = { service: ts.createLanguageService(host), analyzer: null, fileNames: parsedConfig.fileNames };
+    projects.set(tsconfigPath, project);
+    return project;
+  }
+
+  /**
+   * Parses a tsconfig, e.g. to get its root files
+   */
+  function readProjectConfig(tsconfigPath: string): ts.ParsedCommandLine {
+    const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    return ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(tsconfigPath));
+  }
+
+  /**
+   * Analyzes an open document and publishes its diagnostics
+   */
+  function analyzeDocument(document: TextDocument): void {
+    const fileName = fileURLToPath(document.uri);
+    const tsconfigPath = ts.findConfigFile(path.dirname(fileName), ts.sys.fileExists);
+    if (!tsconfigPath) {
+      connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+      return;
+    }
+
+    try {
+      const project = getProject(path.resolve(tsconfigPath));
+      const program = project.service.getProgram();
+      if (!program) return;
+
+      if (!project.analyzer) {
+        // Like the CLI, apply only the contracts that cover the versions the project has installed
+        const installed = readInstalledVersionsSync(path.dirname(tsconfigPath), contracts.keys());
+        installed.warnings.forEach(warning => connection.console.warn(warning));
+        const selection = selectContracts(contracts, installed.versions, options.contractVersions);
+
+        const config: AnalyzerConfig = {
+          tsconfigPath: path.resolve(tsconfigPath),
+          corpusPath: options.corpusPath,
+          includeTests: options.includeTests,
+          severityThreshold: options.minSeverity,
+          updateSuppressionManifest: false,
+        };
+        project.analyzer = new Analyzer(config, selection.contracts, program);
+      } else {
+        project.analyzer.updateProgram(program);
+      }
+
+      const lines = document.getText().split('\n');
+      const diagnostics = project.analyzer
+        .analyzeFiles([fileName.split(path.sep).join('/')])
+        .map(violation => violationToDiagnostic(violation, lines[violation.line - 1], document.version));
+
+      connection.sendDiagnostics({ uri: document.uri, version: document.version, diagnostics });
+    } catch (error) {
+      connection.console.error(
+        `Failed to analyze ${fileName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Schedules analysis so that bursts of keystrokes trigger a single run
+   */
+  function scheduleAnalysis(document: TextDocument): void {
+    if (!TYPESCRIPT_EXTENSIONS.includes(path.extname(document.uri))) return;
+
+    clearTimeout(pendingAnalysis.get(document.uri));
+    pendingAnalysis.set(document.uri, setTimeout(() => {
+      pendingAnalysis.delete(document.uri);
+      const current = documents.get(document.uri);
+      if (current) analyzeDocument(current);
+    }, ANALYSIS_DELAY_MS));
+  }
+
+  documents.onDidChangeContent(change => scheduleAnalysis(change.document));
+
+  connection.onDidChangeWatchedFiles(params => {
+    for (const change of params.changes) {
+      const fileName = path.resolve(fileURLToPath(change.uri));
+      diskVersions.set(fileName, (diskVersions.get(fileName) ?? 0) + 1);
+    }
+
+    // New and deleted files change the tsconfig's root files
+    if (params.changes.some(change => change.type !== FileChangeType.Changed)) {
+      for (const [tsconfigPath, project] of projects) {
+        project.fileNames = readProjectConfig(tsconfigPath).fileNames;
+      }
+    }
+
+    documents.all().forEach(scheduleAnalysis);
+  });
+
+  documents.onDidClose(event => {
+    clearTimeout(pendingAnalysis.get(event.document.uri));
+    pendingAnalysis.delete(event.document.uri);
+    connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+  });
+
+  connection.onCodeAction(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    return params.context.diagnostics
+      .flatMap(diagnostic => [
+        createFixCodeAction(document, diagnostic),
+        createSuppressionCodeAction(document, diagnostic),
+      ])
+      .filter((action): action is CodeAction => action !== null);
+  });
+
+  documents.listen(connection);
+  connection.listen();
+
+  return connection;
+}
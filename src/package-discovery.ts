@@ -9,12 +9,28 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as ts from 'typescript';
 import { DiscoveredPackage, PackageDiscoveryResult, PackageContract } from './types.js';
+import { createPathFilter } from './filters.js';
+import { readInstalledVersions, type InstalledVersion } from './installed-versions.js';
+import { chooseContract } from './contract-selection.js';
+
+/**
+ * Options for scoping package discovery
+ */
+export interface PackageDiscoveryOptions {
+  /** Glob patterns (relative to the tsconfig directory) of files to scan for imports */
+  includePaths?: string[];
+  /** Glob patterns (relative to the tsconfig directory) of files to skip */
+  excludePaths?: string[];
+  /** Every contract of each package, to report the one matching the installed version */
+  contractVersions?: Map<string, PackageContract[]>;
+}
 
 export class PackageDiscovery {
   private pathAliases: Set<string> = new Set();
 
   constructor(
-    private corpusContracts: Map<string, PackageContract>
+    private corpusContracts: Map<string, PackageContract>,
+    private options: PackageDiscoveryOptions = {}
   ) {}
 
   /**
@@ -30,10 +46,14 @@ export class PackageDiscovery {
     // Step 3: Merge and dedupe
     const allPackages = this.mergePackages(packageJsonDeps, importedPackages);
 
-    // Step 4: Check which have contracts
-    const packagesWithContracts = this.checkContracts(allPackages);
+    // Step 4: Resolve installed versions from the lockfile or node_modules
+    // Lockfile warnings are reported by verify(), which reads the same lockfile
+    const { versions: installedVersions } = await readInstalledVersions(projectRoot, allPackages.keys());
+
+    // Step 5: Check which have contracts, and whether they cover the installed version
+    const packagesWithContracts = this.checkContracts(allPackages, installedVersions);
 
-    // Step 5: Calculate statistics
+    // Step 6: Calculate statistics
     const withContracts = packagesWithContracts.filter(p => p.hasContract).length;
     const withoutContracts = packagesWithContracts.length - withContracts;
 
@@ -89,11 +109,17 @@ export class PackageDiscovery {
 
       // Create program
       const program = ts.createProgram(parsedConfig.fileNames, parsedConfig.options);
+      const isInScope = createPathFilter(
+        path.dirname(tsconfigPath),
+        this.options.includePaths,
+        this.options.excludePaths
+      );
 
       // Scan each source file
       for (const sourceFile of program.getSourceFiles()) {
         if (sourceFile.isDeclarationFile) continue;
         if (sourceFile.fileName.includes('node_modules')) continue;
+        if (!isInScope(sourceFile.fileName)) continue;
 
         this.extractImportsFromFile(sourceFile, imports);
       }
@@ -275,12 +301,16 @@ export class PackageDiscovery {
    * Check which packages have contracts in the corpus
    */
   private checkContracts(
-    packages: Map<string, { version: string; source: 'package.json' | 'import' | 'both'; usedIn: string[] }>
+    packages: Map<string, { version: string; source: 'package.json' | 'import' | 'both'; usedIn: string[] }>,
+    installedVersions: Map<string, InstalledVersion>
   ): DiscoveredPackage[] {
     const result: DiscoveredPackage[] = [];
 
     for (const [name, { version, source, usedIn }] of packages) {
-      const contract = this.corpusContracts.get(name);
+      const newest = this.corpusContracts.get(name);
+      const installed = installedVersions.get(name);
+      const chosen = newest && chooseContract(newest, this.options.contractVersions?.get(name), installed);
+      const contract = chosen?.contract;
 
       result.push({
         name,
@@ -288,6 +318,10 @@ export class PackageDiscovery {
         source,
         hasContract: contract !== undefined,
         contractVersion: contract?.contract_version,
+        installedVersion: installed?.version,
+        installedVersionSource: installed?.source,
+        contractSemver: contract?.semver,
+        contractMatch: chosen?.match,
         usedIn,
       });
     }
@@ -325,7 +359,10 @@ export class PackageDiscovery {
     if (discovery.withContracts > 0) {
       lines.push('✓ Packages with contracts:');
       for (const pkg of discovery.packages.filter(p => p.hasContract)) {
-        lines.push(`  ${pkg.name}@${pkg.version} (contract v${pkg.contractVersion})`);
+        const mismatch = pkg.contractMatch === 'mismatch'
+          ? ` - not applied, contract covers ${pkg.contractSemver}`
+          : '';
+        lines.push(`  ${pkg.name}@${pkg.installedVersion || pkg.version} (contract v${pkg.contractVersion})${mismatch}`);
       }
       lines.push('');
     }
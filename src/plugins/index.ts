@@ -0,0 +1,18 @@
+/**
+ * Detector Plugins
+ *
+ * Plugins add detection logic for packages with their own failure semantics
+ * (e.g., internal SDKs) without changing the analyzer. They are listed in the
+ * project config:
+ *
+ *   {
+ *     "plugins": ["@acme/verify-cli-detectors", "./tools/billing-detector.mjs"]
+ *   }
+ *
+ * and run on every analyzed file like the built-in passes.
+ */
+
+export { loadDetectorPlugins, isPluginPath } from './loader.js';
+export { runDetectorPlugin } from './runner.js';
+
+export type { DetectorContext, DetectorPlugin, PluginViolation } from './types.js';
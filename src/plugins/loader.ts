@@ -0,0 +1,79 @@
+/**
+ * Detector Plugin Loader
+ *
+ * Loads detector plugins listed in the project config or on the command line.
+ * Each entry is an npm package name or a path to a module; the module's
+ * default export is a plugin or an array of plugins.
+ */
+
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { DetectorPlugin } from './types.js';
+
+/**
+ * Checks if a plugin entry is a path rather than an npm package name
+ */
+export function isPluginPath(specifier: string): boolean {
+  return specifier.startsWith('.') || path.isAbsolute(specifier);
+}
+
+/**
+ * Loads detector plugins
+ *
+ * @param specifiers - npm package names or paths to modules
+ * @param baseDir - Directory that relative paths and package names are resolved from
+ * @returns The plugins, in the order they were listed
+ * @throws Error if a plugin cannot be resolved, does not export a plugin, or reuses a name
+ */
+export async function loadDetectorPlugins(specifiers: string[], baseDir: string): Promise<DetectorPlugin[]> {
+  const plugins: DetectorPlugin[] = [];
+  const names = new Set<string>();
+
+  for (const specifier of specifiers) {
+    for (const plugin of await loadPluginModule(specifier, baseDir)) {
+      if (names.has(plugin.name)) {
+        throw new Error(`Failed to load plugin ${specifier}: another plugin is already named "${plugin.name}"`);
+      }
+      names.add(plugin.name);
+      plugins.push(plugin);
+    }
+  }
+
+  return plugins;
+}
+
+/**
+ * Imports one plugin module and returns the plugins it exports
+ */
+async function loadPluginModule(specifier: string, baseDir: string): Promise<DetectorPlugin[]> {
+  let exported: unknown;
+  try {
+    const resolved = isPluginPath(specifier)
+      ? path.resolve(baseDir, specifier)
+      : createRequire(path.join(baseDir, 'package.json')).resolve(specifier);
+    const module = await import(pathToFileURL(resolved).href);
+    exported = module.default ?? module;
+  } catch (error) {
+    throw new Error(`Failed to load plugin ${specifier}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const candidates = Array.isArray(exported) ? exported : [exported];
+  if (candidates.length === 0 || !candidates.every(isDetectorPlugin)) {
+    throw new Error(
+      `Failed to load plugin ${specifier}: the default export must be a plugin with a "name" and a "detect" function, or an array of them`
+    );
+  }
+
+  return candidates;
+}
+
+/**
+ * Checks if a value has the shape of a detector plugin
+ */
+function isDetectorPlugin(value: unknown): value is DetectorPlugin {
+  const candidate = value as DetectorPlugin | null;
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.name === 'string' && candidate.name.length > 0 &&
+    typeof candidate.detect === 'function';
+}
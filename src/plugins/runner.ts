@@ -0,0 +1,34 @@
+/**
+ * Detector Plugin Runner
+ *
+ * Runs a plugin on one file and namespaces its violations: the violation ID
+ * is prefixed with the plugin name ("acme-sdk/token-expired") and `plugin`
+ * records where the violation came from.
+ */
+
+import type { Violation } from '../types.js';
+import type { DetectorContext, DetectorPlugin } from './types.js';
+
+/**
+ * Runs a detector plugin on the file of a context
+ *
+ * @returns The plugin's violations, namespaced
+ * @throws Error if the plugin throws
+ */
+export function runDetectorPlugin(plugin: DetectorPlugin, context: DetectorContext): Violation[] {
+  let violations;
+  try {
+    violations = plugin.detect(context);
+  } catch (error) {
+    throw new Error(
+      `Failed to run plugin ${plugin.name} on ${context.sourceFile.fileName}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return (violations || []).map(violation => ({
+    ...violation,
+    id: `${plugin.name}/${violation.id}`,
+    file: violation.file ?? context.sourceFile.fileName,
+    plugin: plugin.name,
+  }));
+}
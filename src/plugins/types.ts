@@ -0,0 +1,63 @@
+/**
+ * Types shared by detector plugins
+ */
+
+import * as ts from 'typescript';
+import type { PackageContract, Violation } from '../types.js';
+
+/**
+ * What a detector plugin gets for each analyzed file
+ */
+export interface DetectorContext {
+  /** File being analyzed */
+  sourceFile: ts.SourceFile;
+
+  /** Program the file belongs to */
+  program: ts.Program;
+
+  /** Type checker of the program */
+  typeChecker: ts.TypeChecker;
+
+  /** Loaded package contracts, by package name */
+  contracts: ReadonlyMap<string, PackageContract>;
+
+  /** Package instances used in the file, by variable name (e.g., "api" -> "axios") */
+  instances: ReadonlyMap<string, string>;
+
+  /** Packages the file imports, including those of shared instances it uses */
+  imports: ReadonlySet<string>;
+
+  /** Project root directory (the tsconfig directory) */
+  projectRoot: string;
+}
+
+/**
+ * A violation found by a plugin
+ *
+ * `file` defaults to the analyzed file. The analyzer prefixes `id` with the
+ * plugin name and sets `plugin`.
+ */
+export type PluginViolation = Omit<Violation, 'file' | 'plugin' | 'fingerprint' | 'enclosing_symbol'> & {
+  file?: string;
+};
+
+/**
+ * Detection logic for packages the built-in passes do not cover
+ *
+ * Plugins run on every analyzed file after the built-in passes. Their
+ * violations are filtered, suppressed and reported like the built-in ones.
+ */
+export interface DetectorPlugin {
+  /** Unique name; namespaces the plugin's violations (e.g., "acme-sdk") */
+  name: string;
+
+  /** Plugin version, recorded in the audit record */
+  version?: string;
+
+  /**
+   * Finds violations in one file
+   *
+   * @returns Violations (empty if the file is fine)
+   */
+  detect(context: DetectorContext): PluginViolation[];
+}
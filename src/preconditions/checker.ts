@@ -0,0 +1,126 @@
+/**
+ * Precondition Checker
+ *
+ * Verifies the argument and options-object constraints that contracts declare
+ * for their preconditions. Only values that are known statically are judged:
+ * a precondition holds unless the call definitely breaks it.
+ */
+
+import * as ts from 'typescript';
+import type { PreconditionCheck, PreconditionTarget } from '../types.js';
+import type { CheckFinding } from '../checks/types.js';
+import { getLiteralValue, getPossibleValues, resolveTargetValue } from './values.js';
+
+const PRECONDITION_CHECK_KINDS = ['required', 'from-env', 'allowed-values', 'range'];
+
+/**
+ * Verifies a precondition check at a call site
+ *
+ * @param check - Check declared by the precondition
+ * @param call - The contract call
+ * @param typeChecker - Type checker of the call's program
+ * @returns What the call gets wrong, or null if the precondition holds (or cannot be decided)
+ */
+export function checkPrecondition(
+  check: PreconditionCheck,
+  call: ts.CallExpression,
+  typeChecker: ts.TypeChecker
+): CheckFinding | null {
+  const resolved = resolveTargetValue(call, check, typeChecker);
+  const target = describeTarget(check);
+
+  if (check.kind === 'required') {
+    return resolved.kind === 'missing' ? { description: `${target} is not set` } : null;
+  }
+
+  if (resolved.kind !== 'value') {
+    return null;
+  }
+
+  const values = getPossibleValues(resolved.expression, typeChecker);
+
+  switch (check.kind) {
+    case 'from-env': {
+      const literal = values.find(value => isHardcoded(value));
+      return literal ? { description: `${target} is hardcoded as ${literal.getText()}` } : null;
+    }
+
+    case 'allowed-values': {
+      const value = values.map(getLiteralValue).find(value => value !== undefined && !check.values.includes(value));
+      return value !== undefined
+        ? { description: `${target} is ${JSON.stringify(value)}, expected one of ${check.values.map(v => JSON.stringify(v)).join(', ')}` }
+        : null;
+    }
+
+    case 'range': {
+      const value = values.map(getLiteralValue).find(value =>
+        typeof value === 'number' &&
+        ((check.min !== undefined && value < check.min) || (check.max !== undefined && value > check.max))
+      );
+      return value !== undefined
+        ? { description: `${target} is ${value}, expected ${describeRange(check.min, check.max)}` }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates the parameters a contract gives a precondition check
+ *
+ * @returns An error message, or null if the check is valid
+ */
+export function validatePreconditionCheck(check: PreconditionCheck): string | null {
+  if (!PRECONDITION_CHECK_KINDS.includes(check.kind)) {
+    return `has unknown kind "${check.kind}"`;
+  }
+
+  if (check.argument !== undefined && (!Number.isInteger(check.argument) || check.argument < 0)) {
+    return 'argument must be a non-negative integer';
+  }
+
+  if (check.property !== undefined && (typeof check.property !== 'string' || check.property.split('.').some(part => !part))) {
+    return 'property must be a property name or dotted path (e.g., "auth.apiKey")';
+  }
+
+  if (check.kind === 'allowed-values' && (!Array.isArray(check.values) || check.values.length === 0)) {
+    return 'values must be a non-empty array';
+  }
+
+  if (check.kind === 'range') {
+    if (check.min === undefined && check.max === undefined) {
+      return 'needs min, max or both';
+    }
+    if (check.min !== undefined && check.max !== undefined && check.min > check.max) {
+      return 'min must not be greater than max';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describes what a check constrains, e.g. `Option "timeout"` or `Argument 2`
+ */
+function describeTarget(target: PreconditionTarget): string {
+  return target.property
+    ? `Option "${target.property}"`
+    : `Argument ${(target.argument ?? 0) + 1}`;
+}
+
+function describeRange(min: number | undefined, max: number | undefined): string {
+  if (min !== undefined && max !== undefined) return `between ${min} and ${max}`;
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+/**
+ * Checks if a value is written in the code rather than read at runtime
+ */
+function isHardcoded(expression: ts.Expression): boolean {
+  return ts.isStringLiteral(expression) ||
+    ts.isNoSubstitutionTemplateLiteral(expression) ||
+    ts.isNumericLiteral(expression) ||
+    (ts.isTemplateExpression(expression) && expression.templateSpans.every(span => isHardcoded(span.expression)));
+}
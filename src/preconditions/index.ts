@@ -0,0 +1,17 @@
+/**
+ * Precondition Checks
+ *
+ * Contracts make a precondition verifiable with a `check` that constrains an
+ * argument of the call, or a property of an options-object argument:
+ *
+ *   preconditions:
+ *     - id: timeout-not-configured
+ *       check:
+ *         kind: required
+ *         property: timeout
+ *
+ * Values are followed through const bindings and spread config objects.
+ */
+
+export { checkPrecondition, validatePreconditionCheck } from './checker.js';
+export { resolveTargetValue, getPossibleValues, getLiteralValue, type ResolvedValue } from './values.js';
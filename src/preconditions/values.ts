@@ -0,0 +1,256 @@
+/**
+ * Argument Value Resolution
+ *
+ * Finds the expression a precondition constrains at a call site. Values are
+ * followed through const bindings and spread config objects:
+ *
+ *   const defaults = { timeout: 5000 };
+ *   const config = { ...defaults, baseURL };
+ *   axios.create(config);          // option "timeout" resolves to 5000
+ *
+ * Anything that cannot be followed statically (parameters, function results,
+ * mutable variables, computed keys) is unknown, and checks do not report it.
+ */
+
+import * as ts from 'typescript';
+import type { PreconditionTarget } from '../types.js';
+
+/** Const aliases and nested spreads are not followed any further */
+const MAX_RESOLVE_DEPTH = 8;
+
+/**
+ * The value of a precondition target at a call site
+ *
+ * - missing: the argument or property is definitely not given
+ * - unknown: it cannot be determined statically
+ * - value: the expression it resolves to
+ */
+export type ResolvedValue =
+  | { kind: 'missing' }
+  | { kind: 'unknown' }
+  | { kind: 'value'; expression: ts.Expression };
+
+const MISSING: ResolvedValue = { kind: 'missing' };
+const UNKNOWN: ResolvedValue = { kind: 'unknown' };
+
+/**
+ * Resolves the argument or property a precondition constrains
+ *
+ * @param call - The contract call
+ * @param target - Argument position and property path
+ * @param typeChecker - Type checker of the call's program
+ */
+export function resolveTargetValue(
+  call: ts.CallExpression,
+  target: PreconditionTarget,
+  typeChecker: ts.TypeChecker
+): ResolvedValue {
+  const index = target.argument ?? 0;
+
+  // Spread arguments shift the positions after them
+  const spread = call.arguments.findIndex(arg => ts.isSpreadElement(arg));
+  if (spread !== -1 && spread <= index) {
+    return UNKNOWN;
+  }
+
+  const argument = call.arguments[index];
+  if (!argument) {
+    return MISSING;
+  }
+
+  const value = resolveExpression(argument, typeChecker, 0);
+  if (!target.property) {
+    return isUndefined(value) ? MISSING : { kind: 'value', expression: value };
+  }
+
+  return resolveProperty(value, target.property.split('.'), typeChecker, 0);
+}
+
+/**
+ * Gets the values an expression can evaluate to
+ *
+ * Both sides of `??`, `||` and conditional expressions are possible values
+ * (`process.env.KEY || 'sk_test_123'` can be the literal).
+ */
+export function getPossibleValues(expression: ts.Expression, typeChecker: ts.TypeChecker): ts.Expression[] {
+  const value = resolveExpression(expression, typeChecker, 0);
+
+  if (ts.isBinaryExpression(value) && isFallbackOperator(value.operatorToken.kind)) {
+    return [
+      ...getPossibleValues(value.left, typeChecker),
+      ...getPossibleValues(value.right, typeChecker),
+    ];
+  }
+
+  if (ts.isConditionalExpression(value)) {
+    return [
+      ...getPossibleValues(value.whenTrue, typeChecker),
+      ...getPossibleValues(value.whenFalse, typeChecker),
+    ];
+  }
+
+  return [value];
+}
+
+/**
+ * Gets the value of a literal expression
+ *
+ * @returns The string, number or boolean, or undefined if the expression is not a literal
+ */
+export function getLiteralValue(expression: ts.Expression): string | number | boolean | undefined {
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return expression.text;
+  }
+  if (ts.isNumericLiteral(expression)) {
+    return Number(expression.text);
+  }
+  if (ts.isPrefixUnaryExpression(expression) && expression.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(expression.operand)) {
+    return -Number(expression.operand.text);
+  }
+  if (expression.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+  if (expression.kind === ts.SyntaxKind.FalseKeyword) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Follows const bindings and strips wrappers that do not change the value
+ */
+function resolveExpression(expression: ts.Expression, typeChecker: ts.TypeChecker, depth: number): ts.Expression {
+  const unwrapped = skipWrappers(expression);
+  if (!ts.isIdentifier(unwrapped) || depth >= MAX_RESOLVE_DEPTH) {
+    return unwrapped;
+  }
+
+  const initializer = getConstInitializer(unwrapped, typeChecker);
+  return initializer ? resolveExpression(initializer, typeChecker, depth + 1) : unwrapped;
+}
+
+/**
+ * Looks up a property path in an object expression
+ *
+ * Later properties override earlier ones, including those from spreads, as
+ * they do at runtime.
+ */
+function resolveProperty(
+  object: ts.Expression,
+  propertyPath: string[],
+  typeChecker: ts.TypeChecker,
+  depth: number
+): ResolvedValue {
+  const resolved = resolveExpression(object, typeChecker, depth);
+  if (isUndefined(resolved)) {
+    return MISSING;
+  }
+  if (!ts.isObjectLiteralExpression(resolved) || depth >= MAX_RESOLVE_DEPTH) {
+    return UNKNOWN;
+  }
+
+  const [name, ...rest] = propertyPath;
+  const properties = [...resolved.properties].reverse();
+
+  for (const property of properties) {
+    if (ts.isSpreadAssignment(property)) {
+      const fromSpread = resolveProperty(property.expression, propertyPath, typeChecker, depth + 1);
+      if (fromSpread.kind !== 'missing') {
+        return fromSpread;
+      }
+      continue;
+    }
+
+    const propertyName = getPropertyName(property.name);
+    if (propertyName === undefined) {
+      // A computed key could be any property
+      return UNKNOWN;
+    }
+    if (propertyName !== name) {
+      continue;
+    }
+
+    let value: ts.Expression;
+    if (ts.isPropertyAssignment(property)) {
+      value = property.initializer;
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      value = property.name;
+    } else {
+      // Methods and accessors
+      return rest.length > 0 ? UNKNOWN : { kind: 'value', expression: resolved };
+    }
+
+    if (rest.length > 0) {
+      return resolveProperty(value, rest, typeChecker, depth + 1);
+    }
+
+    const final = resolveExpression(value, typeChecker, depth + 1);
+    return isUndefined(final) ? MISSING : { kind: 'value', expression: final };
+  }
+
+  return MISSING;
+}
+
+/**
+ * Gets the initializer of the const variable an identifier refers to
+ */
+function getConstInitializer(identifier: ts.Identifier, typeChecker: ts.TypeChecker): ts.Expression | undefined {
+  // The name of a shorthand property ({ auth }) refers to the property, not the variable
+  let symbol = ts.isShorthandPropertyAssignment(identifier.parent) && identifier.parent.name === identifier
+    ? typeChecker.getShorthandAssignmentValueSymbol(identifier.parent)
+    : typeChecker.getSymbolAtLocation(identifier);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = typeChecker.getAliasedSymbol(symbol);
+  }
+
+  const declaration = symbol?.valueDeclaration;
+  if (!declaration || !ts.isVariableDeclaration(declaration) || !ts.isIdentifier(declaration.name)) {
+    return undefined;
+  }
+
+  // let and var bindings can be reassigned before the call
+  if (!(ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const)) {
+    return undefined;
+  }
+
+  return declaration.initializer;
+}
+
+/**
+ * Gets the static name of a property
+ *
+ * @returns The name, or undefined for computed keys that are not literals
+ */
+function getPropertyName(name: ts.PropertyName | undefined): string | undefined {
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) {
+    return name.expression.text;
+  }
+  return undefined;
+}
+
+function skipWrappers(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function isUndefined(expression: ts.Expression): boolean {
+  return (ts.isIdentifier(expression) && expression.text === 'undefined') || ts.isVoidExpression(expression);
+}
+
+function isFallbackOperator(kind: ts.SyntaxKind): boolean {
+  return kind === ts.SyntaxKind.QuestionQuestionToken || kind === ts.SyntaxKind.BarBarToken;
+}
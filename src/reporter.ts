@@ -7,8 +7,11 @@ import * as path from 'path';
 import { execSync } from 'child_process';
 import chalk from 'chalk';
 import { fileURLToPath } from 'url';
-import type { AuditRecord, Violation, VerificationSummary, EnhancedAuditRecord, PackageDiscoveryResult } from './types.js';
+import type { AuditRecord, Violation, VerificationSummary, EnhancedAuditRecord, PackageDiscoveryResult, BaselineSummary, Severity, WorkspaceBreakdown } from './types.js';
 import { extractCodeSnippet, formatSnippetForJSON, formatSnippetForTerminal } from './code-snippet.js';
+import { computeViolationFingerprint } from './fingerprint.js';
+import type { DetectorPlugin } from './plugins/types.js';
+import { groupEdgeCases } from './reporters/edge-cases.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -27,7 +30,8 @@ function getToolVersion(): string {
   }
 }
 
-const TOOL_VERSION = getToolVersion();
+/** Version of verify-cli from its package.json */
+export const TOOL_VERSION = getToolVersion();
 
 /**
  * Enriches violations with code snippets
@@ -64,11 +68,24 @@ export async function generateAuditRecord(
     contractsApplied: number;
     filesAnalyzed: number;
     corpusVersion: string;
+    /** Project root used to compute line-independent fingerprints */
+    projectRoot?: string;
+    /** Severity threshold the violations were filtered with */
+    minSeverity?: Severity;
+    /** Detector plugins that ran */
+    plugins?: DetectorPlugin[];
   }
 ): Promise<AuditRecord> {
   // Enrich violations with code snippets
   const enrichedViolations = await enrichViolationsWithSnippets(violations);
 
+  // Fingerprint violations (needs the snippet, so must run after enrichment)
+  if (config.projectRoot) {
+    for (const violation of enrichedViolations) {
+      violation.fingerprint = computeViolationFingerprint(violation, config.projectRoot);
+    }
+  }
+
   const summary = generateSummary(enrichedViolations);
 
   const record: AuditRecord = {
@@ -82,17 +99,22 @@ export async function generateAuditRecord(
     packages_analyzed: config.packagesAnalyzed,
     contracts_applied: config.contractsApplied,
     files_analyzed: config.filesAnalyzed,
+    min_severity: config.minSeverity,
     violations: enrichedViolations,
     summary,
   };
 
+  if (config.plugins && config.plugins.length > 0) {
+    record.plugins = config.plugins.map(({ name, version }) => ({ name, version }));
+  }
+
   return record;
 }
 
 /**
  * Generates summary statistics
  */
-function generateSummary(violations: Violation[]): VerificationSummary {
+export function generateSummary(violations: Violation[]): VerificationSummary {
   const errorCount = violations.filter(v => v.severity === 'error').length;
   const warningCount = violations.filter(v => v.severity === 'warning').length;
   const infoCount = violations.filter(v => v.severity === 'info').length;
@@ -148,6 +170,9 @@ export function printTerminalReport(record: AuditRecord): void {
   console.log(`  Files analyzed: ${record.files_analyzed}`);
   console.log(`  Packages: ${record.packages_analyzed.join(', ')}`);
   console.log(`  Contracts applied: ${record.contracts_applied}`);
+  if (record.min_severity) {
+    console.log(`  Minimum severity: ${record.min_severity}`);
+  }
   console.log(`  Timestamp: ${record.timestamp}`);
 
   if (record.git_commit) {
@@ -214,6 +239,11 @@ function printViolation(violation: Violation): void {
   console.log(`    Package: ${violation.package}.${violation.function}()`);
   console.log(`    Contract: ${violation.contract_clause}`);
 
+  // Show where the errors of a violation reported at a caller came from
+  for (const related of violation.related_locations || []) {
+    console.log(chalk.dim(`    ↳ ${path.relative(process.cwd(), related.file)}:${related.line}:${related.column} ${related.message}`));
+  }
+
   // Show code snippet if available
   if (violation.code_snippet) {
     console.log('');
@@ -346,7 +376,10 @@ export function printPackageDiscoveryReport(discovery: PackageDiscoveryResult):
   if (discovery.withContracts > 0) {
     console.log(`\n  ${chalk.green('✓')} Packages with contracts:`);
     for (const pkg of discovery.packages.filter(p => p.hasContract)) {
-      console.log(`    ${pkg.name}@${pkg.version} ${chalk.dim(`(contract v${pkg.contractVersion})`)}`);
+      const mismatch = pkg.contractMatch === 'mismatch'
+        ? chalk.yellow(` not applied, contract covers ${pkg.contractSemver}`)
+        : '';
+      console.log(`    ${pkg.name}@${pkg.installedVersion || pkg.version} ${chalk.dim(`(contract v${pkg.contractVersion})`)}${mismatch}`);
     }
   }
 
@@ -379,6 +412,9 @@ export function printEnhancedTerminalReport(record: EnhancedAuditRecord): void {
   console.log(`\n${chalk.bold('Summary:')}`);
   console.log(`  Files analyzed: ${record.files_analyzed}`);
   console.log(`  Contracts applied: ${record.contracts_applied}`);
+  if (record.min_severity) {
+    console.log(`  Minimum severity: ${record.min_severity}`);
+  }
   console.log(`  Timestamp: ${record.timestamp}`);
 
   if (record.git_commit) {
@@ -431,3 +467,111 @@ export function printEnhancedTerminalReport(record: EnhancedAuditRecord): void {
   const statusText = record.summary.passed ? chalk.green('PASSED') : chalk.red('FAILED');
   console.log(`\n${statusIcon} ${statusText}\n`);
 }
+
+/**
+ * Prints the baseline comparison (new vs. fixed violations)
+ */
+export function printBaselineReport(baseline: BaselineSummary): void {
+  console.log('\n' + chalk.bold('Baseline Comparison'));
+  console.log(chalk.gray('─'.repeat(80)));
+  console.log(`\n  Baseline: ${baseline.path}`);
+  console.log(`  New violations: ${baseline.new_count > 0 ? chalk.red(baseline.new_count) : chalk.green(baseline.new_count)}`);
+  console.log(`  Existing (baselined) violations: ${chalk.dim(baseline.existing_count)}`);
+  console.log(`  Fixed since baseline: ${chalk.green(baseline.fixed_count)}`);
+
+  if (baseline.fixed.length > 0) {
+    console.log(`\n  ${chalk.green('✓')} Fixed violations:`);
+    for (const violation of baseline.fixed) {
+      const relPath = path.relative(process.cwd(), violation.file);
+      console.log(`    ${chalk.green(`${relPath}:${violation.line}`)} ${violation.package}/${violation.contract_clause}`);
+    }
+    console.log(chalk.dim('\n  Run with --update-baseline to record these fixes in the baseline.'));
+  }
+
+  console.log('');
+}
+
+/**
+ * Prints the contract edge cases of the called functions (--edge-cases)
+ */
+export function printEdgeCaseReport(edgeCases: Violation[]): void {
+  const groups = groupEdgeCases(edgeCases);
+
+  console.log('\n' + chalk.bold('Things to Know'));
+  console.log(chalk.gray('─'.repeat(80)));
+  console.log(chalk.dim('  Surprising behavior of the package functions this project calls. Not counted as violations.'));
+
+  for (const group of groups) {
+    const locations = group.locations
+      .map(location => `${path.relative(process.cwd(), location.file)}:${location.line}`);
+    const shown = locations.slice(0, 3).join(', ');
+    const more = locations.length > 3 ? ` and ${locations.length - 3} more` : '';
+
+    console.log(`\n  ${chalk.blue('ℹ')} ${chalk.bold(`${group.package}.${group.function}()`)} ${chalk.dim(group.id)}`);
+    console.log(`    ${group.description}`);
+    console.log(`    ${chalk.dim('Called in:')} ${shown}${more}`);
+    console.log(`    ${chalk.dim('Docs:')} ${group.source_doc}`);
+  }
+
+  console.log('');
+}
+
+/**
+ * Prints the per-workspace results of a monorepo run
+ */
+export function printWorkspaceReport(workspaces: WorkspaceBreakdown[]): void {
+  console.log('\n' + chalk.bold('Workspaces'));
+  console.log(chalk.gray('─'.repeat(80)));
+  console.log('');
+
+  for (const workspace of workspaces) {
+    const statusIcon = workspace.passed ? chalk.green('✓') : chalk.red('✗');
+    const counts =
+      `${chalk.red(`${workspace.summary.error_count} errors`)}, ` +
+      `${chalk.yellow(`${workspace.summary.warning_count} warnings`)}, ` +
+      `${chalk.blue(`${workspace.summary.info_count} info`)}`;
+    console.log(`  ${statusIcon} ${chalk.bold(workspace.name)} ${chalk.dim(`(${workspace.path})`)}`);
+    console.log(`      ${counts} | Files: ${workspace.files_analyzed} | Health: ${workspace.health_score}/100`);
+  }
+
+  const failed = workspaces.filter(w => !w.passed).length;
+  console.log(`\n  ${workspaces.length - failed} of ${workspaces.length} workspaces passed\n`);
+}
+
+/**
+ * Prints the violations that appeared or disappeared since the previous watch run
+ */
+export function printWatchReport(
+  changes: { newViolations: Violation[]; fixedViolations: Violation[] },
+  summary: VerificationSummary,
+  filesReanalyzed: number
+): void {
+  const time = new Date().toLocaleTimeString();
+  console.log('\n' + chalk.bold(`[${time}] Re-analyzed ${filesReanalyzed} file${filesReanalyzed === 1 ? '' : 's'}`));
+  console.log(chalk.gray('─'.repeat(80)));
+
+  if (changes.newViolations.length === 0 && changes.fixedViolations.length === 0) {
+    console.log(chalk.dim('\n  No change in violations'));
+  }
+
+  if (changes.newViolations.length > 0) {
+    console.log(`\n${chalk.red.bold(`New violations (${changes.newViolations.length}):`)}`);
+    changes.newViolations.forEach(v => printViolation(v));
+  }
+
+  if (changes.fixedViolations.length > 0) {
+    console.log(`\n${chalk.green.bold(`Fixed violations (${changes.fixedViolations.length}):`)}`);
+    for (const violation of changes.fixedViolations) {
+      const relPath = path.relative(process.cwd(), violation.file);
+      console.log(`  ${chalk.green('✓')} ${chalk.green(`${relPath}:${violation.line}`)} ${violation.package}/${violation.contract_clause}`);
+    }
+  }
+
+  console.log(
+    `\n  Total: ${summary.total_violations} ` +
+    `(${chalk.red(`${summary.error_count} errors`)}, ` +
+    `${chalk.yellow(`${summary.warning_count} warnings`)}, ` +
+    `${chalk.blue(`${summary.info_count} info`)})`
+  );
+  console.log(chalk.dim('\nWatching for file changes...\n'));
+}
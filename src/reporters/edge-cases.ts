@@ -0,0 +1,50 @@
+/**
+ * Edge Case Grouping
+ *
+ * Groups the edge case findings of a run (--edge-cases) for the "things to
+ * know" sections of the reports: each edge case is shown once, with the files
+ * that call its function.
+ */
+
+import type { Violation } from '../types.js';
+
+export interface EdgeCaseGroup {
+  package: string;
+  function: string;
+  /** Edge case ID from the contract */
+  id: string;
+  description: string;
+  source_doc: string;
+  /** First call of the function in each file */
+  locations: Array<{ file: string; line: number; column: number }>;
+}
+
+/**
+ * Groups edge case findings by package, function and edge case
+ *
+ * @returns Groups sorted by package and function
+ */
+export function groupEdgeCases(edgeCases: Violation[]): EdgeCaseGroup[] {
+  const groups = new Map<string, EdgeCaseGroup>();
+
+  for (const finding of edgeCases) {
+    const key = `${finding.package}:${finding.function}:${finding.contract_clause}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        package: finding.package,
+        function: finding.function,
+        id: finding.contract_clause,
+        description: finding.description,
+        source_doc: finding.source_doc,
+        locations: [],
+      };
+      groups.set(key, group);
+    }
+    group.locations.push({ file: finding.file, line: finding.line, column: finding.column });
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.package.localeCompare(b.package) || a.function.localeCompare(b.function)
+  );
+}
@@ -47,7 +47,7 @@ export function calculateHealthScore(
 
   // Package coverage: What % of packages have contracts?
   const enhanced = audit as EnhancedAuditRecord;
-  const packageCoverage = enhanced.package_discovery
+  const packageCoverage = enhanced.package_discovery && enhanced.package_discovery.total > 0
     ? (enhanced.package_discovery.withContracts / enhanced.package_discovery.total) * 100
     : 0;
 
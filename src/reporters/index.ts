@@ -40,8 +40,23 @@ export {
   type PositiveEvidenceReport,
 } from './positive-evidence.js';
 
+export {
+  groupEdgeCases,
+  type EdgeCaseGroup,
+} from './edge-cases.js';
+
 export {
   generateD3Dashboard,
   writeD3Visualization,
   type D3VisualizationData,
 } from './d3-visualizer.js';
+
+export {
+  generateSarifLog,
+  writeSarifLog,
+  severityToSarifLevel,
+  getSarifRuleId,
+  SARIF_FINGERPRINT_KEY,
+  type SarifLog,
+  type SarifOptions,
+} from './sarif.js';
@@ -5,6 +5,7 @@
  * Focus: "Here's what we checked and validated" vs "Here's what broke"
  */
 
+import { relative } from 'path';
 import type { AuditRecord, EnhancedAuditRecord } from '../types.js';
 import { calculateHealthScore, type HealthMetrics } from './health-score.js';
 import {
@@ -20,6 +21,7 @@ import {
   type BenchmarkData,
   type ComparisonMetrics,
 } from './benchmarking.js';
+import { groupEdgeCases } from './edge-cases.js';
 
 export interface PositiveEvidenceReportOptions {
   showHealthScore: boolean;
@@ -507,6 +509,21 @@ function formatPositiveEvidenceReportMarkdown(
     lines.push('');
   }
 
+  // Things to Know Section (edge cases, with --edge-cases)
+  if (audit.edge_cases && audit.edge_cases.length > 0) {
+    lines.push('## 📚 Things to Know');
+    lines.push('');
+    lines.push('Surprising behavior of the package functions this project calls. These are not violations and do not affect the health score.');
+    lines.push('');
+
+    groupEdgeCases(audit.edge_cases).forEach(group => {
+      const files = group.locations.map(location => `\`${relative(process.cwd(), location.file)}:${location.line}\``);
+      lines.push(`- **\`${group.package}.${group.function}()\`** – ${group.description} ([docs](${group.source_doc}))`);
+      lines.push(`  - Called in: ${files.join(', ')}`);
+    });
+    lines.push('');
+  }
+
   // Recommendations Section
   if (options.showRecommendations && recommendations.length > 0) {
     lines.push('## 🎯 Recommendations');
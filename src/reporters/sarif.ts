@@ -0,0 +1,332 @@
+/**
+ * SARIF Reporter
+ *
+ * Converts audit records into SARIF 2.1.0 logs so that results can be
+ * uploaded to code-scanning dashboards (GitHub, Azure DevOps, etc.).
+ */
+
+import * as path from 'path';
+import type { AuditRecord, CodeFix, Severity, Violation } from '../types.js';
+import { computeViolationFingerprint, FINGERPRINT_VERSION } from '../fingerprint.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+const TOOL_INFORMATION_URI = 'https://github.com/behavioral-contracts/verify-cli';
+const SRCROOT = '%SRCROOT%';
+
+/** Key used for our fingerprints in `partialFingerprints` */
+export const SARIF_FINGERPRINT_KEY = `behavioralContractFingerprint/${FINGERPRINT_VERSION}`;
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  snippet?: { text: string };
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: { uri: string; uriBaseId?: string };
+  region?: SarifRegion;
+  contextRegion?: SarifRegion;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  helpUri?: string;
+  help?: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { package: string; contract_clause: string; tags: string[] };
+}
+
+export interface SarifReplacement {
+  deletedRegion: { charOffset: number; charLength: number };
+  insertedContent: { text: string };
+}
+
+export interface SarifArtifactChange {
+  artifactLocation: { uri: string; uriBaseId?: string };
+  replacements: SarifReplacement[];
+}
+
+export interface SarifFix {
+  description: SarifMessage;
+  artifactChanges: SarifArtifactChange[];
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: Array<{ physicalLocation: SarifPhysicalLocation }>;
+  relatedLocations?: Array<{ id: number; physicalLocation: SarifPhysicalLocation; message: SarifMessage }>;
+  partialFingerprints: Record<string, string>;
+  fixes?: SarifFix[];
+  properties: { package: string; function: string; contract_clause: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string; branch?: string }>;
+    results: SarifResult[];
+    properties: { corpus_version: string; contracts_applied: number; files_analyzed: number };
+  }>;
+}
+
+export interface SarifOptions {
+  /** Directory that artifact URIs are made relative to (usually the project root) */
+  projectRoot: string;
+}
+
+/**
+ * Maps a violation severity to a SARIF result level
+ */
+export function severityToSarifLevel(severity: Severity): SarifLevel {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    case 'info':
+      return 'note';
+    default:
+      return 'none';
+  }
+}
+
+/**
+ * Builds the SARIF rule ID for a violation (package/contract_clause)
+ */
+export function getSarifRuleId(violation: Violation): string {
+  return `${violation.package}/${violation.contract_clause}`;
+}
+
+/**
+ * Generates a SARIF 2.1.0 log from an audit record
+ */
+export function generateSarifLog(record: AuditRecord, options: SarifOptions): SarifLog {
+  const projectRoot = path.resolve(options.projectRoot);
+  const rules: SarifRule[] = [];
+  const ruleIndexById = new Map<string, number>();
+
+  const results: SarifResult[] = record.violations.map(violation => {
+    const ruleId = getSarifRuleId(violation);
+
+    let ruleIndex = ruleIndexById.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexById.set(ruleId, ruleIndex);
+      rules.push(buildRule(violation, ruleId));
+    }
+
+    return buildResult(violation, ruleId, ruleIndex, projectRoot);
+  });
+
+  const run: SarifLog['runs'][number] = {
+    tool: {
+      driver: {
+        name: record.tool,
+        version: record.tool_version,
+        informationUri: TOOL_INFORMATION_URI,
+        rules,
+      },
+    },
+    originalUriBaseIds: {
+      [SRCROOT]: { uri: toFileUri(projectRoot) },
+    },
+    results,
+    properties: {
+      corpus_version: record.corpus_version,
+      contracts_applied: record.contracts_applied,
+      files_analyzed: record.files_analyzed,
+    },
+  };
+
+  if (record.git_commit) {
+    run.versionControlProvenance = [{
+      repositoryUri: toFileUri(projectRoot),
+      revisionId: record.git_commit,
+      branch: record.git_branch,
+    }];
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [run],
+  };
+}
+
+/**
+ * Writes a SARIF log for an audit record to disk
+ */
+export async function writeSarifLog(
+  record: AuditRecord,
+  outputPath: string,
+  options: SarifOptions
+): Promise<void> {
+  const { writeFile } = await import('fs/promises');
+  const sarif = generateSarifLog(record, options);
+  await writeFile(outputPath, JSON.stringify(sarif, null, 2), 'utf-8');
+}
+
+/**
+ * Builds a SARIF rule from the first violation seen for a clause
+ */
+function buildRule(violation: Violation, ruleId: string): SarifRule {
+  const rule: SarifRule = {
+    id: ruleId,
+    name: violation.contract_clause,
+    shortDescription: { text: `${violation.package}: ${violation.contract_clause}` },
+    defaultConfiguration: { level: severityToSarifLevel(violation.severity) },
+    properties: {
+      package: violation.package,
+      contract_clause: violation.contract_clause,
+      tags: ['behavioral-contract', violation.package],
+    },
+  };
+
+  if (violation.source_doc) {
+    rule.helpUri = violation.source_doc;
+  }
+
+  if (violation.suggested_fix) {
+    rule.help = { text: violation.suggested_fix };
+  }
+
+  return rule;
+}
+
+/**
+ * Builds a SARIF result for a single violation
+ */
+function buildResult(
+  violation: Violation,
+  ruleId: string,
+  ruleIndex: number,
+  projectRoot: string
+): SarifResult {
+  const physicalLocation: SarifPhysicalLocation = {
+    artifactLocation: {
+      uri: toRelativeUri(projectRoot, violation.file),
+      uriBaseId: SRCROOT,
+    },
+    region: {
+      startLine: violation.line,
+      startColumn: violation.column,
+    },
+  };
+
+  // Carry the code snippet as the highlighted region and its surrounding context
+  if (violation.code_snippet) {
+    const highlighted = violation.code_snippet.lines.find(l => l.highlighted);
+    if (highlighted && physicalLocation.region) {
+      physicalLocation.region.snippet = { text: highlighted.content };
+    }
+
+    physicalLocation.contextRegion = {
+      startLine: violation.code_snippet.startLine,
+      endLine: violation.code_snippet.endLine,
+      snippet: { text: violation.code_snippet.lines.map(l => l.content).join('\n') },
+    };
+  }
+
+  const result: SarifResult = {
+    ruleId,
+    ruleIndex,
+    level: severityToSarifLevel(violation.severity),
+    message: { text: violation.description },
+    locations: [{ physicalLocation }],
+    partialFingerprints: {
+      [SARIF_FINGERPRINT_KEY]: violation.fingerprint || computeViolationFingerprint(violation, projectRoot),
+    },
+    properties: {
+      package: violation.package,
+      function: violation.function,
+      contract_clause: violation.contract_clause,
+    },
+  };
+
+  // Error propagation path of violations reported at a caller
+  if (violation.related_locations) {
+    result.relatedLocations = violation.related_locations.map((location, index) => ({
+      id: index,
+      physicalLocation: {
+        artifactLocation: { uri: toRelativeUri(projectRoot, location.file), uriBaseId: SRCROOT },
+        region: { startLine: location.line, startColumn: location.column },
+      },
+      message: { text: location.message },
+    }));
+  }
+
+  // SARIF fixes need artifact changes; a suggested fix without edits is carried by rule.help
+  if (violation.fix) {
+    result.fixes = [buildFix(violation.fix, projectRoot)];
+  }
+
+  return result;
+}
+
+/**
+ * Builds a SARIF fix from a violation's text edits, grouped by file
+ */
+function buildFix(fix: CodeFix, projectRoot: string): SarifFix {
+  const changes = new Map<string, SarifArtifactChange>();
+
+  for (const edit of fix.edits) {
+    const uri = toRelativeUri(projectRoot, edit.file);
+    let change = changes.get(uri);
+    if (!change) {
+      change = { artifactLocation: { uri, uriBaseId: SRCROOT }, replacements: [] };
+      changes.set(uri, change);
+    }
+
+    change.replacements.push({
+      deletedRegion: { charOffset: edit.start, charLength: edit.end - edit.start },
+      insertedContent: { text: edit.replacement },
+    });
+  }
+
+  return {
+    description: { text: fix.description },
+    artifactChanges: Array.from(changes.values()),
+  };
+}
+
+/**
+ * Converts an absolute file path into a URI relative to the project root
+ */
+function toRelativeUri(projectRoot: string, filePath: string): string {
+  const relative = path.relative(projectRoot, path.resolve(filePath));
+  return relative.split(path.sep).map(encodeURIComponent).join('/');
+}
+
+/**
+ * Converts a directory path into a file:// URI with a trailing slash
+ */
+function toFileUri(dirPath: string): string {
+  const normalized = dirPath.split(path.sep).join('/');
+  const withSlash = normalized.endsWith('/') ? normalized : `${normalized}/`;
+  return `file://${withSlash.startsWith('/') ? '' : '/'}${withSlash}`;
+}
@@ -0,0 +1,207 @@
+/**
+ * Suppression Anchors
+ *
+ * Identifies a suppressed location by its place in the AST instead of its
+ * line number: the enclosing function, the callee chain of the call that
+ * was flagged (e.g., "this.client.get") and the contract clause. Edits above
+ * a suppression or reformatting do not change the anchor, so the manifest
+ * can follow a suppression to its new line.
+ */
+
+import * as ts from 'typescript';
+import * as crypto from 'crypto';
+import { findEnclosingSymbol } from '../fingerprint.js';
+import type { InlineSuppressionComment } from './types.js';
+
+/** Version prefix for anchors, versioned apart from violation fingerprints */
+const ANCHOR_VERSION = 'v1';
+
+/**
+ * Computes the anchor of a suppressed location
+ *
+ * Calls with the same callee chain in the same function are told apart by
+ * their occurrence index.
+ *
+ * @param sourceFile - Source file of the violation
+ * @param line - Line of the violation (1-indexed)
+ * @param column - Column of the violation (1-indexed)
+ * @param packageName - Package name
+ * @param postconditionId - Postcondition ID
+ * @returns Anchor prefixed with the anchor version, or undefined if the location is outside the file
+ */
+export function computeSuppressionAnchor(
+  sourceFile: ts.SourceFile,
+  line: number,
+  column: number,
+  packageName: string,
+  postconditionId: string
+): string | undefined {
+  const node = findNodeAtLocation(sourceFile, line, column);
+  if (!node) {
+    return undefined;
+  }
+
+  const call = findFlaggedCall(node);
+  const calleeChain = call ? getCalleeChain(call, sourceFile) : '';
+  const occurrence = call ? getOccurrenceIndex(call, calleeChain, sourceFile) : 0;
+
+  const data = [
+    findEnclosingSymbol(sourceFile, line, column) || '',
+    calleeChain,
+    String(occurrence),
+    `${packageName}/${postconditionId}`,
+  ].join('\0');
+
+  const hash = crypto.createHash('sha256').update(data).digest('hex').substring(0, 32);
+  return `${ANCHOR_VERSION}:${hash}`;
+}
+
+/**
+ * Computes the anchor of a scoped directive (file, next-block or region)
+ *
+ * A directive covers many violations, so it is identified by its own
+ * contents rather than by any of them. Identical directives in the same file
+ * are told apart by their occurrence index.
+ *
+ * @param directive - Parsed directive
+ * @param fileDirectives - All directives of the directive's file
+ * @returns Anchor prefixed with the anchor version
+ */
+export function computeDirectiveAnchor(
+  directive: InlineSuppressionComment,
+  fileDirectives: readonly InlineSuppressionComment[]
+): string {
+  const isSame = (other: InlineSuppressionComment) =>
+    other.scope === directive.scope &&
+    other.package === directive.package &&
+    other.postconditionId === directive.postconditionId &&
+    other.reason === directive.reason;
+  const occurrence = fileDirectives.filter(other => other.line < directive.line && isSame(other)).length;
+
+  const data = [
+    directive.scope,
+    `${directive.package}/${directive.postconditionId}`,
+    directive.reason,
+    String(occurrence),
+  ].join('\0');
+
+  const hash = crypto.createHash('sha256').update(data).digest('hex').substring(0, 32);
+  return `${ANCHOR_VERSION}:${hash}`;
+}
+
+/**
+ * Finds the statement a location belongs to
+ *
+ * Used to attach inline comments to the code below them, wherever the
+ * flagged expression ends up after reformatting.
+ */
+export function findEnclosingStatement(
+  sourceFile: ts.SourceFile,
+  line: number,
+  column: number
+): ts.Statement | undefined {
+  let current = findNodeAtLocation(sourceFile, line, column);
+
+  while (current?.parent) {
+    const parent: ts.Node = current.parent;
+    if (ts.isBlock(parent) || ts.isSourceFile(parent) || ts.isModuleBlock(parent) ||
+        ts.isCaseClause(parent) || ts.isDefaultClause(parent)) {
+      return current as ts.Statement;
+    }
+    current = parent;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the innermost node at a 1-indexed line and column
+ */
+function findNodeAtLocation(sourceFile: ts.SourceFile, line: number, column: number): ts.Node | undefined {
+  const lineStarts = sourceFile.getLineStarts();
+  if (line < 1 || line > lineStarts.length) {
+    return undefined;
+  }
+  const position = Math.min(lineStarts[line - 1] + Math.max(column - 1, 0), sourceFile.getEnd());
+
+  let innermost: ts.Node | undefined;
+  const visit = (node: ts.Node): void => {
+    if (position >= node.getStart(sourceFile) && position < node.getEnd()) {
+      innermost = node;
+      ts.forEachChild(node, visit);
+    }
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return innermost;
+}
+
+/**
+ * Finds the call a violation points at
+ *
+ * Looks at the node's ancestors up to its statement first (the violation
+ * points into the call), then at its descendants (the violation points at
+ * e.g. the `await` in front of it).
+ */
+function findFlaggedCall(node: ts.Node): ts.CallExpression | ts.NewExpression | undefined {
+  let current: ts.Node | undefined = node;
+  while (current && !ts.isFunctionLike(current) && !ts.isBlock(current) && !ts.isSourceFile(current)) {
+    if (ts.isCallExpression(current) || ts.isNewExpression(current)) {
+      return current;
+    }
+    current = current.parent;
+  }
+
+  let found: ts.CallExpression | ts.NewExpression | undefined;
+  const visit = (child: ts.Node): void => {
+    if (found || ts.isFunctionLike(child)) return;
+    if (ts.isCallExpression(child) || ts.isNewExpression(child)) {
+      found = child;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+
+  return found;
+}
+
+/**
+ * Gets the callee of a call as written, without whitespace, optional chaining or non-null assertions
+ */
+function getCalleeChain(call: ts.CallExpression | ts.NewExpression, sourceFile: ts.SourceFile): string {
+  const callee = call.expression.getText(sourceFile)
+    .replace(/\s+/g, '')
+    .replace(/\?\./g, '.')
+    .replace(/!/g, '');
+
+  return ts.isNewExpression(call) ? `new ${callee}` : callee;
+}
+
+/**
+ * Counts the calls with the same callee chain that come before this one in its function
+ */
+function getOccurrenceIndex(
+  call: ts.CallExpression | ts.NewExpression,
+  calleeChain: string,
+  sourceFile: ts.SourceFile
+): number {
+  let scope: ts.Node = call.parent;
+  while (!ts.isFunctionLike(scope) && !ts.isSourceFile(scope)) {
+    scope = scope.parent;
+  }
+
+  let occurrence = 0;
+  const visit = (node: ts.Node): void => {
+    if (node.getStart(sourceFile) >= call.getStart(sourceFile) || ts.isFunctionLike(node)) {
+      return;
+    }
+    if ((ts.isCallExpression(node) || ts.isNewExpression(node)) && getCalleeChain(node, sourceFile) === calleeChain) {
+      occurrence++;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(scope, visit);
+
+  return occurrence;
+}
@@ -1,14 +1,15 @@
 /**
  * Configuration File Loader
  *
- * Loads and validates .behavioralcontractsrc.json config file
+ * Loads and validates the ignore rules of .behavioralcontractsrc.json
+ * (or the "behavioral-contracts" key in package.json)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { BehavioralContractsConfig, IgnoreRule } from './types.js';
-
-const CONFIG_FILENAME = '.behavioralcontractsrc.json';
+import { isValidExpiryDate } from './expiry.js';
+import { CONFIG_FILENAME, findProjectConfig } from '../config.js';
 
 /**
  * Load behavioral contracts configuration from project root
@@ -19,25 +20,7 @@ const CONFIG_FILENAME = '.behavioralcontractsrc.json';
 export async function loadConfig(
   projectRoot: string
 ): Promise<BehavioralContractsConfig> {
-  const configPath = path.join(projectRoot, CONFIG_FILENAME);
-
-  if (!fs.existsSync(configPath)) {
-    return { ignore: [] };
-  }
-
-  try {
-    const content = await fs.promises.readFile(configPath, 'utf-8');
-    const config: BehavioralContractsConfig = JSON.parse(content);
-
-    // Validate config structure
-    validateConfig(config);
-
-    return config;
-  } catch (error) {
-    throw new Error(
-      `Failed to load ${CONFIG_FILENAME}: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
+  return loadConfigSync(projectRoot);
 }
 
 /**
@@ -49,20 +32,16 @@ export async function loadConfig(
 export function loadConfigSync(
   projectRoot: string
 ): BehavioralContractsConfig {
-  const configPath = path.join(projectRoot, CONFIG_FILENAME);
-
-  if (!fs.existsSync(configPath)) {
-    return { ignore: [] };
-  }
-
   try {
-    const content = fs.readFileSync(configPath, 'utf-8');
-    const config: BehavioralContractsConfig = JSON.parse(content);
+    const loaded = findProjectConfig(projectRoot);
+    if (!loaded) {
+      return { ignore: [] };
+    }
 
-    // Validate config structure
-    validateConfig(config);
+    // Validate ignore rules beyond the schema (meaningful reasons etc.)
+    validateConfig(loaded.config);
 
-    return config;
+    return loaded.config;
   } catch (error) {
     throw new Error(
       `Failed to load ${CONFIG_FILENAME}: ${error instanceof Error ? error.message : String(error)}`
@@ -136,6 +115,16 @@ function validateIgnoreRule(rule: IgnoreRule, index: number): void {
   if (rule.postconditionId && typeof rule.postconditionId !== 'string') {
     throw new Error(`ignore[${index}]: "postconditionId" must be a string`);
   }
+
+  // Validate expiry date if present
+  if (rule.expires !== undefined && !isValidExpiryDate(rule.expires)) {
+    throw new Error(`ignore[${index}]: "expires" must be a date in YYYY-MM-DD format`);
+  }
+
+  // Validate ticket if present
+  if (rule.ticket !== undefined && (typeof rule.ticket !== 'string' || rule.ticket.trim() === '')) {
+    throw new Error(`ignore[${index}]: "ticket" must be a non-empty string`);
+  }
 }
 
 /**
@@ -4,8 +4,8 @@
  * Detects suppressions that are no longer needed because the analyzer has improved.
  */
 
-import { loadManifestSync, saveManifestSync } from './manifest.js';
-import { DeadSuppression } from './types.js';
+import { loadManifestSync, updateManifestSync } from './manifest.js';
+import { DeadSuppression, Suppression } from './types.js';
 
 /**
  * Detect dead suppressions in the manifest
@@ -47,14 +47,15 @@ export function detectDeadSuppressions(
 export function removeDeadSuppressionsFromManifest(
   projectRoot: string
 ): number {
-  const manifest = loadManifestSync(projectRoot);
-  const beforeCount = manifest.suppressions.length;
-
-  manifest.suppressions = manifest.suppressions.filter(s => s.stillViolates);
+  let removed = 0;
 
-  saveManifestSync(manifest);
+  updateManifestSync(projectRoot, manifest => {
+    const beforeCount = manifest.suppressions.length;
+    manifest.suppressions = manifest.suppressions.filter(s => s.stillViolates);
+    removed = beforeCount - manifest.suppressions.length;
+  });
 
-  return beforeCount - manifest.suppressions.length;
+  return removed;
 }
 
 /**
@@ -123,7 +124,23 @@ export function formatDeadSuppression(dead: DeadSuppression): string {
     `│  Analyzer: ${dead.originalVersion} → ${dead.improvedInVersion}`,
     `│`,
     `│  Why improved: ${dead.improvementReason || 'Analyzer no longer flags this pattern'}`,
-    `│  Action: Remove @behavioral-contract-ignore comment at line ${s.line}`,
+    `│  Action: ${getRemovalAction(s)}`,
     `│`
   ].join('\n');
 }
+
+/**
+ * Describes which comment to remove for a dead suppression
+ */
+function getRemovalAction(s: Suppression): string {
+  switch (s.scope) {
+    case 'file':
+      return `Remove @behavioral-contract-ignore-file directive at line ${s.line}`;
+    case 'next-block':
+      return `Remove @behavioral-contract-ignore-next-block directive at line ${s.line}`;
+    case 'region':
+      return `Remove @behavioral-contract-ignore-start directive at line ${s.line} and its -end`;
+    default:
+      return `Remove @behavioral-contract-ignore comment at line ${s.line}`;
+  }
+}
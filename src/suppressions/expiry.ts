@@ -0,0 +1,72 @@
+/**
+ * Suppression Expiry
+ *
+ * Suppressions can carry an `expires` date (YYYY-MM-DD). They apply through
+ * that day and turn back into violations afterwards.
+ */
+
+import type { Suppression } from './types.js';
+
+const EXPIRY_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Check if a string is a valid expiry date (YYYY-MM-DD)
+ *
+ * @param value - Value to check
+ * @returns True for existing calendar dates in YYYY-MM-DD format
+ */
+export function isValidExpiryDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !EXPIRY_DATE_REGEX.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Check if a suppression has expired
+ *
+ * @param expires - Expiry date (YYYY-MM-DD), if any
+ * @param now - Current time (default: now)
+ * @returns True if the expiry date lies before today (UTC)
+ */
+export function isExpired(expires: string | undefined, now: Date = new Date()): boolean {
+  return expires !== undefined && expires < now.toISOString().slice(0, 10);
+}
+
+/**
+ * Count the days until a suppression expires
+ *
+ * @param expires - Expiry date (YYYY-MM-DD)
+ * @param now - Current time (default: now)
+ * @returns Days until the expiry date (0 on the day itself, negative once expired)
+ */
+export function daysUntilExpiry(expires: string, now: Date = new Date()): number {
+  const today = Date.parse(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+  return Math.round((Date.parse(`${expires}T00:00:00Z`) - today) / MS_PER_DAY);
+}
+
+/**
+ * Get suppressions that expire within a number of days, soonest first
+ *
+ * Already expired suppressions are included.
+ *
+ * @param suppressions - Suppressions to filter
+ * @param withinDays - Number of days to look ahead
+ * @param now - Current time (default: now)
+ * @returns Suppressions with an expiry date, sorted by that date
+ */
+export function getExpiringSuppressions(
+  suppressions: Suppression[],
+  withinDays: number,
+  now: Date = new Date()
+): Suppression[] {
+  return suppressions
+    .filter((s): s is Suppression & { expires: string } =>
+      s.expires !== undefined && daysUntilExpiry(s.expires, now) <= withinDays
+    )
+    .sort((a, b) => a.expires.localeCompare(b.expires));
+}
@@ -11,6 +11,7 @@ export * from './types.js';
 export {
   parseInlineSuppressions,
   getSuppressionForLine,
+  getSuppressionForLocation,
   suppressionMatches,
   validateSuppressionComment,
   generateSuppressionComment,
@@ -32,6 +33,7 @@ export {
   loadManifestSync,
   saveManifest,
   saveManifestSync,
+  updateManifestSync,
   createManifest,
   upsertSuppression,
   removeSuppression,
@@ -43,10 +45,32 @@ export {
   removeDeadSuppressions
 } from './manifest.js';
 
+// Expiry dates
+export {
+  isValidExpiryDate,
+  isExpired,
+  daysUntilExpiry,
+  getExpiringSuppressions
+} from './expiry.js';
+
+// AST anchors
+export { computeSuppressionAnchor, computeDirectiveAnchor } from './anchor.js';
+
+// Writing suppressions
+export {
+  insertSuppressionComment,
+  addIgnoreRule,
+  addSuppression
+} from './writer.js';
+export type { AddSuppressionOptions, AddSuppressionResult } from './writer.js';
+
 // Suppression checking
+export { SuppressionSession } from './session.js';
+export type { SuppressionSessionOptions, SuppressionTarget } from './session.js';
 export {
   checkSuppression,
   batchCheckSuppressions,
+  recordUnusedDirectives,
   getSuppressionStats
 } from './matcher.js';
 
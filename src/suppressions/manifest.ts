@@ -12,6 +12,9 @@ import { Suppression, SuppressionManifest } from './types.js';
 const MANIFEST_DIR = '.verify-cli';
 const MANIFEST_FILENAME = 'suppressions.json';
 const MANIFEST_VERSION = '1.0.0';
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 60_000;
+const LOCK_RETRY_MS = 50;
 
 /**
  * Load suppression manifest from project root
@@ -98,7 +101,10 @@ export async function saveManifest(manifest: SuppressionManifest): Promise<void>
   // Pretty print JSON
   const content = JSON.stringify(manifest, null, 2);
 
-  await fs.promises.writeFile(manifestPath, content, 'utf-8');
+  // Write to a temporary file first so readers never see a partial manifest
+  const tempPath = getTempPath(manifestPath);
+  await fs.promises.writeFile(tempPath, content, 'utf-8');
+  await fs.promises.rename(tempPath, manifestPath);
 }
 
 /**
@@ -118,7 +124,37 @@ export function saveManifestSync(manifest: SuppressionManifest): void {
   // Pretty print JSON
   const content = JSON.stringify(manifest, null, 2);
 
-  fs.writeFileSync(manifestPath, content, 'utf-8');
+  // Write to a temporary file first so readers never see a partial manifest
+  const tempPath = getTempPath(manifestPath);
+  fs.writeFileSync(tempPath, content, 'utf-8');
+  fs.renameSync(tempPath, manifestPath);
+}
+
+/**
+ * Update the manifest on disk while holding its lock file
+ *
+ * Loads the current manifest, applies the update and saves it, so that
+ * concurrent runs each apply their changes to the other's result instead
+ * of overwriting it.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param update - Changes to apply to the loaded manifest
+ * @returns The saved manifest
+ */
+export function updateManifestSync(
+  projectRoot: string,
+  update: (manifest: SuppressionManifest) => void
+): SuppressionManifest {
+  const release = acquireManifestLock(projectRoot);
+
+  try {
+    const manifest = loadManifestSync(projectRoot);
+    update(manifest);
+    saveManifestSync(manifest);
+    return manifest;
+  } finally {
+    release();
+  }
 }
 
 /**
@@ -239,6 +275,8 @@ export function createSuppression(options: {
   packageName: string;
   postconditionId: string;
   reason: string;
+  expires?: string;
+  ticket?: string;
   suppressedBy: Suppression['suppressedBy'];
   analyzerVersion: string;
 }): Suppression {
@@ -259,6 +297,8 @@ export function createSuppression(options: {
     package: options.packageName,
     postconditionId: options.postconditionId,
     reason: options.reason,
+    expires: options.expires,
+    ticket: options.ticket,
     suppressedAt: now,
     suppressedBy: options.suppressedBy,
     lastChecked: now,
@@ -277,6 +317,72 @@ function getManifestPath(projectRoot: string): string {
   return path.join(projectRoot, MANIFEST_DIR, MANIFEST_FILENAME);
 }
 
+/**
+ * Get a temporary path next to the manifest, unique to this process
+ *
+ * @param manifestPath - Absolute path to manifest file
+ * @returns Temporary file path
+ */
+function getTempPath(manifestPath: string): string {
+  return `${manifestPath}.${process.pid}.tmp`;
+}
+
+/**
+ * Acquire the manifest lock file, waiting for other runs to release it
+ *
+ * A lock older than STALE_LOCK_MS is left over from a crashed run and is
+ * taken over.
+ *
+ * @param projectRoot - Project root directory
+ * @returns Function that releases the lock
+ * @throws Error if the lock is not released within LOCK_TIMEOUT_MS
+ */
+function acquireManifestLock(projectRoot: string): () => void {
+  const lockPath = `${getManifestPath(projectRoot)}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+      return () => fs.rmSync(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (isStaleLock(lockPath)) {
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Timed out waiting for ${lockPath}. Delete it if no other verify-cli run is active.`
+      );
+    }
+
+    // Block without spinning; the analyzer is synchronous
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Check if a lock file was left behind by a run that no longer holds it
+ *
+ * @param lockPath - Lock file path
+ * @returns True if the lock is stale or already gone
+ */
+function isStaleLock(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS;
+  } catch {
+    return true;
+  }
+}
+
 /**
  * Validate manifest structure
  *
@@ -5,180 +5,51 @@
  */
 
 import * as ts from 'typescript';
-import * as path from 'path';
-import {
-  getSuppressionForLine,
-  suppressionMatches
-} from './parser.js';
-import { loadConfigSync, findMatchingRules } from './config-loader.js';
-import { loadManifestSync, saveManifestSync, createSuppression, upsertSuppression } from './manifest.js';
-import { SuppressionCheckResult } from './types.js';
+import { loadManifestSync } from './manifest.js';
+import { SuppressionSession, SuppressionSessionOptions, SuppressionTarget } from './session.js';
+import { InlineSuppressionComment, SuppressionCheckResult } from './types.js';
 
 /**
  * Options for checking suppressions
  */
-export interface CheckSuppressionOptions {
-  /** Project root directory */
-  projectRoot: string;
-
-  /** TypeScript source file */
-  sourceFile: ts.SourceFile;
-
-  /** Line number of violation (1-indexed) */
-  line: number;
-
-  /** Column number of violation (1-indexed) */
-  column?: number;
-
-  /** Package name */
-  packageName: string;
-
-  /** Postcondition ID */
-  postconditionId: string;
-
-  /** Current analyzer version */
-  analyzerVersion: string;
-
-  /** Update manifest with suppression metadata */
-  updateManifest?: boolean;
-}
+export type CheckSuppressionOptions = SuppressionSessionOptions & SuppressionTarget;
 
 /**
  * Check if a violation is suppressed
  *
- * Checks both inline comments and config file rules.
- * Optionally updates manifest with metadata.
+ * Runs a single check in its own session and writes the manifest right away.
+ * Use a SuppressionSession to check many violations.
  *
  * @param options - Check options
  * @returns Suppression check result
  */
 export function checkSuppression(options: CheckSuppressionOptions): SuppressionCheckResult {
-  const {
-    projectRoot,
-    sourceFile,
-    line,
-    column,
-    packageName,
-    postconditionId,
-    analyzerVersion,
-    updateManifest = true
-  } = options;
-
-  // Get relative file path from project root
-  const absoluteFilePath = sourceFile.fileName;
-  const relativeFilePath = path.relative(projectRoot, absoluteFilePath);
+  const session = new SuppressionSession(options);
+  const result = session.check(options);
+  session.commit();
 
-  // Check inline comment suppression
-  const inlineSuppress = getSuppressionForLine(sourceFile, line);
-
-  if (inlineSuppress && suppressionMatches(inlineSuppress, packageName, postconditionId)) {
-    // Suppressed by inline comment
-    if (updateManifest) {
-      updateManifestWithSuppression({
-        projectRoot,
-        file: relativeFilePath,
-        line,
-        column,
-        packageName,
-        postconditionId,
-        reason: inlineSuppress.reason,
-        suppressedBy: 'inline-comment',
-        analyzerVersion
-      });
-    }
-
-    return {
-      suppressed: true,
-      source: 'inline-comment',
-      originalSource: inlineSuppress
-    };
-  }
-
-  // Check config file suppression
-  const config = loadConfigSync(projectRoot);
-  const matchingRules = findMatchingRules(
-    config,
-    relativeFilePath,
-    packageName,
-    postconditionId
-  );
-
-  if (matchingRules.length > 0) {
-    // Suppressed by config file
-    const rule = matchingRules[0]; // Use first matching rule
-
-    if (updateManifest) {
-      updateManifestWithSuppression({
-        projectRoot,
-        file: relativeFilePath,
-        line,
-        column,
-        packageName,
-        postconditionId,
-        reason: rule.reason,
-        suppressedBy: 'config-file',
-        analyzerVersion
-      });
-    }
-
-    return {
-      suppressed: true,
-      matchedSuppression: rule,
-      source: 'config-file',
-      originalSource: rule
-    };
-  }
-
-  // Not suppressed
-  return {
-    suppressed: false
-  };
+  return result;
 }
 
 /**
- * Update manifest with suppression metadata
+ * Record the scoped directives of a file that suppressed no violation
  *
- * Creates or updates a suppression entry in the manifest.
+ * Runs in its own session; see SuppressionSession.recordUnusedDirectives().
  *
- * @param options - Suppression options
+ * @param options - The file and the directives that suppressed something
+ * @returns The unused directives
  */
-function updateManifestWithSuppression(options: {
+export function recordUnusedDirectives(options: {
   projectRoot: string;
-  file: string;
-  line: number;
-  column?: number;
-  packageName: string;
-  postconditionId: string;
-  reason: string;
-  suppressedBy: 'inline-comment' | 'config-file';
+  sourceFile: ts.SourceFile;
+  usedDirectives: InlineSuppressionComment[];
   analyzerVersion: string;
-}): void {
-  try {
-    const manifest = loadManifestSync(options.projectRoot);
-
-    const suppression = createSuppression({
-      file: options.file,
-      line: options.line,
-      column: options.column,
-      packageName: options.packageName,
-      postconditionId: options.postconditionId,
-      reason: options.reason,
-      suppressedBy: options.suppressedBy,
-      analyzerVersion: options.analyzerVersion
-    });
+}): InlineSuppressionComment[] {
+  const session = new SuppressionSession(options);
+  const unused = session.recordUnusedDirectives(options.sourceFile, options.usedDirectives);
+  session.commit();
 
-    // Update last checked time
-    suppression.lastChecked = new Date().toISOString();
-    suppression.stillViolates = true; // Confirmed to still violate
-
-    upsertSuppression(manifest, suppression);
-    saveManifestSync(manifest);
-  } catch (error) {
-    // Don't fail the analysis if manifest update fails
-    console.warn(
-      `Warning: Failed to update suppression manifest: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
+  return unused;
 }
 
 /**
@@ -202,22 +73,22 @@ export function batchCheckSuppressions(
   analyzerVersion: string
 ): Map<string, SuppressionCheckResult> {
   const results = new Map<string, SuppressionCheckResult>();
+  const session = new SuppressionSession({ projectRoot, analyzerVersion, updateManifest: true });
 
   for (const violation of violations) {
-    const result = checkSuppression({
-      projectRoot,
+    const result = session.check({
       sourceFile: violation.sourceFile,
       line: violation.line,
       column: violation.column,
       packageName: violation.packageName,
-      postconditionId: violation.postconditionId,
-      analyzerVersion,
-      updateManifest: true
+      postconditionId: violation.postconditionId
     });
 
     results.set(violation.id, result);
   }
 
+  session.commit();
+
   return results;
 }
 
@@ -5,57 +5,161 @@
  */
 
 import * as ts from 'typescript';
-import { InlineSuppressionComment } from './types.js';
+import { InlineSuppressionComment, SuppressionScope } from './types.js';
+import { isExpired, isValidExpiryDate } from './expiry.js';
+import { findEnclosingStatement } from './anchor.js';
 
 /**
  * Regular expression for matching suppression comments
  *
  * Format: @behavioral-contract-ignore <package>/<postcondition-id>: <reason>
  *
+ * The reason can end with optional fields: "; expires: YYYY-MM-DD; ticket: ABC-123"
+ *
  * Examples:
  *   @behavioral-contract-ignore axios/network-failure: Global error handler
+ *   @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-12-31; ticket: OPS-42
  *   @behavioral-contract-ignore STAR/timeout-not-set: Timeout set globally (use * for STAR)
  *   @behavioral-contract-ignore prisma/STAR: Framework handles all errors (use * for STAR)
  */
 const SUPPRESSION_COMMENT_REGEX = /@behavioral-contract-ignore\s+([\w@/-]+|\*)\/([\w-]+|\*):\s*(.+)/i;
 
+/**
+ * Regular expression for matching scoped suppression directives
+ *
+ * Format: @behavioral-contract-ignore-<file|next-block|start> <package>/<postcondition-id>: <reason>
+ *         @behavioral-contract-ignore-end [<package>/<postcondition-id>]
+ */
+const SCOPED_DIRECTIVE_REGEX = /@behavioral-contract-ignore-(file|next-block|start|end)\b\s*(?:([\w@/-]+|\*)\/([\w-]+|\*)(?::\s*(.+))?)?/i;
+
+/**
+ * Regular expression for an optional field at the end of a reason
+ */
+const REASON_FIELD_REGEX = /^(expires|ticket):\s*(\S+)$/i;
+
+/**
+ * Scope of each directive keyword
+ */
+const DIRECTIVE_SCOPES: Record<string, SuppressionScope> = {
+  'file': 'file',
+  'next-block': 'next-block',
+  'start': 'region'
+};
+
+/**
+ * A comment in a source file, split into lines
+ */
+interface CommentLine {
+  /** Line number (1-indexed) */
+  line: number;
+
+  /** Line text without comment markers */
+  text: string;
+
+  /** End offset of the comment the line belongs to */
+  commentEnd: number;
+}
+
 /**
  * Parse all inline suppression comments from a TypeScript source file
  *
+ * Reads line (`//`) and block (`/* *\/`) comments. Scoped directives get the
+ * range of lines they cover; a region without `-end` runs to the end of the file.
+ * Comments with an invalid expiry date are left out and passed to `onInvalid`.
+ *
  * @param sourceFile - TypeScript source file
+ * @param onInvalid - Called with the line and error of each invalid comment
  * @returns Array of parsed suppression comments
  */
 export function parseInlineSuppressions(
-  sourceFile: ts.SourceFile
+  sourceFile: ts.SourceFile,
+  onInvalid?: (line: number, error: string) => void
 ): InlineSuppressionComment[] {
   const suppressions: InlineSuppressionComment[] = [];
-  const sourceText = sourceFile.getFullText();
-  const lines = sourceText.split('\n');
+  const lastLine = sourceFile.getLineStarts().length;
+  const openRegions: InlineSuppressionComment[] = [];
 
-  lines.forEach((line, index) => {
-    const trimmed = line.trim();
+  for (const comment of getCommentLines(sourceFile)) {
+    const scoped = comment.text.match(SCOPED_DIRECTIVE_REGEX);
 
-    // Check if line is a comment
-    if (!trimmed.startsWith('//')) {
-      return;
+    if (scoped) {
+      const [, keyword, packagePattern, postconditionPattern, reason] = scoped;
+
+      if (keyword.toLowerCase() === 'end') {
+        // Close the matching region, or the innermost one if no rule is given
+        const index = findLastIndex(openRegions, region =>
+          !packagePattern ||
+          (region.package === packagePattern.trim() && region.postconditionId === postconditionPattern.trim())
+        );
+        if (index >= 0) {
+          openRegions[index].endLine = comment.line;
+          openRegions.splice(index, 1);
+        }
+        continue;
+      }
+
+      if (!packagePattern || !reason) {
+        continue;
+      }
+
+      const fields = parseSuppressionReason(reason);
+      const error = validateExpiryField(fields.expires);
+      if (error) {
+        onInvalid?.(comment.line, error);
+        continue;
+      }
+
+      const suppression: InlineSuppressionComment = {
+        line: comment.line,
+        scope: DIRECTIVE_SCOPES[keyword.toLowerCase()],
+        package: packagePattern.trim(),
+        postconditionId: postconditionPattern.trim(),
+        ...fields,
+        originalComment: comment.text
+      };
+
+      if (suppression.scope === 'file') {
+        suppression.startLine = 1;
+        suppression.endLine = lastLine;
+      } else if (suppression.scope === 'next-block') {
+        const block = findNextBlock(sourceFile, comment.commentEnd);
+        suppression.startLine = comment.line;
+        suppression.endLine = block
+          ? sourceFile.getLineAndCharacterOfPosition(block.getEnd()).line + 1
+          : comment.line;
+      } else {
+        suppression.startLine = comment.line;
+        suppression.endLine = lastLine;
+        openRegions.push(suppression);
+      }
+
+      suppressions.push(suppression);
+      continue;
     }
 
-    // Try to match suppression format
-    const match = trimmed.match(SUPPRESSION_COMMENT_REGEX);
+    const match = comment.text.match(SUPPRESSION_COMMENT_REGEX);
     if (!match) {
-      return;
+      continue;
     }
 
     const [, packagePattern, postconditionPattern, reason] = match;
 
+    const fields = parseSuppressionReason(reason);
+    const error = validateExpiryField(fields.expires);
+    if (error) {
+      onInvalid?.(comment.line, error);
+      continue;
+    }
+
     suppressions.push({
-      line: index + 1, // Convert to 1-indexed
+      line: comment.line,
+      scope: 'line',
       package: packagePattern.trim(),
       postconditionId: postconditionPattern.trim(),
-      reason: reason.trim(),
-      originalComment: trimmed
+      ...fields,
+      originalComment: comment.text
     });
-  });
+  }
 
   return suppressions;
 }
@@ -74,7 +178,65 @@ export function getSuppressionForLine(
   const suppressions = parseInlineSuppressions(sourceFile);
 
   // Check the line before target (comment usually precedes code)
-  return suppressions.find(s => s.line === targetLine - 1 || s.line === targetLine);
+  return suppressions.find(s =>
+    s.scope === 'line'
+      ? s.line === targetLine - 1 || s.line === targetLine
+      : isLineInScope(s, targetLine)
+  );
+}
+
+/**
+ * Find the suppression comment for a violation
+ *
+ * Besides the line itself and the line before it, a comment applies to every
+ * line of the statement it precedes, so that a reformat that spreads the
+ * statement over several lines does not detach the comment. Scoped
+ * directives apply to every line in their range. When several comments
+ * match, an active one wins over expired ones, so an expired line comment
+ * does not hide a file or region directive.
+ *
+ * @param sourceFile - TypeScript source file
+ * @param line - Line of the violation (1-indexed)
+ * @param column - Column of the violation (1-indexed)
+ * @param packageName - Package name from violation
+ * @param postconditionId - Postcondition ID from violation
+ * @param suppressions - Suppressions parsed from the file (default: parse them)
+ * @param now - Current time, for expiry dates (default: now)
+ * @returns Matching suppression comment (expired only if no active one matches), undefined otherwise
+ */
+export function getSuppressionForLocation(
+  sourceFile: ts.SourceFile,
+  line: number,
+  column: number,
+  packageName: string,
+  postconditionId: string,
+  suppressions: InlineSuppressionComment[] = parseInlineSuppressions(sourceFile),
+  now: Date = new Date()
+): InlineSuppressionComment | undefined {
+  const commentLines = new Set([line - 1, line]);
+
+  const statement = findEnclosingStatement(sourceFile, line, column);
+  if (statement) {
+    const text = sourceFile.getFullText();
+    const fullStart = statement.getFullStart();
+    const { line: fullStartLine } = sourceFile.getLineAndCharacterOfPosition(fullStart);
+    const followsCode = text.slice(sourceFile.getLineStarts()[fullStartLine], fullStart).trim() !== '';
+
+    for (const range of ts.getLeadingCommentRanges(text, fullStart) || []) {
+      const commentLine = sourceFile.getLineAndCharacterOfPosition(range.pos).line;
+      // A comment after code on the same line belongs to that code
+      if (!(followsCode && commentLine === fullStartLine)) {
+        commentLines.add(commentLine + 1);
+      }
+    }
+  }
+
+  const matches = suppressions.filter(s =>
+    (s.scope === 'line' ? commentLines.has(s.line) : isLineInScope(s, line)) &&
+    suppressionMatches(s, packageName, postconditionId)
+  );
+
+  return matches.find(s => !isExpired(s.expires, now)) ?? matches[0];
 }
 
 /**
@@ -122,7 +284,14 @@ export function validateSuppressionComment(comment: string): {
     };
   }
 
-  const [, packagePattern, postconditionPattern, reason] = match;
+  const [, packagePattern, postconditionPattern] = match;
+  const { reason, expires } = parseSuppressionReason(match[3]);
+
+  // Validate expiry date if present
+  const expiryError = validateExpiryField(expires);
+  if (expiryError) {
+    return { valid: false, error: expiryError };
+  }
 
   // Validate reason is not empty
   if (!reason || reason.trim().length === 0) {
@@ -157,14 +326,21 @@ export function validateSuppressionComment(comment: string): {
  * @param packageName - Package name
  * @param postconditionId - Postcondition ID
  * @param reason - Human-readable reason
+ * @param fields - Optional expiry date and ticket
  * @returns Formatted comment string
  */
 export function generateSuppressionComment(
   packageName: string,
   postconditionId: string,
-  reason: string
+  reason: string,
+  fields: { expires?: string; ticket?: string } = {}
 ): string {
-  return `// @behavioral-contract-ignore ${packageName}/${postconditionId}: ${reason}`;
+  const suffix = [
+    fields.expires ? `; expires: ${fields.expires}` : '',
+    fields.ticket ? `; ticket: ${fields.ticket}` : ''
+  ].join('');
+
+  return `// @behavioral-contract-ignore ${packageName}/${postconditionId}: ${reason}${suffix}`;
 }
 
 /**
@@ -209,3 +385,125 @@ export function getNodeComments(
 
   return comments;
 }
+
+/**
+ * Splits a comment's reason into the reason text and its optional fields
+ *
+ * "Handled upstream; expires: 2026-12-31; ticket: ABC-123" becomes
+ * { reason: "Handled upstream", expires: "2026-12-31", ticket: "ABC-123" }.
+ */
+function parseSuppressionReason(text: string): { reason: string; expires?: string; ticket?: string } {
+  const segments = text.split(';');
+  const fields: { expires?: string; ticket?: string } = {};
+
+  while (segments.length > 1) {
+    const match = segments[segments.length - 1].trim().match(REASON_FIELD_REGEX);
+    if (!match) break;
+
+    fields[match[1].toLowerCase() as 'expires' | 'ticket'] = match[2];
+    segments.pop();
+  }
+
+  return { reason: segments.join(';').trim(), ...fields };
+}
+
+/**
+ * Checks the expiry field of a comment
+ *
+ * @returns The error for a date that is not YYYY-MM-DD, or undefined
+ */
+function validateExpiryField(expires: string | undefined): string | undefined {
+  return expires !== undefined && !isValidExpiryDate(expires)
+    ? `Invalid expiry date "${expires}". Expected: YYYY-MM-DD`
+    : undefined;
+}
+
+/**
+ * Checks whether a line is covered by a scoped directive
+ *
+ * The directive's own line is not covered: a violation on it belongs to the
+ * code in front of the comment.
+ */
+function isLineInScope(suppression: InlineSuppressionComment, line: number): boolean {
+  return suppression.startLine !== undefined &&
+    suppression.endLine !== undefined &&
+    line >= suppression.startLine &&
+    line <= suppression.endLine &&
+    (suppression.scope === 'file' || line !== suppression.line);
+}
+
+/**
+ * Collects every comment of a file, one entry per line
+ *
+ * Comments are read from the trivia around AST nodes, so comment-like text
+ * inside strings and template literals is ignored. Comment markers and the
+ * leading `*` of block comment lines are stripped.
+ */
+function getCommentLines(sourceFile: ts.SourceFile): CommentLine[] {
+  const text = sourceFile.getFullText();
+  const ranges = new Map<number, ts.CommentRange>();
+
+  const collect = (position: number): void => {
+    for (const range of ts.getLeadingCommentRanges(text, position) || []) {
+      ranges.set(range.pos, range);
+    }
+  };
+  const visit = (node: ts.Node): void => {
+    collect(node.pos);
+    ts.forEachChild(node, visit);
+    collect(node.end);
+  };
+  collect(0);
+  ts.forEachChild(sourceFile, visit);
+  collect(sourceFile.endOfFileToken.pos);
+
+  const lines: CommentLine[] = [];
+  for (const range of [...ranges.values()].sort((a, b) => a.pos - b.pos)) {
+    const firstLine = sourceFile.getLineAndCharacterOfPosition(range.pos).line + 1;
+    const commentText = text.slice(range.pos, range.end);
+
+    const body = range.kind === ts.SyntaxKind.SingleLineCommentTrivia
+      ? [commentText.replace(/^\/\/\s*/, '')]
+      : commentText
+        .replace(/^\/\*+/, '')
+        .replace(/\*+\/$/, '')
+        .split(/\r?\n/)
+        .map(line => line.replace(/^\s*\*?\s?/, ''));
+
+    body.forEach((line, index) => {
+      lines.push({ line: firstLine + index, text: line.trim(), commentEnd: range.end });
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Finds the statement or declaration that follows a comment
+ */
+function findNextBlock(sourceFile: ts.SourceFile, commentEnd: number): ts.Node | undefined {
+  // The outermost node starting after the comment, e.g. the whole function
+  // declaration rather than its `export` modifier
+  let found: ts.Node | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found || node.getEnd() <= commentEnd) return;
+    if (node.getStart(sourceFile) >= commentEnd) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return found;
+}
+
+/**
+ * Returns the index of the last element matching a predicate, or -1
+ */
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
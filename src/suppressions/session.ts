@@ -0,0 +1,419 @@
+/**
+ * Suppression Session
+ *
+ * Checks the violations of one analysis run against inline comments and
+ * config rules. The config and the comments of each file are parsed once per
+ * session, and manifest updates are collected and written in a single locked,
+ * atomic write by commit().
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import { getSuppressionForLocation, parseInlineSuppressions } from './parser.js';
+import { loadConfigSync, findMatchingRules } from './config-loader.js';
+import {
+  loadManifestSync,
+  updateManifestSync,
+  createSuppression,
+  upsertSuppression,
+  removeSuppression
+} from './manifest.js';
+import { computeSuppressionAnchor, computeDirectiveAnchor } from './anchor.js';
+import { isExpired } from './expiry.js';
+import {
+  BehavioralContractsConfig,
+  ExpiredSuppression,
+  InlineSuppressionComment,
+  MovedSuppression,
+  Suppression,
+  SuppressionCheckResult,
+  SuppressionManifest,
+  SuppressionScope
+} from './types.js';
+
+/**
+ * Options for a suppression session
+ */
+export interface SuppressionSessionOptions {
+  /** Project root directory */
+  projectRoot: string;
+
+  /** Current analyzer version */
+  analyzerVersion: string;
+
+  /** Update manifest with suppression metadata */
+  updateManifest?: boolean;
+
+  /** Current time, for expiry dates (default: now) */
+  now?: Date;
+}
+
+/**
+ * A violation to check for suppressions
+ */
+export interface SuppressionTarget {
+  /** TypeScript source file */
+  sourceFile: ts.SourceFile;
+
+  /** Line number of violation (1-indexed) */
+  line: number;
+
+  /** Column number of violation (1-indexed) */
+  column?: number;
+
+  /** Package name */
+  packageName: string;
+
+  /** Postcondition ID */
+  postconditionId: string;
+}
+
+/**
+ * Suppression checks for a single analysis run
+ */
+export class SuppressionSession {
+  private readonly projectRoot: string;
+  private readonly analyzerVersion: string;
+  private readonly updateManifest: boolean;
+  private readonly now: Date;
+
+  private config: BehavioralContractsConfig | undefined;
+  private manifest: SuppressionManifest | undefined;
+  private readonly inlineSuppressions = new Map<string, InlineSuppressionComment[]>();
+
+  // Manifest changes not written yet, replayed onto the manifest on disk by commit()
+  private readonly pendingUpserts = new Map<string, Suppression>();
+  private readonly pendingRemovals = new Set<string>();
+
+  // Problems that did not stop the run, each reported once
+  private readonly warnings: string[] = [];
+
+  constructor(options: SuppressionSessionOptions) {
+    this.projectRoot = options.projectRoot;
+    this.analyzerVersion = options.analyzerVersion;
+    this.updateManifest = options.updateManifest ?? true;
+    this.now = options.now ?? new Date();
+  }
+
+  /**
+   * Check if a violation is suppressed
+   *
+   * Checks both inline comments and config file rules.
+   * Optionally records manifest metadata; manifest entries are matched by
+   * their AST anchor, so a suppression whose code moved is re-located.
+   * Expired suppressions do not apply; if nothing else matches, the result
+   * names the expired one so that the violation can say why it is back.
+   *
+   * @param target - Violation to check
+   * @returns Suppression check result
+   */
+  check(target: SuppressionTarget): SuppressionCheckResult {
+    const { sourceFile, line, column, packageName, postconditionId } = target;
+
+    // Get relative file path from project root
+    const relativeFilePath = path.relative(this.projectRoot, sourceFile.fileName);
+
+    const getAnchor = () => computeSuppressionAnchor(sourceFile, line, column ?? 1, packageName, postconditionId);
+
+    let expired: ExpiredSuppression | undefined;
+
+    // Check inline comment suppression
+    const inlineSuppress = getSuppressionForLocation(
+      sourceFile,
+      line,
+      column ?? 1,
+      packageName,
+      postconditionId,
+      this.getInlineSuppressions(sourceFile),
+      this.now
+    );
+
+    if (inlineSuppress && isExpired(inlineSuppress.expires, this.now)) {
+      expired = {
+        source: 'inline-comment',
+        reason: inlineSuppress.reason,
+        expires: inlineSuppress.expires!,
+        ticket: inlineSuppress.ticket
+      };
+    } else if (inlineSuppress) {
+      // Suppressed by inline comment; scoped directives are tracked at their own line
+      const scoped = inlineSuppress.scope !== 'line';
+      const moved = this.updateManifest
+        ? this.recordSuppression({
+          file: relativeFilePath,
+          line: scoped ? inlineSuppress.line : line,
+          column: scoped ? undefined : column,
+          anchor: scoped ? computeDirectiveAnchor(inlineSuppress, this.getInlineSuppressions(sourceFile)) : getAnchor(),
+          scope: inlineSuppress.scope,
+          packageName: scoped ? inlineSuppress.package : packageName,
+          postconditionId: scoped ? inlineSuppress.postconditionId : postconditionId,
+          reason: inlineSuppress.reason,
+          expires: inlineSuppress.expires,
+          ticket: inlineSuppress.ticket,
+          suppressedBy: 'inline-comment'
+        })
+        : undefined;
+
+      return {
+        suppressed: true,
+        source: 'inline-comment',
+        originalSource: inlineSuppress,
+        moved
+      };
+    }
+
+    // Check config file suppression
+    const matchingRules = findMatchingRules(
+      this.getConfig(),
+      relativeFilePath,
+      packageName,
+      postconditionId
+    );
+
+    const rule = matchingRules.find(r => !isExpired(r.expires, this.now)); // Use first active rule
+
+    if (rule) {
+      // Suppressed by config file
+      const moved = this.updateManifest
+        ? this.recordSuppression({
+          file: relativeFilePath,
+          line,
+          column,
+          anchor: getAnchor(),
+          packageName,
+          postconditionId,
+          reason: rule.reason,
+          expires: rule.expires,
+          ticket: rule.ticket,
+          suppressedBy: 'config-file'
+        })
+        : undefined;
+
+      return {
+        suppressed: true,
+        matchedSuppression: rule,
+        source: 'config-file',
+        originalSource: rule,
+        moved
+      };
+    }
+
+    if (!expired && matchingRules.length > 0) {
+      expired = {
+        source: 'config-file',
+        reason: matchingRules[0].reason,
+        expires: matchingRules[0].expires!,
+        ticket: matchingRules[0].ticket
+      };
+    }
+
+    // Not suppressed
+    return {
+      suppressed: false,
+      expired
+    };
+  }
+
+  /**
+   * Record the scoped directives of a file that suppressed no violation
+   *
+   * Their manifest entries are marked as dead (stillViolates: false), so they
+   * show up in dead-suppression detection like any other suppression. Only
+   * call this after every violation of the file went through check().
+   *
+   * @param sourceFile - TypeScript source file
+   * @param usedDirectives - Directives that suppressed something
+   * @returns The unused directives
+   */
+  recordUnusedDirectives(
+    sourceFile: ts.SourceFile,
+    usedDirectives: InlineSuppressionComment[]
+  ): InlineSuppressionComment[] {
+    const usedLines = new Set(usedDirectives.map(directive => directive.line));
+    const directives = this.getInlineSuppressions(sourceFile);
+    const unused = directives
+      .filter(directive => directive.scope !== 'line' && !usedLines.has(directive.line));
+
+    if (this.updateManifest) {
+      for (const directive of unused) {
+        this.recordSuppression({
+          file: path.relative(this.projectRoot, sourceFile.fileName),
+          line: directive.line,
+          anchor: computeDirectiveAnchor(directive, directives),
+          scope: directive.scope,
+          packageName: directive.package,
+          postconditionId: directive.postconditionId,
+          reason: directive.reason,
+          expires: directive.expires,
+          ticket: directive.ticket,
+          suppressedBy: 'inline-comment',
+          stillViolates: false
+        });
+      }
+    }
+
+    return unused;
+  }
+
+  /**
+   * Write the recorded manifest changes
+   *
+   * The changes are applied to the manifest as it is on disk now, under its
+   * lock file, so that runs in parallel do not drop each other's entries.
+   */
+  commit(): void {
+    if (this.pendingUpserts.size === 0 && this.pendingRemovals.size === 0) {
+      return;
+    }
+
+    try {
+      updateManifestSync(this.projectRoot, manifest => {
+        for (const id of this.pendingRemovals) {
+          removeSuppression(manifest, id);
+        }
+
+        for (const suppression of this.pendingUpserts.values()) {
+          // Another run may have created the entry in the meantime
+          const existing = manifest.suppressions.find(s => s.id === suppression.id);
+          if (existing) {
+            suppression.suppressedBy = existing.suppressedBy;
+            suppression.suppressedAt = existing.suppressedAt;
+          }
+
+          upsertSuppression(manifest, suppression);
+        }
+      });
+
+      this.manifest = undefined;
+      this.pendingUpserts.clear();
+      this.pendingRemovals.clear();
+    } catch (error) {
+      // Don't fail the analysis if manifest update fails
+      this.addWarning(`Failed to update suppression manifest: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the problems of this session that did not stop it (e.g., a manifest
+   * that could not be written)
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * Record a warning unless the same one was recorded already
+   */
+  private addWarning(warning: string): void {
+    if (!this.warnings.includes(warning)) {
+      this.warnings.push(warning);
+    }
+  }
+
+  /**
+   * Get the config, loading it on first use
+   */
+  private getConfig(): BehavioralContractsConfig {
+    this.config ??= loadConfigSync(this.projectRoot);
+    return this.config;
+  }
+
+  /**
+   * Get the inline suppressions of a file, parsing them on first use
+   */
+  private getInlineSuppressions(sourceFile: ts.SourceFile): InlineSuppressionComment[] {
+    let suppressions = this.inlineSuppressions.get(sourceFile.fileName);
+
+    if (!suppressions) {
+      const relativeFilePath = path.relative(this.projectRoot, sourceFile.fileName);
+      suppressions = parseInlineSuppressions(sourceFile, (line, error) =>
+        this.addWarning(`Ignored suppression comment at ${relativeFilePath}:${line}: ${error}`)
+      );
+      this.inlineSuppressions.set(sourceFile.fileName, suppressions);
+    }
+
+    return suppressions;
+  }
+
+  /**
+   * Record suppression metadata for the manifest
+   *
+   * Creates or updates a suppression entry in the session's copy of the
+   * manifest. An entry with the same anchor in the same file is taken over,
+   * even if its line differs.
+   *
+   * @param options - Suppression options
+   * @returns The move, if the entry was recorded at another line before
+   */
+  private recordSuppression(options: {
+    file: string;
+    line: number;
+    column?: number;
+    anchor?: string;
+    scope?: SuppressionScope;
+    packageName: string;
+    postconditionId: string;
+    reason: string;
+    expires?: string;
+    ticket?: string;
+    suppressedBy: 'inline-comment' | 'config-file';
+    /** False for scoped directives that suppressed nothing */
+    stillViolates?: boolean;
+  }): MovedSuppression | undefined {
+    try {
+      this.manifest ??= loadManifestSync(this.projectRoot);
+      const manifest = this.manifest;
+
+      const suppression = createSuppression({
+        file: options.file,
+        line: options.line,
+        column: options.column,
+        packageName: options.packageName,
+        postconditionId: options.postconditionId,
+        reason: options.reason,
+        expires: options.expires,
+        ticket: options.ticket,
+        suppressedBy: options.suppressedBy,
+        analyzerVersion: this.analyzerVersion
+      });
+
+      suppression.anchor = options.anchor;
+      if (options.scope && options.scope !== 'line') {
+        suppression.scope = options.scope;
+      }
+
+      // Entries recorded before anchors existed can only be found by line
+      const existing =
+        (options.anchor && manifest.suppressions.find(s => s.file === options.file && s.anchor === options.anchor)) ||
+        manifest.suppressions.find(s => s.id === suppression.id);
+
+      let moved: MovedSuppression | undefined;
+      if (existing) {
+        // Keep who created the suppression and when (e.g., 'cli' for `suppressions add`)
+        suppression.suppressedBy = existing.suppressedBy;
+        suppression.suppressedAt = existing.suppressedAt;
+
+        if (existing.id !== suppression.id) {
+          removeSuppression(manifest, existing.id);
+          this.pendingUpserts.delete(existing.id);
+          this.pendingRemovals.add(existing.id);
+          moved = { suppression, previousLine: existing.line };
+        }
+      }
+
+      // Update last checked time
+      suppression.lastChecked = new Date().toISOString();
+      suppression.stillViolates = options.stillViolates ?? true; // Confirmed to still violate
+
+      upsertSuppression(manifest, suppression);
+      this.pendingRemovals.delete(suppression.id);
+      this.pendingUpserts.set(suppression.id, suppression);
+
+      return moved;
+    } catch (error) {
+      // Don't fail the analysis if manifest update fails
+      this.addWarning(`Failed to update suppression manifest: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+}
@@ -5,6 +5,16 @@
  * and tracking dead suppressions when the analyzer improves.
  */
 
+/**
+ * What a suppression comment covers
+ *
+ * - `line`: the next line (`@behavioral-contract-ignore`)
+ * - `next-block`: the next statement or declaration (`@behavioral-contract-ignore-next-block`)
+ * - `region`: everything up to `@behavioral-contract-ignore-end` (`@behavioral-contract-ignore-start`)
+ * - `file`: the whole file (`@behavioral-contract-ignore-file`)
+ */
+export type SuppressionScope = 'line' | 'next-block' | 'region' | 'file';
+
 /**
  * A single suppression entry
  */
@@ -21,6 +31,15 @@ export interface Suppression {
   /** Optional column number (1-indexed) */
   column?: number;
 
+  /** Line-independent AST anchor (enclosing function, callee chain and clause) */
+  anchor?: string;
+
+  /**
+   * Scope of the directive (default: "line"). Scoped directives get one entry
+   * at the line of the comment, shared by every violation they cover.
+   */
+  scope?: SuppressionScope;
+
   /** Package name (e.g., "axios") */
   package: string;
 
@@ -30,6 +49,12 @@ export interface Suppression {
   /** Human-readable reason for suppression */
   reason: string;
 
+  /** Last day the suppression applies (YYYY-MM-DD) */
+  expires?: string;
+
+  /** Issue tracking the accepted risk (e.g., "ABC-123") */
+  ticket?: string;
+
   /** ISO 8601 timestamp when suppression was created */
   suppressedAt: string;
 
@@ -89,8 +114,19 @@ export interface IgnoreRule {
 
   /** Required reason for suppression */
   reason: string;
+
+  /** Last day the rule applies (YYYY-MM-DD) */
+  expires?: string;
+
+  /** Issue tracking the accepted risk (e.g., "ABC-123") */
+  ticket?: string;
 }
 
+/**
+ * What suppressed a violation: an inline comment or a config file rule
+ */
+export type MatchedSuppression = InlineSuppressionComment | IgnoreRule;
+
 /**
  * Result of parsing an inline suppression comment
  */
@@ -98,6 +134,15 @@ export interface InlineSuppressionComment {
   /** Line number where comment appears */
   line: number;
 
+  /** What the comment covers */
+  scope: SuppressionScope;
+
+  /** First line covered by a scoped directive (1-indexed) */
+  startLine?: number;
+
+  /** Last line covered by a scoped directive (1-indexed, inclusive) */
+  endLine?: number;
+
   /** Package name (or "*" for wildcard) */
   package: string;
 
@@ -107,6 +152,12 @@ export interface InlineSuppressionComment {
   /** Human-readable reason */
   reason: string;
 
+  /** Last day the comment applies (from "; expires: YYYY-MM-DD") */
+  expires?: string;
+
+  /** Issue tracking the accepted risk (from "; ticket: ABC-123") */
+  ticket?: string;
+
   /** Full comment text */
   originalComment: string;
 }
@@ -128,6 +179,37 @@ export interface DeadSuppression {
   improvementReason?: string;
 }
 
+/**
+ * A suppression that was found at a new location
+ *
+ * Code above it changed, or it was reformatted, and the manifest entry was
+ * re-located by its AST anchor.
+ */
+export interface MovedSuppression {
+  /** The suppression at its new location */
+  suppression: Suppression;
+
+  /** Line the suppression was recorded at before */
+  previousLine: number;
+}
+
+/**
+ * A suppression that matched a violation but has expired
+ */
+export interface ExpiredSuppression {
+  /** Where the suppression came from */
+  source: 'inline-comment' | 'config-file';
+
+  /** Reason given for the suppression */
+  reason: string;
+
+  /** Last day the suppression applied (YYYY-MM-DD) */
+  expires: string;
+
+  /** Issue tracking the accepted risk */
+  ticket?: string;
+}
+
 /**
  * Options for suppression matching
  */
@@ -153,5 +235,11 @@ export interface SuppressionCheckResult {
   source?: 'inline-comment' | 'config-file';
 
   /** Original comment or rule */
-  originalSource?: any;
+  originalSource?: MatchedSuppression;
+
+  /** Set when the manifest entry was re-located to this violation */
+  moved?: MovedSuppression;
+
+  /** Set when only expired suppressions matched (the violation is not suppressed) */
+  expired?: ExpiredSuppression;
 }
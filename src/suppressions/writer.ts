@@ -0,0 +1,221 @@
+/**
+ * Suppression Writer
+ *
+ * Creates suppressions in source files and in the config file, so that
+ * neither inline comments nor ignore rules have to be typed by hand.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { generateSuppressionComment, validateSuppressionComment } from './parser.js';
+import { isValidExpiryDate } from './expiry.js';
+import { createSuppression, updateManifestSync, upsertSuppression } from './manifest.js';
+import { computeSuppressionAnchor } from './anchor.js';
+import { IgnoreRule, Suppression } from './types.js';
+import { CONFIG_FILENAME, PACKAGE_JSON_CONFIG_KEY, findProjectConfig } from '../config.js';
+
+/** A ticket is read back from a comment as one token after "ticket:" */
+const TICKET_REGEX = /^[^\s;]+$/;
+
+/**
+ * Inserts a suppression comment above a line
+ *
+ * The comment gets the indentation of the suppressed line and the file's
+ * line ending.
+ *
+ * @param text - File contents
+ * @param line - Line to suppress (1-indexed)
+ * @param packageName - Package name
+ * @param postconditionId - Postcondition ID
+ * @param reason - Human-readable reason
+ * @param fields - Optional expiry date and ticket
+ * @returns The new file contents
+ * @throws Error if the line does not exist or is already suppressed for this clause
+ */
+export function insertSuppressionComment(
+  text: string,
+  line: number,
+  packageName: string,
+  postconditionId: string,
+  reason: string,
+  fields: { expires?: string; ticket?: string } = {}
+): string {
+  const newline = text.includes('\r\n') ? '\r\n' : '\n';
+  const lines = text.split(newline);
+
+  if (line < 1 || line > lines.length) {
+    throw new Error(`Line ${line} does not exist (file has ${lines.length} lines)`);
+  }
+
+  const comment = generateSuppressionComment(packageName, postconditionId, reason, fields);
+  const marker = comment.substring(0, comment.indexOf(':'));
+  if (lines[line - 1].includes(marker) || (line > 1 && lines[line - 2].includes(marker))) {
+    throw new Error(`Line ${line} is already suppressed for ${packageName}/${postconditionId}`);
+  }
+
+  const indentation = lines[line - 1].match(/^\s*/)?.[0] ?? '';
+  lines.splice(line - 1, 0, `${indentation}${comment}`);
+
+  return lines.join(newline);
+}
+
+/**
+ * Appends an ignore rule to the project's configuration
+ *
+ * The rule goes to the file the configuration already lives in (the rc file
+ * or the "behavioral-contracts" key in package.json); `.behavioralcontractsrc.json`
+ * is created if there is no configuration yet.
+ *
+ * @param projectRoot - Project root directory
+ * @param rule - Rule to append
+ * @returns Path of the file that was written
+ */
+export function addIgnoreRule(projectRoot: string, rule: IgnoreRule): string {
+  const loaded = findProjectConfig(projectRoot);
+  const configPath = loaded?.path ?? path.join(projectRoot, CONFIG_FILENAME);
+
+  try {
+    const content = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, 'utf-8')) : {};
+    const config = loaded?.source === 'package.json' ? content[PACKAGE_JSON_CONFIG_KEY] : content;
+
+    config.ignore = [...(config.ignore || []), rule];
+
+    fs.writeFileSync(configPath, JSON.stringify(content, null, 2) + '\n', 'utf-8');
+    return configPath;
+  } catch (error) {
+    throw new Error(
+      `Failed to add ignore rule to ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Options for addSuppression()
+ */
+export interface AddSuppressionOptions {
+  /** Project root directory */
+  projectRoot: string;
+
+  /** File of the violation (absolute or relative to the project root) */
+  file: string;
+
+  /** Line of the violation (1-indexed) */
+  line: number;
+
+  /** Column of the violation (1-indexed) */
+  column?: number;
+
+  /** Package name */
+  packageName: string;
+
+  /** Postcondition ID */
+  postconditionId: string;
+
+  /** Required reason for suppression */
+  reason: string;
+
+  /** Last day the suppression applies (YYYY-MM-DD) */
+  expires?: string;
+
+  /** Issue tracking the accepted risk */
+  ticket?: string;
+
+  /** Insert an inline comment, or append an ignore rule to the config file */
+  target: 'inline-comment' | 'config-file';
+
+  /** Current analyzer version */
+  analyzerVersion: string;
+}
+
+/**
+ * Result of addSuppression()
+ */
+export interface AddSuppressionResult {
+  /** Manifest entry that was recorded */
+  suppression: Suppression;
+
+  /** Source or config file that was written */
+  writtenTo: string;
+}
+
+/**
+ * Suppresses a violation and records it in the manifest
+ *
+ * An inline comment moves the violation down by one line, so its manifest
+ * entry is recorded at the new line, where the next analysis will find it.
+ *
+ * @param options - Suppression to add
+ * @returns The manifest entry and the file that was written
+ * @throws Error if the reason, expiry date or ticket is invalid or the line is already suppressed
+ */
+export function addSuppression(options: AddSuppressionOptions): AddSuppressionResult {
+  const { projectRoot, packageName, postconditionId, reason, expires, ticket } = options;
+
+  // Checked before writing either target; a date with spaces would otherwise end up in the reason
+  if (expires !== undefined && !isValidExpiryDate(expires)) {
+    throw new Error(`Invalid expiry date "${expires}". Expected: YYYY-MM-DD`);
+  }
+
+  // Likewise, a ticket with spaces or a semicolon would end up in the reason
+  if (ticket !== undefined && !TICKET_REGEX.test(ticket)) {
+    throw new Error(`Invalid ticket "${ticket}". Expected an ID without spaces or semicolons (e.g. ABC-123)`);
+  }
+
+  const validation = validateSuppressionComment(
+    generateSuppressionComment(packageName, postconditionId, reason, { expires, ticket })
+  );
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  const absoluteFile = path.resolve(projectRoot, options.file);
+  const relativeFile = path.relative(projectRoot, absoluteFile);
+  let writtenTo: string;
+  let line = options.line;
+
+  if (options.target === 'inline-comment') {
+    const text = fs.readFileSync(absoluteFile, 'utf-8');
+    fs.writeFileSync(
+      absoluteFile,
+      insertSuppressionComment(text, line, packageName, postconditionId, reason, { expires, ticket }),
+      'utf-8'
+    );
+    writtenTo = absoluteFile;
+    line += 1;
+  } else {
+    writtenTo = addIgnoreRule(projectRoot, {
+      file: relativeFile.split(path.sep).join('/'),
+      package: packageName,
+      postconditionId,
+      reason,
+      ...(expires && { expires }),
+      ...(ticket && { ticket })
+    });
+  }
+
+  const suppression = createSuppression({
+    file: relativeFile,
+    line,
+    column: options.column,
+    packageName,
+    postconditionId,
+    reason,
+    expires,
+    ticket,
+    suppressedBy: 'cli',
+    analyzerVersion: options.analyzerVersion
+  });
+
+  const sourceFile = ts.createSourceFile(
+    absoluteFile,
+    fs.readFileSync(absoluteFile, 'utf-8'),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  suppression.anchor = computeSuppressionAnchor(sourceFile, line, options.column ?? 1, packageName, postconditionId);
+
+  updateManifestSync(projectRoot, manifest => upsertSuppression(manifest, suppression));
+
+  return { suppression, writtenTo };
+}
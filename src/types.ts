@@ -2,6 +2,9 @@
  * Core type definitions for behavioral contract verification
  */
 
+import type { DetectorPlugin } from './plugins/types.js';
+import type { InstalledVersionSource } from './installed-versions.js';
+
 export type Severity = 'error' | 'warning' | 'info';
 
 /**
@@ -12,6 +15,58 @@ export interface Precondition {
   description: string;
   source: string;
   severity: Severity;
+  /** How the precondition is verified at call sites (not verified without one) */
+  check?: PreconditionCheck;
+}
+
+/**
+ * How a precondition is verified at a call site
+ *
+ * Each check constrains one argument of the call, or one property of an
+ * options-object argument (see src/preconditions):
+ *
+ *   check:
+ *     kind: required
+ *     argument: 0
+ *     property: timeout
+ */
+export type PreconditionCheck =
+  | RequiredValueCheck
+  | FromEnvCheck
+  | AllowedValuesCheck
+  | ValueRangeCheck;
+
+export type PreconditionCheckKind = PreconditionCheck['kind'];
+
+/** The argument, or property of an options-object argument, that a precondition check constrains */
+export interface PreconditionTarget {
+  /** 0-based position of the argument (default: 0) */
+  argument?: number;
+  /** Property of the argument; dotted for nested objects (e.g., "auth.apiKey") */
+  property?: string;
+}
+
+/** The value must be given (e.g., a timeout must be configured) */
+export interface RequiredValueCheck extends PreconditionTarget {
+  kind: 'required';
+}
+
+/** The value must not be a hardcoded literal (e.g., an API key must come from process.env) */
+export interface FromEnvCheck extends PreconditionTarget {
+  kind: 'from-env';
+}
+
+/** The value, if known, must be one of the values */
+export interface AllowedValuesCheck extends PreconditionTarget {
+  kind: 'allowed-values';
+  values: Array<string | number | boolean>;
+}
+
+/** The value, if a known number, must be within the bounds (inclusive) */
+export interface ValueRangeCheck extends PreconditionTarget {
+  kind: 'range';
+  min?: number;
+  max?: number;
 }
 
 /**
@@ -25,6 +80,76 @@ export interface Postcondition {
   required_handling?: string;
   source: string;
   severity: Severity;
+  /** How the postcondition is verified at call sites (default: try-catch) */
+  check?: PostconditionCheck;
+}
+
+/**
+ * How a postcondition is verified at a call site
+ *
+ * Each kind is implemented by a reusable checker (see src/checks), so
+ * contracts can pick and parameterize one in YAML:
+ *
+ *   check:
+ *     kind: literal-argument
+ *     arguments: [0, 1]
+ */
+export type PostconditionCheck =
+  | TryCatchCheck
+  | NullCheck
+  | FileExportsCheck
+  | LiteralArgumentCheck
+  | CommandDispatchCheck
+  | StatusCodeHandlingCheck;
+
+export type PostconditionCheckKind = PostconditionCheck['kind'];
+
+/** The call must be inside a try-catch or have a .catch() handler */
+export interface TryCatchCheck {
+  kind: 'try-catch';
+}
+
+/** The call's result must be checked for null before it is used (e.g., Clerk's auth()) */
+export interface NullCheck {
+  kind: 'null-check';
+}
+
+/** A project file must exist, import and export specific names (e.g., Next.js middleware.ts) */
+export interface FileExportsCheck {
+  kind: 'file-exports';
+  /** File names to look for, in order (e.g., ["middleware.ts", "middleware.js"]) */
+  files: string[];
+  /** Directories searched, relative to the project root (default: ["", "src", "app"]) */
+  directories?: string[];
+  /** Import the file must have; with a name, a default export must call or be that name */
+  import?: { package: string; name?: string };
+  /** Export the file must have: "default" or the name of a named export */
+  export?: string;
+  /** Whether a missing file is a violation (default: true) */
+  required?: boolean;
+  /** Severity of the violation (default: the postcondition's) */
+  severity?: Severity;
+}
+
+/** Arguments must not be hardcoded literals; e.g., credentials must come from process.env */
+export interface LiteralArgumentCheck {
+  kind: 'literal-argument';
+  /** 0-based positions of the checked arguments (default: all) */
+  arguments?: number[];
+}
+
+/** Applies to calls that dispatch one of the commands, which must have error handling: client.send(new GetObjectCommand()) */
+export interface CommandDispatchCheck {
+  kind: 'command-dispatch';
+  /** Class names of the commands */
+  commands: string[];
+}
+
+/** The call must have error handling that handles the status codes explicitly or retries */
+export interface StatusCodeHandlingCheck {
+  kind: 'status-code-handling';
+  /** HTTP status codes that must be handled (e.g., [429]) */
+  status_codes: number[];
 }
 
 /**
@@ -80,6 +205,11 @@ export interface DetectionRules {
    * to eliminate false positives from pattern matching
    */
   require_instance_tracking?: boolean;
+  /**
+   * If true, the package is an HTTP client: handled errors should also
+   * distinguish network failures from HTTP error responses
+   */
+  http_client?: boolean;
   /** Required event listeners for event-emitting classes */
   required_event_listeners?: RequiredEventListener[];
 }
@@ -103,6 +233,35 @@ export interface PackageContract {
   functions: FunctionContract[];
 }
 
+/**
+ * Replacement of the text between two offsets of a file
+ */
+export interface TextEdit {
+  /** File the offsets refer to */
+  file: string;
+  /** Start offset (0-based, inclusive) */
+  start: number;
+  /** End offset (0-based, exclusive) */
+  end: number;
+  /** Text inserted in place of the range */
+  replacement: string;
+}
+
+/**
+ * Kinds of codemods that can fix a violation
+ */
+export type CodemodKind = 'try-catch' | 'event-listener' | 'null-check';
+
+/**
+ * Machine-applicable fix for a violation
+ */
+export interface CodeFix {
+  kind: CodemodKind;
+  /** Short description of the change (e.g., "Wrap in try/catch") */
+  description: string;
+  edits: TextEdit[];
+}
+
 /**
  * A violation found in user code
  */
@@ -123,6 +282,34 @@ export interface Violation {
     endLine: number;
     lines: Array<{ line: number; content: string; highlighted: boolean }>;
   };
+  /** Enclosing function/method/class path (e.g., "UserService.getUser") */
+  enclosing_symbol?: string;
+  /** Line-independent fingerprint used for baselines and dashboards */
+  fingerprint?: string;
+  /** Text edits that add the required handling (not yet verified; see `verify-cli fix`) */
+  fix?: CodeFix;
+  /** For violations reported at a caller: the calls the errors propagated through, starting at the contract call */
+  related_locations?: RelatedLocation[];
+  /** Name of the detector plugin that reported this violation (its `id` starts with "<plugin>/") */
+  plugin?: string;
+  /** The suppression that hid this violation until it expired */
+  expired_suppression?: {
+    source: 'inline-comment' | 'config-file';
+    reason: string;
+    /** Last day the suppression applied (YYYY-MM-DD) */
+    expires: string;
+    ticket?: string;
+  };
+}
+
+/**
+ * A location related to a violation, with what happens there
+ */
+export interface RelatedLocation {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
 }
 
 /**
@@ -150,8 +337,72 @@ export interface AuditRecord {
   packages_analyzed: string[];
   contracts_applied: number;
   files_analyzed: number;
+  /** Findings below this severity were not reported (--min-severity) */
+  min_severity?: Severity;
   violations: Violation[];
   summary: VerificationSummary;
+  /** Comparison against a baseline audit record (when --baseline is used) */
+  baseline?: BaselineSummary;
+  /** Per-workspace results (when --workspaces is used) */
+  workspaces?: WorkspaceBreakdown[];
+  /** Detector plugins that ran */
+  plugins?: Array<{ name: string; version?: string }>;
+  /** Contract edge cases at the call sites that use them (with --edge-cases); not counted in the summary */
+  edge_cases?: Violation[];
+  /** Semver match of each contract whose package is installed */
+  contract_versions?: ContractVersionMatch[];
+}
+
+/**
+ * How a contract's semver range compares with the installed version of its package
+ */
+export interface ContractVersionMatch {
+  package: string;
+  contract_version: string;
+  /** Range from the contract */
+  semver: string;
+  installed_version: string;
+  installed_version_source: InstalledVersionSource;
+  /** 'mismatch' contracts are not applied; 'unknown' ones (unparseable version or range) are */
+  match: 'match' | 'mismatch' | 'unknown';
+}
+
+/**
+ * Results of one workspace package in a monorepo run
+ */
+export interface WorkspaceBreakdown {
+  /** Package name (or path when the package has no name) */
+  name: string;
+  /** Workspace directory relative to the monorepo root */
+  path: string;
+  /** tsconfig.json the workspace was analyzed with */
+  tsconfig: string;
+  files_analyzed: number;
+  contracts_applied: number;
+  /** All violations found in the workspace */
+  summary: VerificationSummary;
+  /** Overall health score (0-100) */
+  health_score: number;
+  /** Whether the workspace passes (new violations only with a baseline; warnings count with --fail-on-warnings) */
+  passed: boolean;
+}
+
+/**
+ * Result of comparing a run against a baseline audit record
+ */
+export interface BaselineSummary {
+  /** Path to the baseline audit record */
+  path: string;
+  /** Violations not present in the baseline */
+  new_count: number;
+  /** Violations already present in the baseline */
+  existing_count: number;
+  /** Baseline violations that no longer occur */
+  fixed_count: number;
+  /** Fingerprints of the new violations */
+  new_fingerprints: string[];
+  /** Baseline violations that no longer occur */
+  fixed: Violation[];
 }
 
 /**
@@ -178,6 +429,17 @@ export interface CallSiteAnalysis {
   hasRetryLogic: boolean;
 }
 
+/**
+ * A detection pass of the analyzer
+ *
+ * - postconditions: calls to contract functions without the required handling
+ * - async-errors: unprotected awaits and empty catch blocks
+ * - return-values: unchecked error return values
+ * - event-listeners: instances missing required event listeners
+ * - preconditions: contract function calls whose arguments break the preconditions
+ */
+export type AnalyzerPass = 'postconditions' | 'async-errors' | 'return-values' | 'event-listeners' | 'preconditions';
+
 /**
  * Configuration options for the analyzer
  */
@@ -189,15 +451,50 @@ export interface AnalyzerConfig {
   severityThreshold?: Severity;
   /** Whether to include test files in analysis (default: false) */
   includeTests?: boolean;
+  /** Only analyze these files (e.g., from --changed-since or --staged) */
+  changedFiles?: ChangedFile[];
+  /** Only report violations on changed lines of changedFiles (default: false) */
+  changedLinesOnly?: boolean;
+  /** Record suppressions in .verify-cli/suppressions.json (default: true) */
+  updateSuppressionManifest?: boolean;
+  /** Detection passes to run (default: all) */
+  passes?: AnalyzerPass[];
+  /** Detector plugins to run on each file after the passes */
+  plugins?: DetectorPlugin[];
+  /** Collect contract edge cases at their call sites (default: false; see Analyzer.getEdgeCaseFindings) */
+  edgeCases?: boolean;
+}
+
+/**
+ * An inclusive range of 1-based line numbers
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A file changed relative to a git ref or the index
+ */
+export interface ChangedFile {
+  /** Absolute path to the file */
+  file: string;
+  /** Added or modified line ranges */
+  ranges: LineRange[];
 }
 
 /**
  * Result of loading the corpus
  */
 export interface CorpusLoadResult {
+  /** Newest contract of each package */
   contracts: Map<string, PackageContract>;
+  /** Every contract of each package, oldest semver range first */
+  versions: Map<string, PackageContract[]>;
   errors: string[];
   skipped?: Array<{ package: string; status: string; reason: string }>;
+  /** Version from the corpus package.json (undefined if the corpus has none) */
+  version?: string;
 }
 
 /**
@@ -209,6 +506,13 @@ export interface DiscoveredPackage {
   source: 'package.json' | 'import' | 'both';
   hasContract: boolean;
   contractVersion?: string;
+  /** Version resolved from the lockfile or node_modules */
+  installedVersion?: string;
+  installedVersionSource?: InstalledVersionSource;
+  /** Semver range of the contract */
+  contractSemver?: string;
+  /** Whether the installed version satisfies the contract's range */
+  contractMatch?: ContractVersionMatch['match'];
   usedIn: string[]; // Files where the package is imported
 }
 
@@ -0,0 +1,192 @@
+/**
+ * Watch Mode
+ *
+ * Keeps a TypeScript watch program alive and re-analyzes only the files the
+ * builder reports as affected (changed files and their dependents). Each
+ * rebuild prints the violations that appeared or disappeared since the
+ * previous run instead of regenerating report artifacts.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import chalk from 'chalk';
+import type { AnalyzerConfig, PackageContract, Violation } from './types.js';
+import { Analyzer } from './analyzer.js';
+import { compareWithBaseline } from './baseline.js';
+import { computeViolationFingerprint } from './fingerprint.js';
+import {
+  enrichViolationsWithSnippets,
+  generateAuditRecord,
+  generateSummary,
+  printTerminalReport,
+  printWatchReport,
+} from './reporter.js';
+
+export interface WatchOptions {
+  /** Project root used to fingerprint violations */
+  projectRoot: string;
+  /** Packages with loaded contracts (shown in the initial report) */
+  packagesAnalyzed: string[];
+  /** Corpus version recorded in the initial report */
+  corpusVersion: string;
+}
+
+/**
+ * A running watch session
+ */
+export interface WatchHandle {
+  /** Stops watching the file system */
+  close(): void;
+}
+
+/**
+ * Starts watch mode for a tsconfig
+ *
+ * The first build prints the full terminal report; every later rebuild prints
+ * only new and fixed violations for the affected files.
+ */
+export function startWatchMode(
+  config: AnalyzerConfig,
+  contracts: Map<string, PackageContract>,
+  options: WatchOptions
+): WatchHandle {
+  const violationsByFile = new Map<string, Violation[]>();
+  let analyzer: Analyzer | null = null;
+  let isFirstBuild = true;
+
+  // Reports are printed in build order even though snippet enrichment is async
+  let reportQueue: Promise<void> = Promise.resolve();
+
+  const host = ts.createWatchCompilerHost(
+    config.tsconfigPath,
+    undefined,
+    ts.sys,
+    ts.createSemanticDiagnosticsBuilderProgram,
+    () => { /* Type errors are not our concern */ },
+    () => { /* We print our own status */ }
+  );
+
+  host.afterProgramCreate = builderProgram => {
+    const program = builderProgram.getProgram();
+
+    if (analyzer) {
+      analyzer.updateProgram(program);
+    } else {
+      analyzer = new Analyzer(config, contracts, program);
+    }
+
+    // Files removed from the program lose all their violations
+    const affectedFiles = new Set(getAffectedFiles(builderProgram));
+    for (const fileName of violationsByFile.keys()) {
+      if (!program.getSourceFile(fileName)) {
+        affectedFiles.add(fileName);
+      }
+    }
+
+    // Rebuilds triggered by directory events may not affect any file
+    if (affectedFiles.size === 0 && !isFirstBuild) {
+      return;
+    }
+
+    const violations = analyzer.analyzeFiles(Array.from(affectedFiles));
+    const stats = analyzer.getStats();
+    for (const warning of analyzer.getWarnings()) {
+      console.warn(chalk.yellow(`Warning: ${warning}`));
+    }
+    const firstBuild = isFirstBuild;
+    isFirstBuild = false;
+
+    reportQueue = reportQueue
+      .then(async () => {
+        const enriched = await enrichViolationsWithSnippets(violations);
+        for (const violation of enriched) {
+          violation.fingerprint = computeViolationFingerprint(violation, options.projectRoot);
+        }
+
+        const previous = Array.from(affectedFiles).flatMap(fileName => violationsByFile.get(fileName) || []);
+        const changes = compareWithBaseline(enriched, previous, options.projectRoot);
+
+        for (const fileName of affectedFiles) {
+          violationsByFile.delete(fileName);
+        }
+        for (const violation of enriched) {
+          const fileName = toProgramFileName(violation.file);
+          const fileViolations = violationsByFile.get(fileName) || [];
+          fileViolations.push(violation);
+          violationsByFile.set(fileName, fileViolations);
+        }
+
+        const allViolations = Array.from(violationsByFile.values()).flat();
+
+        if (firstBuild) {
+          const record = await generateAuditRecord(allViolations, {
+            tsconfigPath: config.tsconfigPath,
+            packagesAnalyzed: options.packagesAnalyzed,
+            contractsApplied: stats.contractsApplied,
+            filesAnalyzed: stats.filesAnalyzed,
+            corpusVersion: options.corpusVersion,
+            projectRoot: options.projectRoot,
+            minSeverity: config.severityThreshold,
+          });
+          printTerminalReport(record);
+          console.log(chalk.dim('Watching for file changes...\n'));
+        } else {
+          printWatchReport(
+            { newViolations: changes.newViolations, fixedViolations: changes.fixedViolations },
+            generateSummary(allViolations),
+            affectedFiles.size
+          );
+        }
+      })
+      .catch(error => {
+        console.error(chalk.red(`Error: Failed to report watch results: ${error instanceof Error ? error.message : String(error)}`));
+      });
+  };
+
+  const watchProgram = ts.createWatchProgram(host);
+
+  return {
+    close: () => watchProgram.close(),
+  };
+}
+
+/**
+ * Drains the builder's affected-file queue (changed files and their dependents)
+ *
+ * Returns every file of the program when the builder reports that the whole
+ * program is affected (e.g., after a compiler option change).
+ */
+export function getAffectedFiles(builderProgram: ts.SemanticDiagnosticsBuilderProgram): string[] {
+  const affected: string[] = [];
+  let wholeProgram = false;
+
+  let result = builderProgram.getSemanticDiagnosticsOfNextAffectedFile();
+  while (result) {
+    if (isSourceFile(result.affected)) {
+      affected.push(result.affected.fileName);
+    } else {
+      wholeProgram = true;
+    }
+    result = builderProgram.getSemanticDiagnosticsOfNextAffectedFile();
+  }
+
+  if (wholeProgram) {
+    return builderProgram.getSourceFiles().map(sourceFile => sourceFile.fileName);
+  }
+
+  return affected;
+}
+
+/**
+ * Distinguishes an affected source file from an affected program
+ */
+function isSourceFile(affected: ts.SourceFile | ts.Program): affected is ts.SourceFile {
+  return (affected as ts.SourceFile).kind === ts.SyntaxKind.SourceFile;
+}
+
+/**
+ * Normalizes a violation's file path to the form used by program source files
+ */
+function toProgramFileName(fileName: string): string {
+  return path.resolve(fileName).split(path.sep).join('/');
+}
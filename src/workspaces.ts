@@ -0,0 +1,228 @@
+/**
+ * Workspaces
+ *
+ * Finds the packages of a monorepo (npm/yarn `workspaces`, pnpm-workspace.yaml
+ * and tsconfig project `references`) and merges their per-package results into
+ * one audit record.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { glob } from 'glob';
+import * as YAML from 'yaml';
+import type { DiscoveredPackage, PackageDiscoveryResult } from './types.js';
+
+/**
+ * A workspace package to analyze on its own
+ */
+export interface Workspace {
+  /** Package name from package.json (or the path relative to the root) */
+  name: string;
+  /** Absolute path to the workspace directory */
+  dir: string;
+  /** Absolute path to the workspace's tsconfig.json */
+  tsconfigPath: string;
+}
+
+/**
+ * Result of looking for workspaces
+ */
+export interface WorkspaceDiscoveryResult {
+  workspaces: Workspace[];
+  /** Workspace directories that cannot be analyzed (e.g., no tsconfig.json) */
+  skipped: Array<{ dir: string; reason: string }>;
+}
+
+/**
+ * Finds the workspace packages of a monorepo
+ *
+ * Combines npm/yarn `workspaces` in package.json, `packages` in
+ * pnpm-workspace.yaml and the `references` of the root tsconfig.json
+ * (followed recursively). A directory listed by several sources is analyzed once.
+ *
+ * @param rootDir - Monorepo root
+ * @throws Error if a workspace definition cannot be parsed
+ */
+export async function discoverWorkspaces(rootDir: string): Promise<WorkspaceDiscoveryResult> {
+  const root = path.resolve(rootDir);
+  const tsconfigByDir = new Map<string, string>();
+
+  const patterns = [...readPackageJsonWorkspaces(root), ...readPnpmWorkspaces(root)];
+  for (const dir of await expandWorkspacePatterns(root, patterns)) {
+    tsconfigByDir.set(dir, path.join(dir, 'tsconfig.json'));
+  }
+
+  const rootTsconfig = path.join(root, 'tsconfig.json');
+  if (fs.existsSync(rootTsconfig)) {
+    for (const tsconfigPath of readTsconfigReferences(rootTsconfig, new Set())) {
+      tsconfigByDir.set(path.dirname(tsconfigPath), tsconfigPath);
+    }
+  }
+
+  const workspaces: Workspace[] = [];
+  const skipped: WorkspaceDiscoveryResult['skipped'] = [];
+
+  for (const [dir, tsconfigPath] of tsconfigByDir) {
+    if (!fs.existsSync(tsconfigPath)) {
+      skipped.push({ dir, reason: 'no tsconfig.json' });
+      continue;
+    }
+    workspaces.push({ name: readPackageName(dir) || path.relative(root, dir) || '.', dir, tsconfigPath });
+  }
+
+  workspaces.sort((a, b) => a.dir.localeCompare(b.dir));
+  return { workspaces, skipped };
+}
+
+/**
+ * Merges the package discovery results of several workspaces
+ *
+ * Packages used by more than one workspace are listed once, with the files of
+ * every workspace in `usedIn`.
+ */
+export function mergePackageDiscovery(results: PackageDiscoveryResult[]): PackageDiscoveryResult {
+  const byName = new Map<string, DiscoveredPackage>();
+
+  for (const result of results) {
+    for (const pkg of result.packages) {
+      const existing = byName.get(pkg.name);
+      if (!existing) {
+        byName.set(pkg.name, { ...pkg, usedIn: [...pkg.usedIn] });
+        continue;
+      }
+
+      existing.usedIn.push(...pkg.usedIn.filter(file => !existing.usedIn.includes(file)));
+      if (existing.source !== pkg.source) {
+        existing.source = 'both';
+      }
+      if (existing.version === 'unknown' && pkg.version !== 'unknown') {
+        existing.version = pkg.version;
+      }
+    }
+  }
+
+  const packages = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+  const withContracts = packages.filter(p => p.hasContract).length;
+
+  return {
+    total: packages.length,
+    withContracts,
+    withoutContracts: packages.length - withContracts,
+    packages,
+  };
+}
+
+/**
+ * Reads npm/yarn workspace globs from the root package.json
+ */
+function readPackageJsonWorkspaces(root: string): string[] {
+  const packageJsonPath = path.join(root, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    return [];
+  }
+
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    // npm uses an array, yarn classic also allows { packages: [...] }
+    const workspaces = Array.isArray(packageJson.workspaces)
+      ? packageJson.workspaces
+      : packageJson.workspaces?.packages;
+    return Array.isArray(workspaces) ? workspaces.filter((p: unknown) => typeof p === 'string') : [];
+  } catch (error) {
+    throw new Error(`Failed to read workspaces from ${packageJsonPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Reads workspace globs from pnpm-workspace.yaml
+ */
+function readPnpmWorkspaces(root: string): string[] {
+  const pnpmPath = path.join(root, 'pnpm-workspace.yaml');
+  if (!fs.existsSync(pnpmPath)) {
+    return [];
+  }
+
+  try {
+    const config = YAML.parse(fs.readFileSync(pnpmPath, 'utf-8'));
+    return Array.isArray(config?.packages) ? config.packages.filter((p: unknown) => typeof p === 'string') : [];
+  } catch (error) {
+    throw new Error(`Failed to read ${pnpmPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Expands workspace globs to directories containing a package.json
+ *
+ * Patterns starting with "!" exclude directories, as in pnpm and yarn.
+ */
+async function expandWorkspacePatterns(root: string, patterns: string[]): Promise<string[]> {
+  const include = patterns.filter(p => !p.startsWith('!')).map(toPackageJsonGlob);
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => toPackageJsonGlob(p.substring(1)));
+
+  if (include.length === 0) {
+    return [];
+  }
+
+  const packageJsonFiles = await glob(include, {
+    cwd: root,
+    absolute: true,
+    ignore: ['**/node_modules/**', ...exclude],
+  });
+
+  return Array.from(new Set(packageJsonFiles.map(file => path.dirname(file))));
+}
+
+/**
+ * Turns a workspace directory glob into a glob for its package.json
+ */
+function toPackageJsonGlob(pattern: string): string {
+  return `${pattern.replace(/^\.\//, '').replace(/\/+$/, '')}/package.json`;
+}
+
+/**
+ * Collects the tsconfig files referenced by a tsconfig, following nested references
+ */
+function readTsconfigReferences(tsconfigPath: string, visited: Set<string>): string[] {
+  if (visited.has(tsconfigPath)) {
+    return [];
+  }
+  visited.add(tsconfigPath);
+
+  const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (configFile.error) {
+    throw new Error(`Failed to read ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')}`);
+  }
+
+  const references: Array<{ path?: string }> = configFile.config?.references || [];
+  const found: string[] = [];
+
+  for (const reference of references) {
+    if (typeof reference.path !== 'string') continue;
+
+    // A reference may point at a directory or at a specific tsconfig file
+    let referenced = path.resolve(path.dirname(tsconfigPath), reference.path);
+    if (!referenced.endsWith('.json')) {
+      referenced = path.join(referenced, 'tsconfig.json');
+    }
+
+    found.push(referenced);
+    if (fs.existsSync(referenced)) {
+      found.push(...readTsconfigReferences(referenced, visited));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Reads the package name of a workspace directory
+ */
+function readPackageName(dir: string): string | undefined {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+    return typeof packageJson.name === 'string' ? packageJson.name : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Programmatic API Tests
+ * Tests that verify() returns results without side effects
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { verify, verifyWorkspaces, writeBaseline } from '../src/api.js';
+import type { PackageContract } from '../src/types.js';
+
+function createContracts(): Map<string, PackageContract> {
+  const contracts = new Map<string, PackageContract>();
+  contracts.set('axios', {
+    package: 'axios',
+    semver: '*',
+    contract_version: '1.0.0',
+    maintainer: 'test',
+    status: 'production',
+    functions: [
+      {
+        name: 'get',
+        import_path: 'axios',
+        description: 'GET request',
+        postconditions: [
+          {
+            id: 'network-failure',
+            condition: 'Network error',
+            throws: 'AxiosError',
+            required_handling: 'try-catch',
+            severity: 'error',
+          },
+        ],
+      },
+    ],
+  });
+  return contracts;
+}
+
+function writeAxiosStub(dir: string): void {
+  fs.mkdirSync(path.join(dir, 'node_modules', 'axios'), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, 'node_modules', 'axios', 'index.d.ts'),
+    'declare const axios: { get(url: string): Promise<unknown> };\nexport default axios;\n'
+  );
+}
+
+const TSCONFIG = {
+  compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+  include: ['*.ts'],
+};
+
+const UNHANDLED_CALL = "import axios from 'axios';\n\nexport async function load() {\n  return axios.get('/users');\n}\n";
+
+describe('verify', () => {
+  let projectDir: string;
+  let contracts: Map<string, PackageContract>;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-api-'));
+
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify(TSCONFIG));
+    writeAxiosStub(projectDir);
+    fs.writeFileSync(path.join(projectDir, 'api.ts'), UNHANDLED_CALL);
+
+    contracts = createContracts();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should return the audit record and health metrics', async () => {
+    const stages: string[] = [];
+    const result = await verify({
+      tsconfig: projectDir,
+      contracts,
+      discoverPackages: false,
+      onProgress: event => stages.push(event.stage),
+    });
+
+    expect(result.record.violations).toHaveLength(1);
+    expect(result.record.violations[0].contract_clause).toBe('network-failure');
+    expect(result.reportRecord).toBe(result.record);
+    expect(result.health).toHaveProperty('riskLevel');
+    expect(stages).toEqual(['analysis-start', 'analysis-complete']);
+  });
+
+  it('should not write anything to the project', async () => {
+    const before = fs.readdirSync(projectDir).sort();
+
+    await verify({ tsconfig: projectDir, contracts, discoverPackages: false });
+
+    expect(fs.readdirSync(projectDir).sort()).toEqual(before);
+  });
+
+  it('should only report new violations against a baseline', async () => {
+    const first = await verify({ tsconfig: projectDir, contracts, discoverPackages: false });
+    const baselinePath = path.join(os.tmpdir(), `${path.basename(projectDir)}-baseline.json`);
+    writeBaseline(first.record, baselinePath);
+
+    try {
+      const result = await verify({ tsconfig: projectDir, contracts, discoverPackages: false, baseline: baselinePath });
+
+      expect(result.record.violations).toHaveLength(1);
+      expect(result.reportRecord.violations).toHaveLength(0);
+      expect(result.record.baseline?.existing_count).toBe(1);
+    } finally {
+      fs.rmSync(baselinePath, { force: true });
+    }
+  });
+
+  it('should record the version of the corpus it loaded', async () => {
+    const corpusDir = path.join(projectDir, 'corpus');
+    fs.mkdirSync(path.join(corpusDir, 'schema'), { recursive: true });
+    fs.mkdirSync(path.join(corpusDir, 'packages', 'axios'), { recursive: true });
+    fs.writeFileSync(path.join(corpusDir, 'schema', 'contract.schema.json'), '{}');
+    fs.writeFileSync(path.join(corpusDir, 'packages', 'axios', 'contract.yaml'), JSON.stringify(contracts.get('axios')));
+    fs.writeFileSync(path.join(corpusDir, 'package.json'), JSON.stringify({ version: '2.3.0' }));
+
+    const result = await verify({ tsconfig: projectDir, corpus: corpusDir, discoverPackages: false });
+
+    expect(result.record.corpus_version).toBe('2.3.0');
+    expect((await verify({ tsconfig: projectDir, contracts, discoverPackages: false })).record.corpus_version).toBe('unknown');
+  });
+
+  it('should throw instead of exiting for a missing tsconfig', async () => {
+    await expect(verify({ tsconfig: path.join(projectDir, 'missing.json'), contracts }))
+      .rejects.toThrow(/tsconfig not found/);
+  });
+
+  it('should require a corpus or contracts', async () => {
+    await expect(verify({ tsconfig: projectDir })).rejects.toThrow(/"corpus" or "contracts"/);
+  });
+});
+
+describe('verifyWorkspaces', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-api-mono-'));
+    fs.writeFileSync(path.join(rootDir, 'package.json'), JSON.stringify({ private: true, workspaces: ['packages/*'] }));
+    writeAxiosStub(rootDir);
+
+    for (const name of ['api', 'web']) {
+      const dir = path.join(rootDir, 'packages', name);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: `@acme/${name}`, dependencies: { axios: '^1.0.0' } }));
+      fs.writeFileSync(path.join(dir, 'tsconfig.json'), JSON.stringify(TSCONFIG));
+    }
+    fs.writeFileSync(path.join(rootDir, 'packages', 'api', 'client.ts'), UNHANDLED_CALL);
+    fs.writeFileSync(path.join(rootDir, 'packages', 'web', 'index.ts'), 'export const ready = true;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should merge workspaces into one record with per-workspace status', async () => {
+    const result = await verifyWorkspaces({ root: rootDir, contracts: createContracts() });
+
+    expect(result.record.violations).toHaveLength(1);
+    expect(result.record.files_analyzed).toBe(2);
+    expect(result.record.package_discovery.packages.map(p => p.name)).toEqual(['axios']);
+    expect(result.record.workspaces?.map(w => [w.name, w.path, w.passed])).toEqual([
+      ['@acme/api', path.join('packages', 'api'), false],
+      ['@acme/web', path.join('packages', 'web'), true],
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Baseline Tests
+ * Tests matching of violations against a baseline audit record
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareWithBaseline, summarizeBaseline, applyBaseline } from '../src/baseline.js';
+import { computeViolationFingerprint, normalizeSnippetLine, FINGERPRINT_VERSION } from '../src/fingerprint.js';
+import type { AuditRecord, Violation } from '../src/types.js';
+
+const projectRoot = '/repo';
+
+function makeViolation(line: number, content: string, overrides: Partial<Violation> = {}): Violation {
+  return {
+    id: 'axios-network-failure',
+    severity: 'error',
+    file: '/repo/src/api/client.ts',
+    line,
+    column: 5,
+    package: 'axios',
+    function: 'get',
+    contract_clause: 'network-failure',
+    description: 'No try-catch block found.',
+    source_doc: 'https://axios-http.com/docs/handling_errors',
+    enclosing_symbol: 'ApiClient.load',
+    code_snippet: {
+      startLine: line,
+      endLine: line,
+      lines: [{ line, content, highlighted: true }],
+    },
+    ...overrides,
+  };
+}
+
+function makeRecord(violations: Violation[]): AuditRecord {
+  return {
+    tool: '@behavioral-contracts/verify-cli',
+    tool_version: '1.2.1',
+    corpus_version: '1.0.0',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    tsconfig: './tsconfig.json',
+    packages_analyzed: ['axios'],
+    contracts_applied: 10,
+    files_analyzed: 3,
+    violations,
+    summary: {
+      total_violations: violations.length,
+      error_count: violations.length,
+      warning_count: 0,
+      info_count: 0,
+      passed: violations.length === 0,
+    },
+  };
+}
+
+describe('Baseline', () => {
+  it('should match violations that moved to a different line', () => {
+    const baseline = [makeViolation(12, 'const res = await axios.get(url);')];
+    const current = [makeViolation(40, '    const res = await axios.get(url); // moved')];
+
+    const comparison = compareWithBaseline(current, baseline, projectRoot);
+
+    expect(comparison.newViolations).toHaveLength(0);
+    expect(comparison.existingViolations).toHaveLength(1);
+    expect(comparison.fixedViolations).toHaveLength(0);
+  });
+
+  it('should report new and fixed violations', () => {
+    const baseline = [makeViolation(12, 'const res = await axios.get(url);')];
+    const current = [makeViolation(20, 'await axios.post(url, body);', { function: 'post' })];
+
+    const comparison = compareWithBaseline(current, baseline, projectRoot);
+
+    expect(comparison.newViolations.map(v => v.function)).toEqual(['post']);
+    expect(comparison.fixedViolations.map(v => v.function)).toEqual(['get']);
+  });
+
+  it('should count identical findings individually', () => {
+    const baseline = [makeViolation(12, 'await axios.get(url);')];
+    const current = [
+      makeViolation(12, 'await axios.get(url);'),
+      makeViolation(13, 'await axios.get(url);'),
+    ];
+
+    const comparison = compareWithBaseline(current, baseline, projectRoot);
+
+    expect(comparison.existingViolations).toHaveLength(1);
+    expect(comparison.newViolations).toHaveLength(1);
+    expect(comparison.newViolations[0].line).toBe(13);
+  });
+
+  it('should prefer stored fingerprints over recomputing them', () => {
+    const stored = makeViolation(12, 'await axios.get(url);', { fingerprint: `${FINGERPRINT_VERSION}:stored` });
+    const current = makeViolation(12, 'await axios.get(url);');
+    current.fingerprint = computeViolationFingerprint(current, projectRoot);
+
+    const comparison = compareWithBaseline([current], [stored], projectRoot);
+
+    expect(comparison.newViolations).toHaveLength(1);
+    expect(comparison.fixedViolations).toHaveLength(1);
+  });
+
+  it('should recompute stored fingerprints of an older version', () => {
+    const stored = makeViolation(12, 'await axios.get(url);', { fingerprint: 'v1:stored' });
+    const current = makeViolation(12, 'await axios.get(url);');
+    current.fingerprint = computeViolationFingerprint(current, projectRoot);
+
+    const comparison = compareWithBaseline([current], [stored], projectRoot);
+
+    expect(current.fingerprint).toMatch(/^v2:/);
+    expect(comparison.existingViolations).toHaveLength(1);
+    expect(comparison.newViolations).toHaveLength(0);
+  });
+
+  it('should restrict the record to new violations with a baseline summary', () => {
+    const existing = makeViolation(12, 'await axios.get(url);');
+    const added = makeViolation(30, 'await axios.delete(url);', { function: 'delete' });
+    const record = makeRecord([existing, added]);
+
+    const comparison = compareWithBaseline(record.violations, [existing], projectRoot);
+    const summary = summarizeBaseline(comparison, '/repo/baseline.json', projectRoot);
+    const filtered = applyBaseline(record, comparison, summary);
+
+    expect(filtered.violations).toEqual([added]);
+    expect(filtered.summary.error_count).toBe(1);
+    expect(filtered.baseline).toMatchObject({ new_count: 1, existing_count: 1, fixed_count: 0 });
+    expect(filtered.baseline?.new_fingerprints).toEqual([computeViolationFingerprint(added, projectRoot)]);
+    expect(record.violations).toHaveLength(2);
+  });
+});
+
+describe('normalizeSnippetLine', () => {
+  it('should strip line comments and whitespace but keep // inside strings, templates and regexes', () => {
+    expect(normalizeSnippetLine("    await   axios.get(url); // fetch users")).toBe('await axios.get(url);');
+    expect(normalizeSnippetLine("axios.get('https://a.example')")).not.toBe(normalizeSnippetLine("axios.get('https://b.example')"));
+    expect(normalizeSnippetLine('axios.get(`https://${host}/users//${id}`) // note')).toBe('axios.get(`https://${host}/users//${id}`)');
+    expect(normalizeSnippetLine('const re = /a\\/\\/b/; // comment')).toBe('const re = /a\\/\\/b/;');
+    expect(normalizeSnippetLine('const half = total / 2; // comment')).toBe('const half = total / 2;');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Call Graph Tests
+ * Tests following errors through project wrapper functions to their callers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { Analyzer } from '../src/analyzer.js';
+import { CallGraphAnalyzer } from '../src/analyzers/call-graph-analyzer.js';
+import type { AnalyzerConfig, PackageContract, Violation } from '../src/types.js';
+
+const contracts = new Map<string, PackageContract>([['axios', {
+  package: 'axios',
+  semver: '*',
+  contract_version: '1.0.0',
+  maintainer: 'test',
+  status: 'production',
+  functions: [{
+    name: 'get',
+    import_path: 'axios',
+    description: 'GET request',
+    postconditions: [{
+      id: 'network-failure',
+      condition: 'Network error',
+      throws: 'AxiosError',
+      required_handling: 'try-catch',
+      severity: 'error',
+    }],
+  }],
+} as PackageContract]]);
+
+const helper =
+  "import axios from 'axios';\n\n" +
+  'export async function apiGet(url: string) {\n' +
+  '  const res = await axios.get(url);\n' +
+  '  return res.data;\n' +
+  '}\n';
+
+describe('interprocedural error handling', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-call-graph-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+      include: ['*.ts'],
+    }));
+    fs.mkdirSync(path.join(projectDir, 'node_modules', 'axios'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, 'node_modules', 'axios', 'index.d.ts'),
+      'declare const axios: { get(url: string): Promise<{ data: unknown }> };\nexport default axios;\n'
+    );
+    fs.writeFileSync(path.join(projectDir, 'http.ts'), helper);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function createAnalyzer(callers: string, config: Partial<AnalyzerConfig> = {}): Analyzer {
+    fs.writeFileSync(path.join(projectDir, 'users.ts'), callers);
+
+    return new Analyzer({
+      tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+      corpusPath: '',
+      updateSuppressionManifest: false,
+      ...config,
+    }, contracts);
+  }
+
+  function analyze(callers: string): Violation[] {
+    return createAnalyzer(callers).analyze().filter(v => v.severity === 'error');
+  }
+
+  it('should not flag a helper whose callers all handle its errors', () => {
+    const violations = analyze(
+      "import { apiGet } from './http';\n\n" +
+      'export async function loadUser(id: string) {\n' +
+      '  try {\n' +
+      '    return await apiGet(`/users/${id}`);\n' +
+      '  } catch (error) {\n' +
+      '    return null;\n' +
+      '  }\n' +
+      '}\n'
+    );
+
+    expect(violations).toEqual([]);
+  });
+
+  it('should report the violation at the unprotected caller with the propagation path', () => {
+    const violations = analyze(
+      "import { apiGet as get } from './http';\n\n" +
+      'export async function loadUser(id: string) {\n' +
+      '  return get(`/users/${id}`);\n' +
+      '}\n\n' +
+      'export async function refresh() {\n' +
+      "  await loadUser('me');\n" +
+      '}\n\n' +
+      'export async function show() {\n' +
+      '  try {\n' +
+      "    await loadUser('you');\n" +
+      '  } catch (error) {\n' +
+      '    console.error(error);\n' +
+      '  }\n' +
+      '}\n'
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      file: path.join(projectDir, 'users.ts'),
+      line: 8,
+      contract_clause: 'network-failure',
+    });
+    expect(violations[0].description).toContain('apiGet() → loadUser()');
+    expect(violations[0].related_locations?.map(l => [path.basename(l.file), l.line])).toEqual([
+      ['http.ts', 4],
+      ['users.ts', 4],
+    ]);
+  });
+
+  it('should keep the violation in the helper when it is passed around as a value', () => {
+    const violations = analyze(
+      "import { apiGet } from './http';\n\n" +
+      'export const loaders = [apiGet];\n\n' +
+      'export async function loadUser(id: string) {\n' +
+      '  try {\n' +
+      '    return await apiGet(`/users/${id}`);\n' +
+      '  } catch (error) {\n' +
+      '    return null;\n' +
+      '  }\n' +
+      '}\n'
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ file: path.join(projectDir, 'http.ts'), line: 4 });
+    expect(violations[0].related_locations).toBeUndefined();
+  });
+
+  it('should report floating calls at the caller that drops the promise', () => {
+    const violations = analyze(
+      "import { apiGet } from './http';\n\n" +
+      'export function prefetch(id: string) {\n' +
+      '  apiGet(`/users/${id}`);\n' +
+      '}\n\n' +
+      'export async function load(id: string) {\n' +
+      '  try {\n' +
+      '    prefetch(id);\n' +
+      '  } catch (error) {\n' +
+      '    return null;\n' +
+      '  }\n' +
+      '}\n'
+    );
+
+    expect(violations.map(v => [path.basename(v.file), v.line])).toEqual([['users.ts', 4]]);
+  });
+
+  describe('when analyzing a subset of the files', () => {
+    const unprotectedCaller =
+      "import { apiGet } from './http';\n\n" +
+      'export async function loadUser(id: string) {\n' +
+      '  return apiGet(`/users/${id}`);\n' +
+      '}\n';
+
+    it('should analyze the helper file to report at callers in the analyzed files', () => {
+      const analyzer = createAnalyzer(unprotectedCaller);
+
+      const violations = analyzer.analyzeFiles([path.join(projectDir, 'users.ts')]);
+
+      expect(violations.map(v => [path.basename(v.file), v.line])).toEqual([['users.ts', 4]]);
+    });
+
+    it('should not report violations of the helper file moved to callers outside the analyzed files', () => {
+      const analyzer = createAnalyzer(unprotectedCaller);
+
+      expect(analyzer.analyzeFiles([path.join(projectDir, 'http.ts')])).toEqual([]);
+    });
+
+    it('should report at callers in changed files when only the caller changed', () => {
+      const analyzer = createAnalyzer(unprotectedCaller, {
+        changedFiles: [{ file: path.join(projectDir, 'users.ts'), ranges: [{ start: 3, end: 5 }] }],
+        changedLinesOnly: true,
+      });
+
+      const violations = analyzer.analyze();
+
+      expect(violations.map(v => [path.basename(v.file), v.line])).toEqual([['users.ts', 4]]);
+    });
+  });
+
+  describe('when the program is updated', () => {
+    // Reuses the source files whose text did not change, like an editor's language service
+    function createProgram(oldProgram?: ts.Program): ts.Program {
+      const tsconfig = JSON.parse(fs.readFileSync(path.join(projectDir, 'tsconfig.json'), 'utf-8'));
+      const { options, fileNames } = ts.parseJsonConfigFileContent(tsconfig, ts.sys, projectDir);
+      const host = ts.createCompilerHost(options);
+      const getSourceFile = host.getSourceFile;
+      host.getSourceFile = (fileName, ...rest) => {
+        const previous = oldProgram?.getSourceFile(fileName);
+        return previous && previous.text === ts.sys.readFile(fileName) ? previous : getSourceFile(fileName, ...rest);
+      };
+      return ts.createProgram({ rootNames: fileNames, options, host, oldProgram });
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should only re-index the changed and added files', () => {
+      fs.writeFileSync(path.join(projectDir, 'users.ts'),
+        "import { apiGet } from './http';\n\n" +
+        'export async function loadUser(id: string) {\n' +
+        '  try {\n' +
+        '    return await apiGet(`/users/${id}`);\n' +
+        '  } catch {\n' +
+        '    return null;\n' +
+        '  }\n' +
+        '}\n'
+      );
+      const program = createProgram();
+      const analyzer = new Analyzer({
+        tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+        corpusPath: '',
+        updateSuppressionManifest: false,
+      }, contracts, program);
+
+      expect(analyzer.analyze().filter(v => v.severity === 'error')).toEqual([]);
+
+      fs.writeFileSync(path.join(projectDir, 'orders.ts'),
+        "import { apiGet } from './http';\n\n" +
+        'export async function loadOrder(id: string) {\n' +
+        '  return apiGet(`/orders/${id}`);\n' +
+        '}\n'
+      );
+      const prototype = CallGraphAnalyzer.prototype as unknown as { indexFile(sourceFile: ts.SourceFile): void };
+      const indexFile = vi.spyOn(prototype, 'indexFile');
+      analyzer.updateProgram(createProgram(program));
+
+      const violations = analyzer.analyze().filter(v => v.severity === 'error');
+
+      expect(violations.map(v => [path.basename(v.file), v.line])).toEqual([['orders.ts', 4]]);
+      expect(indexFile.mock.calls.map(([sourceFile]) => path.basename(sourceFile.fileName))).toEqual(['orders.ts']);
+    });
+  });
+});
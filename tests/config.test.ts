@@ -0,0 +1,110 @@
+/**
+ * Project Configuration Tests
+ * Tests loading, validation and CLI precedence of .behavioralcontractsrc.json
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findProjectConfig,
+  validateProjectConfig,
+  mergeConfigWithCliOptions,
+  CONFIG_FILENAME,
+} from '../src/config.js';
+
+describe('Project Configuration', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should return null without a config file', () => {
+    expect(findProjectConfig(projectDir)).toBeNull();
+  });
+
+  it('should load the rc file and resolve paths against its directory', () => {
+    fs.writeFileSync(path.join(projectDir, CONFIG_FILENAME), JSON.stringify({
+      corpus: '../corpus',
+      includeTests: true,
+      exclude: ['**/*.generated.ts'],
+    }));
+
+    const loaded = findProjectConfig(projectDir);
+
+    expect(loaded?.source).toBe('rc');
+    expect(loaded?.config.corpus).toBe(path.resolve(projectDir, '../corpus'));
+    expect(loaded?.config.includeTests).toBe(true);
+    expect(loaded?.config.exclude).toEqual([`${projectDir.split(path.sep).join('/')}/**/*.generated.ts`]);
+  });
+
+  it('should fall back to the package.json key', () => {
+    fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({
+      name: 'app',
+      'behavioral-contracts': { failOnWarnings: true },
+    }));
+
+    const loaded = findProjectConfig(projectDir);
+
+    expect(loaded?.source).toBe('package.json');
+    expect(loaded?.config.failOnWarnings).toBe(true);
+  });
+
+  it('should prefer the rc file over package.json', () => {
+    fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({
+      'behavioral-contracts': { minSeverity: 'error' },
+    }));
+    fs.writeFileSync(path.join(projectDir, CONFIG_FILENAME), JSON.stringify({ minSeverity: 'warning' }));
+
+    expect(findProjectConfig(projectDir)?.config.minSeverity).toBe('warning');
+  });
+
+  it('should report schema violations', () => {
+    const errors = validateProjectConfig({ corpus: 1, minSeverity: 'high', typo: true });
+
+    expect(errors).toContain('/corpus must be string');
+    expect(errors).toContain('/minSeverity must be one of: info, warning, error');
+    expect(errors).toHaveLength(2);
+  });
+
+  it('should load config files with unknown keys and warn about them', () => {
+    fs.writeFileSync(path.join(projectDir, CONFIG_FILENAME), JSON.stringify({
+      minSeverity: 'warning',
+      typo: true,
+      ignore: [{ package: 'axios', reason: 'Handled by the gateway retry policy', owner: 'platform' }],
+    }));
+
+    const loaded = findProjectConfig(projectDir);
+
+    expect(loaded?.config.minSeverity).toBe('warning');
+    expect(loaded?.warnings).toEqual([
+      '(root): unknown option "typo"',
+      '/ignore/0: unknown option "owner"',
+    ]);
+  });
+
+  it('should throw for invalid config files', () => {
+    fs.writeFileSync(path.join(projectDir, CONFIG_FILENAME), JSON.stringify({ failOnWarnings: 'yes' }));
+
+    expect(() => findProjectConfig(projectDir)).toThrow(/Invalid configuration/);
+  });
+
+  it('should let command-line flags override config values', () => {
+    const cliOptions = { corpus: '/cli/corpus', includeTests: false, failOnWarnings: undefined };
+    const merged = mergeConfigWithCliOptions(
+      cliOptions,
+      { corpus: '/config/corpus', includeTests: true, failOnWarnings: true },
+      key => key === 'corpus'
+    );
+
+    expect(merged.corpus).toBe('/cli/corpus');
+    expect(merged.includeTests).toBe(true);
+    expect(merged.failOnWarnings).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Contract Version Tests
+ * Tests loading several contracts per package and choosing one per project by installed version
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { verifyWorkspaces } from '../src/api.js';
+import { loadCorpus } from '../src/corpus-loader.js';
+import type { PackageContract } from '../src/types.js';
+
+function createContract(semver: string, postconditionId: string): PackageContract {
+  return {
+    package: 'axios',
+    semver,
+    contract_version: '1.0.0',
+    maintainer: 'test',
+    last_verified: '2026-01-01',
+    status: 'production',
+    functions: [{
+      name: 'get',
+      import_path: 'axios',
+      description: 'GET request',
+      postconditions: [{
+        id: postconditionId,
+        condition: 'Network error',
+        throws: 'AxiosError',
+        required_handling: 'try-catch',
+        severity: 'error',
+      }],
+    }],
+  } as PackageContract;
+}
+
+describe('contract versions', () => {
+  let rootDir: string;
+  let corpusDir: string;
+
+  function write(file: string, content: unknown): void {
+    const fullPath = path.join(rootDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  function addContract(dir: string, contract: PackageContract): void {
+    write(`corpus/packages/${dir}/contract.yaml`, YAML.stringify(contract));
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-contract-versions-'));
+    corpusDir = path.join(rootDir, 'corpus');
+    write('corpus/schema/contract.schema.json', { type: 'object', required: ['package', 'semver'] });
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should index contracts of the same package by semver range', async () => {
+    addContract('axios', createContract('>=1.0.0 <2.0.0', 'network-failure'));
+    addContract('axios-0.x', createContract('^0.27.0', 'legacy-network-failure'));
+
+    const result = await loadCorpus(corpusDir);
+
+    expect(result.errors).toEqual([]);
+    expect(result.versions.get('axios')?.map(c => c.semver)).toEqual(['^0.27.0', '>=1.0.0 <2.0.0']);
+    expect(result.contracts.get('axios')?.semver).toBe('>=1.0.0 <2.0.0');
+  });
+
+  it('should report contracts whose ranges overlap', async () => {
+    addContract('axios', createContract('>=1.0.0 <2.0.0', 'network-failure'));
+    addContract('axios-1.6', createContract('^1.6.0', 'network-failure'));
+
+    const result = await loadCorpus(corpusDir);
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('Duplicate contract for package "axios"');
+    expect(result.errors[0]).toContain('overlaps');
+    expect(result.versions.get('axios')).toHaveLength(1);
+  });
+
+  it('should choose the contract version each workspace has installed', async () => {
+    addContract('axios', createContract('>=1.0.0 <2.0.0', 'network-failure'));
+    addContract('axios-0.x', createContract('^0.27.0', 'legacy-network-failure'));
+
+    const monorepo = path.join(rootDir, 'repo');
+    write('repo/package.json', { private: true, workspaces: ['packages/*'] });
+    write('repo/package-lock.json', {
+      lockfileVersion: 3,
+      packages: {
+        'node_modules/axios': { version: '1.6.2' },
+        'packages/legacy/node_modules/axios': { version: '0.27.2' },
+      },
+    });
+    write('repo/node_modules/axios/index.d.ts',
+      'declare const axios: { get(url: string): Promise<unknown> };\nexport default axios;\n');
+
+    for (const name of ['app', 'legacy']) {
+      write(`repo/packages/${name}/package.json`, { name });
+      write(`repo/packages/${name}/tsconfig.json`, {
+        compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+        include: ['*.ts'],
+      });
+      write(`repo/packages/${name}/api.ts`,
+        "import axios from 'axios';\n\nexport async function load() {\n  return await axios.get('/users');\n}\n");
+    }
+
+    const result = await verifyWorkspaces({ root: monorepo, corpus: corpusDir, discoverPackages: false });
+
+    const clauses = result.workspaces.map(({ workspace, result }) =>
+      [workspace.name, result.record.violations.map(v => v.contract_clause)]
+    );
+    expect(clauses).toEqual([
+      ['app', ['network-failure']],
+      ['legacy', ['legacy-network-failure']],
+    ]);
+    expect(result.record.contract_versions?.map(m => [m.installed_version, m.semver, m.match])).toEqual([
+      ['1.6.2', '>=1.0.0 <2.0.0', 'match'],
+      ['0.27.2', '^0.27.0', 'match'],
+    ]);
+  }, 20_000); // Builds a TypeScript program per workspace
+});
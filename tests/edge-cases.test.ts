@@ -0,0 +1,100 @@
+/**
+ * Edge Case Tests
+ * Tests reporting contract edge cases as informational findings (--edge-cases)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { verify } from '../src/api.js';
+import { groupEdgeCases } from '../src/reporters/index.js';
+import type { PackageContract } from '../src/types.js';
+
+const contracts = new Map<string, PackageContract>([['axios', {
+  package: 'axios',
+  semver: '*',
+  contract_version: '1.0.0',
+  maintainer: 'test',
+  status: 'production',
+  functions: [{
+    name: 'get',
+    import_path: 'axios',
+    description: 'GET request',
+    postconditions: [{
+      id: 'network-failure',
+      condition: 'Network error',
+      throws: 'AxiosError',
+      required_handling: 'try-catch',
+      severity: 'error',
+    }],
+    edge_cases: [{
+      id: 'no-default-timeout',
+      description: 'Requests have no timeout unless one is configured.',
+      source: 'https://axios-http.com/docs/req_config',
+      severity: 'warning',
+    }],
+  }],
+} as PackageContract]]);
+
+describe('edge cases', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-edge-cases-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+      include: ['*.ts'],
+    }));
+    fs.mkdirSync(path.join(projectDir, 'node_modules', 'axios'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, 'node_modules', 'axios', 'index.d.ts'),
+      'declare const axios: { get(url: string): Promise<unknown> };\nexport default axios;\n'
+    );
+
+    const handledCall = (url: string) =>
+      `  try {\n    return await axios.get('${url}');\n  } catch (error) {\n    throw new Error('Request failed');\n  }\n`;
+    fs.writeFileSync(path.join(projectDir, 'users.ts'),
+      "import axios from 'axios';\n\n" +
+      `export async function list() {\n${handledCall('/users')}}\n\n` +
+      `export async function get() {\n${handledCall('/users/1')}}\n`
+    );
+    fs.writeFileSync(path.join(projectDir, 'orders.ts'),
+      "import axios from 'axios';\n\n" +
+      `export async function list() {\n${handledCall('/orders')}}\n`
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should report each edge case once per function per file without affecting the results', async () => {
+    const withoutEdgeCases = await verify({ tsconfig: projectDir, contracts, discoverPackages: false });
+    const result = await verify({ tsconfig: projectDir, contracts, discoverPackages: false, edgeCases: true });
+
+    expect(withoutEdgeCases.record.edge_cases).toBeUndefined();
+    expect(result.record.edge_cases?.map(e => [path.basename(e.file), e.line, e.severity, e.id]).sort()).toEqual([
+      ['orders.ts', 5, 'info', 'axios-no-default-timeout'],
+      ['users.ts', 5, 'info', 'axios-no-default-timeout'],
+    ]);
+    expect(result.record.violations.map(v => v.fingerprint)).toEqual(withoutEdgeCases.record.violations.map(v => v.fingerprint));
+    expect(result.record.summary).toEqual(withoutEdgeCases.record.summary);
+    expect(result.health.overallScore).toBe(withoutEdgeCases.health.overallScore);
+  }, 20_000); // Builds a TypeScript program per run
+
+  it('should group the findings of an edge case for the reports', async () => {
+    const result = await verify({ tsconfig: projectDir, contracts, discoverPackages: false, edgeCases: true });
+
+    const groups = groupEdgeCases(result.record.edge_cases || []);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({
+      package: 'axios',
+      function: 'get',
+      id: 'no-default-timeout',
+      description: 'Requests have no timeout unless one is configured.',
+    });
+    expect(groups[0].locations.map(l => path.basename(l.file)).sort()).toEqual(['orders.ts', 'users.ts']);
+  });
+});
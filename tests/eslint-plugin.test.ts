@@ -0,0 +1,148 @@
+/**
+ * ESLint Plugin Tests
+ * Tests that contract checks run as typed ESLint rules and honor eslint-disable
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Linter } from 'eslint';
+import * as tsParser from '@typescript-eslint/parser';
+import type { TSESLint } from '@typescript-eslint/utils';
+import plugin, { PLUGIN_NAME } from '../src/eslint-plugin.js';
+
+/** ESLint 8 selects flat config with `configType`, which the typed Linter options do not declare yet */
+type FlatLinterConstructor = new (options: TSESLint.Linter.LinterOptions & { configType: 'flat' }) => TSESLint.Linter;
+const FlatLinter = Linter as unknown as FlatLinterConstructor;
+
+/**
+ * Writes a corpus contract for axios.get with a single postcondition
+ */
+function writeContract(corpusDir: string, dir: string, semver: string, postconditionId: string): void {
+  fs.mkdirSync(path.join(corpusDir, 'packages', dir), { recursive: true });
+  fs.writeFileSync(path.join(corpusDir, 'packages', dir, 'contract.yaml'), [
+    'package: axios',
+    `semver: "${semver}"`,
+    'contract_version: "1.0.0"',
+    'maintainer: test',
+    'last_verified: "2026-01-01"',
+    'functions:',
+    '  - name: get',
+    '    import_path: axios',
+    '    description: GET request',
+    '    postconditions:',
+    `      - id: ${postconditionId}`,
+    '        condition: network error',
+    '        throws: AxiosError',
+    '        required_handling: try-catch',
+    '        source: https://axios-http.com/docs/handling_errors',
+    '        severity: error',
+    '',
+  ].join('\n'));
+}
+
+/**
+ * Creates a project with an axios stub package (and its version, if given) and an empty corpus
+ */
+function createProject(prefix: string, axiosVersion?: string): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+    compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+    include: ['*.ts'],
+  }));
+  fs.mkdirSync(path.join(projectDir, 'node_modules', 'axios'), { recursive: true });
+  fs.writeFileSync(
+    path.join(projectDir, 'node_modules', 'axios', 'index.d.ts'),
+    'declare const axios: { get(url: string): Promise<unknown> };\nexport default axios;\n'
+  );
+  if (axiosVersion) {
+    fs.writeFileSync(path.join(projectDir, 'node_modules', 'axios', 'package.json'), JSON.stringify({ version: axiosVersion }));
+  }
+
+  // Minimal corpus: permissive schema, contracts added by the tests
+  fs.mkdirSync(path.join(projectDir, 'corpus', 'schema'), { recursive: true });
+  fs.writeFileSync(path.join(projectDir, 'corpus', 'schema', 'contract.schema.json'), '{}');
+
+  return projectDir;
+}
+
+describe('ESLint plugin', () => {
+  let projectDir: string;
+
+  function lint(
+    code: string,
+    rules: Record<string, 'error'> = plugin.configs.recommended.rules,
+    dir: string = projectDir
+  ) {
+    const fileName = path.join(dir, 'api.ts');
+    fs.writeFileSync(fileName, code);
+
+    const linter = new FlatLinter({ configType: 'flat', cwd: dir });
+    return linter.verify(code, [{
+      files: ['**/*.ts'],
+      languageOptions: {
+        parser: tsParser,
+        parserOptions: { project: './tsconfig.json', tsconfigRootDir: dir },
+      },
+      plugins: { [PLUGIN_NAME]: plugin },
+      settings: { [PLUGIN_NAME]: { corpus: path.join(dir, 'corpus') } },
+      rules,
+    }], fileName);
+  }
+
+  beforeAll(() => {
+    projectDir = createProject('verify-cli-eslint-');
+    writeContract(path.join(projectDir, 'corpus'), 'axios', '*', 'network-failure');
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should report contract violations with the package/clause id', () => {
+    const messages = lint("import axios from 'axios';\nexport function load() {\n  return axios.get('/users');\n}\n");
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].ruleId).toBe(`${PLUGIN_NAME}/postconditions`);
+    expect(messages[0].line).toBe(3);
+    expect(messages[0].message).toMatch(/\(axios\/network-failure\)$/);
+  });
+
+  it('should only run the passes of enabled rules', () => {
+    const messages = lint(
+      "import axios from 'axios';\nexport function load() {\n  return axios.get('/users');\n}\n",
+      { [`${PLUGIN_NAME}/return-values`]: 'error' }
+    );
+
+    expect(messages).toEqual([]);
+  });
+
+  it('should honor eslint-disable comments', () => {
+    const messages = lint(
+      "import axios from 'axios';\nexport function load() {\n" +
+      `  // eslint-disable-next-line ${PLUGIN_NAME}/postconditions\n` +
+      "  return axios.get('/users');\n}\n"
+    );
+
+    expect(messages).toEqual([]);
+  });
+
+  it('should apply the contract version the project has installed', () => {
+    const legacyDir = createProject('verify-cli-eslint-versions-', '0.27.2');
+    try {
+      writeContract(path.join(legacyDir, 'corpus'), 'axios', '>=1.0.0', 'network-failure');
+      writeContract(path.join(legacyDir, 'corpus'), 'axios-0.x', '^0.27.0', 'legacy-network-failure');
+
+      const messages = lint(
+        "import axios from 'axios';\nexport function load() {\n  return axios.get('/users');\n}\n",
+        plugin.configs.recommended.rules,
+        legacyDir
+      );
+
+      expect(messages.map(m => m.message)).toEqual([expect.stringMatching(/\(axios\/legacy-network-failure\)$/)]);
+    } finally {
+      fs.rmSync(legacyDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Analysis Filter Tests
+ * Tests include/exclude globs and the severity threshold
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createPathFilter, meetsSeverityThreshold, isSeverity } from '../src/filters.js';
+
+describe('createPathFilter', () => {
+  const root = '/repo';
+
+  it('should keep every file without patterns', () => {
+    const isInScope = createPathFilter(root);
+    expect(isInScope('/repo/src/index.ts')).toBe(true);
+  });
+
+  it('should only keep files matching an include glob', () => {
+    const isInScope = createPathFilter(root, ['src/payments/**']);
+
+    expect(isInScope('/repo/src/payments/stripe.ts')).toBe(true);
+    expect(isInScope('/repo/src/payments/nested/refund.ts')).toBe(true);
+    expect(isInScope('/repo/src/users/profile.ts')).toBe(false);
+  });
+
+  it('should treat plain directory paths as recursive', () => {
+    const isInScope = createPathFilter(root, ['./src/payments/']);
+
+    expect(isInScope('/repo/src/payments/stripe.ts')).toBe(true);
+    expect(isInScope('/repo/src/paymentsLegacy.ts')).toBe(false);
+  });
+
+  it('should let exclude globs win over include globs', () => {
+    const isInScope = createPathFilter(root, ['src/**'], ['**/*.generated.ts', 'src/vendor']);
+
+    expect(isInScope('/repo/src/api.ts')).toBe(true);
+    expect(isInScope('/repo/src/api.generated.ts')).toBe(false);
+    expect(isInScope('/repo/src/vendor/sdk.ts')).toBe(false);
+  });
+
+  it('should match absolute patterns against the absolute path', () => {
+    const isInScope = createPathFilter('/repo/packages/app', ['/repo/src'], ['/repo/**/*.generated.ts']);
+
+    expect(isInScope('/repo/src/api.ts')).toBe(true);
+    expect(isInScope('/repo/src/api.generated.ts')).toBe(false);
+    expect(isInScope('/repo/packages/app/src/api.ts')).toBe(false);
+  });
+});
+
+describe('meetsSeverityThreshold', () => {
+  it('should keep everything without a threshold', () => {
+    expect(meetsSeverityThreshold('info')).toBe(true);
+  });
+
+  it('should keep findings at or above the threshold', () => {
+    expect(meetsSeverityThreshold('info', 'warning')).toBe(false);
+    expect(meetsSeverityThreshold('warning', 'warning')).toBe(true);
+    expect(meetsSeverityThreshold('error', 'warning')).toBe(true);
+    expect(meetsSeverityThreshold('warning', 'error')).toBe(false);
+  });
+
+  it('should validate severity names', () => {
+    expect(isSeverity('error')).toBe(true);
+    expect(isSeverity('critical')).toBe(false);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Fix Tests
+ * Tests the codemods, the unified diff and verified fixing through fix()
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { fix, verify } from '../src/api.js';
+import { createCodeFix, applyTextEdits, createUnifiedDiff } from '../src/fixes/index.js';
+import type { PackageContract, Postcondition, Violation } from '../src/types.js';
+
+function violationAt(code: string, needle: string, overrides: Partial<Violation>): Violation {
+  const offset = code.indexOf(needle);
+  const before = code.slice(0, offset).split('\n');
+
+  return {
+    id: 'test',
+    severity: 'error',
+    file: 'api.ts',
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+    package: 'axios',
+    function: 'get',
+    contract_clause: 'network-failure',
+    description: 'No try-catch block found.',
+    source_doc: '',
+    ...overrides,
+  };
+}
+
+function applyFix(code: string, violation: Violation): string | null {
+  const sourceFile = ts.createSourceFile('api.ts', code, ts.ScriptTarget.Latest, true);
+  const codeFix = createCodeFix(violation, sourceFile);
+  return codeFix ? applyTextEdits(code, codeFix.edits) : null;
+}
+
+describe('createCodeFix', () => {
+  it('should wrap an unprotected await and the statements using its result in try/catch', () => {
+    const code = "async function load() {\n  const res = await axios.get('/x');\n  return res.data;\n}\n";
+
+    expect(applyFix(code, violationAt(code, 'axios.get', {}))).toBe(
+      'async function load() {\n' +
+      '  try {\n' +
+      "    const res = await axios.get('/x');\n" +
+      '    return res.data;\n' +
+      '  } catch (error) {\n' +
+      "    console.error('axios get() failed (network-failure):', error);\n" +
+      '    throw error;\n' +
+      '  }\n' +
+      '}\n'
+    );
+  });
+
+  it('should only wrap an await that does not declare anything', () => {
+    const code = "async function save() {\n  await axios.post('/x');\n  done();\n}\n";
+    const fixed = applyFix(code, violationAt(code, 'await', { function: 'post' }));
+
+    expect(fixed).toContain("  try {\n    await axios.post('/x');\n  } catch (error) {");
+    expect(fixed).toMatch(/\}\n {2}done\(\);\n\}\n$/);
+  });
+
+  it('should not wrap calls that are not awaited', () => {
+    const code = "function load() {\n  return axios.get('/x');\n}\n";
+
+    expect(applyFix(code, violationAt(code, 'axios.get', {}))).toBeNull();
+  });
+
+  it('should add the missing event listener after the declaration', () => {
+    const code = "function connect(url: string) {\n  const ws = new WebSocket(url);\n  return ws;\n}\n";
+    const fixed = applyFix(code, violationAt(code, 'ws =', {
+      package: 'ws',
+      function: 'WebSocket',
+      contract_clause: 'missing-error-listener',
+    }));
+
+    expect(fixed).toContain(
+      "  const ws = new WebSocket(url);\n" +
+      "  ws.on('error', (error) => {\n" +
+      "    console.error('ws error:', error);\n" +
+      '  });\n' +
+      '  return ws;\n'
+    );
+  });
+
+  it('should add a null check for Clerk auth() results', () => {
+    const code = "export async function GET() {\n  const { userId } = await auth();\n  return userId;\n}\n";
+    const fixed = applyFix(code, violationAt(code, 'auth()', {
+      package: '@clerk/nextjs',
+      function: 'auth',
+      contract_clause: 'auth-null-not-checked',
+    }));
+
+    expect(fixed).toContain(
+      '  const { userId } = await auth();\n' +
+      '  if (!userId) {\n' +
+      "    throw new Error('Not authenticated: auth() returned no userId');\n" +
+      '  }\n'
+    );
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should produce hunks with context lines', () => {
+    const diff = createUnifiedDiff('api.ts', 'a\nb\nc\nd\n', 'a\nb\nx\nd\n', 1);
+
+    expect(diff).toBe('--- a/api.ts\n+++ b/api.ts\n@@ -2,3 +2,3 @@\n b\n-c\n+x\n d\n');
+  });
+
+  it('should be empty when nothing changed', () => {
+    expect(createUnifiedDiff('api.ts', 'a\n', 'a\n')).toBe('');
+  });
+});
+
+describe('fix', () => {
+  let projectDir: string;
+
+  function createContract(functionName: string, postcondition: Partial<Postcondition>): Map<string, PackageContract> {
+    return new Map([['acme-sdk', {
+      package: 'acme-sdk',
+      semver: '*',
+      contract_version: '1.0.0',
+      maintainer: 'test',
+      status: 'production',
+      functions: [{
+        name: functionName,
+        import_path: 'acme-sdk',
+        description: 'test',
+        postconditions: [{
+          id: 'checked-clause',
+          condition: 'Fails at runtime',
+          required_handling: 'see contract',
+          severity: 'error',
+          ...postcondition,
+        } as Postcondition],
+      }],
+    } as PackageContract]]);
+  }
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-fix-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+      include: ['*.ts'],
+    }));
+    fs.mkdirSync(path.join(projectDir, 'node_modules', 'acme-sdk'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, 'node_modules', 'acme-sdk', 'index.d.ts'),
+      'export declare function getSession(): Promise<{ user: string } | null>;\n' +
+      'export declare function fetchUsers(): Promise<{ data: unknown }>;\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe('null checks', () => {
+    const contracts = createContract('getSession', { check: { kind: 'null-check' } });
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        path.join(projectDir, 'api.ts'),
+        "import { getSession } from 'acme-sdk';\n\n" +
+        'export async function load() {\n  const session = await getSession();\n  return session!.user;\n}\n'
+      );
+    });
+
+    it('should return verified fixes without writing files', async () => {
+      const original = fs.readFileSync(path.join(projectDir, 'api.ts'), 'utf-8');
+      const result = await fix({ tsconfig: projectDir, contracts });
+
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0].applied).toHaveLength(1);
+      expect(result.files[0].applied[0].fix.kind).toBe('null-check');
+      expect(result.files[0].fixedText).toContain('  if (!session) {');
+      expect(result.files[0].diff).toContain('+  if (!session) {');
+      expect(fs.readFileSync(path.join(projectDir, 'api.ts'), 'utf-8')).toBe(original);
+    });
+
+    it('should skip fixes that are declined', async () => {
+      const result = await fix({ tsconfig: projectDir, contracts, confirm: () => false });
+
+      expect(result.files[0].applied).toHaveLength(0);
+      expect(result.files[0].rejected[0].reason).toBe('declined');
+      expect(result.files[0].fixedText).toBe(result.files[0].originalText);
+    });
+  });
+
+  describe('try/catch', () => {
+    const contracts = createContract('fetchUsers', { throws: 'NetworkError' });
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        path.join(projectDir, 'api.ts'),
+        "import { fetchUsers } from 'acme-sdk';\n\n" +
+        'export async function load() {\n  const res = await fetchUsers();\n  return res.data;\n}\n'
+      );
+    });
+
+    it('should attach the codemod edits to reported violations', async () => {
+      const { record } = await verify({ tsconfig: projectDir, contracts, discoverPackages: false });
+      const edit = record.violations[0].fix?.edits[0];
+
+      expect(record.violations[0].fix?.kind).toBe('try-catch');
+      expect(path.resolve(edit!.file)).toBe(path.join(projectDir, 'api.ts'));
+      expect(edit?.replacement).toMatch(/^try \{\n/);
+    });
+
+    it('should wrap unprotected awaits and verify that the violation is gone', async () => {
+      const result = await fix({ tsconfig: projectDir, contracts });
+
+      expect(result.files[0].applied.map(p => p.fix.kind)).toEqual(['try-catch']);
+      expect(result.files[0].rejected).toHaveLength(0);
+      expect(result.files[0].unsupported).toHaveLength(0);
+      expect(result.files[0].diff).toContain('+  try {');
+      expect(result.files[0].fixedText).toContain("console.error('acme-sdk fetchUsers() failed (checked-clause):', error);");
+    });
+  });
+
+  describe('event listeners', () => {
+    const contracts = new Map<string, PackageContract>([['acme-sdk', {
+      package: 'acme-sdk',
+      semver: '*',
+      contract_version: '1.0.0',
+      maintainer: 'test',
+      status: 'production',
+      detection: {
+        class_names: ['Socket'],
+        type_names: [],
+        factory_methods: [],
+        await_patterns: [],
+        required_event_listeners: [{ event: 'error', required: true, severity: 'error' }],
+      },
+      functions: [],
+    } as PackageContract]]);
+
+    beforeEach(() => {
+      fs.appendFileSync(
+        path.join(projectDir, 'node_modules', 'acme-sdk', 'index.d.ts'),
+        'export declare class Socket { constructor(url: string); on(event: string, listener: (...args: any[]) => void): this; }\n'
+      );
+      fs.writeFileSync(
+        path.join(projectDir, 'api.ts'),
+        "import { Socket } from 'acme-sdk';\n\n" +
+        'export function connect(url: string) {\n  const socket = new Socket(url);\n  return socket;\n}\n'
+      );
+    });
+
+    it('should add the missing error listener and verify that the violation is gone', async () => {
+      const result = await fix({ tsconfig: projectDir, contracts });
+
+      expect(result.files[0].applied.map(p => p.fix.kind)).toEqual(['event-listener']);
+      expect(result.files[0].rejected).toHaveLength(0);
+      expect(result.files[0].fixedText).toContain(
+        '  const socket = new Socket(url);\n' +
+        "  socket.on('error', (error) => {\n" +
+        "    console.error('socket error:', error);\n" +
+        '  });\n'
+      );
+    });
+  });
+});
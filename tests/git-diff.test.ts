@@ -0,0 +1,89 @@
+/**
+ * Git Diff Tests
+ * Tests detection of changed files and line ranges for diff-aware analysis
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseUnifiedDiff, isLineInRanges, getChangedFiles } from '../src/git-diff.js';
+
+describe('parseUnifiedDiff', () => {
+  it('should extract added and modified line ranges per file', () => {
+    const diff = [
+      'diff --git src/api.ts src/api.ts',
+      'index 1111111..2222222 100644',
+      '--- src/api.ts',
+      '+++ src/api.ts',
+      '@@ -10,2 +10,3 @@ export async function load() {',
+      '-  const a = 1;',
+      '+  const a = await axios.get(url);',
+      '@@ -40 +41 @@',
+      '+  return a;',
+    ].join('\n');
+
+    const files = parseUnifiedDiff(diff, '/repo');
+
+    expect(files).toEqual([
+      { file: path.resolve('/repo/src/api.ts'), ranges: [{ start: 10, end: 12 }, { start: 41, end: 41 }] },
+    ]);
+  });
+
+  it('should record pure deletions as the following line', () => {
+    const diff = ['--- src/api.ts', '+++ src/api.ts', '@@ -5,3 +4,0 @@'].join('\n');
+
+    expect(parseUnifiedDiff(diff, '/repo')[0].ranges).toEqual([{ start: 5, end: 5 }]);
+  });
+
+  it('should skip deleted files', () => {
+    const diff = ['--- src/old.ts', '+++ /dev/null', '@@ -1,3 +0,0 @@'].join('\n');
+
+    expect(parseUnifiedDiff(diff, '/repo')).toEqual([]);
+  });
+});
+
+describe('isLineInRanges', () => {
+  it('should treat range bounds as inclusive', () => {
+    const ranges = [{ start: 10, end: 12 }];
+
+    expect(isLineInRanges(9, ranges)).toBe(false);
+    expect(isLineInRanges(10, ranges)).toBe(true);
+    expect(isLineInRanges(12, ranges)).toBe(true);
+    expect(isLineInRanges(13, ranges)).toBe(false);
+  });
+});
+
+describe('getChangedFiles', () => {
+  let repoDir: string | undefined;
+
+  afterEach(() => {
+    if (repoDir) {
+      fs.rmSync(repoDir, { recursive: true, force: true });
+      repoDir = undefined;
+    }
+  });
+
+  it('should collect staged files only', () => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-git-'));
+    execFileSync('git', ['init', '-q'], { cwd: repoDir });
+    fs.writeFileSync(path.join(repoDir, 'staged.ts'), 'const a = 1;\nconst b = 2;\n');
+    fs.writeFileSync(path.join(repoDir, 'unstaged.ts'), 'const c = 3;\n');
+    execFileSync('git', ['add', 'staged.ts'], { cwd: repoDir });
+
+    const files = getChangedFiles(repoDir, { kind: 'staged' });
+
+    expect(files).toEqual([
+      { file: path.join(repoDir, 'staged.ts'), ranges: [{ start: 1, end: 2 }] },
+    ]);
+  });
+
+  it('should report a helpful error for unknown refs', () => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-git-'));
+    execFileSync('git', ['init', '-q'], { cwd: repoDir });
+
+    expect(() => getChangedFiles(repoDir!, { kind: 'since', ref: 'does-not-exist' }))
+      .toThrow(/Failed to read changes since does-not-exist/);
+  });
+});
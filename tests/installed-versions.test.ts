@@ -0,0 +1,226 @@
+/**
+ * Installed Version Tests
+ * Tests resolving installed package versions and selecting contracts by their semver range
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { verify } from '../src/api.js';
+import { parseLockfile, readInstalledVersions } from '../src/installed-versions.js';
+import { PackageDiscovery } from '../src/package-discovery.js';
+import type { PackageContract } from '../src/types.js';
+
+function createContract(semver: string): PackageContract {
+  return {
+    package: 'axios',
+    semver,
+    contract_version: '1.0.0',
+    maintainer: 'test',
+    status: 'production',
+    functions: [{
+      name: 'get',
+      import_path: 'axios',
+      description: 'GET request',
+      postconditions: [{
+        id: 'network-failure',
+        condition: 'Network error',
+        throws: 'AxiosError',
+        required_handling: 'try-catch',
+        severity: 'error',
+      }],
+    }],
+  } as PackageContract;
+}
+
+describe('parseLockfile', () => {
+  it('should read npm lockfiles, preferring the workspace copy of a package', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'root' },
+        'node_modules/axios': { version: '0.27.2' },
+        'node_modules/@scope/pkg': { version: '2.0.0' },
+        'node_modules/@scope/pkg/node_modules/axios': { version: '0.19.0' },
+        'packages/api/node_modules/axios': { version: '1.6.2' },
+      },
+    });
+
+    expect(Object.fromEntries(parseLockfile('package-lock.json', lock, ''))).toEqual({
+      'axios': '0.27.2',
+      '@scope/pkg': '2.0.0',
+    });
+    expect(parseLockfile('package-lock.json', lock, 'packages/api').get('axios')).toBe('1.6.2');
+  });
+
+  it('should read pnpm importers and strip peer dependency suffixes', () => {
+    const lock = [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      axios:',
+      '        specifier: ^1.6.0',
+      '        version: 1.6.2(debug@4.3.4)',
+      '  packages/web:',
+      '    dependencies:',
+      '      axios:',
+      '        specifier: ^0.27.0',
+      '        version: 0.27.2',
+      '      shared:',
+      '        specifier: workspace:*',
+      '        version: link:../shared',
+      '',
+    ].join('\n');
+
+    expect(parseLockfile('pnpm-lock.yaml', lock, '').get('axios')).toBe('1.6.2');
+    expect(Object.fromEntries(parseLockfile('pnpm-lock.yaml', lock, 'packages/web'))).toEqual({ axios: '0.27.2' });
+  });
+
+  it('should read classic and berry yarn lockfiles, using the declared range to pick a version', () => {
+    const classic = [
+      '# yarn lockfile v1',
+      '',
+      'axios@^0.27.0:',
+      '  version "0.27.2"',
+      '',
+      'axios@^1.6.0, axios@^1.5.0:',
+      '  version "1.6.2"',
+      '',
+      '"@scope/pkg@^2.0.0":',
+      '  version "2.1.0"',
+      '',
+    ].join('\n');
+    const berry = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"axios@npm:^1.6.0":',
+      '  version: 1.6.2',
+      '',
+    ].join('\n');
+
+    expect(Object.fromEntries(parseLockfile('yarn.lock', classic, '', new Map([['axios', '^1.5.0']])))).toEqual({
+      'axios': '1.6.2',
+      '@scope/pkg': '2.1.0',
+    });
+    expect(parseLockfile('yarn.lock', classic, '').has('axios')).toBe(false);
+    expect(Object.fromEntries(parseLockfile('yarn.lock', berry, ''))).toEqual({ axios: '1.6.2' });
+  });
+});
+
+describe('semver-aware contract selection', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-installed-versions-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+      include: ['*.ts'],
+    }));
+    fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({
+      name: 'app',
+      dependencies: { axios: '^0.27.0' },
+    }));
+    fs.mkdirSync(path.join(projectDir, 'node_modules', 'axios'), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, 'node_modules', 'axios', 'package.json'), JSON.stringify({ version: '0.27.2' }));
+    fs.writeFileSync(
+      path.join(projectDir, 'node_modules', 'axios', 'index.d.ts'),
+      'declare const axios: { get(url: string): Promise<unknown> };\nexport default axios;\n'
+    );
+    fs.writeFileSync(path.join(projectDir, 'api.ts'),
+      "import axios from 'axios';\n\n" +
+      "export async function load() {\n  return await axios.get('/users');\n}\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to node_modules when there is no lockfile', async () => {
+    const installed = await readInstalledVersions(projectDir, ['axios', 'zod']);
+
+    expect(Object.fromEntries(installed.versions)).toEqual({ axios: { version: '0.27.2', source: 'node_modules' } });
+    expect(installed.warnings).toEqual([]);
+  });
+
+  it('should return a warning instead of logging when the lockfile cannot be parsed', async () => {
+    fs.writeFileSync(path.join(projectDir, 'package-lock.json'), '{ not json');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const result = await verify({
+        tsconfig: projectDir,
+        project: projectDir,
+        contracts: new Map([['axios', createContract('^0.27.0')]]),
+        discoverPackages: false,
+      });
+
+      expect(warn).not.toHaveBeenCalled();
+      expect(result.warnings).toEqual([expect.stringContaining(`Could not read ${path.join(projectDir, 'package-lock.json')}`)]);
+      expect(result.record.contract_versions).toEqual([expect.objectContaining({
+        installed_version: '0.27.2',
+        installed_version_source: 'node_modules',
+      })]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should not apply a contract whose range the installed version does not satisfy', async () => {
+    const progress: string[] = [];
+    const result = await verify({
+      tsconfig: projectDir,
+      project: projectDir,
+      contracts: new Map([['axios', createContract('>=1.0.0 <2.0.0')]]),
+      onProgress: event => progress.push(event.stage),
+    });
+
+    expect(result.record.violations).toEqual([]);
+    expect(result.record.packages_analyzed).toEqual([]);
+    expect(progress).toContain('contracts-skipped');
+    expect(result.record.contract_versions).toEqual([{
+      package: 'axios',
+      contract_version: '1.0.0',
+      semver: '>=1.0.0 <2.0.0',
+      installed_version: '0.27.2',
+      installed_version_source: 'node_modules',
+      match: 'mismatch',
+    }]);
+    expect(result.packageDiscovery?.packages.find(p => p.name === 'axios')).toMatchObject({
+      version: '^0.27.0',
+      installedVersion: '0.27.2',
+      contractSemver: '>=1.0.0 <2.0.0',
+      contractMatch: 'mismatch',
+    });
+  });
+
+  it('should apply a contract whose range covers the lockfile version', async () => {
+    fs.writeFileSync(path.join(projectDir, 'package-lock.json'), JSON.stringify({
+      lockfileVersion: 3,
+      packages: { 'node_modules/axios': { version: '0.27.1' } },
+    }));
+
+    const result = await verify({
+      tsconfig: projectDir,
+      project: projectDir,
+      contracts: new Map([['axios', createContract('^0.27.0')]]),
+    });
+
+    expect(result.record.violations.map(v => v.contract_clause)).toContain('network-failure');
+    expect(result.record.contract_versions).toEqual([expect.objectContaining({
+      installed_version: '0.27.1',
+      installed_version_source: 'package-lock.json',
+      match: 'match',
+    })]);
+  });
+
+  it('should report contracts with unknown installed versions as applied', async () => {
+    const discovery = new PackageDiscovery(new Map([['axios', createContract('not a range')]]));
+    const result = await discovery.discoverPackages(projectDir, path.join(projectDir, 'tsconfig.json'));
+
+    expect(result.packages.find(p => p.name === 'axios')?.contractMatch).toBe('unknown');
+  });
+});
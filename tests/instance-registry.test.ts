@@ -0,0 +1,185 @@
+/**
+ * Instance Registry Tests
+ * Tests tracking package instances that are created in one module and used in another
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { Analyzer } from '../src/analyzer.js';
+import type { PackageContract, Violation } from '../src/types.js';
+
+const contracts = new Map<string, PackageContract>([['@prisma/client', {
+  package: '@prisma/client',
+  semver: '*',
+  contract_version: '1.0.0',
+  maintainer: 'test',
+  status: 'production',
+  detection: {
+    class_names: ['PrismaClient'],
+    type_names: ['PrismaClient'],
+    await_patterns: ['.create('],
+    require_instance_tracking: true,
+  },
+  functions: [{
+    name: 'create',
+    import_path: '@prisma/client',
+    description: 'Create a record',
+    postconditions: [{
+      id: 'unique-constraint',
+      condition: 'Unique constraint violation',
+      throws: 'PrismaClientKnownRequestError',
+      required_handling: 'try-catch',
+      severity: 'error',
+    }],
+  }],
+} as PackageContract]]);
+
+describe('cross-file instance tracking', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-instances-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, esModuleInterop: true, skipLibCheck: true },
+      include: ['**/*.ts'],
+    }));
+    fs.mkdirSync(path.join(projectDir, 'node_modules', '@prisma', 'client'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, 'node_modules', '@prisma', 'client', 'index.d.ts'),
+      'export declare class PrismaClient {\n  user: { create(args: unknown): Promise<unknown> };\n}\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function writeFiles(files: Record<string, string>): void {
+    for (const [fileName, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(projectDir, fileName)), { recursive: true });
+      fs.writeFileSync(path.join(projectDir, fileName), content);
+    }
+  }
+
+  function analyze(files: Record<string, string>): Violation[] {
+    writeFiles(files);
+
+    const analyzer = new Analyzer({
+      tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+      corpusPath: '',
+      updateSuppressionManifest: false,
+    }, contracts);
+
+    return analyzer.analyze().filter(v => v.severity === 'error');
+  }
+
+  function locations(violations: Violation[]): string[] {
+    return [...new Set(violations.map(v => `${path.relative(projectDir, v.file)}:${v.line}`))];
+  }
+
+  it('should track an exported client through a renaming re-export', () => {
+    const violations = analyze({
+      'lib/db.ts': "import { PrismaClient } from '@prisma/client';\n\nexport const prisma = new PrismaClient();\n",
+      'lib/index.ts': "export { prisma as db } from './db';\n",
+      'users.ts':
+        "import { db } from './lib';\n\n" +
+        'export async function createUser(email: string) {\n' +
+        '  return db.user.create({ data: { email } });\n' +
+        '}\n',
+    });
+
+    expect(locations(violations)).toEqual(['users.ts:4']);
+    expect(violations[0].package).toBe('@prisma/client');
+  });
+
+  it('should track a default-exported client that is reused across hot reloads', () => {
+    const violations = analyze({
+      'lib/db.ts':
+        "import { PrismaClient } from '@prisma/client';\n\n" +
+        'const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };\n' +
+        'const prisma = globalForPrisma.prisma ?? new PrismaClient();\n\n' +
+        'export default prisma;\n',
+      'users.ts':
+        "import database from './lib/db';\n\n" +
+        'export async function createUser(email: string) {\n' +
+        '  await database.user.create({ data: { email } });\n' +
+        '}\n',
+    });
+
+    expect(locations(violations)).toEqual(['users.ts:4']);
+  });
+
+  it('should track injected services that extend the client class', () => {
+    const violations = analyze({
+      'prisma.service.ts':
+        "import { PrismaClient } from '@prisma/client';\n\n" +
+        'export class PrismaService extends PrismaClient {}\n',
+      'users.service.ts':
+        "import { PrismaService } from './prisma.service';\n\n" +
+        'export class UsersService {\n' +
+        '  constructor(private readonly prisma: PrismaService) {}\n\n' +
+        '  async create(email: string) {\n' +
+        '    return this.prisma.user.create({ data: { email } });\n' +
+        '  }\n' +
+        '}\n',
+    });
+
+    expect(locations(violations)).toEqual(['users.service.ts:7']);
+  });
+
+  it('should not track imported objects that are not package instances', () => {
+    const violations = analyze({
+      'lib/db.ts': 'export const db = { user: { create: async (args: unknown) => args } };\n',
+      'users.ts':
+        "import { db } from './lib/db';\n\n" +
+        'export async function createUser(email: string) {\n' +
+        '  await db.user.create({ data: { email } });\n' +
+        '}\n',
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('should drop instances resolved through a file that changed when the program is updated', () => {
+    // Reuses the source files whose text did not change, like an editor's language service
+    const createProgram = (oldProgram?: ts.Program): ts.Program => {
+      const tsconfig = JSON.parse(fs.readFileSync(path.join(projectDir, 'tsconfig.json'), 'utf-8'));
+      const { options, fileNames } = ts.parseJsonConfigFileContent(tsconfig, ts.sys, projectDir);
+      const host = ts.createCompilerHost(options);
+      const getSourceFile = host.getSourceFile;
+      host.getSourceFile = (fileName, ...rest) => {
+        const previous = oldProgram?.getSourceFile(fileName);
+        return previous && previous.text === ts.sys.readFile(fileName) ? previous : getSourceFile(fileName, ...rest);
+      };
+      return ts.createProgram({ rootNames: fileNames, options, host, oldProgram });
+    };
+
+    writeFiles({
+      'lib/db.ts': "import { PrismaClient } from '@prisma/client';\n\nexport const prisma = new PrismaClient();\n",
+      'lib/index.ts': "import { prisma } from './db';\n\nexport const db = prisma;\n",
+      'users.ts':
+        "import { db } from './lib';\n\n" +
+        'export async function createUser(email: string) {\n' +
+        '  await db.user.create({ data: { email } });\n' +
+        '}\n',
+    });
+    const program = createProgram();
+    const analyzer = new Analyzer({
+      tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+      corpusPath: '',
+      updateSuppressionManifest: false,
+    }, contracts, program);
+
+    expect(locations(analyzer.analyze().filter(v => v.severity === 'error'))).toEqual(['users.ts:4']);
+
+    writeFiles({ 'lib/db.ts': 'export const prisma = { user: { create: async (args: unknown) => args } };\n' });
+    const updated = createProgram(program);
+    analyzer.updateProgram(updated);
+
+    expect(updated.getSourceFile(path.join(projectDir, 'lib/index.ts'))).toBe(program.getSourceFile(path.join(projectDir, 'lib/index.ts')));
+    expect(analyzer.analyze().filter(v => v.severity === 'error')).toEqual([]);
+  });
+});
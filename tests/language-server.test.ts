@@ -0,0 +1,132 @@
+/**
+ * Language Server Tests
+ * Tests conversion of violations to diagnostics and the suppression quick fix
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagnosticSeverity } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { validateSuppressionComment } from '../src/suppressions/index.js';
+import {
+  violationToDiagnostic,
+  createSuppressionCodeAction,
+  createFixCodeAction,
+  toDiagnosticSeverity,
+  DIAGNOSTIC_SOURCE,
+} from '../src/language-server.js';
+import type { Violation } from '../src/types.js';
+
+const violation: Violation = {
+  id: 'axios-network-failure',
+  severity: 'error',
+  file: '/project/src/api.ts',
+  line: 4,
+  column: 19,
+  package: 'axios',
+  function: 'get',
+  contract_clause: 'network-failure',
+  description: 'No try-catch block found.',
+  source_doc: 'https://axios-http.com/docs/handling_errors',
+  suggested_fix: 'try-catch',
+};
+
+const source = "import axios from 'axios';\n\nexport async function load() {\n  const r = await axios.get('/x');\n  return r;\n}\n";
+
+describe('violationToDiagnostic', () => {
+  it('should cover the called expression with a 0-based range', () => {
+    const diagnostic = violationToDiagnostic(violation, source.split('\n')[3]);
+
+    expect(diagnostic.range).toEqual({
+      start: { line: 3, character: 18 },
+      end: { line: 3, character: 27 },
+    });
+  });
+
+  it('should carry the description, docs link and contract code', () => {
+    const diagnostic = violationToDiagnostic(violation);
+
+    expect(diagnostic.source).toBe(DIAGNOSTIC_SOURCE);
+    expect(diagnostic.code).toBe('axios/network-failure');
+    expect(diagnostic.message).toContain('No try-catch block found.');
+    expect(diagnostic.codeDescription?.href).toBe('https://axios-http.com/docs/handling_errors');
+  });
+
+  it('should omit links that are not URLs', () => {
+    expect(violationToDiagnostic({ ...violation, source_doc: '' }).codeDescription).toBeUndefined();
+  });
+
+  it('should map severities', () => {
+    expect(toDiagnosticSeverity('error')).toBe(DiagnosticSeverity.Error);
+    expect(toDiagnosticSeverity('warning')).toBe(DiagnosticSeverity.Warning);
+    expect(toDiagnosticSeverity('info')).toBe(DiagnosticSeverity.Information);
+  });
+});
+
+describe('createSuppressionCodeAction', () => {
+  const document = TextDocument.create('file:///project/src/api.ts', 'typescript', 1, source);
+
+  it('should insert an indented suppression comment above the violation', () => {
+    const action = createSuppressionCodeAction(document, violationToDiagnostic(violation));
+    const edits = action?.edit?.changes?.[document.uri];
+
+    expect(edits).toHaveLength(1);
+    expect(edits?.[0].range.start).toEqual({ line: 3, character: 0 });
+    expect(edits?.[0].newText).toBe('  // @behavioral-contract-ignore axios/network-failure:\n');
+  });
+
+  it('should leave the reason for the user so the comment is not valid as inserted', () => {
+    const action = createSuppressionCodeAction(document, violationToDiagnostic(violation));
+    const comment = action?.edit?.changes?.[document.uri][0].newText.trim() ?? '';
+
+    expect(validateSuppressionComment(comment).valid).toBe(false);
+  });
+
+  it('should ignore diagnostics from other sources', () => {
+    const diagnostic = { ...violationToDiagnostic(violation), source: 'ts' };
+
+    expect(createSuppressionCodeAction(document, diagnostic)).toBeNull();
+  });
+});
+
+describe('createFixCodeAction', () => {
+  const document = TextDocument.create('file:///project/src/api.ts', 'typescript', 1, source);
+  const start = source.indexOf('const r');
+  const end = source.indexOf('\n}');
+  const fixed: Violation = {
+    ...violation,
+    fix: {
+      kind: 'try-catch',
+      description: 'Wrap in try/catch',
+      edits: [{ file: '/project/src/api.ts', start, end, replacement: 'try {}' }],
+    },
+  };
+
+  it('should convert the violation fix into a preferred workspace edit', () => {
+    const action = createFixCodeAction(document, violationToDiagnostic(fixed));
+
+    expect(action?.isPreferred).toBe(true);
+    expect(action?.title).toBe('Wrap in try/catch (axios/network-failure)');
+    expect(action?.edit?.changes?.[document.uri]).toEqual([{
+      range: { start: { line: 3, character: 2 }, end: { line: 4, character: 11 } },
+      newText: 'try {}',
+    }]);
+  });
+
+  it('should not offer fixes for other files or diagnostics without a fix', () => {
+    const elsewhere = { ...fixed, fix: { ...fixed.fix!, edits: [{ ...fixed.fix!.edits[0], file: '/project/src/other.ts' }] } };
+
+    expect(createFixCodeAction(document, violationToDiagnostic(elsewhere))).toBeNull();
+    expect(createFixCodeAction(document, violationToDiagnostic(violation))).toBeNull();
+  });
+
+  it('should not offer fixes computed for an older version of the document', () => {
+    const edited = TextDocument.update(
+      TextDocument.create(document.uri, 'typescript', 1, source),
+      [{ text: '// edited\n' + source }],
+      2
+    );
+
+    expect(createFixCodeAction(document, violationToDiagnostic(fixed, '', 1))).not.toBeNull();
+    expect(createFixCodeAction(edited, violationToDiagnostic(fixed, '', 1))).toBeNull();
+  });
+});
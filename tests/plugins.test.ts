@@ -0,0 +1,124 @@
+/**
+ * Detector Plugin Tests
+ * Tests loading detector plugins and running them alongside the built-in passes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Analyzer } from '../src/analyzer.js';
+import { loadDetectorPlugins } from '../src/plugins/index.js';
+import { findProjectConfig, CONFIG_FILENAME } from '../src/config.js';
+import type { PackageContract } from '../src/types.js';
+
+const contracts = new Map<string, PackageContract>([['@acme/billing', {
+  package: '@acme/billing',
+  semver: '*',
+  contract_version: '1.0.0',
+  maintainer: 'test',
+  status: 'production',
+  detection: { class_names: ['BillingClient'] },
+  functions: [],
+} as PackageContract]]);
+
+// Reports charge() calls on billing clients that do not pass an idempotency key
+const BILLING_PLUGIN = `
+export default {
+  name: 'acme-billing',
+  version: '2.1.0',
+  detect({ sourceFile, instances }) {
+    const violations = [];
+    for (const [variable, packageName] of instances) {
+      if (packageName !== '@acme/billing') continue;
+      for (const match of sourceFile.text.matchAll(new RegExp(variable + '\\\\.charge\\\\(([^)]*)\\\\)', 'g'))) {
+        if (match[1].includes('idempotencyKey')) continue;
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(match.index);
+        violations.push({
+          id: 'charge-without-idempotency-key',
+          severity: 'error',
+          line: line + 1,
+          column: character + 1,
+          package: '@acme/billing',
+          function: 'charge',
+          contract_clause: 'charge-without-idempotency-key',
+          description: 'Retried charges are billed twice without an idempotency key.',
+          source_doc: '',
+        });
+      }
+    }
+    return violations;
+  },
+};
+`;
+
+describe('detector plugins', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-plugins-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: false, skipLibCheck: true, noResolve: true },
+      include: ['*.ts'],
+    }));
+    fs.mkdirSync(path.join(projectDir, 'tools'));
+    fs.writeFileSync(path.join(projectDir, 'tools', 'billing-plugin.mjs'), BILLING_PLUGIN);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should run plugins with the tracked instances and namespace their violations', async () => {
+    fs.writeFileSync(path.join(projectDir, 'app.ts'),
+      "import { BillingClient } from '@acme/billing';\n\n" +
+      'const billing = new BillingClient();\n\n' +
+      'export async function checkout(orderId: string) {\n' +
+      '  await billing.charge({ amount: 100 });\n' +
+      '  await billing.charge({ amount: 100, idempotencyKey: orderId });\n' +
+      '}\n'
+    );
+
+    const plugins = await loadDetectorPlugins(['./tools/billing-plugin.mjs'], projectDir);
+    const analyzer = new Analyzer({
+      tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+      corpusPath: '',
+      updateSuppressionManifest: false,
+      plugins,
+    }, contracts);
+
+    const violations = analyzer.analyze();
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      id: 'acme-billing/charge-without-idempotency-key',
+      plugin: 'acme-billing',
+      file: path.join(projectDir, 'app.ts'),
+      line: 6,
+      enclosing_symbol: 'checkout',
+    });
+    expect(violations[0].fix).toBeUndefined();
+  });
+
+  it('should reject modules that do not export a plugin', async () => {
+    fs.writeFileSync(path.join(projectDir, 'tools', 'empty.mjs'), 'export default { name: "empty" };\n');
+
+    await expect(loadDetectorPlugins(['./tools/empty.mjs'], projectDir))
+      .rejects.toThrow('Failed to load plugin ./tools/empty.mjs: the default export must be a plugin');
+    await expect(loadDetectorPlugins(['@acme/missing-detectors'], projectDir))
+      .rejects.toThrow('Failed to load plugin @acme/missing-detectors');
+    await expect(loadDetectorPlugins(['./tools/billing-plugin.mjs', path.join(projectDir, 'tools', 'billing-plugin.mjs')], projectDir))
+      .rejects.toThrow('another plugin is already named "acme-billing"');
+  });
+
+  it('should resolve plugin paths in the config against its directory', () => {
+    fs.writeFileSync(path.join(projectDir, CONFIG_FILENAME), JSON.stringify({
+      plugins: ['@acme/verify-cli-detectors', './tools/billing-plugin.mjs'],
+    }));
+
+    expect(findProjectConfig(projectDir)?.config.plugins).toEqual([
+      '@acme/verify-cli-detectors',
+      path.join(projectDir, 'tools', 'billing-plugin.mjs'),
+    ]);
+  });
+});
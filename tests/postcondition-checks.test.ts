@@ -0,0 +1,186 @@
+/**
+ * Postcondition Check Tests
+ * Tests the check kinds contracts declare to choose how postconditions are verified
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Analyzer } from '../src/analyzer.js';
+import { validateContractChecks } from '../src/checks/index.js';
+import type { PackageContract, Postcondition, PostconditionCheck, Violation } from '../src/types.js';
+
+function createContract(functionName: string, postcondition: Partial<Postcondition>): PackageContract {
+  return {
+    package: 'acme-sdk',
+    semver: '*',
+    contract_version: '1.0.0',
+    maintainer: 'test',
+    status: 'production',
+    functions: [{
+      name: functionName,
+      import_path: 'acme-sdk',
+      description: 'test',
+      postconditions: [{
+        id: 'checked-clause',
+        condition: 'Fails at runtime',
+        required_handling: 'see contract',
+        severity: 'error',
+        ...postcondition,
+      } as Postcondition],
+    }],
+  } as PackageContract;
+}
+
+describe('postcondition check kinds', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-checks-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: false, skipLibCheck: true, noResolve: true },
+      include: ['*.ts'],
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function analyze(contract: PackageContract, code: string): Violation[] {
+    fs.writeFileSync(path.join(projectDir, 'app.ts'), code);
+
+    const analyzer = new Analyzer({
+      tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+      corpusPath: '',
+      updateSuppressionManifest: false,
+      passes: ['postconditions'],
+    }, new Map([[contract.package, contract]]));
+
+    return analyzer.analyze();
+  }
+
+  it('should report hardcoded values in the checked argument positions only', () => {
+    const contract = createContract('connect', { check: { kind: 'literal-argument', arguments: [0] } });
+
+    const violations = analyze(contract,
+      "import { connect } from 'acme-sdk';\n\n" +
+      "connect('sk_live_123', process.env.REGION);\n" +
+      "connect(process.env.ACME_KEY, 'eu-west-1');\n"
+    );
+
+    expect(violations.map(v => [v.line, v.severity])).toEqual([[3, 'error']]);
+  });
+
+  it('should require a null check on the result', () => {
+    const contract = createContract('getSession', { check: { kind: 'null-check' } });
+
+    const violations = analyze(contract,
+      "import { getSession } from 'acme-sdk';\n\n" +
+      'export async function name() {\n' +
+      '  const session = await getSession();\n' +
+      '  return session.user.name;\n' +
+      '}\n\n' +
+      'export async function email() {\n' +
+      '  const session = await getSession();\n' +
+      '  if (!session) return null;\n' +
+      '  return session.user.email;\n' +
+      '}\n'
+    );
+
+    expect(violations.map(v => v.line)).toEqual([4]);
+    expect(violations[0].fix?.description).toContain('null');
+  });
+
+  it('should apply command dispatch postconditions to their commands only', () => {
+    const contract = createContract('send', {
+      check: { kind: 'command-dispatch', commands: ['PutItemCommand'] },
+    });
+    contract.detection = { class_names: ['AcmeClient'] };
+
+    const violations = analyze(contract,
+      "import { AcmeClient, PutItemCommand, GetItemCommand } from 'acme-sdk';\n\n" +
+      'const client = new AcmeClient();\n\n' +
+      'export async function save(item: unknown) {\n' +
+      '  await client.send(new PutItemCommand(item));\n' +
+      '  await client.send(new GetItemCommand(item));\n' +
+      '}\n'
+    );
+
+    expect(violations.map(v => v.line)).toEqual([6]);
+    expect(violations[0].description).toBe('PutItemCommand called without try-catch. Fails at runtime');
+  });
+
+  it('should check that a project file exists and exports the setup', () => {
+    const contract = createContract('protect', {
+      check: {
+        kind: 'file-exports',
+        files: ['instrumentation.ts'],
+        import: { package: 'acme-sdk', name: 'register' },
+        export: 'default',
+      },
+    });
+    const code = "import { protect } from 'acme-sdk';\n\nprotect();\n";
+
+    expect(analyze(contract, code).map(v => v.description)).toEqual(['instrumentation.ts not found.']);
+
+    fs.writeFileSync(
+      path.join(projectDir, 'instrumentation.ts'),
+      "import { register } from 'acme-sdk/server';\n\nexport default register();\n"
+    );
+    expect(analyze(contract, code)).toEqual([]);
+  });
+
+  it('should warn when handled errors ignore the status codes', () => {
+    const contract = createContract('fetchAll', { check: { kind: 'status-code-handling', status_codes: [429] } });
+
+    const violations = analyze(contract,
+      "import { fetchAll } from 'acme-sdk';\n\n" +
+      'export async function load() {\n' +
+      '  try {\n' +
+      '    return await fetchAll();\n' +
+      '  } catch (error) {\n' +
+      '    return [];\n' +
+      '  }\n' +
+      '}\n\n' +
+      'export async function loadWithRateLimit() {\n' +
+      '  try {\n' +
+      '    return await fetchAll();\n' +
+      '  } catch (error) {\n' +
+      '    if (error.response?.status === 429) return [];\n' +
+      '    throw error;\n' +
+      '  }\n' +
+      '}\n'
+    );
+
+    expect(violations.map(v => [v.line, v.severity])).toEqual([[5, 'warning']]);
+  });
+
+  it('should keep checking contracts without check kinds by postcondition ID', () => {
+    const contract = createContract('connect', { id: 'hardcoded-credentials' });
+
+    const violations = analyze(contract, "import { connect } from 'acme-sdk';\n\nconnect('sk_live_123');\n");
+
+    expect(violations.map(v => v.contract_clause)).toEqual(['hardcoded-credentials']);
+  });
+});
+
+describe('validateContractChecks', () => {
+  it('should report unknown kinds and invalid parameters', () => {
+    const contract = createContract('connect', {
+      check: { kind: 'status-code-handling', status_codes: [42] },
+    });
+    contract.functions.push({
+      name: 'send',
+      import_path: 'acme-sdk',
+      description: 'test',
+      postconditions: [{ id: 'other', check: { kind: 'regex' } as unknown as PostconditionCheck } as Postcondition],
+    });
+
+    expect(validateContractChecks(contract)).toEqual([
+      '/functions/0/postconditions/0/check status_codes contains invalid HTTP status 42',
+      '/functions/1/postconditions/0/check has unknown kind "regex"',
+    ]);
+  });
+});
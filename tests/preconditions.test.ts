@@ -0,0 +1,151 @@
+/**
+ * Precondition Check Tests
+ * Tests verifying argument and options-object constraints at contract call sites
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Analyzer } from '../src/analyzer.js';
+import { validateContractChecks } from '../src/checks/index.js';
+import type { PackageContract, Precondition, PreconditionCheck, Violation } from '../src/types.js';
+
+function createContract(functionName: string, check: PreconditionCheck): PackageContract {
+  return {
+    package: 'acme-sdk',
+    semver: '*',
+    contract_version: '1.0.0',
+    maintainer: 'test',
+    status: 'production',
+    functions: [{
+      name: functionName,
+      import_path: 'acme-sdk',
+      description: 'test',
+      preconditions: [{
+        id: 'checked-precondition',
+        description: 'See the acme-sdk docs',
+        source: 'https://docs.acme.dev',
+        severity: 'error',
+        check,
+      }],
+    }],
+  } as PackageContract;
+}
+
+describe('precondition checks', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-preconditions-'));
+    fs.writeFileSync(path.join(projectDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: false, skipLibCheck: true, noResolve: true },
+      include: ['*.ts'],
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function analyze(contract: PackageContract, code: string): Violation[] {
+    fs.writeFileSync(path.join(projectDir, 'app.ts'), code);
+
+    const analyzer = new Analyzer({
+      tsconfigPath: path.join(projectDir, 'tsconfig.json'),
+      corpusPath: '',
+      updateSuppressionManifest: false,
+      passes: ['preconditions'],
+    }, new Map([[contract.package, contract]]));
+
+    return analyzer.analyze();
+  }
+
+  it('should require options, following const bindings and spread config objects', () => {
+    const contract = createContract('createClient', { kind: 'required', property: 'timeout' });
+
+    const violations = analyze(contract,
+      "import { createClient } from 'acme-sdk';\n\n" +
+      'const defaults = { timeout: 5000 };\n' +
+      "const config = { ...defaults, baseURL: 'https://api.acme.dev' };\n" +
+      'createClient(config);\n' +
+      "createClient({ baseURL: 'https://api.acme.dev' });\n" +
+      'createClient({ ...defaults, timeout: undefined });\n' +
+      'export function custom(options) {\n' +
+      '  return createClient({ ...options });\n' +
+      '}\n'
+    );
+
+    expect(violations.map(v => v.line)).toEqual([6, 7]);
+    expect(violations[0]).toMatchObject({
+      id: 'acme-sdk-checked-precondition',
+      contract_clause: 'checked-precondition',
+      description: 'Option "timeout" is not set. See the acme-sdk docs',
+      source_doc: 'https://docs.acme.dev',
+    });
+    expect(violations[0].fix).toBeUndefined();
+  });
+
+  it('should report hardcoded values where the environment is required', () => {
+    const contract = createContract('connect', { kind: 'from-env', property: 'auth.apiKey' });
+
+    const violations = analyze(contract,
+      "import { connect } from 'acme-sdk';\n\n" +
+      "const auth = { apiKey: 'sk_live_123' };\n" +
+      'connect({ auth });\n' +
+      "connect({ auth: { apiKey: process.env.ACME_KEY || 'sk_test_123' } });\n" +
+      'connect({ auth: { apiKey: process.env.ACME_KEY } });\n'
+    );
+
+    expect(violations.map(v => [v.line, v.description])).toEqual([
+      [4, "Option \"auth.apiKey\" is hardcoded as 'sk_live_123'. See the acme-sdk docs"],
+      [5, "Option \"auth.apiKey\" is hardcoded as 'sk_test_123'. See the acme-sdk docs"],
+    ]);
+  });
+
+  it('should check known values of positional arguments against ranges and allowed values', () => {
+    const range = createContract('retry', { kind: 'range', argument: 1, min: 1, max: 10 });
+    const allowed = createContract('setRegion', { kind: 'allowed-values', values: ['eu', 'us'] });
+
+    expect(analyze(range,
+      "import { retry } from 'acme-sdk';\n\n" +
+      'const MAX_ATTEMPTS = 50;\n' +
+      'retry(job, MAX_ATTEMPTS);\n' +
+      'retry(job, 3);\n' +
+      'retry(job, attempts);\n'
+    ).map(v => v.description)).toEqual(['Argument 2 is 50, expected between 1 and 10. See the acme-sdk docs']);
+
+    expect(analyze(allowed,
+      "import { setRegion } from 'acme-sdk';\n\n" +
+      "setRegion('ap');\n" +
+      "setRegion('eu');\n"
+    ).map(v => v.line)).toEqual([3]);
+  });
+
+  it('should go through the suppression pipeline', () => {
+    const contract = createContract('createClient', { kind: 'required', property: 'timeout' });
+
+    const violations = analyze(contract,
+      "import { createClient } from 'acme-sdk';\n\n" +
+      '// @behavioral-contract-ignore acme-sdk/checked-precondition: Timeout is set by the proxy\n' +
+      'createClient({});\n'
+    );
+
+    expect(violations).toEqual([]);
+  });
+});
+
+describe('validateContractChecks for preconditions', () => {
+  it('should report invalid precondition checks', () => {
+    const contract = createContract('retry', { kind: 'range', argument: 1 });
+    contract.functions[0].preconditions!.push({
+      id: 'other',
+      check: { kind: 'regex' } as unknown as PreconditionCheck,
+    } as Precondition);
+
+    expect(validateContractChecks(contract)).toEqual([
+      '/functions/0/preconditions/0/check needs min, max or both',
+      '/functions/0/preconditions/1/check has unknown kind "regex"',
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * SARIF Reporter Tests
+ * Tests conversion of audit records into SARIF 2.1.0 logs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateSarifLog, SARIF_FINGERPRINT_KEY } from '../src/reporters/sarif.js';
+import type { AuditRecord, Violation } from '../src/types.js';
+
+const projectRoot = '/repo';
+
+function makeViolation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    id: 'axios-network-failure',
+    severity: 'error',
+    file: '/repo/src/api/client.ts',
+    line: 12,
+    column: 5,
+    package: 'axios',
+    function: 'get',
+    contract_clause: 'network-failure',
+    description: 'No try-catch block found. Network failures will crash the application.',
+    source_doc: 'https://axios-http.com/docs/handling_errors',
+    suggested_fix: 'Wrap the call in try-catch and check error.response',
+    code_snippet: {
+      startLine: 11,
+      endLine: 13,
+      lines: [
+        { line: 11, content: 'async function load() {', highlighted: false },
+        { line: 12, content: '  const res = await axios.get(url);', highlighted: true },
+        { line: 13, content: '}', highlighted: false },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+function makeRecord(violations: Violation[]): AuditRecord {
+  return {
+    tool: '@behavioral-contracts/verify-cli',
+    tool_version: '1.2.1',
+    corpus_version: '1.0.0',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    git_commit: 'abc123',
+    git_branch: 'main',
+    tsconfig: './tsconfig.json',
+    packages_analyzed: ['axios'],
+    contracts_applied: 10,
+    files_analyzed: 3,
+    violations,
+    summary: {
+      total_violations: violations.length,
+      error_count: violations.filter(v => v.severity === 'error').length,
+      warning_count: violations.filter(v => v.severity === 'warning').length,
+      info_count: violations.filter(v => v.severity === 'info').length,
+      passed: violations.every(v => v.severity !== 'error'),
+    },
+  };
+}
+
+describe('SARIF Reporter', () => {
+  it('should create one rule per package/contract_clause', () => {
+    const sarif = generateSarifLog(makeRecord([
+      makeViolation(),
+      makeViolation({ line: 30 }),
+      makeViolation({ contract_clause: 'rate-limited-429', severity: 'warning' }),
+    ]), { projectRoot });
+
+    const rules = sarif.runs[0].tool.driver.rules;
+    expect(rules.map(r => r.id)).toEqual(['axios/network-failure', 'axios/rate-limited-429']);
+    expect(rules[0].helpUri).toBe('https://axios-http.com/docs/handling_errors');
+
+    const results = sarif.runs[0].results;
+    expect(results).toHaveLength(3);
+    expect(results[1].ruleIndex).toBe(0);
+    expect(results[2].ruleIndex).toBe(1);
+    expect(results[2].level).toBe('warning');
+  });
+
+  it('should map location, snippet region and the suggested fix as rule help', () => {
+    const sarif = generateSarifLog(makeRecord([makeViolation()]), { projectRoot });
+    const result = sarif.runs[0].results[0];
+    const location = result.locations[0].physicalLocation;
+
+    expect(location.artifactLocation).toEqual({ uri: 'src/api/client.ts', uriBaseId: '%SRCROOT%' });
+    expect(location.region).toMatchObject({ startLine: 12, startColumn: 5 });
+    expect(location.region?.snippet?.text).toBe('  const res = await axios.get(url);');
+    expect(location.contextRegion).toMatchObject({ startLine: 11, endLine: 13 });
+    expect(sarif.runs[0].tool.driver.rules[0].help?.text).toBe('Wrap the call in try-catch and check error.response');
+    // SARIF requires artifactChanges on every fix, so a description alone is not emitted
+    expect(result.fixes).toBeUndefined();
+  });
+
+  it('should emit structured fixes as artifact changes', () => {
+    const violation = makeViolation({
+      fix: {
+        kind: 'try-catch',
+        description: 'Wrap in try/catch',
+        edits: [{ file: '/repo/src/api/client.ts', start: 120, end: 150, replacement: 'try {}' }],
+      },
+    });
+    const fix = generateSarifLog(makeRecord([violation]), { projectRoot }).runs[0].results[0].fixes?.[0];
+
+    expect(fix?.description.text).toBe('Wrap in try/catch');
+    expect(fix?.artifactChanges).toEqual([{
+      artifactLocation: { uri: 'src/api/client.ts', uriBaseId: '%SRCROOT%' },
+      replacements: [{ deletedRegion: { charOffset: 120, charLength: 30 }, insertedContent: { text: 'try {}' } }],
+    }]);
+  });
+
+  it('should emit the error propagation path as related locations', () => {
+    const violation = makeViolation({
+      related_locations: [{ file: '/repo/src/api/http.ts', line: 4, column: 21, message: 'apiGet() lets the errors propagate' }],
+    });
+    const result = generateSarifLog(makeRecord([violation]), { projectRoot }).runs[0].results[0];
+
+    expect(result.relatedLocations).toEqual([{
+      id: 0,
+      physicalLocation: {
+        artifactLocation: { uri: 'src/api/http.ts', uriBaseId: '%SRCROOT%' },
+        region: { startLine: 4, startColumn: 21 },
+      },
+      message: { text: 'apiGet() lets the errors propagate' },
+    }]);
+  });
+
+  it('should map info severity to note', () => {
+    const sarif = generateSarifLog(makeRecord([makeViolation({ severity: 'info' })]), { projectRoot });
+    expect(sarif.runs[0].results[0].level).toBe('note');
+  });
+
+  it('should keep fingerprints stable when the violation moves', () => {
+    const original = makeViolation();
+    const moved = makeViolation({
+      line: 40,
+      column: 9,
+      code_snippet: {
+        startLine: 39,
+        endLine: 41,
+        lines: [
+          { line: 39, content: 'async function load() {', highlighted: false },
+          { line: 40, content: '      const res  =  await axios.get(url);', highlighted: true },
+          { line: 41, content: '}', highlighted: false },
+        ],
+      },
+    });
+
+    const [a, b] = generateSarifLog(makeRecord([original, moved]), { projectRoot }).runs[0].results;
+    expect(a.partialFingerprints[SARIF_FINGERPRINT_KEY]).toBe(b.partialFingerprints[SARIF_FINGERPRINT_KEY]);
+  });
+
+  it('should produce different fingerprints for different clauses', () => {
+    const [a, b] = generateSarifLog(makeRecord([
+      makeViolation(),
+      makeViolation({ contract_clause: 'rate-limited-429' }),
+    ]), { projectRoot }).runs[0].results;
+
+    expect(a.partialFingerprints[SARIF_FINGERPRINT_KEY]).not.toBe(b.partialFingerprints[SARIF_FINGERPRINT_KEY]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Suppression Anchor Tests
+ * Tests AST anchors, statement-attached inline comments and re-locating moved suppressions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  computeSuppressionAnchor,
+  getSuppressionForLocation,
+  checkSuppression,
+  loadManifestSync
+} from '../src/suppressions/index.js';
+
+function parse(code: string, fileName = 'api.ts'): ts.SourceFile {
+  return ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+}
+
+function locate(code: string, needle: string, occurrence = 0): { line: number; column: number } {
+  let offset = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    offset = code.indexOf(needle, offset + 1);
+  }
+  const before = code.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function anchorOf(code: string, needle: string, occurrence = 0, clause = 'network-failure'): string | undefined {
+  const { line, column } = locate(code, needle, occurrence);
+  return computeSuppressionAnchor(parse(code), line, column, 'axios', clause);
+}
+
+const code =
+  'async function load(url: string) {\n' +
+  '  const res = await axios.get(url);\n' +
+  '  const again = await axios.get(url);\n' +
+  '  return [res, again];\n' +
+  '}\n';
+
+describe('computeSuppressionAnchor', () => {
+  it('should not change when code above moves the call', () => {
+    const moved = 'import axios from "axios";\n\nconst retries = 3;\n\n' + code;
+
+    expect(anchorOf(moved, 'axios.get')).toBe(anchorOf(code, 'axios.get'));
+  });
+
+  it('should not change when the call is reformatted', () => {
+    const reformatted = code.replace('await axios.get(url)', 'await axios\n    .get(url)');
+
+    expect(anchorOf(reformatted, 'axios')).toBe(anchorOf(code, 'axios.get'));
+  });
+
+  it('should tell repeated calls in the same function apart', () => {
+    expect(anchorOf(code, 'axios.get', 1)).not.toBe(anchorOf(code, 'axios.get', 0));
+  });
+
+  it('should include the enclosing function and the clause', () => {
+    expect(anchorOf(code.replace('load', 'save'), 'axios.get')).not.toBe(anchorOf(code, 'axios.get'));
+    expect(anchorOf(code, 'axios.get', 0, 'timeout-not-set')).not.toBe(anchorOf(code, 'axios.get'));
+  });
+});
+
+describe('getSuppressionForLocation', () => {
+  const comment = '// @behavioral-contract-ignore axios/network-failure: Handled by retry middleware';
+
+  it('should apply a comment to every line of the statement below it', () => {
+    const source = `async function load() {\n  ${comment}\n  const res =\n    await axios.get(url);\n}\n`;
+    const { line, column } = locate(source, 'axios.get');
+
+    expect(getSuppressionForLocation(parse(source), line, column, 'axios', 'network-failure')?.reason)
+      .toBe('Handled by retry middleware');
+  });
+
+  it('should not apply a comment that trails the previous statement to the next one', () => {
+    const source = `async function load() {\n  prepare(); ${comment}\n\n  const res =\n    await axios.get(url);\n}\n`;
+    const { line, column } = locate(source, 'axios.get');
+
+    expect(getSuppressionForLocation(parse(source), line, column, 'axios', 'network-failure')).toBeUndefined();
+  });
+
+  it('should only match the comment for the violation\'s clause', () => {
+    const source = `${comment}\naxios.get(url);\n`;
+
+    expect(getSuppressionForLocation(parse(source), 2, 1, 'axios', 'timeout-not-set')).toBeUndefined();
+  });
+});
+
+describe('checkSuppression', () => {
+  let projectDir: string;
+  const comment = '  // @behavioral-contract-ignore axios/network-failure: Handled by retry middleware\n';
+  const source = `async function load(url: string) {\n${comment}  const res = await axios.get(url);\n  return res;\n}\n`;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-anchor-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function check(text: string) {
+    const { line, column } = locate(text, 'axios.get');
+    return checkSuppression({
+      projectRoot: projectDir,
+      sourceFile: parse(text, path.join(projectDir, 'api.ts')),
+      line,
+      column,
+      packageName: 'axios',
+      postconditionId: 'network-failure',
+      analyzerVersion: '1.1.0'
+    });
+  }
+
+  it('should re-locate the manifest entry when the suppression moved', () => {
+    expect(check(source).moved).toBeUndefined();
+
+    const result = check('const retries = 3;\n\n' + source);
+
+    expect(result.suppressed).toBe(true);
+    expect(result.moved?.previousLine).toBe(3);
+    expect(result.moved?.suppression.line).toBe(5);
+
+    const { suppressions } = loadManifestSync(projectDir);
+    expect(suppressions).toHaveLength(1);
+    expect(suppressions[0].line).toBe(5);
+  });
+
+  it('should not report suppressions that stayed in place', () => {
+    check(source);
+
+    expect(check(source).moved).toBeUndefined();
+    expect(loadManifestSync(projectDir).suppressions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Scoped Suppression Directive Tests
+ * Tests file, next-block and region directives in line and block comments
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  parseInlineSuppressions,
+  getSuppressionForLocation,
+  checkSuppression,
+  recordUnusedDirectives,
+  loadManifestSync,
+  getDeadSuppressions
+} from '../src/suppressions/index.js';
+
+function parse(code: string, fileName = 'api.ts'): ts.SourceFile {
+  return ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+}
+
+function isSuppressed(code: string, line: number, clause = 'network-failure'): boolean {
+  return getSuppressionForLocation(parse(code), line, 1, 'axios', clause) !== undefined;
+}
+
+describe('parseInlineSuppressions', () => {
+  it('should read directives from JSDoc and block comments', () => {
+    const code =
+      '/**\n' +
+      ' * Generated client\n' +
+      ' * @behavioral-contract-ignore-file axios/*: Generated client, callers handle errors\n' +
+      ' */\n' +
+      'axios.get(url);\n' +
+      '/* @behavioral-contract-ignore axios/timeout-not-set: Timeout set in axios.defaults */\n' +
+      'axios.post(url);\n';
+
+    const [file, line] = parseInlineSuppressions(parse(code));
+
+    expect(file).toMatchObject({ line: 3, scope: 'file', package: 'axios', postconditionId: '*', startLine: 1, endLine: 8 });
+    expect(line).toMatchObject({ line: 6, scope: 'line', reason: 'Timeout set in axios.defaults' });
+  });
+
+  it('should ignore directive text inside strings', () => {
+    const code = 'const help = "// @behavioral-contract-ignore-file axios/*: not a comment at all";\n';
+
+    expect(parseInlineSuppressions(parse(code))).toEqual([]);
+  });
+
+  it('should ignore directives without a reason', () => {
+    expect(parseInlineSuppressions(parse('// @behavioral-contract-ignore-file axios/*\n'))).toEqual([]);
+  });
+});
+
+describe('scoped directives', () => {
+  it('should suppress the whole file', () => {
+    const code = 'axios.get(a);\n// @behavioral-contract-ignore-file axios/*: Generated client, callers handle errors\n\n\naxios.get(b);\n';
+
+    expect(isSuppressed(code, 1)).toBe(true);
+    expect(isSuppressed(code, 5)).toBe(true);
+  });
+
+  it('should suppress the next block only', () => {
+    const code =
+      '// @behavioral-contract-ignore-next-block axios/network-failure: Seed script, failures abort the run\n' +
+      'export async function seed() {\n' +
+      '  await axios.get(a);\n' +
+      '\n' +
+      '  await axios.get(b);\n' +
+      '}\n' +
+      'await axios.get(c);\n';
+
+    expect(isSuppressed(code, 3)).toBe(true);
+    expect(isSuppressed(code, 5)).toBe(true);
+    expect(isSuppressed(code, 7)).toBe(false);
+  });
+
+  it('should suppress a region up to its end directive', () => {
+    const code =
+      'await axios.get(a);\n' +
+      '/* @behavioral-contract-ignore-start axios/*: Legacy module, replaced in v3 */\n' +
+      'await axios.get(b);\n' +
+      '\n' +
+      'await axios.get(c);\n' +
+      '// @behavioral-contract-ignore-end\n' +
+      '\n' +
+      'await axios.get(d);\n';
+
+    expect(isSuppressed(code, 1)).toBe(false);
+    expect(isSuppressed(code, 3)).toBe(true);
+    expect(isSuppressed(code, 5)).toBe(true);
+    expect(isSuppressed(code, 8)).toBe(false);
+  });
+
+  it('should close the region named by the end directive', () => {
+    const code =
+      '// @behavioral-contract-ignore-start axios/*: Legacy module, replaced in v3\n' +
+      '// @behavioral-contract-ignore-start stripe/*: Legacy billing, replaced in v3\n' +
+      '// @behavioral-contract-ignore-end axios/*\n' +
+      '\n' +
+      'await axios.get(a);\n';
+
+    const [axiosRegion, stripeRegion] = parseInlineSuppressions(parse(code));
+
+    expect(axiosRegion.endLine).toBe(3);
+    expect(stripeRegion.endLine).toBe(6);
+    expect(isSuppressed(code, 5)).toBe(false);
+  });
+
+  it('should only apply to matching clauses', () => {
+    const code = '// @behavioral-contract-ignore-file axios/timeout-not-set: Timeout set in axios.defaults\n\naxios.get(a);\n';
+
+    expect(isSuppressed(code, 3, 'network-failure')).toBe(false);
+    expect(isSuppressed(code, 3, 'timeout-not-set')).toBe(true);
+  });
+});
+
+describe('directive manifest tracking', () => {
+  let projectDir: string;
+  const code =
+    '// @behavioral-contract-ignore-file axios/*: Generated client, callers handle errors\n' +
+    '/* @behavioral-contract-ignore-start stripe/*: Legacy billing, replaced in v3 */\n' +
+    'await axios.get(a);\n' +
+    '\n' +
+    'await axios.get(b);\n' +
+    '/* @behavioral-contract-ignore-end */\n';
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-directives-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should record one entry per directive and mark unused directives as dead', () => {
+    const sourceFile = parse(code, path.join(projectDir, 'api.ts'));
+    const used = [3, 5].map(line => checkSuppression({
+      projectRoot: projectDir,
+      sourceFile,
+      line,
+      column: 7,
+      packageName: 'axios',
+      postconditionId: 'network-failure',
+      analyzerVersion: '1.1.0'
+    }).originalSource);
+
+    const unused = recordUnusedDirectives({
+      projectRoot: projectDir,
+      sourceFile,
+      usedDirectives: used,
+      analyzerVersion: '1.1.0'
+    });
+
+    expect(unused.map(directive => directive.package)).toEqual(['stripe']);
+
+    const manifest = loadManifestSync(projectDir);
+    expect(manifest.suppressions.map(s => [s.line, s.scope, s.stillViolates])).toEqual([
+      [1, 'file', true],
+      [2, 'region', false]
+    ]);
+    expect(getDeadSuppressions(manifest).map(s => s.package)).toEqual(['stripe']);
+  });
+
+  it('should keep identical directives in one file apart', () => {
+    const directive = '// @behavioral-contract-ignore-next-block axios/network-failure: Seed script, failures abort the run\n';
+    const seedCode =
+      directive +
+      'export async function seedUsers() {\n' +
+      '  await axios.get(a);\n' +
+      '}\n' +
+      directive +
+      'export async function seedOrders() {\n' +
+      '  await axios.get(b);\n' +
+      '}\n';
+    const sourceFile = parse(seedCode, path.join(projectDir, 'seed.ts'));
+    const check = (line: number) => checkSuppression({
+      projectRoot: projectDir,
+      sourceFile,
+      line,
+      column: 3,
+      packageName: 'axios',
+      postconditionId: 'network-failure',
+      analyzerVersion: '1.1.0'
+    });
+
+    expect([3, 7].map(line => check(line).moved)).toEqual([undefined, undefined]);
+    expect([3, 7].map(line => check(line).moved)).toEqual([undefined, undefined]);
+
+    const manifest = loadManifestSync(projectDir);
+    expect(manifest.suppressions.map(s => s.line).sort()).toEqual([1, 5]);
+    expect(new Set(manifest.suppressions.map(s => s.anchor)).size).toBe(2);
+  });
+});
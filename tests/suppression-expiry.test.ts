@@ -0,0 +1,197 @@
+/**
+ * Suppression Expiry Tests
+ * Tests expiry dates and ticket references on inline comments and config rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  SuppressionSession,
+  parseInlineSuppressions,
+  validateSuppressionComment,
+  generateSuppressionComment,
+  checkSuppression,
+  loadConfigSync,
+  getExpiringSuppressions,
+  daysUntilExpiry,
+  isExpired
+} from '../src/suppressions/index.js';
+import type { Suppression } from '../src/suppressions/index.js';
+
+function parse(code: string, fileName = 'api.ts'): ts.SourceFile {
+  return ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+}
+
+const now = new Date('2026-06-15T12:00:00Z');
+
+describe('inline expiry fields', () => {
+  it('should split expires and ticket off the reason', () => {
+    const code = '// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-12-31; ticket: OPS-42\naxios.get(url);\n';
+
+    const [suppression] = parseInlineSuppressions(parse(code));
+
+    expect(suppression).toMatchObject({
+      reason: 'Retried by the job queue',
+      expires: '2026-12-31',
+      ticket: 'OPS-42'
+    });
+  });
+
+  it('should keep semicolons that are part of the reason', () => {
+    const code = '// @behavioral-contract-ignore axios/network-failure: Retried; the job queue handles it\naxios.get(url);\n';
+
+    const [suppression] = parseInlineSuppressions(parse(code));
+
+    expect(suppression.reason).toBe('Retried; the job queue handles it');
+    expect(suppression.expires).toBeUndefined();
+  });
+
+  it('should reject invalid expiry dates', () => {
+    const result = validateSuppressionComment(
+      '// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-02-30'
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('2026-02-30');
+  });
+
+  it('should leave out comments with malformed expiry dates and report them', () => {
+    const code =
+      '// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 12/31/2026\n' +
+      'axios.get(a);\n' +
+      '// @behavioral-contract-ignore-next-block axios/*: Seed script, failures abort the run; expires: next-week\n' +
+      'axios.get(b);\n';
+    const invalid: Array<[number, string]> = [];
+
+    const suppressions = parseInlineSuppressions(parse(code), (line, error) => invalid.push([line, error]));
+
+    expect(suppressions).toEqual([]);
+    expect(invalid).toEqual([
+      [1, 'Invalid expiry date "12/31/2026". Expected: YYYY-MM-DD'],
+      [3, 'Invalid expiry date "next-week". Expected: YYYY-MM-DD']
+    ]);
+  });
+
+  it('should generate comments with the fields', () => {
+    expect(generateSuppressionComment('axios', 'network-failure', 'Retried by the job queue', {
+      expires: '2026-12-31',
+      ticket: 'OPS-42'
+    })).toBe('// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-12-31; ticket: OPS-42');
+  });
+});
+
+describe('expiry dates', () => {
+  it('should apply through the expiry day', () => {
+    expect(isExpired('2026-06-15', now)).toBe(false);
+    expect(isExpired('2026-06-14', now)).toBe(true);
+    expect(isExpired(undefined, now)).toBe(false);
+    expect(daysUntilExpiry('2026-06-20', now)).toBe(5);
+  });
+
+  it('should list suppressions expiring soon, soonest first', () => {
+    const suppressions = [
+      { id: 'a', expires: '2026-07-30' },
+      { id: 'b', expires: '2026-06-20' },
+      { id: 'c' },
+      { id: 'd', expires: '2026-01-01' }
+    ] as Suppression[];
+
+    expect(getExpiringSuppressions(suppressions, 30, now).map(s => s.id)).toEqual(['d', 'b']);
+  });
+});
+
+describe('checkSuppression with expiry dates', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-expiry-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function check(code: string) {
+    return checkSuppression({
+      projectRoot: projectDir,
+      sourceFile: parse(code, path.join(projectDir, 'api.ts')),
+      line: 2,
+      column: 1,
+      packageName: 'axios',
+      postconditionId: 'network-failure',
+      analyzerVersion: '1.1.0',
+      now
+    });
+  }
+
+  function writeConfig(rule: Record<string, unknown>): void {
+    fs.writeFileSync(
+      path.join(projectDir, '.behavioralcontractsrc.json'),
+      JSON.stringify({ ignore: [{ package: 'axios', postconditionId: 'network-failure', ...rule }] })
+    );
+  }
+
+  it('should turn an expired inline comment back into a violation', () => {
+    const result = check('// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-06-01; ticket: OPS-42\naxios.get(url);\n');
+
+    expect(result.suppressed).toBe(false);
+    expect(result.expired).toEqual({
+      source: 'inline-comment',
+      reason: 'Retried by the job queue',
+      expires: '2026-06-01',
+      ticket: 'OPS-42'
+    });
+  });
+
+  it('should keep suppressing until the expiry date', () => {
+    const result = check('// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-06-15\naxios.get(url);\n');
+
+    expect(result.suppressed).toBe(true);
+    expect(result.originalSource).toMatchObject({ expires: '2026-06-15' });
+  });
+
+  it('should not let an expired line comment hide an active directive', () => {
+    const result = check(
+      '// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 2026-06-01\n' +
+      'axios.get(url);\n' +
+      '// @behavioral-contract-ignore-file axios/*: Generated client, callers handle errors\n'
+    );
+
+    expect(result.suppressed).toBe(true);
+    expect(result.originalSource).toMatchObject({ scope: 'file', reason: 'Generated client, callers handle errors' });
+  });
+
+  it('should not apply inline comments with a malformed expiry date', () => {
+    const session = new SuppressionSession({ projectRoot: projectDir, analyzerVersion: '1.1.0', now });
+    const sourceFile = parse(
+      '// @behavioral-contract-ignore axios/network-failure: Retried by the job queue; expires: 12/31/2026\naxios.get(url);\n',
+      path.join(projectDir, 'api.ts')
+    );
+
+    const result = session.check({ sourceFile, line: 2, packageName: 'axios', postconditionId: 'network-failure' });
+
+    expect(result.suppressed).toBe(false);
+    expect(result.expired).toBeUndefined();
+    expect(session.getWarnings()).toEqual([
+      'Ignored suppression comment at api.ts:1: Invalid expiry date "12/31/2026". Expected: YYYY-MM-DD'
+    ]);
+  });
+
+  it('should turn an expired config rule back into a violation', () => {
+    writeConfig({ reason: 'Generated client code', expires: '2026-01-31', ticket: 'API-7' });
+
+    const result = check('\naxios.get(url);\n');
+
+    expect(result.suppressed).toBe(false);
+    expect(result.expired).toMatchObject({ source: 'config-file', expires: '2026-01-31', ticket: 'API-7' });
+  });
+
+  it('should reject config rules with an invalid expiry date', () => {
+    writeConfig({ reason: 'Generated client code', expires: '2026-02-30' });
+
+    expect(() => loadConfigSync(projectDir)).toThrow('YYYY-MM-DD');
+  });
+});
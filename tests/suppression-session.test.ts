@@ -0,0 +1,128 @@
+/**
+ * Suppression Session Tests
+ * Tests per-run caching and the batched, locked manifest write
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  SuppressionSession,
+  createSuppression,
+  loadManifestSync,
+  updateManifestSync,
+  upsertSuppression
+} from '../src/suppressions/index.js';
+
+const comment = '// @behavioral-contract-ignore axios/network-failure: Handled by retry middleware\n';
+
+describe('SuppressionSession', () => {
+  let projectDir: string;
+  let manifestDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-session-'));
+    manifestDir = path.join(projectDir, '.verify-cli');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function parse(code: string): ts.SourceFile {
+    return ts.createSourceFile(path.join(projectDir, 'api.ts'), code, ts.ScriptTarget.Latest, true);
+  }
+
+  function createSession(): SuppressionSession {
+    return new SuppressionSession({ projectRoot: projectDir, analyzerVersion: '1.1.0' });
+  }
+
+  function check(session: SuppressionSession, sourceFile: ts.SourceFile, line: number) {
+    return session.check({ sourceFile, line, packageName: 'axios', postconditionId: 'network-failure' });
+  }
+
+  it('should write the manifest once, on commit', () => {
+    const session = createSession();
+    const sourceFile = parse(`${comment}axios.get(a);\n${comment}axios.get(b);\n`);
+
+    expect(check(session, sourceFile, 2).suppressed).toBe(true);
+    expect(check(session, sourceFile, 4).suppressed).toBe(true);
+    expect(fs.existsSync(manifestDir)).toBe(false);
+
+    session.commit();
+
+    expect(loadManifestSync(projectDir).suppressions.map(s => s.line)).toEqual([2, 4]);
+    expect(fs.readdirSync(manifestDir)).toEqual(['suppressions.json']);
+  });
+
+  it('should load the config once per session', () => {
+    const configPath = path.join(projectDir, '.behavioralcontractsrc.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      ignore: [{ package: 'axios', postconditionId: 'network-failure', reason: 'Generated client code' }]
+    }));
+
+    const session = createSession();
+    const sourceFile = parse('axios.get(a);\naxios.get(b);\n');
+
+    expect(check(session, sourceFile, 1).suppressed).toBe(true);
+    fs.writeFileSync(configPath, JSON.stringify({ ignore: [] }));
+    expect(check(session, sourceFile, 2).suppressed).toBe(true);
+
+    expect(check(createSession(), sourceFile, 2).suppressed).toBe(false);
+  });
+
+  it('should keep entries written by another run before the commit', () => {
+    const session = createSession();
+    check(session, parse(`${comment}axios.get(a);\n`), 2);
+
+    updateManifestSync(projectDir, manifest => upsertSuppression(manifest, createSuppression({
+      file: 'other.ts',
+      line: 7,
+      packageName: 'stripe',
+      postconditionId: 'card-declined',
+      reason: 'Handled by the checkout flow',
+      suppressedBy: 'cli',
+      analyzerVersion: '1.1.0'
+    })));
+
+    session.commit();
+
+    expect(loadManifestSync(projectDir).suppressions.map(s => s.file).sort()).toEqual(['api.ts', 'other.ts']);
+  });
+
+  it('should take over a lock left behind by a crashed run', () => {
+    const lockPath = path.join(manifestDir, 'suppressions.json.lock');
+    fs.mkdirSync(manifestDir, { recursive: true });
+    fs.writeFileSync(lockPath, '12345');
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(lockPath, anHourAgo, anHourAgo);
+
+    const session = createSession();
+    check(session, parse(`${comment}axios.get(a);\n`), 2);
+    session.commit();
+
+    expect(loadManifestSync(projectDir).suppressions).toHaveLength(1);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should return a warning instead of logging when the manifest cannot be written', () => {
+    // A file where the manifest directory should be
+    fs.writeFileSync(manifestDir, '');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const session = createSession();
+      const sourceFile = parse(`${comment}axios.get(a);\n${comment}axios.get(b);\n`);
+      expect(check(session, sourceFile, 2).suppressed).toBe(true);
+      expect(check(session, sourceFile, 4).suppressed).toBe(true);
+      session.commit();
+
+      expect(warn).not.toHaveBeenCalled();
+      expect(session.getWarnings()).toEqual([expect.stringMatching(/^Failed to update suppression manifest: /)]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
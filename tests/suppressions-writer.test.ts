@@ -0,0 +1,179 @@
+/**
+ * Suppression Writer Tests
+ * Tests inserting inline comments, appending ignore rules and recording them in the manifest
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  insertSuppressionComment,
+  addIgnoreRule,
+  addSuppression,
+  loadManifestSync,
+  checkSuppression
+} from '../src/suppressions/index.js';
+
+describe('insertSuppressionComment', () => {
+  it('should insert the comment above the line with its indentation', () => {
+    const code = 'async function load() {\n    const res = await axios.get(url);\n}\n';
+
+    expect(insertSuppressionComment(code, 2, 'axios', 'network-failure', 'Handled by retry middleware')).toBe(
+      'async function load() {\n' +
+      '    // @behavioral-contract-ignore axios/network-failure: Handled by retry middleware\n' +
+      '    const res = await axios.get(url);\n' +
+      '}\n'
+    );
+  });
+
+  it('should keep CRLF line endings', () => {
+    const fixed = insertSuppressionComment('a();\r\nb();\r\n', 2, 'axios', 'network-failure', 'Handled by retry middleware');
+
+    expect(fixed).toBe('a();\r\n// @behavioral-contract-ignore axios/network-failure: Handled by retry middleware\r\nb();\r\n');
+  });
+
+  it('should reject lines that are already suppressed', () => {
+    const code = '// @behavioral-contract-ignore axios/network-failure: Handled by retry middleware\naxios.get(url);\n';
+
+    expect(() => insertSuppressionComment(code, 2, 'axios', 'network-failure', 'Handled elsewhere too'))
+      .toThrow('already suppressed');
+  });
+
+  it('should reject lines outside the file', () => {
+    expect(() => insertSuppressionComment('a();\n', 5, 'axios', 'network-failure', 'Handled by retry middleware'))
+      .toThrow('Line 5 does not exist');
+  });
+});
+
+describe('addSuppression', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-suppress-'));
+    fs.mkdirSync(path.join(projectDir, 'src'));
+    fs.writeFileSync(
+      path.join(projectDir, 'src', 'api.ts'),
+      'export async function load(url: string) {\n  const res = await axios.get(url);\n  return res.data;\n}\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const options = {
+    file: 'src/api.ts',
+    line: 2,
+    packageName: 'axios',
+    postconditionId: 'network-failure',
+    reason: 'Handled by retry middleware',
+    analyzerVersion: '1.1.0'
+  };
+
+  it('should insert an inline comment and record it at the moved line', () => {
+    const { suppression } = addSuppression({ ...options, projectRoot: projectDir, target: 'inline-comment' });
+
+    const text = fs.readFileSync(path.join(projectDir, 'src', 'api.ts'), 'utf-8');
+    expect(text.split('\n')[1]).toBe('  // @behavioral-contract-ignore axios/network-failure: Handled by retry middleware');
+    expect(suppression.line).toBe(3);
+    expect(suppression.suppressedBy).toBe('cli');
+    expect(loadManifestSync(projectDir).suppressions).toEqual([suppression]);
+  });
+
+  it('should keep suppressedBy when the analyzer confirms the suppression', () => {
+    const { suppression } = addSuppression({ ...options, projectRoot: projectDir, target: 'inline-comment' });
+    const fileName = path.join(projectDir, 'src', 'api.ts');
+    const sourceFile = ts.createSourceFile(fileName, fs.readFileSync(fileName, 'utf-8'), ts.ScriptTarget.Latest, true);
+
+    const result = checkSuppression({
+      projectRoot: projectDir,
+      sourceFile,
+      line: 3,
+      packageName: 'axios',
+      postconditionId: 'network-failure',
+      analyzerVersion: '1.1.0'
+    });
+
+    expect(result.suppressed).toBe(true);
+    const [recorded] = loadManifestSync(projectDir).suppressions;
+    expect(recorded.id).toBe(suppression.id);
+    expect(recorded.suppressedBy).toBe('cli');
+  });
+
+  it('should append an ignore rule to the config file', () => {
+    fs.writeFileSync(
+      path.join(projectDir, '.behavioralcontractsrc.json'),
+      JSON.stringify({ ignore: [{ file: 'scripts/**', reason: 'One-off scripts are not shipped' }] })
+    );
+
+    const { writtenTo } = addSuppression({ ...options, projectRoot: projectDir, target: 'config-file' });
+
+    expect(writtenTo).toBe(path.join(projectDir, '.behavioralcontractsrc.json'));
+    expect(JSON.parse(fs.readFileSync(writtenTo, 'utf-8')).ignore).toEqual([
+      { file: 'scripts/**', reason: 'One-off scripts are not shipped' },
+      { file: 'src/api.ts', package: 'axios', postconditionId: 'network-failure', reason: 'Handled by retry middleware' }
+    ]);
+  });
+
+  it('should require a meaningful reason', () => {
+    expect(() => addSuppression({ ...options, reason: 'ok', projectRoot: projectDir, target: 'inline-comment' }))
+      .toThrow('at least 10 characters');
+    expect(fs.existsSync(path.join(projectDir, '.verify-cli'))).toBe(false);
+  });
+
+  it('should reject invalid expiry dates before writing', () => {
+    const original = fs.readFileSync(path.join(projectDir, 'src', 'api.ts'), 'utf-8');
+
+    for (const target of ['inline-comment', 'config-file'] as const) {
+      expect(() => addSuppression({ ...options, expires: 'end of june', projectRoot: projectDir, target }))
+        .toThrow('Invalid expiry date "end of june"');
+    }
+    expect(fs.readFileSync(path.join(projectDir, 'src', 'api.ts'), 'utf-8')).toBe(original);
+    expect(fs.existsSync(path.join(projectDir, '.behavioralcontractsrc.json'))).toBe(false);
+  });
+
+  it('should reject tickets with spaces or semicolons before writing', () => {
+    const original = fs.readFileSync(path.join(projectDir, 'src', 'api.ts'), 'utf-8');
+
+    for (const ticket of ['ABC 123', 'ABC-123;x']) {
+      expect(() => addSuppression({ ...options, ticket, projectRoot: projectDir, target: 'inline-comment' }))
+        .toThrow(`Invalid ticket "${ticket}"`);
+    }
+    expect(fs.readFileSync(path.join(projectDir, 'src', 'api.ts'), 'utf-8')).toBe(original);
+  });
+});
+
+describe('addIgnoreRule', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-suppress-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should write to package.json when the configuration lives there', () => {
+    fs.writeFileSync(
+      path.join(projectDir, 'package.json'),
+      JSON.stringify({ name: 'app', 'behavioral-contracts': { includeTests: true } })
+    );
+
+    const written = addIgnoreRule(projectDir, { package: 'axios', reason: 'Handled by retry middleware' });
+
+    expect(written).toBe(path.join(projectDir, 'package.json'));
+    expect(JSON.parse(fs.readFileSync(written, 'utf-8'))['behavioral-contracts']).toEqual({
+      includeTests: true,
+      ignore: [{ package: 'axios', reason: 'Handled by retry middleware' }]
+    });
+  });
+
+  it('should create .behavioralcontractsrc.json when there is no configuration', () => {
+    const written = addIgnoreRule(projectDir, { package: 'axios', reason: 'Handled by retry middleware' });
+
+    expect(written).toBe(path.join(projectDir, '.behavioralcontractsrc.json'));
+  });
+});
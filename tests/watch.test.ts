@@ -0,0 +1,68 @@
+/**
+ * Watch Mode Tests
+ * Tests that only changed files and their dependents are re-analyzed
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getAffectedFiles } from '../src/watch.js';
+
+describe('getAffectedFiles', () => {
+  let projectDir: string;
+  let files: Record<string, string>;
+
+  const options: ts.CompilerOptions = { strict: true, noEmit: true };
+
+  function write(name: string, content: string): void {
+    files[name] = path.join(projectDir, name).split(path.sep).join('/');
+    fs.writeFileSync(files[name], content);
+  }
+
+  function build(oldProgram?: ts.SemanticDiagnosticsBuilderProgram): ts.SemanticDiagnosticsBuilderProgram {
+    const host = ts.createIncrementalCompilerHost(options);
+    return ts.createSemanticDiagnosticsBuilderProgram(Object.values(files), options, host, oldProgram);
+  }
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-watch-'));
+    files = {};
+    write('client.ts', 'export function load(): Promise<string> { return Promise.resolve("a"); }\n');
+    write('service.ts', 'import { load } from "./client";\nexport async function run() { return load(); }\n');
+    write('other.ts', 'export const value = 1;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should report every file on the first build', () => {
+    const affected = getAffectedFiles(build());
+
+    expect(affected).toEqual(expect.arrayContaining(Object.values(files)));
+  });
+
+  it('should not report files unrelated to the edit', () => {
+    const first = build();
+    getAffectedFiles(first);
+
+    write('other.ts', 'export const value = 2;\n');
+    const affected = getAffectedFiles(build(first));
+
+    expect(affected).toEqual([files['other.ts']]);
+  });
+
+  it('should include dependents when exports change', () => {
+    const first = build();
+    getAffectedFiles(first);
+
+    write('client.ts', 'export function load(): Promise<number> { return Promise.resolve(1); }\n');
+    const affected = getAffectedFiles(build(first));
+
+    expect(affected).toContain(files['client.ts']);
+    expect(affected).toContain(files['service.ts']);
+    expect(affected).not.toContain(files['other.ts']);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Workspace Discovery Tests
+ * Tests finding monorepo packages and merging their package discovery results
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverWorkspaces, mergePackageDiscovery } from '../src/workspaces.js';
+import type { DiscoveredPackage } from '../src/types.js';
+
+describe('discoverWorkspaces', () => {
+  let rootDir: string;
+
+  function write(file: string, content: unknown): void {
+    const fullPath = path.join(rootDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  function addPackage(dir: string, name: string, withTsconfig = true): void {
+    write(`${dir}/package.json`, { name });
+    if (withTsconfig) {
+      write(`${dir}/tsconfig.json`, { include: ['src'] });
+    }
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-cli-workspaces-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should find npm workspaces', async () => {
+    write('package.json', { private: true, workspaces: ['packages/*'] });
+    addPackage('packages/api', '@acme/api');
+    addPackage('packages/web', '@acme/web');
+
+    const { workspaces } = await discoverWorkspaces(rootDir);
+
+    expect(workspaces.map(w => w.name)).toEqual(['@acme/api', '@acme/web']);
+    expect(workspaces[0].tsconfigPath).toBe(path.join(rootDir, 'packages/api/tsconfig.json'));
+  });
+
+  it('should support yarn { packages } and skip packages without tsconfig', async () => {
+    write('package.json', { workspaces: { packages: ['apps/*'] } });
+    addPackage('apps/site', 'site');
+    addPackage('apps/docs', 'docs', false);
+
+    const { workspaces, skipped } = await discoverWorkspaces(rootDir);
+
+    expect(workspaces.map(w => w.name)).toEqual(['site']);
+    expect(skipped).toEqual([{ dir: path.join(rootDir, 'apps/docs'), reason: 'no tsconfig.json' }]);
+  });
+
+  it('should read pnpm-workspace.yaml including exclusions', async () => {
+    write('pnpm-workspace.yaml', "packages:\n  - 'packages/**'\n  - '!packages/fixtures/**'\n");
+    addPackage('packages/core', 'core');
+    addPackage('packages/fixtures/sample', 'sample');
+
+    const { workspaces } = await discoverWorkspaces(rootDir);
+
+    expect(workspaces.map(w => w.name)).toEqual(['core']);
+  });
+
+  it('should follow tsconfig project references', async () => {
+    write('tsconfig.json', { files: [], references: [{ path: './libs/shared' }, { path: './tools/tsconfig.build.json' }] });
+    write('libs/shared/tsconfig.json', { references: [{ path: '../util' }] });
+    write('libs/util/tsconfig.json', {});
+    write('tools/tsconfig.build.json', {});
+
+    const { workspaces } = await discoverWorkspaces(rootDir);
+
+    expect(workspaces.map(w => w.tsconfigPath)).toEqual([
+      path.join(rootDir, 'libs/shared/tsconfig.json'),
+      path.join(rootDir, 'libs/util/tsconfig.json'),
+      path.join(rootDir, 'tools/tsconfig.build.json'),
+    ]);
+    expect(workspaces[0].name).toBe(path.join('libs', 'shared'));
+  });
+
+  it('should return nothing for a single-package repo', async () => {
+    write('package.json', { name: 'app' });
+    write('tsconfig.json', {});
+
+    expect((await discoverWorkspaces(rootDir)).workspaces).toEqual([]);
+  });
+});
+
+describe('mergePackageDiscovery', () => {
+  function pkg(name: string, overrides: Partial<DiscoveredPackage> = {}): DiscoveredPackage {
+    return { name, version: '^1.0.0', source: 'package.json', hasContract: false, usedIn: [], ...overrides };
+  }
+
+  it('should list shared packages once and recount coverage', () => {
+    const merged = mergePackageDiscovery([
+      { total: 2, withContracts: 1, withoutContracts: 1, packages: [pkg('axios', { hasContract: true, usedIn: ['/a.ts'] }), pkg('lodash')] },
+      { total: 1, withContracts: 1, withoutContracts: 0, packages: [pkg('axios', { hasContract: true, source: 'import', usedIn: ['/b.ts'] })] },
+    ]);
+
+    expect(merged.total).toBe(2);
+    expect(merged.withContracts).toBe(1);
+    expect(merged.withoutContracts).toBe(1);
+    expect(merged.packages[0]).toMatchObject({ name: 'axios', source: 'both', usedIn: ['/a.ts', '/b.ts'] });
+  });
+});